@@ -0,0 +1,38 @@
+/**
+ * Pokretanje:
+ *   npm run credentials:encrypt  - šifruje postojeće nešifrovane tokene i lozinke
+ *   npm run credentials:rotate   - prešifruje sve tajne prvim ključem iz CREDENTIALS_ENCRYPTION_KEYS
+ */
+import { config } from 'dotenv'
+
+config({ path: '.env.local' })
+
+async function main() {
+  const mode = process.argv[2]
+  if (mode !== 'encrypt' && mode !== 'rotate') {
+    console.error('Usage: tsx scripts/credentials.ts <encrypt|rotate>')
+    process.exit(1)
+  }
+
+  // Moduli čitaju env pri učitavanju, zato se uvoze tek posle dotenv-a
+  const { default: connectDB } = await import('@/lib/mongodb')
+  const { reencryptCredentials } = await import('@/services/calendar/credentialEncryption')
+  const { getCurrentKeyId } = await import('@/lib/encryption')
+
+  await connectDB()
+
+  const result = await reencryptCredentials(mode)
+  console.log(`🔐 Credentials ${mode === 'encrypt' ? 'encrypted' : 'rotated'} with key "${getCurrentKeyId()}":`, result)
+
+  const { default: mongoose } = await import('mongoose')
+  await mongoose.disconnect()
+
+  if (result.failed > 0) {
+    process.exit(1)
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Credential encryption failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,33 @@
+/**
+ * Pokretanje: npm run worker
+ * Izvršava poslove iz reda (podsetnici, ponovni Google sync, čišćenje) van Next.js procesa
+ */
+import { config } from 'dotenv'
+
+config({ path: '.env.local' })
+
+async function main() {
+  // Moduli čitaju env pri učitavanju, zato se uvoze tek posle dotenv-a
+  const { default: connectDB } = await import('@/lib/mongodb')
+  const { runWorker } = await import('@/services/jobs/worker')
+
+  await connectDB()
+
+  const controller = new AbortController()
+  const stop = () => controller.abort()
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+
+  await runWorker({
+    pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL_MS) || undefined,
+    signal: controller.signal,
+  })
+
+  const { default: mongoose } = await import('mongoose')
+  await mongoose.disconnect()
+}
+
+main().catch(error => {
+  console.error('❌ Job worker crashed:', error)
+  process.exit(1)
+})
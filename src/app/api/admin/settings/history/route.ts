@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminAuth } from '@/lib/adminAuth'
+import { getSettingsHistory } from '@/services/settings/settingsService'
+
+/**
+ * @swagger
+ * /api/admin/settings/history:
+ *   get:
+ *     tags: [Admin Settings]
+ *     summary: Get settings change history
+ *     description: Poslednje izmene podešavanja, ko ih je napravio i koja polja su promenjena (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: History retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 revisions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       version:
+ *                         type: integer
+ *                       changes:
+ *                         type: array
+ *                         items:
+ *                           $ref: '#/components/schemas/SettingsChange'
+ *                       changedBy:
+ *                         type: object
+ *                       changedByEmail:
+ *                         type: string
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       401:
+ *         description: Unauthorized - Admin access required
+ *       403:
+ *         description: Forbidden - Admin role required
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdminAuth(request)
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100)
+
+    const revisions = await getSettingsHistory(limit)
+
+    return NextResponse.json({ revisions })
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : ''
+    if (message.includes('Unauthorized')) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    if (message.includes('Forbidden')) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    console.error('❌ Settings history fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
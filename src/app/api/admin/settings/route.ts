@@ -1,8 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
-import connectDB from '@/lib/mongodb'
+import { z } from 'zod'
 import { requireAdminAuth } from '@/lib/adminAuth'
+import { maskSecretSettings, platformSettingsUpdateSchema } from '@/lib/settings'
+import {
+  SettingsValidationError,
+  SettingsVersionConflictError,
+  getVersionedSettings,
+  updateSettings
+} from '@/services/settings/settingsService'
+
+const updateSettingsSchema = z.object({
+  settings: platformSettingsUpdateSchema,
+  // Verzija koju je admin učitao, izmena se odbija ako je u međuvremenu neko drugi sačuvao
+  version: z.number().int().min(0).optional(),
+})
+
+function authErrorResponse(error: unknown) {
+  const message = error instanceof Error ? error.message : ''
+  if (message.includes('Unauthorized')) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+  if (message.includes('Forbidden')) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+  return null
+}
 
 /**
  * @swagger
@@ -10,7 +32,10 @@ import { requireAdminAuth } from '@/lib/adminAuth'
  *   get:
  *     tags: [Admin Settings]
  *     summary: Get system settings
- *     description: Retrieve all system configuration settings (Admin only)
+ *     description: |
+ *       Podešavanja platforme grupisana po sekcijama (application, booking, email,
+ *       notifications, security, integrations, business) sa trenutnom verzijom.
+ *       Lozinke su maskirane (Admin only)
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -22,17 +47,26 @@ import { requireAdminAuth } from '@/lib/adminAuth'
  *               type: object
  *               properties:
  *                 settings:
- *                   type: object
- *                   description: System settings object
+ *                   $ref: '#/components/schemas/PlatformSettings'
+ *                 version:
+ *                   type: integer
+ *                   description: Verzija podešavanja (0 dok ništa nije sačuvano)
+ *                 updatedAt:
+ *                   type: string
+ *                   format: date-time
+ *                 updatedBy:
+ *                   type: string
+ *                 success:
+ *                   type: boolean
  *       401:
  *         description: Unauthorized - Admin access required
+ *       403:
+ *         description: Forbidden - Admin role required
  *       500:
  *         description: Internal server error
  */
 export async function GET(request: NextRequest) {
   try {
-    await connectDB()
-    
     // Require admin authentication
     const adminUser = await requireAdminAuth(request)
 
@@ -41,78 +75,29 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString()
     })
 
-    // In a real app, you'd have a Settings collection
-    // For now, return default settings with some stored overrides
-    const defaultSettings = {
-      // Application Settings
-      appName: 'Zakazivač',
-      appDescription: 'Professional appointment booking system',
-      defaultTimezone: 'Europe/Belgrade',
-      defaultLanguage: 'sr',
-      defaultCurrency: 'RSD',
-      
-      // Booking Settings
-      defaultBookingDuration: 60,
-      maxAdvanceBookingDays: 90,
-      minAdvanceBookingHours: 2,
-      allowSameDayBooking: true,
-      defaultCancellationHours: 24,
-      
-      // Email Settings
-      emailEnabled: true,
-      smtpHost: process.env.SMTP_HOST || '',
-      smtpPort: parseInt(process.env.SMTP_PORT || '587'),
-      smtpSecure: process.env.SMTP_SECURE === 'true',
-      smtpUser: process.env.SMTP_USER || '',
-      smtpPassword: process.env.SMTP_PASSWORD ? '********' : '', // Mask password
-      fromEmail: process.env.FROM_EMAIL || '',
-      fromName: process.env.FROM_NAME || 'Zakazivač',
-      
-      // Notification Settings
-      bookingConfirmationEmail: true,
-      bookingReminderEmail: true,
-      cancellationNotificationEmail: true,
-      reminderHoursBefore: 24,
-      
-      // Security Settings
-      sessionTimeoutMinutes: 60,
-      maxLoginAttempts: 5,
-      lockoutDurationMinutes: 15,
-      requireEmailVerification: true,
-      passwordMinLength: 8,
-      passwordRequireSpecialChar: true,
-      
-      // File Upload Settings
-      maxFileUploadSize: 5, // MB
-      allowedFileTypes: ['jpg', 'jpeg', 'png', 'pdf'],
-      
-      // Integration Settings
-      googleCalendarEnabled: !!process.env.GOOGLE_CLIENT_ID,
-      enableWebhooks: false,
-      webhookUrl: process.env.WEBHOOK_URL || '',
-      
-      // Business Settings
-      businessName: process.env.BUSINESS_NAME || '',
-      businessAddress: process.env.BUSINESS_ADDRESS || '',
-      businessPhone: process.env.BUSINESS_PHONE || '',
-      businessEmail: process.env.BUSINESS_EMAIL || '',
-      taxRate: parseFloat(process.env.TAX_RATE || '0'),
-      commissionRate: parseFloat(process.env.COMMISSION_RATE || '0')
-    }
+    const { settings, version, updatedAt, updatedBy } = await getVersionedSettings()
 
     console.log('✅ Settings fetched successfully')
-    
-    return NextResponse.json({ 
-      settings: defaultSettings,
-      success: true 
+
+    return NextResponse.json({
+      settings: maskSecretSettings(settings),
+      version,
+      updatedAt,
+      updatedBy,
+      success: true
     })
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) {
+      return authResponse
+    }
+
     console.error('❌ Settings fetch error:', error)
     return NextResponse.json(
-      { 
-        error: 'Internal server error', 
-        details: error instanceof Error ? error.message : 'Unknown error' 
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     )
@@ -125,7 +110,9 @@ export async function GET(request: NextRequest) {
  *   put:
  *     tags: [Admin Settings]
  *     summary: Update system settings
- *     description: Update system configuration settings (Admin only)
+ *     description: |
+ *       Delimična izmena podešavanja po sekcijama. Svaka izmena povećava verziju
+ *       i upisuje se u istoriju (ko je i šta promenio). Maskirana lozinka znači "bez promene" (Admin only)
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -136,16 +123,10 @@ export async function GET(request: NextRequest) {
  *             type: object
  *             properties:
  *               settings:
- *                 type: object
- *                 description: Settings object to update
- *                 properties:
- *                   appName:
- *                     type: string
- *                   defaultTimezone:
- *                     type: string
- *                   defaultBookingDuration:
- *                     type: number
- *                   # ... other setting properties
+ *                 $ref: '#/components/schemas/PlatformSettingsUpdate'
+ *               version:
+ *                 type: integer
+ *                 description: Verzija na koju se izmena odnosi
  *             required:
  *               - settings
  *     responses:
@@ -160,116 +141,91 @@ export async function GET(request: NextRequest) {
  *                   type: boolean
  *                 message:
  *                   type: string
+ *                 settings:
+ *                   $ref: '#/components/schemas/PlatformSettings'
+ *                 version:
+ *                   type: integer
+ *                 changes:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SettingsChange'
  *       400:
  *         description: Invalid request data
  *       401:
  *         description: Unauthorized - Admin access required
+ *       403:
+ *         description: Forbidden - Admin role required
+ *       409:
+ *         description: Podešavanja je u međuvremenu izmenio neko drugi (code SETTINGS_VERSION_CONFLICT)
  *       500:
  *         description: Internal server error
  */
 export async function PUT(request: NextRequest) {
   try {
-    await connectDB()
-    
     // Require admin authentication
     const adminUser = await requireAdminAuth(request)
 
-    const body = await request.json()
-    const { settings } = body
-
-    if (!settings || typeof settings !== 'object') {
+    const parsed = updateSettingsSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Settings object is required' },
+        { error: 'Validation failed', details: parsed.error.issues },
         { status: 400 }
       )
     }
 
     console.log('🔧 Admin updating settings:', {
       adminId: adminUser.id,
-      settingsKeys: Object.keys(settings),
+      sections: Object.keys(parsed.data.settings),
       timestamp: new Date().toISOString()
     })
 
-    // Validate settings
-    const errors = []
-
-    // Validate numeric fields
-    const numericFields = [
-      'defaultBookingDuration', 'maxAdvanceBookingDays', 'minAdvanceBookingHours',
-      'defaultCancellationHours', 'sessionTimeoutMinutes', 'maxLoginAttempts',
-      'lockoutDurationMinutes', 'passwordMinLength', 'maxFileUploadSize',
-      'reminderHoursBefore', 'smtpPort', 'taxRate', 'commissionRate'
-    ]
-
-    for (const field of numericFields) {
-      if (settings[field] !== undefined) {
-        const value = Number(settings[field])
-        if (isNaN(value) || value < 0) {
-          errors.push(`${field} must be a non-negative number`)
-        }
-      }
-    }
-
-    // Validate email format
-    if (settings.fromEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(settings.fromEmail)) {
-      errors.push('fromEmail must be a valid email address')
-    }
+    const result = await updateSettings(parsed.data.settings, {
+      actorId: adminUser.id,
+      actorEmail: adminUser.email,
+      expectedVersion: parsed.data.version,
+    })
 
-    if (settings.businessEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(settings.businessEmail)) {
-      errors.push('businessEmail must be a valid email address')
-    }
+    console.log('✅ Settings updated successfully:', { version: result.version, changes: result.changes.length })
 
-    // Validate webhook URL format
-    if (settings.webhookUrl && settings.webhookUrl.trim()) {
-      try {
-        new URL(settings.webhookUrl)
-      } catch {
-        errors.push('webhookUrl must be a valid URL')
-      }
-    }
+    return NextResponse.json({
+      success: true,
+      message: result.changes.length > 0 ? 'Settings updated successfully' : 'No changes',
+      settings: maskSecretSettings(result.settings),
+      version: result.version,
+      changes: result.changes,
+    })
 
-    // Validate file types
-    if (settings.allowedFileTypes && Array.isArray(settings.allowedFileTypes)) {
-      const validTypes = ['jpg', 'jpeg', 'png', 'gif', 'pdf', 'doc', 'docx', 'txt']
-      const invalidTypes = settings.allowedFileTypes.filter((type: string) => !validTypes.includes(type))
-      if (invalidTypes.length > 0) {
-        errors.push(`Invalid file types: ${invalidTypes.join(', ')}`)
-      }
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) {
+      return authResponse
     }
 
-    if (errors.length > 0) {
+    if (error instanceof SettingsValidationError) {
       return NextResponse.json(
-        { error: 'Validation errors', details: errors },
+        { error: 'Validation failed', details: error.issues },
         { status: 400 }
       )
     }
 
-    // In a real app, you'd save to a Settings collection in MongoDB
-    // For now, we'll just validate and return success
-    // 
-    // Example implementation:
-    // const Settings = mongoose.model('Settings')
-    // await Settings.findOneAndUpdate(
-    //   {},
-    //   { $set: settings },
-    //   { upsert: true, new: true }
-    // )
-
-    console.log('✅ Settings updated successfully')
-    
-    return NextResponse.json({ 
-      success: true,
-      message: 'Settings updated successfully'
-    })
+    if (error instanceof SettingsVersionConflictError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: 'SETTINGS_VERSION_CONFLICT',
+          currentVersion: error.currentVersion,
+        },
+        { status: 409 }
+      )
+    }
 
-  } catch (error) {
     console.error('❌ Settings update error:', error)
     return NextResponse.json(
-      { 
-        error: 'Internal server error', 
-        details: error instanceof Error ? error.message : 'Unknown error' 
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -5,9 +5,19 @@
  *     tags:
  *       - Availability
  *     summary: Dohvata podešavanja dostupnosti providera
- *     description: Vraća kompletan raspored rada i podešavanja dostupnosti trenutno ulogovanog providera
+ *     description: |
+ *       Vraća kompletan raspored rada i podešavanja dostupnosti trenutno ulogovanog providera.
+ *       Sa staffId vraća raspored zaposlenog; dok ga nema, vraća raspored providera
+ *       i usesProviderSchedule: true
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: staffId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Zaposleni čiji se raspored čita ili menja
  *     responses:
  *       200:
  *         description: Podešavanja dostupnosti uspešno dohvaćena
@@ -41,7 +51,9 @@
  *     tags:
  *       - Availability
  *     summary: Ažurira podešavanja dostupnosti
- *     description: Ažurira raspored rada i podešavanja dostupnosti za trenutno ulogovanog providera
+ *     description: |
+ *       Ažurira raspored rada i podešavanja dostupnosti za trenutno ulogovanog providera,
+ *       ili za zaposlenog ako je naveden query parametar staffId
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -54,14 +66,57 @@
  *               weekSchedule:
  *                 type: object
  *                 description: Raspored rada po danima u nedelji
+ *               dateOverrides:
+ *                 type: array
+ *                 description: Izuzeci za konkretne datume (odmor, praznik, posebno radno vreme, dodatni radni dan)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     date:
+ *                       type: string
+ *                       example: "2030-08-01"
+ *                     endDate:
+ *                       type: string
+ *                       description: Poslednji dan perioda (uključen), za višednevni odmor
+ *                       example: "2030-08-15"
+ *                     isEnabled:
+ *                       type: boolean
+ *                       description: false znači da se tog dana ne radi
+ *                     workingHours:
+ *                       type: object
+ *                     breaks:
+ *                       type: array
+ *                     note:
+ *                       type: string
+ *               holidayCalendars:
+ *                 type: array
+ *                 description: Zemlje čiji su državni praznici automatski neradni dani
+ *                 items:
+ *                   type: string
+ *                   enum: [RS, HR, SI, DE, AT]
  *               timezone:
  *                 type: string
  *                 description: Vremenska zona
  *                 example: "Europe/Belgrade"
  *               bufferTime:
  *                 type: number
- *                 description: Vreme između termina u minutima
+ *                 description: Staro podešavanje, važi kao bufferAfterMinutes ako on nije postavljen
  *                 example: 15
+ *               bufferBeforeMinutes:
+ *                 type: number
+ *                 description: Priprema pre svakog termina u minutima
+ *                 example: 5
+ *               bufferAfterMinutes:
+ *                 type: number
+ *                 description: Raspremanje posle svakog termina u minutima
+ *                 example: 10
+ *               slotInterval:
+ *                 description: Razmak između mogućih početaka (15, 30, 60) ili 'back-to-back'
+ *                 oneOf:
+ *                   - type: number
+ *                     enum: [15, 30, 60]
+ *                   - type: string
+ *                     enum: [back-to-back]
  *     responses:
  *       200:
  *         description: Podešavanja uspešno ažurirana
@@ -97,37 +152,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import ProviderProfile from '@/models/ProviderProfile'
 import connectDB from '@/lib/mongodb'
+import { availabilitySchema, DEFAULT_AVAILABILITY } from '@/lib/availability'
+import { findProviderStaffMember } from '@/services/staff/staffMembers'
 import { z } from 'zod'
-import mongoose from 'mongoose'
-
-const timeSlotSchema = z.object({
-  start: z.string(),
-  end: z.string()
-})
-
-const dayScheduleSchema = z.object({
-  isEnabled: z.boolean(),
-  workingHours: timeSlotSchema,
-  breaks: z.array(timeSlotSchema)
-})
-
-const weekScheduleSchema = z.object({
-  monday: dayScheduleSchema,
-  tuesday: dayScheduleSchema,
-  wednesday: dayScheduleSchema,
-  thursday: dayScheduleSchema,
-  friday: dayScheduleSchema,
-  saturday: dayScheduleSchema,
-  sunday: dayScheduleSchema
-})
-
-const availabilitySchema = z.object({
-  weekSchedule: weekScheduleSchema,
-  bufferTime: z.number().min(0).max(120),
-  advanceBookingDays: z.number().min(1).max(365),
-  minimumNoticeHours: z.number().min(0).max(168),
-  timezone: z.string()
-})
 
 export async function GET(req: NextRequest) {
   try {
@@ -151,20 +178,21 @@ export async function GET(req: NextRequest) {
     }
 
     // Return availability settings (default if not set)
-    const availability = providerProfile.availabilitySettings || {
-      weekSchedule: {
-        monday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
-        tuesday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
-        wednesday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
-        thursday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
-        friday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
-        saturday: { isEnabled: false, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
-        sunday: { isEnabled: false, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
-      },
-      bufferTime: 15,
-      advanceBookingDays: 30,
-      minimumNoticeHours: 2,
-      timezone: 'Europe/Belgrade'
+    const availability = providerProfile.availabilitySettings || DEFAULT_AVAILABILITY
+    
+    const staffId = new URL(req.url).searchParams.get('staffId')
+    if (staffId) {
+      const staffMember = await findProviderStaffMember(providerProfile._id, staffId)
+      if (!staffMember) {
+        return NextResponse.json({ error: 'Staff member not found' }, { status: 404 })
+      }
+      
+      // Zaposleni bez sopstvenog rasporeda radi po rasporedu providera
+      return NextResponse.json({
+        availability: staffMember.availabilitySettings || availability,
+        staffMember: { _id: staffMember._id, name: staffMember.name },
+        usesProviderSchedule: !staffMember.availabilitySettings,
+      })
     }
     
     return NextResponse.json({ availability })
@@ -194,6 +222,25 @@ export async function POST(req: NextRequest) {
     
     await connectDB()
     
+    const staffId = new URL(req.url).searchParams.get('staffId')
+    if (staffId) {
+      const providerProfile = await ProviderProfile.findOne({ userId: session.user.id })
+      const staffMember = providerProfile && await findProviderStaffMember(providerProfile._id, staffId)
+      if (!staffMember) {
+        return NextResponse.json({ error: 'Staff member not found' }, { status: 404 })
+      }
+      
+      // Vremenska zona je zajednička, zadaje je provider
+      staffMember.availabilitySettings = validatedData
+      staffMember.markModified('availabilitySettings')
+      await staffMember.save()
+      
+      return NextResponse.json({
+        message: 'Availability settings saved successfully',
+        availability: validatedData
+      })
+    }
+    
     // Get provider profile
     let providerProfile = await ProviderProfile.findOne({ userId: session.user.id })
     
@@ -1,12 +1,229 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import Booking from '@/models/Booking'
+import Booking, { IBookingLineItem } from '@/models/Booking'
 import ProviderProfile from '@/models/ProviderProfile'
-import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
-import { deleteGoogleCalendarEvent } from '@/services/calendar/googleCalendarService'
+import Service from '@/models/Service'
+import { getBookingCalendarProvider } from '@/services/calendar/calendarProviders'
+import { scheduleBookingSync, syncBooking } from '@/services/calendar/bookingSync'
+import {
+  findAvailableSlot,
+  getProviderTimezone,
+  warmCalendarBusyTimes
+} from '@/services/calendar/slotGeneration'
+import { BookingLockTimeoutError, withProviderBookingLock } from '@/services/booking/bookingLock'
+import {
+  BookingPolicyError,
+  applyServiceBookingRules,
+  assertCancellationAllowed,
+  assertWithinBookingWindow,
+  getBookingPolicy
+} from '@/services/booking/bookingPolicy'
+import {
+  BOOKING_ACTIONS,
+  BookingActor,
+  BookingActorRole,
+  BookingTransitionError,
+  RESCHEDULABLE_STATUSES,
+  RESCHEDULE_ACTION,
+  assertReschedulable,
+  rescheduleBooking,
+  saveTransition,
+  transitionBooking
+} from '@/services/booking/bookingStatus'
+import { notifyBooking } from '@/services/booking/bookingNotifications'
+import { ServiceBundle, ServiceBundleError, findServiceBundle } from '@/services/booking/serviceBundles'
+import { BookingEmailEvent } from '@/services/emailService'
+import { offerFreedTime } from '@/services/waitlist/waitlist'
 import connectDB from '@/lib/mongodb'
+import { z } from 'zod'
+import { addMinutes } from 'date-fns'
 
+const bookingActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.enum(BOOKING_ACTIONS),
+    reason: z.string().trim().max(500).optional(),
+    // Kod otkazivanja termina iz serije: samo ovaj ili i svi kasniji
+    scope: z.enum(['occurrence', 'following']).optional(),
+  }),
+  z.object({
+    action: z.literal(RESCHEDULE_ACTION),
+    start: z.string(), // ISO date string
+    reason: z.string().trim().max(500).optional(),
+  }),
+])
+
+// Akcije posle kojih klijent i provider dobijaju email
+const ACTION_EMAIL_EVENTS: Partial<Record<string, BookingEmailEvent>> = {
+  approve: 'approved',
+  decline: 'cancelled',
+  cancel: 'cancelled',
+  [RESCHEDULE_ACTION]: 'rescheduled',
+}
+
+type BookingDocument = InstanceType<typeof Booking>
+type ProviderProfileDocument = InstanceType<typeof ProviderProfile>
+type ServiceDocument = InstanceType<typeof Service> | ServiceBundle
+
+/**
+ * Pomera rezervaciju na novi termin
+ * Provera dostupnosti i upis idu pod istim lock-om kao i kreiranje rezervacije
+ * Vraća false ako novi termin nije slobodan
+ */
+async function moveBooking(
+  booking: BookingDocument,
+  providerProfile: ProviderProfileDocument,
+  service: ServiceDocument,
+  start: Date,
+  actor: BookingActor,
+  reason?: string
+): Promise<boolean> {
+  const end = addMinutes(start, service.durationMinutes)
+  const staffId = booking.staffId?.toString()
+  
+  // Spoljni kalendari se čitaju pre lock-a, pod lock-om samo baza
+  await warmCalendarBusyTimes(providerProfile, service, [start], { staffId })
+  
+  const moved = await withProviderBookingLock(providerProfile._id.toString(), async () => {
+    // Sopstveni trenutni termin rezervacije ne blokira novi
+    // Termin ostaje kod istog zaposlenog; nedodeljen dobija prvog slobodnog
+    const slot = await findAvailableSlot(providerProfile, service, start, {
+      excludeBookingId: booking._id.toString(),
+      staffId,
+      cachedCalendarOnly: true,
+    })
+    if (!slot) {
+      return false
+    }
+    
+    rescheduleBooking(booking, { start, end }, actor, { reason })
+    if (!booking.staffId && slot.staffIds?.length) {
+      booking.staffId = slot.staffIds[0]
+    }
+    // Novi termin zauzima resurse koje usluga sada traži
+    booking.resourceIds = service.resourceIds
+    // Podsetnik se šalje ponovo za novo vreme
+    booking.reminderSentAt = undefined
+    booking.externalChange = undefined
+    await booking.save()
+    return true
+  })
+  
+  if (!moved) {
+    return false
+  }
+  
+  // Postojeći Google događaj se pomera, ne briše i ponovo kreira
+  if (booking.googleEventId) {
+    await syncBooking(booking)
+  }
+  
+  return true
+}
+
+/**
+ * Kalendar, email i lista čekanja posle promene rezervacije
+ */
+async function publishBookingChange(booking: BookingDocument, action: string) {
+  // Otkazan termin se briše iz Google kalendara
+  if (booking.status === 'cancelled' && booking.googleEventId) {
+    await syncBooking(booking)
+  }
+  
+  // Neuspeli sync (brisanje ili pomeranje događaja) ponavlja worker
+  if (booking.syncStatus === 'failed') {
+    await scheduleBookingSync(booking._id.toString())
+  }
+  
+  const emailEvent = ACTION_EMAIL_EVENTS[action]
+  if (emailEvent) {
+    await notifyBooking(booking, emailEvent)
+  }
+  
+  // Oslobođen termin se nudi klijentima sa liste čekanja, redom kojim su se prijavili
+  if (booking.status === 'cancelled') {
+    await offerFreedTime(booking.providerId.toString(), booking)
+  }
+}
+
+/**
+ * @swagger
+ * /api/booking/{id}:
+ *   patch:
+ *     tags:
+ *       - Bookings
+ *     summary: Promena statusa rezervacije
+ *     description: |
+ *       Primenjuje akciju nad rezervacijom. Klijent može da otkaže (cancel),
+ *       provider može da odobri (approve), odbije (decline), otkaže (cancel),
+ *       a posle početka termina i da označi kao završen (complete) ili nedolazak (no_show).
+ *       Obe strane mogu da pomere termin (reschedule) na novi slobodan početak;
+ *       prvobitno vreme se čuva u originalStart/originalEnd.
+ *       Svaka promena se upisuje u statusHistory.
+ *       Otkazan termin se nudi klijentima sa liste čekanja (vidi /api/waitlist).
+ *       Termin iz serije se otkazuje sam (scope: occurrence) ili zajedno sa svim kasnijim
+ *       terminima serije (scope: following).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [approve, decline, cancel, complete, no_show, reschedule]
+ *               start:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Novi početak termina (obavezno za reschedule)
+ *               reason:
+ *                 type: string
+ *                 description: Opcioni razlog (npr. kod odbijanja)
+ *               scope:
+ *                 type: string
+ *                 enum: [occurrence, following]
+ *                 description: Za cancel termina iz serije; following otkazuje i sve kasnije termine serije
+ *     responses:
+ *       200:
+ *         description: Status uspešno promenjen (cancelledCount je broj otkazanih termina serije)
+ *       400:
+ *         description: Nepoznata akcija ili neispravan početak termina
+ *       401:
+ *         description: Neautorizovani pristup
+ *       403:
+ *         description: Korisnik nema pravo na ovu akciju
+ *       404:
+ *         description: Rezervacija nije pronađena
+ *       409:
+ *         description: |
+ *           Prelaz nije dozvoljen iz trenutnog statusa, novi termin nije slobodan,
+ *           ili je rezervaciju u međuvremenu promenio neko drugi (code: BOOKING_CHANGED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *       422:
+ *         description: |
+ *           Pravila zakazivanja nisu ispunjena (code: CANCELLATION_WINDOW_PASSED, BOOKING_TOO_SOON,
+ *           BOOKING_TOO_FAR_AHEAD, SAME_DAY_BOOKING_NOT_ALLOWED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *       503:
+ *         description: Provider trenutno obrađuje druge rezervacije, pokušajte ponovo
+ */
 export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -17,14 +234,14 @@ export async function PATCH(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
     
-    const { action } = await req.json()
-    
-    if (action !== 'cancel') {
+    const parsed = bookingActionSchema.safeParse(await req.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Invalid action. Only "cancel" is supported' },
+        { error: `Invalid action. Supported actions: ${[...BOOKING_ACTIONS, RESCHEDULE_ACTION].join(', ')}` },
         { status: 400 }
       )
     }
+    const data = parsed.data
     
     await connectDB()
     
@@ -36,45 +253,102 @@ export async function PATCH(
       return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
     }
     
-    // Check if user can cancel this booking
-    const canCancel = booking.clientId.toString() === session.user.id ||
-      (session.user.roles?.includes('provider') && 
-       await ProviderProfile.exists({ userId: session.user.id, _id: booking.providerId }))
+    const providerProfile = await ProviderProfile.findById(booking.providerId)
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+    
+    // Provider role wins if the user is both the client and the provider of this booking
+    const isProvider = !!session.user.roles?.includes('provider') &&
+      providerProfile.userId.toString() === session.user.id
+    const isClient = booking.clientId.toString() === session.user.id
     
-    if (!canCancel) {
+    if (!isProvider && !isClient) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
     
-    // Update booking status
-    booking.status = 'cancelled'
-    await booking.save()
+    const actorRole: BookingActorRole = isProvider ? 'provider' : 'client'
+    const actor = { id: session.user.id, role: actorRole }
+    const policy = await getBookingPolicy(providerProfile)
+    // Kasniji termini serije otkazani zajedno sa ovim
+    const following: BookingDocument[] = []
     
-    // Try to delete Google Calendar event
-    if (booking.googleEventId) {
-      try {
-        const googleIntegration = await ProviderGoogleIntegration.findOne({
-          providerId: booking.providerId,
-          isActive: true,
-        })
+    try {
+      if (data.action === RESCHEDULE_ACTION) {
+        const start = new Date(data.start)
+        if (isNaN(start.getTime())) {
+          return NextResponse.json({ error: 'Invalid start time' }, { status: 400 })
+        }
+        
+        assertReschedulable(booking)
+        // Za klijenta pomeranje je isto što i otkazivanje starog termina
+        if (actorRole === 'client') {
+          assertCancellationAllowed(booking, policy)
+        }
+        // Termin sa više usluga se pomera sa zbirnim trajanjem svih stavki
+        const service: ServiceDocument | null = booking.items && booking.items.length > 1
+          ? await findServiceBundle(booking.providerId, booking.items.map((item: IBookingLineItem) => item.serviceId.toString()))
+          : await Service.findById(booking.serviceId)
+        if (!service) {
+          return NextResponse.json({ error: 'Service not found' }, { status: 404 })
+        }
+        assertWithinBookingWindow(start, applyServiceBookingRules(policy, service), getProviderTimezone(providerProfile))
         
-        if (googleIntegration) {
-          const deleted = await deleteGoogleCalendarEvent(
-            googleIntegration,
-            booking.googleEventId
+        const moved = await moveBooking(booking, providerProfile, service, start, actor, data.reason)
+        if (!moved) {
+          return NextResponse.json(
+            { error: 'This time slot is no longer available' },
+            { status: 409 }
           )
-          
-          if (deleted) {
-            booking.syncStatus = 'ok'
-          } else {
-            booking.syncStatus = 'failed'
+        }
+      } else {
+        if (data.action === 'cancel' && actorRole === 'client') {
+          assertCancellationAllowed(booking, policy)
+        }
+        const from = booking.status
+        transitionBooking(booking, data.action, actor, { reason: data.reason })
+        await saveTransition(booking, from)
+        
+        if (data.action === 'cancel' && data.scope === 'following' && booking.seriesId) {
+          const candidates: BookingDocument[] = await Booking.find({
+            seriesId: booking.seriesId,
+            start: { $gt: booking.start },
+            status: { $in: RESCHEDULABLE_STATUSES },
+          }).sort({ start: 1 })
+          for (const next of candidates) {
+            const nextFrom = next.status
+            transitionBooking(next, 'cancel', actor, { reason: data.reason })
+            try {
+              await saveTransition(next, nextFrom)
+              following.push(next)
+            } catch (error) {
+              // Termin koji je u međuvremenu promenio neko drugi ostaje kako jeste
+              if (!(error instanceof BookingTransitionError)) throw error
+            }
           }
-          await booking.save()
         }
-      } catch (error) {
-        console.error('Error deleting Google Calendar event:', error)
-        booking.syncStatus = 'failed'
-        await booking.save()
       }
+    } catch (error) {
+      if (error instanceof BookingTransitionError || error instanceof BookingPolicyError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.status }
+        )
+      }
+      if (error instanceof ServiceBundleError) {
+        return NextResponse.json({ error: error.message }, { status: error.status })
+      }
+      if (error instanceof BookingLockTimeoutError) {
+        return NextResponse.json(
+          { error: 'Provider is busy processing other bookings, please try again' },
+          { status: 503 }
+        )
+      }
+      throw error
+    }
+    
+    for (const changed of [booking, ...following]) {
+      await publishBookingChange(changed, data.action)
     }
     
     await booking.populate([
@@ -83,7 +357,10 @@ export async function PATCH(
       { path: 'clientId', select: 'name email' }
     ])
     
-    return NextResponse.json({ booking })
+    return NextResponse.json({
+      booking,
+      ...(data.action === 'cancel' && data.scope === 'following' && { cancelledCount: following.length + 1 }),
+    })
   } catch (error) {
     console.error('Error updating booking:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -116,20 +393,17 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
     
-    // Delete Google Calendar event if exists
+    // Delete calendar event if exists
     if (booking.googleEventId) {
       try {
-        const googleIntegration = await ProviderGoogleIntegration.findOne({
-          providerId: booking.providerId,
-          isActive: true,
-        })
+        const calendar = await getBookingCalendarProvider(booking)
         
-        if (googleIntegration) {
-          await deleteGoogleCalendarEvent(googleIntegration, booking.googleEventId)
+        if (calendar) {
+          await calendar.deleteEvent(booking.googleEventId)
         }
       } catch (error) {
-        console.error('Error deleting Google Calendar event:', error)
-        // Continue with booking deletion even if Google Calendar deletion fails
+        console.error('Error deleting calendar event:', error)
+        // Continue with booking deletion even if calendar deletion fails
       }
     }
     
@@ -4,20 +4,194 @@ import { authOptions } from '@/lib/auth'
 import Booking from '@/models/Booking'
 import Service from '@/models/Service'
 import ProviderProfile from '@/models/ProviderProfile'
-import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
-import User from '@/models/User'
-import { getBusyIntervalsForProviderOnDate } from '@/services/calendar/slotGeneration'
-import { createGoogleCalendarEvent, deleteGoogleCalendarEvent } from '@/services/calendar/googleCalendarService'
+import StaffMember from '@/models/StaffMember'
+import {
+  TimeSlot,
+  findAvailableSlot,
+  getProviderTimezone,
+  isValidDateString,
+  warmCalendarBusyTimes
+} from '@/services/calendar/slotGeneration'
+import { BookingLockTimeoutError, withProviderBookingLock } from '@/services/booking/bookingLock'
+import { recordStatusChange } from '@/services/booking/bookingStatus'
+import {
+  applyServiceBookingRules,
+  getBookingPolicy,
+  getBookingWindowViolation
+} from '@/services/booking/bookingPolicy'
+import { notifyBooking } from '@/services/booking/bookingNotifications'
+import { scheduleBookingSync, syncBooking } from '@/services/calendar/bookingSync'
+import { performsService } from '@/services/staff/staffMembers'
+import {
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_FREQUENCIES,
+  checkSeriesOccurrences,
+  getOccurrenceStarts
+} from '@/services/booking/recurringBookings'
+import {
+  MAX_BUNDLE_SERVICES,
+  ServiceBundle,
+  ServiceBundleError,
+  findServiceBundle,
+  getLineItems
+} from '@/services/booking/serviceBundles'
+import { claimWaitlistOffer, findClaimableOffer } from '@/services/waitlist/waitlist'
 import connectDB from '@/lib/mongodb'
+import mongoose from 'mongoose'
 import { z } from 'zod'
 import { addMinutes } from 'date-fns'
 
 const bookingSchema = z.object({
   providerId: z.string(),
-  serviceId: z.string(),
+  serviceId: z.string().optional(),
+  // Više usluga redom u jednom terminu (npr. šišanje pa brijanje)
+  serviceIds: z.array(z.string().refine(id => mongoose.isValidObjectId(id), 'Invalid service ID'))
+    .min(1)
+    .max(MAX_BUNDLE_SERVICES)
+    .refine(ids => new Set(ids).size === ids.length, 'Each service can be added only once')
+    .optional(),
   start: z.string(), // ISO date string
+  // Bez zaposlenog termin dobija prvi slobodan zaposleni
+  staffId: z.string().refine(id => mongoose.isValidObjectId(id), 'Invalid staff ID').optional(),
+  // Preuzimanje termina zadržanog sa liste čekanja
+  waitlistEntryId: z.string().optional(),
+  // Serija ponavljajućih termina od start-a
+  recurrence: z.object({
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    count: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+    until: z.string().refine(isValidDateString, 'Invalid date').optional(),
+    // Zakaži samo slobodne termine umesto da cela serija bude odbijena
+    skipConflicts: z.boolean().optional(),
+  }).refine(recurrence => recurrence.count || recurrence.until, 'Either count or until is required').optional(),
   note: z.string().optional(),
-})
+}).refine(data => data.serviceId || data.serviceIds?.length, 'Either serviceId or serviceIds is required')
+  .refine(data => !data.recurrence || !data.waitlistEntryId, 'A waitlist offer cannot start a recurring series')
+  .refine(data => (data.serviceIds?.length ?? 1) === 1 || !data.waitlistEntryId, 'A waitlist offer is for a single service')
+
+type BookingRequest = z.infer<typeof bookingSchema>
+type ProviderProfileDocument = InstanceType<typeof ProviderProfile>
+// Jedna usluga ili više usluga spojenih u jedan termin
+type BookableService = InstanceType<typeof Service> | ServiceBundle
+
+/**
+ * Nova rezervacija klijenta u slobodnom terminu, sa prvim upisom u statusHistory
+ */
+function newClientBooking(
+  clientId: string,
+  providerProfile: ProviderProfileDocument,
+  service: BookableService,
+  slot: TimeSlot,
+  fields: { note?: string; seriesId?: mongoose.Types.ObjectId } = {}
+) {
+  // Providers with manual approval get new bookings as 'pending'
+  const status = providerProfile.bookingPolicy?.requiresApproval ? 'pending' : 'confirmed'
+  const booking = new Booking({
+    providerId: providerProfile._id,
+    serviceId: service._id,
+    clientId,
+    // Prvi slobodan zaposleni, ako klijent nije izabrao
+    staffId: slot.staffIds?.[0],
+    resourceIds: service.resourceIds,
+    start: slot.start,
+    end: addMinutes(slot.start, service.durationMinutes),
+    ...('parts' in service && { items: getLineItems(service) }),
+    ...fields,
+    status,
+  })
+  recordStatusChange(booking, {
+    from: null,
+    to: status,
+    action: 'create',
+    actor: { id: clientId, role: 'client' },
+  })
+  return booking
+}
+
+/**
+ * Kalendar i email za novu rezervaciju
+ */
+async function publishNewBooking(booking: InstanceType<typeof Booking>) {
+  // Neuspeli sync ponavlja worker
+  if (!(await syncBooking(booking))) {
+    await scheduleBookingSync(booking._id.toString())
+  }
+  
+  await notifyBooking(booking, 'created')
+}
+
+/**
+ * Kreira seriju ponavljajućih termina
+ * Svi termini se proveravaju unapred pod lock-om providera; ako neki nije slobodan ništa se ne upisuje
+ * i odgovor navodi koji termini ne mogu i zašto, osim kada klijent sa skipConflicts traži samo slobodne
+ */
+async function createBookingSeries(
+  clientId: string,
+  providerProfile: ProviderProfileDocument,
+  service: BookableService,
+  start: Date,
+  data: BookingRequest & { recurrence: NonNullable<BookingRequest['recurrence']> }
+) {
+  const timezone = getProviderTimezone(providerProfile)
+  const policy = applyServiceBookingRules(await getBookingPolicy(providerProfile), service)
+  const starts = getOccurrenceStarts(start, data.recurrence, timezone)
+  const seriesId = new mongoose.Types.ObjectId()
+  
+  // Spoljni kalendari se čitaju pre lock-a, pod lock-om samo baza
+  await warmCalendarBusyTimes(providerProfile, service, starts, { staffId: data.staffId })
+  
+  const result = await withProviderBookingLock(providerProfile._id.toString(), async () => {
+    const occurrences = await checkSeriesOccurrences(providerProfile, service, starts, {
+      clientId,
+      policy,
+      timezone,
+      staffId: data.staffId,
+      cachedCalendarOnly: true,
+    })
+    const conflicts = occurrences
+      .filter(occurrence => !occurrence.slot)
+      .map(({ start, error }) => ({ start, error }))
+    
+    if (conflicts.length === occurrences.length || (conflicts.length && !data.recurrence.skipConflicts)) {
+      return { bookings: [], conflicts }
+    }
+    
+    const bookings = []
+    for (const occurrence of occurrences) {
+      if (occurrence.slot) {
+        const booking = newClientBooking(clientId, providerProfile, service, occurrence.slot, {
+          note: data.note,
+          seriesId,
+        })
+        await booking.save()
+        bookings.push(booking)
+      }
+    }
+    return { bookings, conflicts }
+  })
+  
+  if (!result.bookings.length) {
+    return NextResponse.json(
+      {
+        error: result.conflicts.length === starts.length
+          ? 'None of the dates in the series are available'
+          : 'Some dates in the series are not available',
+        conflicts: result.conflicts,
+        // Koliko termina bi se zakazalo sa skipConflicts
+        availableCount: starts.length - result.conflicts.length,
+      },
+      { status: 409 }
+    )
+  }
+  
+  for (const booking of result.bookings) {
+    await publishNewBooking(booking)
+  }
+  
+  return NextResponse.json(
+    { seriesId, bookings: result.bookings, skipped: result.conflicts },
+    { status: 201 }
+  )
+}
 
 /**
  * @swagger
@@ -82,10 +256,12 @@ export async function GET(req: NextRequest) {
     }
     
     const bookings = await Booking.find(query)
-      .populate('serviceId', 'name duration price')
-      .populate('providerId', 'businessName')
+      .populate('serviceId', 'name durationMinutes price maxParticipants')
+      .populate('providerId', 'businessName contactInfo.address timezone')
       .populate('clientId', 'name email')
-      .select('_id serviceId providerId clientId start end status note syncStatus createdAt')
+      .populate('staffId', 'name')
+      .populate('resourceIds', 'name')
+      .select('_id serviceId providerId clientId staffId resourceIds seriesId items start end originalStart status statusHistory note syncStatus externalChange createdAt')
       .sort({ start: -1 })
       .lean()
       .limit(50) // Ograniči na poslednih 50 booking-a
@@ -108,7 +284,12 @@ export async function GET(req: NextRequest) {
  *     tags:
  *       - Bookings
  *     summary: Kreiranje nove rezervacije
- *     description: Kreira novu rezervaciju za ulogovanog klijenta
+ *     description: |
+ *       Kreira novu rezervaciju za ulogovanog klijenta. Ako provider zahteva ručno
+ *       odobrenje, rezervacija dobija status 'pending', inače 'confirmed'.
+ *       Sa recurrence se kreira serija termina (nedeljno, na dve nedelje ili mesečno) u istom
+ *       lokalnom vremenu. Svi termini se proveravaju unapred; ako neki nije slobodan, odgovor je 409
+ *       sa listom conflicts i ništa se ne zakazuje, osim kada je skipConflicts true.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -119,7 +300,6 @@ export async function GET(req: NextRequest) {
  *             type: object
  *             required:
  *               - providerId
- *               - serviceId
  *               - start
  *             properties:
  *               providerId:
@@ -130,18 +310,59 @@ export async function GET(req: NextRequest) {
  *                 type: string
  *                 description: ID usluge
  *                 example: "507f1f77bcf86cd799439012"
+ *               serviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 maxItems: 5
+ *                 description: |
+ *                   Više usluga redom u jednom terminu (umesto serviceId). Trajanje i cena su
+ *                   zbir usluga, a rezervacija ih čuva kao stavke (items)
  *               start:
  *                 type: string
  *                 format: date-time
  *                 description: Početno vreme rezervacije (ISO string)
  *                 example: "2025-11-20T10:00:00.000Z"
+ *               staffId:
+ *                 type: string
+ *                 description: |
+ *                   Zaposleni kod koga se zakazuje. Bez njega termin dobija
+ *                   prvi slobodan zaposleni koji radi uslugu
+ *               waitlistEntryId:
+ *                 type: string
+ *                 description: |
+ *                   Ponuda sa liste čekanja koja se preuzima. Termin zadržan za klijenta
+ *                   je slobodan samo uz ovaj ID dok zadržavanje ne istekne
+ *               recurrence:
+ *                 type: object
+ *                 description: Serija ponavljajućih termina od start-a (potrebno count ili until)
+ *                 required:
+ *                   - frequency
+ *                 properties:
+ *                   frequency:
+ *                     type: string
+ *                     enum: [weekly, biweekly, monthly]
+ *                   count:
+ *                     type: integer
+ *                     minimum: 2
+ *                     maximum: 52
+ *                     description: Ukupan broj termina, uključujući prvi
+ *                   until:
+ *                     type: string
+ *                     description: Poslednji dan serije (lokalni datum providera)
+ *                     example: "2026-03-31"
+ *                   skipConflicts:
+ *                     type: boolean
+ *                     description: Zakaži samo slobodne termine serije
  *               note:
  *                 type: string
  *                 description: Dodatne napomene za rezervaciju
  *                 example: "Molim vas da me kontaktirate unapred"
  *     responses:
  *       201:
- *         description: Rezervacija uspešno kreirana
+ *         description: |
+ *           Rezervacija uspešno kreirana. Za seriju odgovor sadrži seriesId, bookings
+ *           i skipped (preskočeni termini sa razlogom)
  *         content:
  *           application/json:
  *             schema:
@@ -149,11 +370,21 @@ export async function GET(req: NextRequest) {
  *               properties:
  *                 booking:
  *                   $ref: '#/components/schemas/Booking'
+ *                 seriesId:
+ *                   type: string
+ *                 bookings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Booking'
+ *                 skipped:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SeriesConflict'
  *                 message:
  *                   type: string
  *                   example: "Booking created successfully"
  *       400:
- *         description: Neispravni podaci ili slot nije dostupan
+ *         description: Neispravni podaci
  *         content:
  *           application/json:
  *             schema:
@@ -165,7 +396,35 @@ export async function GET(req: NextRequest) {
  *             schema:
  *               $ref: '#/components/schemas/ApiError'
  *       404:
- *         description: Provider ili servis nije pronađen
+ *         description: Provider, servis ili zaposleni nije pronađen
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *       409:
+ *         description: |
+ *           Termin više nije dostupan (zauzet, van radnog vremena, van prozora usluge,
+ *           popunjen dnevni limit usluge, potrebna prostorija/uređaj zauzet ili je grupni
+ *           termin popunjen), ili je klijent već prijavljen u taj grupni termin,
+ *           ili je ponuda sa liste čekanja istekla. Za seriju, conflicts navodi termine koji nisu slobodni
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiError'
+ *                 - type: object
+ *                   properties:
+ *                     conflicts:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/SeriesConflict'
+ *                     availableCount:
+ *                       type: integer
+ *                       description: Broj slobodnih termina serije (zakazuju se sa skipConflicts)
+ *       422:
+ *         description: |
+ *           Termin je van dozvoljenog prozora za zakazivanje
+ *           (code: BOOKING_TOO_SOON, BOOKING_TOO_FAR_AHEAD, SAME_DAY_BOOKING_NOT_ALLOWED)
  *         content:
  *           application/json:
  *             schema:
@@ -176,6 +435,12 @@ export async function GET(req: NextRequest) {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ApiError'
+ *       503:
+ *         description: Provider trenutno obrađuje druge rezervacije, pokušajte ponovo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
  */
 export async function POST(req: NextRequest) {
   try {
@@ -193,80 +458,130 @@ export async function POST(req: NextRequest) {
     
     await connectDB()
     
-    // Get service to calculate end time
-    const service = await Service.findById(validatedData.serviceId)
+    const providerProfile = await ProviderProfile.findById(validatedData.providerId)
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+    
+    // Više usluga redom je jedan termin sa zbirnim trajanjem
+    const serviceIds = validatedData.serviceIds ?? [validatedData.serviceId!]
+    const service: BookableService | null = serviceIds.length > 1
+      ? await findServiceBundle(providerProfile._id, serviceIds)
+      : await Service.findOne({
+        _id: serviceIds[0],
+        providerId: providerProfile._id,
+      })
     if (!service) {
       return NextResponse.json({ error: 'Service not found' }, { status: 404 })
     }
     
+    if (validatedData.staffId) {
+      const staffMember = await StaffMember.findOne({
+        _id: validatedData.staffId,
+        providerId: providerProfile._id,
+        isActive: true,
+      })
+      if (!staffMember || !serviceIds.every(serviceId => performsService(staffMember, serviceId))) {
+        return NextResponse.json({ error: 'Staff member not found' }, { status: 404 })
+      }
+    }
+    
     const start = new Date(validatedData.start)
-    const end = addMinutes(start, service.durationMinutes)
+    if (isNaN(start.getTime())) {
+      return NextResponse.json({ error: 'Invalid start time' }, { status: 400 })
+    }
     
-    // Validate that the slot is still available
-    const busyIntervals = await getBusyIntervalsForProviderOnDate(
-      validatedData.providerId,
-      start
-    )
+    if (validatedData.recurrence) {
+      return createBookingSeries(session.user.id, providerProfile, service, start, {
+        ...validatedData,
+        recurrence: validatedData.recurrence,
+      })
+    }
     
-    const isSlotBusy = busyIntervals.some(interval =>
-      (start < interval.end && end > interval.start)
-    )
+    // Pravila zakazivanja (admin podešavanja + override providera + pravila usluge)
+    const policy = applyServiceBookingRules(await getBookingPolicy(providerProfile), service)
+    const policyViolation = getBookingWindowViolation(start, policy, getProviderTimezone(providerProfile))
+    if (policyViolation) {
+      return NextResponse.json(
+        { error: policyViolation.message, code: policyViolation.code },
+        { status: policyViolation.status }
+      )
+    }
     
-    if (isSlotBusy) {
+    // Zadržan termin sa liste čekanja preuzima samo klijent kome je ponuđen, za istu uslugu i početak
+    const waitlistEntry = validatedData.waitlistEntryId
+      ? await findClaimableOffer(validatedData.waitlistEntryId, session.user.id)
+      : null
+    if (validatedData.waitlistEntryId && (
+      !waitlistEntry ||
+      !waitlistEntry.serviceId.equals(service._id) ||
+      waitlistEntry.offer.start.getTime() !== start.getTime()
+    )) {
       return NextResponse.json(
-        { error: 'This time slot is no longer available' },
+        { error: 'This waitlist offer has expired' },
         { status: 409 }
       )
     }
     
-    // Create booking
-    const booking = await Booking.create({
-      providerId: validatedData.providerId,
-      serviceId: validatedData.serviceId,
-      clientId: session.user.id,
-      start,
-      end,
-      note: validatedData.note,
-      status: 'confirmed',
-    })
+    const staffId = validatedData.staffId || waitlistEntry?.offer.staffId?.toString()
     
-    // Try to create Google Calendar event
-    try {
-      const googleIntegration = await ProviderGoogleIntegration.findOne({
-        providerId: validatedData.providerId,
-        isActive: true,
-      })
-      
-      if (googleIntegration) {
-        const client = await User.findById(session.user.id)
-        const googleEventId = await createGoogleCalendarEvent(googleIntegration, {
+    // Spoljni kalendari (spori HTTP pozivi) se čitaju pre lock-a, pod lock-om samo baza
+    await warmCalendarBusyTimes(providerProfile, service, [start], { staffId })
+    
+    // Availability check and insert run under a per-provider lock,
+    // so concurrent requests for the same slot cannot both succeed
+    const result = await withProviderBookingLock(providerProfile._id.toString(), async () => {
+      // Klijent se u isti grupni termin prijavljuje samo jednom; pod lock-om, da dva istovremena zahteva ne prođu oba
+      if (service.maxParticipants > 1) {
+        const alreadyBooked = await Booking.exists({
+          serviceId: service._id,
+          clientId: session.user.id,
           start,
-          end,
-          serviceName: service.name,
-          clientName: client?.name || 'Unknown Client',
-          clientEmail: client?.email || '',
-          note: validatedData.note,
+          status: { $in: ['pending', 'confirmed'] },
         })
-        
-        if (googleEventId) {
-          booking.googleEventId = googleEventId
-          booking.syncStatus = 'ok'
-          await booking.save()
-        } else {
-          booking.syncStatus = 'failed'
-          await booking.save()
+        if (alreadyBooked) {
+          return { error: 'You are already booked for this session' }
         }
       }
-    } catch (error) {
-      console.error('Error creating Google Calendar event:', error)
-      booking.syncStatus = 'failed'
-      await booking.save()
+      
+      // Same engine as /api/slots
+      const slot = await findAvailableSlot(providerProfile, service, start, {
+        staffId,
+        waitlistEntryId: waitlistEntry?._id.toString(),
+        cachedCalendarOnly: true,
+      })
+      if (!slot) {
+        return { error: 'This time slot is no longer available' }
+      }
+      
+      const newBooking = newClientBooking(session.user.id, providerProfile, service, slot, {
+        note: validatedData.note,
+      })
+      
+      await newBooking.save()
+      
+      // Zadržavanje je moglo da istekne dok je zahtev čekao lock;
+      // preuzima se tek posle snimanja, da neuspelo snimanje ne potroši ponudu
+      if (waitlistEntry && !(await claimWaitlistOffer(waitlistEntry._id, newBooking._id))) {
+        await Booking.deleteOne({ _id: newBooking._id })
+        return { error: 'This waitlist offer has expired' }
+      }
+      
+      return { booking: newBooking }
+    })
+    
+    const { booking } = result
+    if (!booking) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
     }
     
+    await publishNewBooking(booking)
+    
     await booking.populate([
       { path: 'serviceId', select: 'name durationMinutes price' },
       { path: 'providerId', select: 'businessName' },
-      { path: 'clientId', select: 'name email' }
+      { path: 'clientId', select: 'name email' },
+      { path: 'staffId', select: 'name' }
     ])
     
     return NextResponse.json({ booking }, { status: 201 })
@@ -278,6 +593,17 @@ export async function POST(req: NextRequest) {
       )
     }
     
+    if (error instanceof ServiceBundleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    
+    if (error instanceof BookingLockTimeoutError) {
+      return NextResponse.json(
+        { error: 'Provider is busy processing other bookings, please try again' },
+        { status: 503 }
+      )
+    }
+    
     console.error('Error creating booking:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
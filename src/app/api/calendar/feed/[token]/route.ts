@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/mongodb'
+import { buildCalendarFeed } from '@/services/booking/bookingCalendar'
+
+/**
+ * ICS feed rezervacija za pretplatu iz kalendara (Apple, Outlook, Google "From URL")
+ * Kalendari ne šalju sesiju, pristup daje tajni token u URL-u; sufiks .ics je opcion
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    await connectDB()
+
+    const feed = await buildCalendarFeed(token.replace(/\.ics$/, ''))
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    return new NextResponse(feed, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="zakazivac.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
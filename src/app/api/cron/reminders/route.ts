@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/mongodb'
+import { sendDueReminders } from '@/services/booking/bookingNotifications'
+
+/**
+ * @swagger
+ * /api/cron/reminders:
+ *   post:
+ *     tags:
+ *       - Bookings
+ *     summary: Slanje podsetnika za predstojeće termine
+ *     description: |
+ *       Poziva ga planer (cron) na svakih nekoliko minuta. Šalje email podsetnik klijentima
+ *       za potvrđene termine koji počinju u narednih reminderHoursBefore sati (admin podešavanja).
+ *       Svaki termin dobija najviše jedan podsetnik. Zahteva header Authorization: Bearer CRON_SECRET.
+ *     responses:
+ *       200:
+ *         description: Broj poslatih podsetnika
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sent:
+ *                   type: integer
+ *       401:
+ *         description: Neispravan ili nedostajući CRON_SECRET
+ */
+export async function POST(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    await connectDB()
+
+    const sent = await sendDueReminders()
+
+    return NextResponse.json({ sent })
+  } catch (error) {
+    console.error('Error sending booking reminders:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { google } from 'googleapis'
 import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import StaffMember from '@/models/StaffMember'
 import connectDB from '@/lib/mongodb'
+import { startGoogleWatch } from '@/services/calendar/googlePushSync'
 
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url)
     const code = searchParams.get('code')
-    const state = searchParams.get('state') // This is the user ID
+    const state = searchParams.get('state') // This is the user ID, or the staff member ID for staff calendars
     const error = searchParams.get('error')
     
     if (error) {
@@ -94,8 +96,17 @@ export async function GET(req: NextRequest) {
     
     console.log('Integration saved successfully:', result._id);
     
+    // Push obaveštenja za izmene u Google kalendaru; bez njih radi periodično obnavljanje
+    try {
+      await startGoogleWatch(result)
+    } catch (watchError) {
+      console.error('Error starting Google Calendar watch:', watchError)
+    }
+    
+    // Kalendar zaposlenog se povezuje sa stranice zaposlenih
+    const isStaffCalendar = await StaffMember.exists({ _id: state })
     return NextResponse.redirect(
-      new URL('/dashboard/provider/integrations?success=true', req.url)
+      new URL(isStaffCalendar ? '/dashboard/provider/staff?success=true' : '/dashboard/provider/integrations?success=true', req.url)
     )
   } catch (error) {
     console.error('Error in Google OAuth callback:', error)
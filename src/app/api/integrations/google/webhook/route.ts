@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import connectDB from '@/lib/mongodb'
+import { handleGoogleNotification } from '@/services/calendar/googlePushSync'
+
+/**
+ * Prima obaveštenja sa Google Calendar watch kanala
+ * Google ne šalje telo zahteva, sve informacije su u X-Goog-* zaglavljima
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await connectDB()
+
+    const accepted = await handleGoogleNotification({
+      channelId: req.headers.get('x-goog-channel-id'),
+      channelToken: req.headers.get('x-goog-channel-token'),
+      resourceId: req.headers.get('x-goog-resource-id'),
+      resourceState: req.headers.get('x-goog-resource-state'),
+    })
+
+    if (!accepted) {
+      return NextResponse.json({ error: 'Unknown channel' }, { status: 404 })
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Error handling Google Calendar notification:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
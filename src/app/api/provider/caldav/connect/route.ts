@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import ProviderCalDavIntegration from '@/models/ProviderCalDavIntegration';
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration';
+import ProviderProfile from '@/models/ProviderProfile';
+import { assertPublicCalendarUrl, CalDavCalendarProvider, CalDavError } from '@/services/calendar/calDavCalendarProvider';
+import { clearCalendarBusyCache } from '@/services/calendar/calendarBusyTimes';
+
+const connectSchema = z.object({
+  calendarUrl: z.string().trim().url('Invalid calendar URL'),
+  username: z.string().trim().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!session.user.roles?.includes('provider')) {
+      return NextResponse.json({ error: 'Only providers can access this endpoint' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = connectSchema.parse(body);
+
+    await connectDB();
+
+    const providerProfile = await ProviderProfile.findOne({ userId: session.user.id });
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Provider profile not found' }, { status: 404 });
+    }
+
+    // Provider ima najviše jedan povezan kalendar
+    const googleIntegration = await ProviderGoogleIntegration.exists({
+      providerId: providerProfile._id,
+      isActive: true,
+    });
+    if (googleIntegration) {
+      return NextResponse.json(
+        { error: 'Disconnect Google Calendar before connecting a CalDAV calendar', code: 'CALENDAR_ALREADY_CONNECTED' },
+        { status: 409 }
+      );
+    }
+
+    // Server šalje lozinku na ovaj URL, pa ne sme da vodi u lokalnu ili privatnu mrežu
+    try {
+      await assertPublicCalendarUrl(data.calendarUrl);
+    } catch (error) {
+      if (error instanceof CalDavError) {
+        return NextResponse.json({ error: error.message, code: 'CALDAV_URL_NOT_ALLOWED' }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Podaci se čuvaju tek kad server potvrdi pristup kalendaru
+    let displayName: string | null;
+    try {
+      displayName = await new CalDavCalendarProvider(data).verify();
+    } catch (error) {
+      if (error instanceof CalDavError) {
+        return NextResponse.json({ error: error.message, code: 'CALDAV_VERIFY_FAILED' }, { status: 400 });
+      }
+      console.error('Error reaching CalDAV server:', error);
+      return NextResponse.json(
+        { error: 'Could not reach the CalDAV server', code: 'CALDAV_VERIFY_FAILED' },
+        { status: 400 }
+      );
+    }
+
+    const integration = await ProviderCalDavIntegration.findOneAndUpdate(
+      { providerId: providerProfile._id },
+      {
+        calendarUrl: data.calendarUrl,
+        username: data.username,
+        password: data.password,
+        displayName: displayName || undefined,
+        isActive: true,
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    clearCalendarBusyCache(providerProfile._id.toString());
+
+    return NextResponse.json({
+      isConnected: true,
+      calendarUrl: integration.calendarUrl,
+      username: integration.username,
+      displayName: integration.displayName,
+      connectedAt: integration.createdAt?.toISOString(),
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error connecting CalDAV calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to connect CalDAV calendar' },
+      { status: 500 }
+    );
+  }
+}
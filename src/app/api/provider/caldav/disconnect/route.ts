@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import ProviderCalDavIntegration from '@/models/ProviderCalDavIntegration';
+import ProviderProfile from '@/models/ProviderProfile';
+import { clearCalendarBusyCache } from '@/services/calendar/calendarBusyTimes';
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!session.user.roles?.includes('provider')) {
+      return NextResponse.json({ error: 'Only providers can access this endpoint' }, { status: 403 });
+    }
+
+    await connectDB();
+
+    const providerProfile = await ProviderProfile.findOne({ userId: session.user.id });
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Provider profile not found' }, { status: 404 });
+    }
+
+    await ProviderCalDavIntegration.findOneAndDelete({ providerId: providerProfile._id });
+    clearCalendarBusyCache(providerProfile._id.toString());
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error disconnecting CalDAV calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to disconnect CalDAV calendar' },
+      { status: 500 }
+    );
+  }
+}
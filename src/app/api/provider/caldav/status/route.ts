@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import ProviderCalDavIntegration from '@/models/ProviderCalDavIntegration';
+import ProviderProfile from '@/models/ProviderProfile';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!session.user.roles?.includes('provider')) {
+      return NextResponse.json({ error: 'Only providers can access this endpoint' }, { status: 403 });
+    }
+
+    await connectDB();
+
+    const providerProfile = await ProviderProfile.findOne({ userId: session.user.id });
+    const integration = providerProfile && await ProviderCalDavIntegration.findOne({
+      providerId: providerProfile._id,
+      isActive: true,
+    });
+
+    if (!integration) {
+      return NextResponse.json({
+        isConnected: false
+      });
+    }
+
+    // Lozinka se nikad ne vraća klijentu
+    return NextResponse.json({
+      isConnected: true,
+      calendarUrl: integration.calendarUrl,
+      username: integration.username,
+      displayName: integration.displayName,
+      connectedAt: integration.createdAt?.toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error checking CalDAV integration status:', error);
+    return NextResponse.json(
+      { error: 'Failed to check integration status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Booking from '@/models/Booking';
+import ProviderProfile from '@/models/ProviderProfile';
+import {
+  findUnsyncedBookings,
+  reconcileCalendarSync,
+  syncBooking
+} from '@/services/calendar/bookingSync';
+import { hasCalendarConnection } from '@/services/calendar/calendarProviders';
+
+const retrySchema = z.object({
+  bookingId: z.string().refine(id => mongoose.isValidObjectId(id), 'Invalid booking ID').optional(),
+});
+
+async function getProviderProfile() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!session.user.roles?.includes('provider')) {
+    return { error: NextResponse.json({ error: 'Only providers can access this endpoint' }, { status: 403 }) };
+  }
+
+  await connectDB();
+
+  const providerProfile = await ProviderProfile.findOne({ userId: session.user.id });
+  if (!providerProfile) {
+    return { error: NextResponse.json({ error: 'Provider profile not found' }, { status: 404 }) };
+  }
+
+  return { providerProfile };
+}
+
+// Rezervacije koje nisu stigle u povezani kalendar
+export async function GET() {
+  try {
+    const { providerProfile, error } = await getProviderProfile();
+    if (error) {
+      return error;
+    }
+
+    const bookings = await findUnsyncedBookings(providerProfile._id.toString());
+    await Booking.populate(bookings, [
+      { path: 'serviceId', select: 'name' },
+      { path: 'clientId', select: 'name email' },
+    ]);
+
+    return NextResponse.json({
+      bookings: bookings.map(booking => ({
+        _id: booking._id,
+        start: booking.start,
+        end: booking.end,
+        status: booking.status,
+        service: booking.serviceId,
+        client: booking.clientId,
+        syncStatus: booking.syncStatus,
+        syncAttempts: booking.syncAttempts || 0,
+        syncError: booking.syncError,
+        lastSyncAttemptAt: booking.lastSyncAttemptAt,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Error fetching unsynced bookings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sync status' },
+      { status: 500 }
+    );
+  }
+}
+
+// Ručno ponavljanje sinhronizacije, za jednu rezervaciju ili sve nesinhronizovane
+export async function POST(request: NextRequest) {
+  try {
+    const { providerProfile, error } = await getProviderProfile();
+    if (error) {
+      return error;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const data = retrySchema.parse(body);
+
+    if (!(await hasCalendarConnection(providerProfile._id))) {
+      return NextResponse.json(
+        { error: 'No calendar is connected', code: 'CALENDAR_NOT_CONNECTED' },
+        { status: 409 }
+      );
+    }
+
+    if (data.bookingId) {
+      const booking = await Booking.findOne({ _id: data.bookingId, providerId: providerProfile._id });
+      if (!booking) {
+        return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+      }
+
+      const synced = await syncBooking(booking);
+      return NextResponse.json({
+        checked: 1,
+        synced: synced ? 1 : 0,
+        failed: synced ? 0 : 1,
+      });
+    }
+
+    const result = await reconcileCalendarSync({ providerId: providerProfile._id.toString() });
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error retrying calendar sync:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry sync' },
+      { status: 500 }
+    );
+  }
+}
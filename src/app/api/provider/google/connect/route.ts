@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { google } from 'googleapis';
+import connectDB from '@/lib/mongodb';
+import ProviderProfile from '@/models/ProviderProfile';
+import { findProviderStaffMember } from '@/services/staff/staffMembers';
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,6 +18,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Only providers can access this endpoint' }, { status: 403 });
     }
 
+    // Sa staffId se povezuje kalendar zaposlenog umesto kalendara providera
+    const { staffId } = await request.json().catch(() => ({}));
+    let state = session.user.id;
+    if (staffId) {
+      await connectDB();
+      const providerProfile = await ProviderProfile.findOne({ userId: session.user.id });
+      const staffMember = providerProfile && await findProviderStaffMember(providerProfile._id, String(staffId));
+      if (!staffMember) {
+        return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+      }
+      state = staffMember._id.toString();
+    }
+
     const oauth2Client = new google.auth.OAuth2(
       process.env.GOOGLE_CLIENT_ID,
       process.env.GOOGLE_CLIENT_SECRET,
@@ -30,7 +46,7 @@ export async function POST(request: NextRequest) {
       access_type: 'offline',
       scope: scopes,
       prompt: 'consent',
-      state: session.user.id, // Pass user ID to identify in callback
+      state, // Pass user or staff member ID to identify in callback
     });
 
     return NextResponse.json({ authUrl });
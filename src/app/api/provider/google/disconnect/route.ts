@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import connectDB from '@/lib/mongodb';
 import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration';
+import ProviderProfile from '@/models/ProviderProfile';
+import { findProviderStaffMember } from '@/services/staff/staffMembers';
+import { stopGoogleWatch } from '@/services/calendar/googlePushSync';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,10 +20,31 @@ export async function POST(request: NextRequest) {
     }
 
     await connectDB();
+
+    // Sa staffId se odvezuje kalendar zaposlenog
+    const { staffId } = await request.json().catch(() => ({}));
+    let ownerId = session.user.id;
+    if (staffId) {
+      const providerProfile = await ProviderProfile.findOne({ userId: session.user.id });
+      const staffMember = providerProfile && await findProviderStaffMember(providerProfile._id, String(staffId));
+      if (!staffMember) {
+        return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+      }
+      ownerId = staffMember._id.toString();
+    }
     
+    const integration = await ProviderGoogleIntegration.findOne({
+      providerId: ownerId
+    });
+
+    // Google bi nastavio da šalje obaveštenja na zatvoren kanal
+    if (integration?.watchChannelId) {
+      await stopGoogleWatch(integration);
+    }
+
     // Remove Google integration
     await ProviderGoogleIntegration.findOneAndDelete({
-      providerId: session.user.id
+      providerId: ownerId
     });
 
     return NextResponse.json({ success: true });
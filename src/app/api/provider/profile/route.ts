@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import connectDB from '@/lib/mongodb';
-import ProviderProfile from '@/models/ProviderProfile';
+import ProviderProfile, { IProviderProfile } from '@/models/ProviderProfile';
 import User from '@/models/User';
 import { z } from 'zod';
 
@@ -17,8 +17,60 @@ const providerProfileSchema = z.object({
   }).optional(),
   timezone: z.string().min(1, 'Timezone is required'),
   isActive: z.boolean(),
+  bookingPolicy: z.object({
+    requiresApproval: z.boolean().optional(),
+    // null briše override, pa važi admin podešavanje
+    maxAdvanceBookingDays: z.number().int().min(1).max(365).nullable().optional(),
+    minAdvanceBookingHours: z.number().min(0).max(168).nullable().optional(),
+    allowSameDayBooking: z.boolean().nullable().optional(),
+    cancellationHours: z.number().min(0).max(720).nullable().optional(),
+  }).optional(),
 });
 
+const BOOKING_POLICY_OVERRIDES = [
+  'maxAdvanceBookingDays',
+  'minAdvanceBookingHours',
+  'allowSameDayBooking',
+  'cancellationHours',
+] as const;
+
+type BookingPolicyInput = NonNullable<z.infer<typeof providerProfileSchema>['bookingPolicy']>;
+
+function formatBookingPolicy(bookingPolicy?: Partial<IProviderProfile['bookingPolicy']>) {
+  return {
+    requiresApproval: !!bookingPolicy?.requiresApproval,
+    maxAdvanceBookingDays: bookingPolicy?.maxAdvanceBookingDays ?? null,
+    minAdvanceBookingHours: bookingPolicy?.minAdvanceBookingHours ?? null,
+    allowSameDayBooking: bookingPolicy?.allowSameDayBooking ?? null,
+    cancellationHours: bookingPolicy?.cancellationHours ?? null,
+  };
+}
+
+// Pretvara bookingPolicy iz zahteva u $set / $unset izmene
+function buildBookingPolicyUpdate(bookingPolicy?: BookingPolicyInput) {
+  const set: Record<string, unknown> = {};
+  const unset: Record<string, ''> = {};
+
+  if (!bookingPolicy) {
+    return { set, unset };
+  }
+
+  if (bookingPolicy.requiresApproval !== undefined) {
+    set['bookingPolicy.requiresApproval'] = bookingPolicy.requiresApproval;
+  }
+
+  for (const field of BOOKING_POLICY_OVERRIDES) {
+    const value = bookingPolicy[field];
+    if (value === null) {
+      unset[`bookingPolicy.${field}`] = '';
+    } else if (value !== undefined) {
+      set[`bookingPolicy.${field}`] = value;
+    }
+  }
+
+  return { set, unset };
+}
+
 /**
  * @swagger
  * /api/provider/profile:
@@ -98,6 +150,7 @@ export async function GET() {
         contactInfo: providerProfile.contactInfo || {},
         timezone: providerProfile.timezone,
         isActive: providerProfile.isActive,
+        bookingPolicy: formatBookingPolicy(providerProfile.bookingPolicy),
       }
     });
     
@@ -165,6 +218,27 @@ export async function GET() {
  *                 type: boolean
  *                 description: Status aktivnosti profila
  *                 example: true
+ *               bookingPolicy:
+ *                 type: object
+ *                 properties:
+ *                   requiresApproval:
+ *                     type: boolean
+ *                     description: Nove rezervacije čekaju odobrenje providera
+ *                     example: false
+ *                   maxAdvanceBookingDays:
+ *                     type: integer
+ *                     nullable: true
+ *                     description: Override admin podešavanja (null = podrazumevano)
+ *                   minAdvanceBookingHours:
+ *                     type: number
+ *                     nullable: true
+ *                   allowSameDayBooking:
+ *                     type: boolean
+ *                     nullable: true
+ *                   cancellationHours:
+ *                     type: number
+ *                     nullable: true
+ *                     description: Koliko sati pre termina klijent najkasnije može da otkaže
  *     responses:
  *       200:
  *         description: Profil uspešno ažuriran
@@ -237,17 +311,22 @@ export async function PUT(request: NextRequest) {
     }
 
     const profileData = validationResult.data;
+    const policyUpdate = buildBookingPolicyUpdate(profileData.bookingPolicy);
 
     // Update or create provider profile
     const updatedProfile = await ProviderProfile.findOneAndUpdate(
       { userId: user._id },
       {
-        userId: user._id,
-        businessName: profileData.businessName,
-        description: profileData.description,
-        contactInfo: profileData.contactInfo || {},
-        timezone: profileData.timezone,
-        isActive: profileData.isActive,
+        $set: {
+          userId: user._id,
+          businessName: profileData.businessName,
+          description: profileData.description,
+          contactInfo: profileData.contactInfo || {},
+          timezone: profileData.timezone,
+          isActive: profileData.isActive,
+          ...policyUpdate.set,
+        },
+        ...(Object.keys(policyUpdate.unset).length > 0 && { $unset: policyUpdate.unset }),
       },
       {
         new: true,
@@ -267,6 +346,7 @@ export async function PUT(request: NextRequest) {
         contactInfo: updatedProfile.contactInfo || {},
         timezone: updatedProfile.timezone,
         isActive: updatedProfile.isActive,
+        bookingPolicy: formatBookingPolicy(updatedProfile.bookingPolicy),
       }
     });
 
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Booking from '@/models/Booking';
+import ProviderProfile from '@/models/ProviderProfile';
+import Resource from '@/models/Resource';
+import Service from '@/models/Service';
+import { z } from 'zod';
+
+const resourceSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).optional(),
+  quantity: z.number().int().min(1).max(50).default(1),
+  isActive: z.boolean().default(true),
+});
+
+async function getSessionProviderProfile() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || !session.user.roles?.includes('provider')) {
+    return null;
+  }
+
+  await connectDB();
+  return ProviderProfile.findOne({ userId: session.user.id });
+}
+
+async function findProviderResource(providerId: mongoose.Types.ObjectId, resourceId: string) {
+  if (!mongoose.isValidObjectId(resourceId)) {
+    return null;
+  }
+  return Resource.findOne({ _id: resourceId, providerId });
+}
+
+/**
+ * @swagger
+ * /api/provider/resources:
+ *   get:
+ *     tags:
+ *       - Providers
+ *     summary: Prostorije i uređaji providera
+ *     description: |
+ *       Resursi koje usluge traže (resourceIds usluge). Termin je slobodan samo ako su u tom
+ *       vremenu slobodni i zaposleni i po jedna jedinica svakog potrebnog resursa.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista resursa
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 resources:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Resource'
+ *       401:
+ *         description: Neautorizovani pristup - samo provideri
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ */
+export async function GET() {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resources = await Resource.find({ providerId: providerProfile._id })
+      .select('-__v')
+      .sort({ name: 1 });
+
+    return NextResponse.json({ resources });
+  } catch (error) {
+    console.error('Error fetching resources:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/provider/resources:
+ *   post:
+ *     tags:
+ *       - Providers
+ *     summary: Dodavanje prostorije ili uređaja
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Resource'
+ *     responses:
+ *       201:
+ *         description: Resurs je dodat
+ *       400:
+ *         description: Neispravni podaci
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *   put:
+ *     tags:
+ *       - Providers
+ *     summary: Izmena resursa
+ *     description: Telo je isto kao kod dodavanja, uz resourceId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Resurs je izmenjen
+ *       404:
+ *         description: Resurs nije pronađen
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *   delete:
+ *     tags:
+ *       - Providers
+ *     summary: Brisanje resursa
+ *     description: Uklanja resurs i iz usluga koje ga traže; nije dozvoljeno dok ga koriste budući termini
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: resourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Resurs je obrisan
+ *       409:
+ *         description: Resurs koriste budući termini
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validatedData = resourceSchema.parse(await req.json());
+
+    const resource = await Resource.create({
+      providerId: providerProfile._id,
+      ...validatedData,
+    });
+
+    return NextResponse.json({ resource }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating resource:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { resourceId, ...updateData } = await req.json();
+    const validatedData = resourceSchema.parse(updateData);
+
+    const resource = await findProviderResource(providerProfile._id, String(resourceId));
+    if (!resource) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 });
+    }
+
+    resource.set(validatedData);
+    await resource.save();
+
+    return NextResponse.json({ resource });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating resource:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resourceId = new URL(req.url).searchParams.get('resourceId');
+    if (!resourceId) {
+      return NextResponse.json({ error: 'Resource ID is required' }, { status: 400 });
+    }
+
+    const resource = await findProviderResource(providerProfile._id, resourceId);
+    if (!resource) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 });
+    }
+
+    const upcomingBookings = await Booking.countDocuments({
+      resourceIds: resource._id,
+      start: { $gte: new Date() },
+      status: { $in: ['pending', 'confirmed'] },
+    });
+    if (upcomingBookings > 0) {
+      return NextResponse.json(
+        { error: 'Resource is used by upcoming bookings, deactivate it instead' },
+        { status: 409 }
+      );
+    }
+
+    await Service.updateMany(
+      { providerId: providerProfile._id, resourceIds: resource._id },
+      { $pull: { resourceIds: resource._id } }
+    );
+    await resource.deleteOne();
+
+    return NextResponse.json({ message: 'Resource deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting resource:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { availabilitySchema } from '@/lib/availability';
+import Booking from '@/models/Booking';
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration';
+import ProviderProfile from '@/models/ProviderProfile';
+import Service from '@/models/Service';
+import StaffMember, { IStaffMember } from '@/models/StaffMember';
+import { stopGoogleWatch } from '@/services/calendar/googlePushSync';
+import { findProviderStaffMember } from '@/services/staff/staffMembers';
+import { z } from 'zod';
+
+const staffMemberSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.string().email().optional().or(z.literal('')),
+  // Prazno = zaposleni radi sve usluge providera
+  serviceIds: z.array(z.string().refine(id => mongoose.isValidObjectId(id), 'Invalid service ID')).default([]),
+  // null vraća zaposlenog na raspored providera
+  availabilitySettings: availabilitySchema.nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+type StaffMemberInput = z.infer<typeof staffMemberSchema>;
+
+async function getSessionProviderProfile() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || !session.user.roles?.includes('provider')) {
+    return null;
+  }
+
+  await connectDB();
+  return ProviderProfile.findOne({ userId: session.user.id });
+}
+
+// Sve izabrane usluge moraju pripadati provideru
+async function ownsServices(providerId: mongoose.Types.ObjectId, serviceIds: string[]): Promise<boolean> {
+  if (serviceIds.length === 0) {
+    return true;
+  }
+  const count = await Service.countDocuments({ _id: { $in: serviceIds }, providerId });
+  return count === new Set(serviceIds).size;
+}
+
+function validationError(error: z.ZodError) {
+  return NextResponse.json(
+    { error: 'Validation failed', details: error.issues },
+    { status: 400 }
+  );
+}
+
+/**
+ * @swagger
+ * /api/provider/staff:
+ *   get:
+ *     tags:
+ *       - Providers
+ *     summary: Zaposleni providera
+ *     description: Vraća sve zaposlene trenutno ulogovanog providera, sa statusom Google kalendara
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista zaposlenih
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 staff:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StaffMember'
+ *       401:
+ *         description: Neautorizovani pristup - samo provideri
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ */
+export async function GET() {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const staff = await StaffMember.find({ providerId: providerProfile._id })
+      .select('-__v')
+      .sort({ name: 1 })
+      .lean<mongoose.Require_id<IStaffMember>[]>();
+
+    const connectedIds: mongoose.Types.ObjectId[] = await ProviderGoogleIntegration.find({
+      providerId: { $in: staff.map(member => member._id) },
+      isActive: true,
+    }).distinct('providerId');
+    const connected = new Set(connectedIds.map(id => id.toString()));
+
+    return NextResponse.json({
+      staff: staff.map(member => ({
+        ...member,
+        calendarConnected: connected.has(member._id.toString()),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching staff:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/provider/staff:
+ *   post:
+ *     tags:
+ *       - Providers
+ *     summary: Dodavanje zaposlenog
+ *     description: |
+ *       Kada provider ima bar jednog aktivnog zaposlenog, termini se računaju po zaposlenima:
+ *       svaki ima svoj raspored (ili raspored providera), svoje usluge i opciono svoj Google kalendar.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StaffMember'
+ *     responses:
+ *       201:
+ *         description: Zaposleni je dodat
+ *       400:
+ *         description: Neispravni podaci ili usluga ne pripada provideru
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *   put:
+ *     tags:
+ *       - Providers
+ *     summary: Izmena zaposlenog
+ *     description: Telo je isto kao kod dodavanja, uz staffId
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Zaposleni je izmenjen
+ *       404:
+ *         description: Zaposleni nije pronađen
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *   delete:
+ *     tags:
+ *       - Providers
+ *     summary: Brisanje zaposlenog
+ *     description: Briše zaposlenog i njegov Google kalendar; nije dozvoljeno dok ima buduće termine
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: staffId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Zaposleni je obrisan
+ *       409:
+ *         description: Zaposleni ima buduće termine
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validatedData: StaffMemberInput = staffMemberSchema.parse(await req.json());
+    if (!(await ownsServices(providerProfile._id, validatedData.serviceIds))) {
+      return NextResponse.json({ error: 'Unknown service' }, { status: 400 });
+    }
+
+    const staffMember = await StaffMember.create({
+      providerId: providerProfile._id,
+      ...validatedData,
+      availabilitySettings: validatedData.availabilitySettings ?? null,
+    });
+
+    return NextResponse.json({ staffMember }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return validationError(error);
+    }
+
+    console.error('Error creating staff member:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { staffId, ...updateData } = await req.json();
+    const validatedData: StaffMemberInput = staffMemberSchema.parse(updateData);
+
+    const staffMember = await findProviderStaffMember(providerProfile._id, String(staffId));
+    if (!staffMember) {
+      return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+    }
+
+    if (!(await ownsServices(providerProfile._id, validatedData.serviceIds))) {
+      return NextResponse.json({ error: 'Unknown service' }, { status: 400 });
+    }
+
+    staffMember.name = validatedData.name;
+    staffMember.email = validatedData.email || undefined;
+    staffMember.serviceIds = validatedData.serviceIds;
+    staffMember.isActive = validatedData.isActive;
+    // Bez availabilitySettings u zahtevu raspored ostaje kakav jeste
+    if (validatedData.availabilitySettings !== undefined) {
+      staffMember.availabilitySettings = validatedData.availabilitySettings;
+      staffMember.markModified('availabilitySettings');
+    }
+    await staffMember.save();
+
+    return NextResponse.json({ staffMember });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return validationError(error);
+    }
+
+    console.error('Error updating staff member:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const providerProfile = await getSessionProviderProfile();
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const staffId = new URL(req.url).searchParams.get('staffId');
+    if (!staffId) {
+      return NextResponse.json({ error: 'Staff ID is required' }, { status: 400 });
+    }
+
+    const staffMember = await findProviderStaffMember(providerProfile._id, staffId);
+    if (!staffMember) {
+      return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+    }
+
+    // Budući termini bi ostali bez izvođača; zaposleni se tada samo deaktivira
+    const upcomingBookings = await Booking.countDocuments({
+      staffId: staffMember._id,
+      start: { $gte: new Date() },
+      status: { $in: ['pending', 'confirmed'] },
+    });
+    if (upcomingBookings > 0) {
+      return NextResponse.json(
+        { error: 'Staff member has upcoming bookings, deactivate them instead' },
+        { status: 409 }
+      );
+    }
+
+    const integration = await ProviderGoogleIntegration.findOne({ providerId: staffMember._id });
+    if (integration?.watchChannelId) {
+      await stopGoogleWatch(integration);
+    }
+    await ProviderGoogleIntegration.deleteOne({ providerId: staffMember._id });
+    await staffMember.deleteOne();
+
+    return NextResponse.json({ message: 'Staff member deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting staff member:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
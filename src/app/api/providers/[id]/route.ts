@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import ProviderProfile from '@/models/ProviderProfile';
 import Service from '@/models/Service';
+import StaffMember from '@/models/StaffMember';
 import User from '@/models/User';
+import { getBookingPolicy } from '@/services/booking/bookingPolicy';
 
 export async function GET(
   request: NextRequest,
@@ -26,9 +28,16 @@ export async function GET(
     
     // Get provider's active services only
     const services = await Service.find({ providerId: id, isActive: true })
-      .select('name description price durationMinutes')
+      .select('name description price durationMinutes maxParticipants')
       .sort({ name: 1 });
     
+    // Aktivni zaposleni, klijent bira osobu ili bilo koga slobodnog
+    const staff = await StaffMember.find({ providerId: id, isActive: true })
+      .select('name serviceIds')
+      .sort({ name: 1 });
+    
+    const bookingPolicy = await getBookingPolicy(provider);
+    
     // Format provider data
     const providerData = {
       _id: provider._id.toString(),
@@ -45,9 +54,21 @@ export async function GET(
         name: service.name,
         description: service.description,
         price: service.price,
-        durationMinutes: service.durationMinutes
+        durationMinutes: service.durationMinutes,
+        maxParticipants: service.maxParticipants
+      })),
+      staff: staff.map(member => ({
+        _id: member._id.toString(),
+        name: member.name,
+        serviceIds: member.serviceIds.map((serviceId: { toString(): string }) => serviceId.toString())
       })),
-      availability: [] // TODO: Add availability logic later
+      availability: [], // TODO: Add availability logic later
+      bookingPolicy: {
+        maxAdvanceBookingDays: bookingPolicy.maxAdvanceBookingDays,
+        minAdvanceBookingHours: bookingPolicy.minAdvanceBookingHours,
+        allowSameDayBooking: bookingPolicy.allowSameDayBooking,
+        cancellationHours: bookingPolicy.cancellationHours
+      }
     };
     
     return NextResponse.json({
@@ -3,7 +3,10 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import Service from '@/models/Service'
 import ProviderProfile from '@/models/ProviderProfile'
+import Resource from '@/models/Resource'
 import connectDB from '@/lib/mongodb'
+import { serviceBookingRulesSchema } from '@/lib/availability'
+import mongoose from 'mongoose'
 import { z } from 'zod'
 
 const serviceSchema = z.object({
@@ -13,8 +16,22 @@ const serviceSchema = z.object({
   durationMinutes: z.number().min(15).max(480),
   price: z.number().min(0),
   isActive: z.boolean().default(true),
+  // Više od 1 = grupna usluga, više klijenata u istom terminu
+  maxParticipants: z.number().int().min(1).max(200).default(1),
+  // Prostorije i uređaji koji su svi potrebni za termin
+  resourceIds: z.array(z.string().refine(id => mongoose.isValidObjectId(id), 'Invalid resource ID')).optional(),
+  bookingRules: serviceBookingRulesSchema.optional(),
 })
 
+// Usluga može da traži samo resurse svog providera
+async function ownsResources(providerId: unknown, resourceIds: string[] = []) {
+  if (resourceIds.length === 0) {
+    return true
+  }
+  const count = await Resource.countDocuments({ _id: { $in: resourceIds }, providerId })
+  return count === new Set(resourceIds).size
+}
+
 /**
  * @swagger
  * /api/services:
@@ -154,6 +171,10 @@ export async function POST(req: NextRequest) {
       }
     }
     
+    if (!(await ownsResources(providerProfile._id, validatedData.resourceIds))) {
+      return NextResponse.json({ error: 'Unknown resource' }, { status: 400 })
+    }
+    
     const service = await Service.create({
       providerId: providerProfile._id,
       ...validatedData,
@@ -192,6 +213,10 @@ export async function PUT(req: NextRequest) {
       return NextResponse.json({ error: 'Provider profile not found' }, { status: 404 })
     }
     
+    if (!(await ownsResources(providerProfile._id, validatedData.resourceIds))) {
+      return NextResponse.json({ error: 'Unknown resource' }, { status: 400 })
+    }
+    
     const service = await Service.findOneAndUpdate(
       { _id: serviceId, providerId: providerProfile._id },
       validatedData,
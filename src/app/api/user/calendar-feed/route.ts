@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { getCalendarFeedToken } from '@/services/booking/bookingCalendar';
+
+function feedUrls(request: NextRequest, token: string) {
+  const baseUrl = process.env.NEXTAUTH_URL || request.nextUrl.origin;
+  const url = `${baseUrl}/api/calendar/feed/${token}.ics`;
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+  };
+}
+
+async function respondWithFeed(request: NextRequest, regenerate: boolean) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  await connectDB();
+
+  const token = await getCalendarFeedToken(session.user.id, regenerate);
+  if (!token) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(feedUrls(request, token));
+}
+
+// URL ličnog ICS feed-a, token se pravi pri prvom pozivu
+export async function GET(request: NextRequest) {
+  try {
+    return await respondWithFeed(request, false);
+  } catch (error) {
+    console.error('Error fetching calendar feed URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Novi token, stari URL prestaje da radi
+export async function POST(request: NextRequest) {
+  try {
+    return await respondWithFeed(request, true);
+  } catch (error) {
+    console.error('Error regenerating calendar feed URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate calendar feed' },
+      { status: 500 }
+    );
+  }
+}
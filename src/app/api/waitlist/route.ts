@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import mongoose from 'mongoose'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import connectDB from '@/lib/mongodb'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import StaffMember from '@/models/StaffMember'
+import WaitlistEntry from '@/models/WaitlistEntry'
+import {
+  getLocalDayBounds,
+  getProviderTimezone,
+  isValidDateString
+} from '@/services/calendar/slotGeneration'
+import { performsService } from '@/services/staff/staffMembers'
+import { leaveWaitlist } from '@/services/waitlist/waitlist'
+
+const objectId = (message: string) => z.string().refine(id => mongoose.isValidObjectId(id), message)
+
+// Tačan termin (start) ili opseg lokalnih datuma (fromDate, toDate)
+const waitlistSchema = z.object({
+  providerId: objectId('Invalid provider ID'),
+  serviceId: objectId('Invalid service ID'),
+  staffId: objectId('Invalid staff ID').optional(),
+  start: z.string().optional(), // ISO date string
+  fromDate: z.string().refine(isValidDateString, 'Invalid date').optional(),
+  toDate: z.string().refine(isValidDateString, 'Invalid date').optional(),
+}).refine(data => !!data.start !== !!data.fromDate, 'Either start or fromDate is required')
+  .refine(data => !data.toDate || !data.fromDate || data.toDate >= data.fromDate, 'toDate must not be before fromDate')
+
+/**
+ * @swagger
+ * /api/waitlist:
+ *   get:
+ *     tags:
+ *       - Bookings
+ *     summary: Lista čekanja klijenta
+ *     description: Prijave ulogovanog klijenta, sa ponudama koje su trenutno zadržane za njega
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista prijava
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WaitlistEntry'
+ *       401:
+ *         description: Neautorizovani pristup
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectDB()
+
+    const entries = await WaitlistEntry.find({
+      clientId: session.user.id,
+      status: { $in: ['waiting', 'offered'] },
+    })
+      .populate('serviceId', 'name durationMinutes')
+      .populate('providerId', 'businessName timezone')
+      .populate('staffId', 'name')
+      .select('-__v')
+      .sort({ createdAt: 1 })
+      .lean()
+
+    return NextResponse.json({ entries })
+  } catch (error) {
+    console.error('Error fetching waitlist:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * @swagger
+ * /api/waitlist:
+ *   post:
+ *     tags:
+ *       - Bookings
+ *     summary: Prijava na listu čekanja
+ *     description: |
+ *       Klijent čeka tačan termin (start) ili bilo koji termin usluge u opsegu datuma
+ *       (fromDate, toDate u lokalnom vremenu providera). Kada se otkaže rezervacija,
+ *       klijenti sa liste redom prijave dobijaju email i termin zadržan na ograničeno vreme
+ *       (waitlistHoldMinutes); preuzimaju ga sa POST /api/booking i waitlistEntryId.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - providerId
+ *               - serviceId
+ *             properties:
+ *               providerId:
+ *                 type: string
+ *               serviceId:
+ *                 type: string
+ *               staffId:
+ *                 type: string
+ *                 description: Samo termini ovog zaposlenog
+ *               start:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Tačan početak termina
+ *               fromDate:
+ *                 type: string
+ *                 example: "2025-11-20"
+ *               toDate:
+ *                 type: string
+ *                 description: Poslednji dan opsega (podrazumevano fromDate)
+ *                 example: "2025-11-22"
+ *     responses:
+ *       201:
+ *         description: Klijent je na listi čekanja
+ *       400:
+ *         description: Neispravni podaci ili termin u prošlosti
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *       404:
+ *         description: Provider, servis ili zaposleni nije pronađen
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *       409:
+ *         description: Klijent je već na listi čekanja za isti termin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ *   delete:
+ *     tags:
+ *       - Bookings
+ *     summary: Napuštanje liste čekanja
+ *     description: Zadržan termin se odmah nudi sledećem na listi
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Prijava je povučena
+ *       404:
+ *         description: Prijava nije pronađena
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiError'
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validatedData = waitlistSchema.parse(await req.json())
+
+    await connectDB()
+
+    const providerProfile = await ProviderProfile.findById(validatedData.providerId)
+    if (!providerProfile) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+
+    const service = await Service.findOne({
+      _id: validatedData.serviceId,
+      providerId: providerProfile._id,
+      isActive: true,
+    })
+    if (!service) {
+      return NextResponse.json({ error: 'Service not found' }, { status: 404 })
+    }
+
+    if (validatedData.staffId) {
+      const staffMember = await StaffMember.findOne({
+        _id: validatedData.staffId,
+        providerId: providerProfile._id,
+        isActive: true,
+      })
+      if (!staffMember || !performsService(staffMember, service._id.toString())) {
+        return NextResponse.json({ error: 'Staff member not found' }, { status: 404 })
+      }
+    }
+
+    let from: Date
+    let to: Date
+    if (validatedData.start) {
+      from = to = new Date(validatedData.start)
+      if (isNaN(from.getTime())) {
+        return NextResponse.json({ error: 'Invalid start time' }, { status: 400 })
+      }
+    } else {
+      const timezone = getProviderTimezone(providerProfile)
+      from = getLocalDayBounds(validatedData.fromDate!, timezone).start
+      to = getLocalDayBounds(validatedData.toDate || validatedData.fromDate!, timezone).end
+    }
+
+    if (to <= new Date()) {
+      return NextResponse.json({ error: 'Waitlist time is in the past' }, { status: 400 })
+    }
+
+    const existing = await WaitlistEntry.exists({
+      clientId: session.user.id,
+      serviceId: service._id,
+      from,
+      to,
+      status: { $in: ['waiting', 'offered'] },
+    })
+    if (existing) {
+      return NextResponse.json({ error: 'You are already on the waitlist' }, { status: 409 })
+    }
+
+    const entry = await WaitlistEntry.create({
+      providerId: providerProfile._id,
+      serviceId: service._id,
+      clientId: session.user.id,
+      staffId: validatedData.staffId,
+      from,
+      to,
+    })
+
+    return NextResponse.json({ entry }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error joining waitlist:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const entryId = new URL(req.url).searchParams.get('entryId')
+    if (!entryId || !mongoose.isValidObjectId(entryId)) {
+      return NextResponse.json({ error: 'Waitlist entry not found' }, { status: 404 })
+    }
+
+    await connectDB()
+
+    const entry = await WaitlistEntry.findOne({
+      _id: entryId,
+      clientId: session.user.id,
+      status: { $in: ['waiting', 'offered'] },
+    })
+    if (!entry) {
+      return NextResponse.json({ error: 'Waitlist entry not found' }, { status: 404 })
+    }
+
+    await leaveWaitlist(entry)
+
+    return NextResponse.json({ message: 'Left the waitlist' })
+  } catch (error) {
+    console.error('Error leaving waitlist:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -24,12 +24,38 @@ interface Service {
   _id: string;
   name: string;
   price: number;
-  duration: number;
+  durationMinutes: number;
+  // Grupni časovi se ne kombinuju sa drugim uslugama
+  maxParticipants?: number;
 }
 
 interface TimeSlot {
+  start: string;
+  end: string;
   time: string;
   available: boolean;
+  // Samo kod grupnih usluga
+  remainingSeats?: number;
+}
+
+interface SeriesConflict {
+  start: string;
+  error: string;
+}
+
+// Najviše usluga u jednom terminu
+const MAX_APPOINTMENT_SERVICES = 5;
+
+const REPEAT_OPTIONS = [
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Every month' },
+];
+
+interface StaffMember {
+  _id: string;
+  name: string;
+  serviceIds: string[];
 }
 
 interface Provider {
@@ -37,6 +63,13 @@ interface Provider {
   businessName: string;
   location: string;
   services: Service[];
+  staff?: StaffMember[];
+  bookingPolicy?: {
+    maxAdvanceBookingDays: number;
+    minAdvanceBookingHours: number;
+    allowSameDayBooking: boolean;
+    cancellationHours: number;
+  };
 }
 
 export default function BookingPage() {
@@ -48,6 +81,10 @@ export default function BookingPage() {
   
   const [provider, setProvider] = useState<Provider | null>(null);
   const [selectedService, setSelectedService] = useState<Service | null>(null);
+  // Dodatne usluge posle izabrane, redom kojim se rade u istom terminu
+  const [extraServiceIds, setExtraServiceIds] = useState<string[]>([]);
+  // Prazno = bilo ko slobodan
+  const [selectedStaffId, setSelectedStaffId] = useState('');
   const [selectedDate, setSelectedDate] = useState('');
   const [selectedTime, setSelectedTime] = useState('');
   const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([]);
@@ -60,6 +97,16 @@ export default function BookingPage() {
   const [bookingLoading, setBookingLoading] = useState(false);
   const [bookingComplete, setBookingComplete] = useState(false);
   const [error, setError] = useState('');
+  // Termin koji je zauzet u međuvremenu; klijent može da ga čeka
+  const [waitlistStart, setWaitlistStart] = useState('');
+  const [waitlistMessage, setWaitlistMessage] = useState('');
+  // Ponavljanje termina; bez frekvencije zakazuje se jedan termin
+  const [repeatFrequency, setRepeatFrequency] = useState('');
+  const [repeatCount, setRepeatCount] = useState(4);
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [seriesConflicts, setSeriesConflicts] = useState<SeriesConflict[]>([]);
+  const [seriesAvailableCount, setSeriesAvailableCount] = useState(0);
+  const [seriesResult, setSeriesResult] = useState<{ booked: number; skipped: SeriesConflict[] } | null>(null);
 
   const getCurrentUrl = () => {
     if (typeof window === 'undefined') return '';
@@ -86,7 +133,7 @@ export default function BookingPage() {
     if (selectedService && selectedDate) {
       fetchAvailableSlots();
     }
-  }, [selectedService, selectedDate]);
+  }, [selectedService, extraServiceIds, selectedDate, selectedStaffId]);
 
   // Debug session state
   useEffect(() => {
@@ -117,10 +164,14 @@ export default function BookingPage() {
 
   const fetchAvailableSlots = async () => {
     if (!selectedService || !selectedDate) return;
+
+    setWaitlistStart('');
+    setWaitlistMessage('');
     
     try {
       const response = await fetch(
-        `/api/slots?providerId=${id}&serviceId=${selectedService._id}&date=${selectedDate}`
+        `/api/slots?providerId=${id}&${serviceQuery}&date=${selectedDate}` +
+        (selectedStaffId ? `&staffId=${selectedStaffId}` : '')
       );
       if (response.ok) {
         const data = await response.json();
@@ -131,7 +182,8 @@ export default function BookingPage() {
     }
   };
 
-  const handleBooking = async () => {
+  // skipConflicts zakazuje samo slobodne termine serije
+  const handleBooking = async (skipConflicts: boolean = false) => {
     if (!selectedService || !selectedDate || !selectedTime) {
       setError('Please select service, date and time');
       return;
@@ -142,13 +194,19 @@ export default function BookingPage() {
       return;
     }
 
+    // Slot start is already a UTC instant computed in the provider's timezone
+    const selectedSlot = availableSlots.find(slot => slot.time === selectedTime);
+    if (!selectedSlot) {
+      setError('Selected time is no longer available');
+      return;
+    }
+
     setBookingLoading(true);
     setError('');
+    setSeriesConflicts([]);
 
     try {
-      // Create ISO datetime string from date and time
-      const startDateTime = new Date(`${selectedDate}T${selectedTime}:00`);
-      
+
       const response = await fetch('/api/booking', {
         method: 'POST',
         headers: {
@@ -156,8 +214,16 @@ export default function BookingPage() {
         },
         body: JSON.stringify({
           providerId: id,
-          serviceId: selectedService._id,
-          start: startDateTime.toISOString(),
+          ...(isMultiService
+            ? { serviceIds: selectedServices.map(service => service._id) }
+            : { serviceId: selectedService._id }),
+          start: selectedSlot.start,
+          staffId: selectedStaffId || undefined,
+          recurrence: repeatFrequency ? {
+            frequency: repeatFrequency,
+            ...(repeatUntil ? { until: repeatUntil } : { count: repeatCount }),
+            skipConflicts
+          } : undefined,
           note: `Customer: ${customerInfo.name}\nEmail: ${customerInfo.email}\nPhone: ${customerInfo.phone}`
         }),
       });
@@ -165,9 +231,17 @@ export default function BookingPage() {
       const data = await response.json();
 
       if (response.ok) {
+        if (data.bookings) {
+          setSeriesResult({ booked: data.bookings.length, skipped: data.skipped || [] });
+        }
         setBookingComplete(true);
       } else {
         setError(data.error || 'Failed to create booking');
+        setSeriesConflicts(data.conflicts || []);
+        setSeriesAvailableCount(data.availableCount || 0);
+        if (response.status === 409 && data.error === 'This time slot is no longer available' && !isMultiService) {
+          setWaitlistStart(selectedSlot.start);
+        }
       }
     } catch (error) {
       setError('Network error. Please try again.');
@@ -176,12 +250,80 @@ export default function BookingPage() {
     }
   };
 
-  // Generate date options for next 30 days
+  // Lista čekanja za tačan termin ili ceo izabrani dan
+  const joinWaitlist = async (start?: string) => {
+    if (!selectedService || !selectedDate) return;
+
+    setError('');
+    setWaitlistMessage('');
+
+    try {
+      const response = await fetch('/api/waitlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          providerId: id,
+          serviceId: selectedService._id,
+          staffId: selectedStaffId || undefined,
+          ...(start ? { start } : { fromDate: selectedDate })
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setWaitlistStart('');
+        setWaitlistMessage('You are on the waitlist. We will email you if a time frees up and hold it for you for a limited time.');
+      } else {
+        setError(data.error || 'Failed to join the waitlist');
+      }
+    } catch (error) {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const toggleExtraService = (serviceId: string) => {
+    setExtraServiceIds(ids => ids.includes(serviceId) ? ids.filter(extraId => extraId !== serviceId) : [...ids, serviceId]);
+    setSelectedStaffId('');
+    setSelectedTime('');
+  };
+
+  const isGroupService = (service: Service) => (service.maxParticipants ?? 1) > 1;
+
+  const selectedServices = selectedService
+    ? [
+      selectedService,
+      ...extraServiceIds
+        .map(serviceId => provider?.services.find(service => service._id === serviceId))
+        .filter((service): service is Service => !!service)
+    ]
+    : [];
+  const isMultiService = selectedServices.length > 1;
+  const totalDuration = selectedServices.reduce((sum, service) => sum + service.durationMinutes, 0);
+  const totalPrice = selectedServices.reduce((sum, service) => sum + service.price, 0);
+  const serviceQuery = isMultiService
+    ? `serviceIds=${selectedServices.map(service => service._id).join(',')}`
+    : `serviceId=${selectedService?._id}`;
+
+  // Zaposleni koji rade sve izabrane usluge; prazna lista usluga znači sve usluge
+  const staffForService = (provider?.staff || []).filter(member =>
+    selectedService && (
+      member.serviceIds.length === 0 ||
+      selectedServices.every(service => member.serviceIds.includes(service._id))
+    )
+  );
+  const selectedStaff = staffForService.find(member => member._id === selectedStaffId);
+
+  // Generate date options within the provider's booking window
   const getDateOptions = () => {
     const dates = [];
     const today = new Date();
+    const maxDays = provider?.bookingPolicy?.maxAdvanceBookingDays ?? 30;
+    const firstDay = provider?.bookingPolicy?.allowSameDayBooking === false ? 1 : 0;
     
-    for (let i = 0; i < 30; i++) {
+    for (let i = firstDay; i <= maxDays; i++) {
       const date = new Date(today);
       date.setDate(date.getDate() + i);
       dates.push({
@@ -235,11 +377,31 @@ export default function BookingPage() {
           </p>
           <div className="bg-gray-50 rounded-lg p-4 mb-6 text-left">
             <h3 className="font-semibold mb-2">Booking Details:</h3>
-            <p><strong>Service:</strong> {selectedService?.name}</p>
+            <p><strong>Service:</strong> {selectedServices.map(service => service.name).join(' + ')}</p>
             <p><strong>Date:</strong> {new Date(selectedDate + 'T00:00:00').toLocaleDateString()}</p>
             <p><strong>Time:</strong> {selectedTime}</p>
-            <p><strong>Duration:</strong> {selectedService?.duration} minutes</p>
-            <p><strong>Price:</strong> ${selectedService?.price}</p>
+            <p><strong>Duration:</strong> {totalDuration} minutes</p>
+            <p><strong>Price:</strong> ${totalPrice}</p>
+            {seriesResult && (
+              <>
+                <p>
+                  <strong>Repeats:</strong> {REPEAT_OPTIONS.find(option => option.value === repeatFrequency)?.label.toLowerCase()},
+                  {' '}{seriesResult.booked} appointments booked
+                </p>
+                {seriesResult.skipped.length > 0 && (
+                  <div className="mt-2 text-sm text-gray-700">
+                    <strong>Not booked:</strong>
+                    <ul className="list-disc pl-5">
+                      {seriesResult.skipped.map((conflict) => (
+                        <li key={conflict.start}>
+                          {new Date(conflict.start).toLocaleDateString()} – {conflict.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
           </div>
           <div className="space-y-3">
             <Link href="/dashboard/client" className="block">
@@ -274,7 +436,6 @@ export default function BookingPage() {
     return (
       <PageLayout>
         <div className="flex items-center justify-center py-20">
-        <main className="flex items-center justify-center min-h-[calc(100vh-4rem)]">
           <Card className="max-w-md mx-4 p-8 text-center">
             <LogIn className="w-16 h-16 text-blue-500 mx-auto mb-6" />
             <h2 className="text-2xl font-bold text-gray-900 mb-4">
@@ -317,16 +478,6 @@ export default function BookingPage() {
   return (
     <PageLayout className="bg-gray-50">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                <div className="animate-pulse flex items-center space-x-2">
-                  <div className="w-20 h-8 bg-gray-200 rounded"></div>
-                </div>
-              ) : session ? (
-                <div className="flex items-center space-x-3">
-                  <span className="text-gray-700">
-                    Hello, {session.user?.name}
-                  </span>
-                  <Link href="/dashboard/client">
-                    <Button variant="outline">Dashboard</Button>
         {/* Back Button */}
         <div className="mb-6">
           <Link 
@@ -389,7 +540,12 @@ export default function BookingPage() {
                 {provider.services.map((service) => (
                   <div
                     key={service._id}
-                    onClick={() => setSelectedService(service)}
+                    onClick={() => {
+                      setSelectedService(service);
+                      setExtraServiceIds([]);
+                      setSelectedStaffId('');
+                      setSelectedTime('');
+                    }}
                     className={`border rounded-lg p-4 cursor-pointer transition-all ${
                       selectedService?._id === service._id
                         ? 'border-blue-500 bg-blue-50'
@@ -401,7 +557,7 @@ export default function BookingPage() {
                         <h3 className="font-semibold">{service.name}</h3>
                         <div className="flex items-center text-sm text-gray-600 mt-1">
                           <Clock className="w-4 h-4 mr-1" />
-                          {service.duration} minutes
+                          {service.durationMinutes} minutes
                         </div>
                       </div>
                       <div className="text-lg font-bold">${service.price}</div>
@@ -409,6 +565,36 @@ export default function BookingPage() {
                   </div>
                 ))}
               </div>
+
+              {selectedService && !isGroupService(selectedService) && provider.services.some(service =>
+                service._id !== selectedService._id && !isGroupService(service)
+              ) && (
+                <div className="mt-6 border-t pt-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Add more services to this appointment</h3>
+                  <div className="space-y-2">
+                    {provider.services
+                      .filter(service => service._id !== selectedService._id && !isGroupService(service))
+                      .map((service) => {
+                        const checked = extraServiceIds.includes(service._id);
+                        return (
+                          <label key={service._id} className="flex items-center justify-between text-sm">
+                            <span className="flex items-center">
+                              <input
+                                type="checkbox"
+                                className="mr-2"
+                                checked={checked}
+                                disabled={!checked && selectedServices.length >= MAX_APPOINTMENT_SERVICES}
+                                onChange={() => toggleExtraService(service._id)}
+                              />
+                              {service.name} ({service.durationMinutes} min)
+                            </span>
+                            <span className="font-medium">+${service.price}</span>
+                          </label>
+                        );
+                      })}
+                  </div>
+                </div>
+              )}
             </Card>
 
             {/* Date & Time Selection */}
@@ -416,6 +602,30 @@ export default function BookingPage() {
               <Card className="p-6">
                 <h2 className="text-xl font-bold mb-4">2. Select Date & Time</h2>
                 
+                {/* Staff Selection */}
+                {staffForService.length > 0 && (
+                  <div className="mb-6">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Staff
+                    </label>
+                    <select
+                      value={selectedStaffId}
+                      onChange={(e) => {
+                        setSelectedStaffId(e.target.value);
+                        setSelectedTime('');
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Any available</option>
+                      {staffForService.map((member) => (
+                        <option key={member._id} value={member._id}>
+                          {member.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                
                 {/* Date Selection */}
                 <div className="mb-6">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -461,11 +671,28 @@ export default function BookingPage() {
                             }`}
                           >
                             {slot.time}
+                            {slot.remainingSeats !== undefined && (
+                              <span className="block text-xs font-normal">
+                                {slot.remainingSeats} {slot.remainingSeats === 1 ? 'seat' : 'seats'} left
+                              </span>
+                            )}
                           </button>
                         ))}
                       </div>
                     ) : (
-                      <p className="text-gray-700">No available time slots for this date.</p>
+                      <div>
+                        <p className="text-gray-700">No available time slots for this date.</p>
+                        {!isMultiService && (
+                          <Button variant="outline" className="mt-3" onClick={() => joinWaitlist()}>
+                            Join waitlist for this day
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {waitlistMessage && (
+                      <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-md">
+                        <p className="text-green-700 text-sm">{waitlistMessage}</p>
+                      </div>
                     )}
                   </div>
                 )}
@@ -525,9 +752,82 @@ export default function BookingPage() {
                   </div>
                 </div>
 
+                <div className="mt-6 border-t pt-4">
+                  <label htmlFor="repeat-frequency" className="block text-sm font-medium text-gray-700 mb-1">
+                    Repeat
+                  </label>
+                  <select
+                    id="repeat-frequency"
+                    value={repeatFrequency}
+                    onChange={(e) => setRepeatFrequency(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Does not repeat</option>
+                    {REPEAT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+
+                  {repeatFrequency && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-3">
+                      <div>
+                        <label htmlFor="repeat-count" className="block text-sm font-medium text-gray-700 mb-1">
+                          Number of appointments
+                        </label>
+                        <Input
+                          id="repeat-count"
+                          type="number"
+                          min="2"
+                          max="52"
+                          value={repeatCount}
+                          disabled={!!repeatUntil}
+                          onChange={(e) => setRepeatCount(parseInt(e.target.value) || 2)}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="repeat-until" className="block text-sm font-medium text-gray-700 mb-1">
+                          Or repeat until
+                        </label>
+                        <Input
+                          id="repeat-until"
+                          type="date"
+                          min={selectedDate}
+                          value={repeatUntil}
+                          onChange={(e) => setRepeatUntil(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {provider?.bookingPolicy && (
+                  <p className="mt-4 text-sm text-gray-600">
+                    Bookings can be cancelled or rescheduled up to {provider.bookingPolicy.cancellationHours} hours before the appointment.
+                  </p>
+                )}
+
                 {error && (
                   <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
                     <p className="text-red-600 text-sm">{error}</p>
+                    {waitlistStart && (
+                      <Button variant="outline" size="sm" className="mt-2" onClick={() => joinWaitlist(waitlistStart)}>
+                        Join waitlist for this time
+                      </Button>
+                    )}
+                    {seriesConflicts.length > 0 && (
+                      <ul className="mt-2 text-sm text-red-600 list-disc pl-5">
+                        {seriesConflicts.map((conflict) => (
+                          <li key={conflict.start}>
+                            {new Date(conflict.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} – {conflict.error}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {seriesAvailableCount > 0 && seriesConflicts.length > 0 && (
+                      <Button variant="outline" size="sm" className="mt-2" onClick={() => handleBooking(true)}>
+                        Book the {seriesAvailableCount} available {seriesAvailableCount === 1 ? 'date' : 'dates'}
+                      </Button>
+                    )}
                   </div>
                 )}
               </Card>
@@ -548,9 +848,18 @@ export default function BookingPage() {
 
                 {selectedService && (
                   <div>
-                    <h4 className="font-medium text-gray-900">Service</h4>
-                    <p className="text-gray-600">{selectedService.name}</p>
-                    <p className="text-sm text-gray-700">{selectedService.duration} minutes</p>
+                    <h4 className="font-medium text-gray-900">{isMultiService ? 'Services' : 'Service'}</h4>
+                    {selectedServices.map((service) => (
+                      <p key={service._id} className="text-gray-600">{service.name}</p>
+                    ))}
+                    <p className="text-sm text-gray-700">{totalDuration} minutes</p>
+                  </div>
+                )}
+
+                {staffForService.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-900">Staff</h4>
+                    <p className="text-gray-600">{selectedStaff?.name || 'Any available'}</p>
                   </div>
                 )}
 
@@ -575,17 +884,29 @@ export default function BookingPage() {
                   </div>
                 )}
 
+                {repeatFrequency && (
+                  <div>
+                    <h4 className="font-medium text-gray-900">Repeats</h4>
+                    <p className="text-gray-600">
+                      {REPEAT_OPTIONS.find(option => option.value === repeatFrequency)?.label}
+                      {repeatUntil
+                        ? ` until ${new Date(repeatUntil + 'T00:00:00').toLocaleDateString()}`
+                        : `, ${repeatCount} times`}
+                    </p>
+                  </div>
+                )}
+
                 {selectedService && (
                   <div className="border-t pt-4">
                     <div className="flex justify-between items-center">
                       <span className="font-medium text-gray-900">Total</span>
-                      <span className="text-xl font-bold">${selectedService.price}</span>
+                      <span className="text-xl font-bold">${totalPrice}</span>
                     </div>
                   </div>
                 )}
 
                 <Button
-                  onClick={handleBooking}
+                  onClick={() => handleBooking()}
                   disabled={!selectedService || !selectedDate || !selectedTime || !customerInfo.name || !customerInfo.email || bookingLoading}
                   className="w-full mt-6"
                 >
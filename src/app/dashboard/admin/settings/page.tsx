@@ -21,119 +21,19 @@ import {
   Clock,
   Save,
   RefreshCw,
-  AlertCircle,
   Check
 } from 'lucide-react'
 import { AccessibleToast } from '@/components/ui/AccessibleFeedback'
+import { ALLOWED_FILE_TYPES, type EmailTransportName, type PlatformSettings, type SettingsSection } from '@/lib/settings'
 
-interface SystemSettings {
-  // Application Settings
-  appName: string
-  appDescription: string
-  defaultTimezone: string
-  defaultLanguage: string
-  defaultCurrency: string
-  
-  // Booking Settings
-  defaultBookingDuration: number // minutes
-  maxAdvanceBookingDays: number
-  minAdvanceBookingHours: number
-  allowSameDayBooking: boolean
-  defaultCancellationHours: number
-  
-  // Email Settings
-  emailEnabled: boolean
-  smtpHost: string
-  smtpPort: number
-  smtpSecure: boolean
-  smtpUser: string
-  smtpPassword: string
-  fromEmail: string
-  fromName: string
-  
-  // Notification Settings
-  bookingConfirmationEmail: boolean
-  bookingReminderEmail: boolean
-  cancellationNotificationEmail: boolean
-  reminderHoursBefore: number
-  
-  // Security Settings
-  sessionTimeoutMinutes: number
-  maxLoginAttempts: number
-  lockoutDurationMinutes: number
-  requireEmailVerification: boolean
-  passwordMinLength: number
-  passwordRequireSpecialChar: boolean
-  
-  // File Upload Settings
-  maxFileUploadSize: number // MB
-  allowedFileTypes: string[]
-  
-  // Integration Settings
-  googleCalendarEnabled: boolean
-  enableWebhooks: boolean
-  webhookUrl: string
-  
-  // Business Settings
-  businessName: string
-  businessAddress: string
-  businessPhone: string
-  businessEmail: string
-  taxRate: number
-  commissionRate: number
-}
-
-const defaultSettings: SystemSettings = {
-  appName: 'Zakazivač',
-  appDescription: 'Professional appointment booking system',
-  defaultTimezone: 'Europe/Belgrade',
-  defaultLanguage: 'sr',
-  defaultCurrency: 'RSD',
-  
-  defaultBookingDuration: 60,
-  maxAdvanceBookingDays: 90,
-  minAdvanceBookingHours: 2,
-  allowSameDayBooking: true,
-  defaultCancellationHours: 24,
-  
-  emailEnabled: true,
-  smtpHost: '',
-  smtpPort: 587,
-  smtpSecure: true,
-  smtpUser: '',
-  smtpPassword: '',
-  fromEmail: '',
-  fromName: '',
-  
-  bookingConfirmationEmail: true,
-  bookingReminderEmail: true,
-  cancellationNotificationEmail: true,
-  reminderHoursBefore: 24,
-  
-  sessionTimeoutMinutes: 60,
-  maxLoginAttempts: 5,
-  lockoutDurationMinutes: 15,
-  requireEmailVerification: true,
-  passwordMinLength: 8,
-  passwordRequireSpecialChar: true,
-  
-  maxFileUploadSize: 5,
-  allowedFileTypes: ['jpg', 'jpeg', 'png', 'pdf'],
-  
-  googleCalendarEnabled: false,
-  enableWebhooks: false,
-  webhookUrl: '',
-  
-  businessName: '',
-  businessAddress: '',
-  businessPhone: '',
-  businessEmail: '',
-  taxRate: 0,
-  commissionRate: 0
-}
+type SettingsChange = { section: string; field: string }
+
+const FILE_TYPE_OPTIONS = ALLOWED_FILE_TYPES.filter(type => type !== 'txt')
 
 export default function AdminSettingsPage() {
-  const [settings, setSettings] = useState<SystemSettings>(defaultSettings)
+  const [settings, setSettings] = useState<PlatformSettings | null>(null)
+  const [version, setVersion] = useState(0)
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [activeTab, setActiveTab] = useState('general')
@@ -150,7 +50,9 @@ export default function AdminSettingsPage() {
       const data = await response.json()
       
       if (response.ok) {
-        setSettings({ ...defaultSettings, ...data.settings })
+        setSettings(data.settings)
+        setVersion(data.version)
+        setUpdatedAt(data.updatedAt || null)
       } else {
         setToast({ type: 'error', message: data.error || 'Failed to load settings' })
       }
@@ -168,13 +70,26 @@ export default function AdminSettingsPage() {
       const response = await fetch('/api/admin/settings', {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ settings })
+        body: JSON.stringify({ settings, version })
       })
       
       const data = await response.json()
       
       if (response.ok) {
-        setToast({ type: 'success', message: 'Settings saved successfully' })
+        setSettings(data.settings)
+        setVersion(data.version)
+        setUpdatedAt(new Date().toISOString())
+        const changed = (data.changes as SettingsChange[]).map(change => `${change.section}.${change.field}`)
+        setToast({
+          type: 'success',
+          message: changed.length > 0 ? `Settings saved (${changed.join(', ')})` : 'No changes to save'
+        })
+      } else if (response.status === 409) {
+        // Neko drugi je u međuvremenu sačuvao podešavanja
+        setToast({ type: 'error', message: 'Settings were changed by another admin. Refresh to load the latest version.' })
+      } else if (data.details) {
+        const fields = (data.details as { path: (string | number)[] }[]).map(issue => issue.path.join('.'))
+        setToast({ type: 'error', message: `Invalid settings: ${fields.join(', ')}` })
       } else {
         setToast({ type: 'error', message: data.error || 'Failed to save settings' })
       }
@@ -186,8 +101,12 @@ export default function AdminSettingsPage() {
     }
   }
 
-  const updateSetting = (path: keyof SystemSettings, value: any) => {
-    setSettings(prev => ({ ...prev, [path]: value }))
+  const updateSetting = <S extends SettingsSection, K extends keyof PlatformSettings[S]>(
+    section: S,
+    field: K,
+    value: PlatformSettings[S][K]
+  ) => {
+    setSettings(prev => prev && { ...prev, [section]: { ...prev[section], [field]: value } })
   }
 
   const tabs = [
@@ -200,7 +119,7 @@ export default function AdminSettingsPage() {
     { id: 'integrations', label: 'Integrations', icon: Smartphone },
   ]
 
-  if (loading) {
+  if (loading || !settings) {
     return (
       <div className="p-8 space-y-6">
         <div className="flex items-center gap-2">
@@ -219,6 +138,12 @@ export default function AdminSettingsPage() {
           <p className="text-muted-foreground mt-2">
             Configure system-wide settings and preferences
           </p>
+          <p className="text-sm text-muted-foreground mt-1 flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {version > 0 && updatedAt
+              ? `Version ${version}, last updated ${new Date(updatedAt).toLocaleString()}`
+              : 'Using default settings'}
+          </p>
         </div>
         
         <div className="flex items-center gap-2">
@@ -286,8 +211,8 @@ export default function AdminSettingsPage() {
                   <Label htmlFor="appName">Application Name</Label>
                   <Input
                     id="appName"
-                    value={settings.appName}
-                    onChange={(e) => updateSetting('appName', e.target.value)}
+                    value={settings.application.appName}
+                    onChange={(e) => updateSetting('application', 'appName', e.target.value)}
                   />
                 </div>
                 
@@ -295,16 +220,16 @@ export default function AdminSettingsPage() {
                   <Label htmlFor="appDescription">Description</Label>
                   <Input
                     id="appDescription"
-                    value={settings.appDescription}
-                    onChange={(e) => updateSetting('appDescription', e.target.value)}
+                    value={settings.application.appDescription}
+                    onChange={(e) => updateSetting('application', 'appDescription', e.target.value)}
                   />
                 </div>
                 
                 <div>
                   <Label htmlFor="defaultTimezone">Default Timezone</Label>
                   <Select 
-                    value={settings.defaultTimezone} 
-                    onValueChange={(value) => updateSetting('defaultTimezone', value)}
+                    value={settings.application.defaultTimezone} 
+                    onValueChange={(value) => updateSetting('application', 'defaultTimezone', value)}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -321,8 +246,8 @@ export default function AdminSettingsPage() {
                 <div>
                   <Label htmlFor="defaultLanguage">Default Language</Label>
                   <Select 
-                    value={settings.defaultLanguage} 
-                    onValueChange={(value) => updateSetting('defaultLanguage', value)}
+                    value={settings.application.defaultLanguage} 
+                    onValueChange={(value) => updateSetting('application', 'defaultLanguage', value)}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -339,8 +264,8 @@ export default function AdminSettingsPage() {
                 <div>
                   <Label htmlFor="defaultCurrency">Default Currency</Label>
                   <Select 
-                    value={settings.defaultCurrency} 
-                    onValueChange={(value) => updateSetting('defaultCurrency', value)}
+                    value={settings.application.defaultCurrency} 
+                    onValueChange={(value) => updateSetting('application', 'defaultCurrency', value)}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -372,28 +297,28 @@ export default function AdminSettingsPage() {
                   <Input
                     id="maxFileSize"
                     type="number"
-                    value={settings.maxFileUploadSize}
-                    onChange={(e) => updateSetting('maxFileUploadSize', parseInt(e.target.value) || 5)}
+                    value={settings.application.maxFileUploadSize}
+                    onChange={(e) => updateSetting('application', 'maxFileUploadSize', parseInt(e.target.value) || 5)}
                   />
                 </div>
                 
                 <div>
                   <Label>Allowed File Types</Label>
                   <div className="flex flex-wrap gap-2 mt-2">
-                    {['jpg', 'jpeg', 'png', 'gif', 'pdf', 'doc', 'docx'].map((type) => (
+                    {FILE_TYPE_OPTIONS.map((type) => (
                       <Badge
                         key={type}
-                        variant={settings.allowedFileTypes.includes(type) ? 'default' : 'outline'}
+                        variant={settings.application.allowedFileTypes.includes(type) ? 'default' : 'outline'}
                         className="cursor-pointer"
                         onClick={() => {
-                          const types = settings.allowedFileTypes.includes(type)
-                            ? settings.allowedFileTypes.filter(t => t !== type)
-                            : [...settings.allowedFileTypes, type]
-                          updateSetting('allowedFileTypes', types)
+                          const types = settings.application.allowedFileTypes.includes(type)
+                            ? settings.application.allowedFileTypes.filter(t => t !== type)
+                            : [...settings.application.allowedFileTypes, type]
+                          updateSetting('application', 'allowedFileTypes', types)
                         }}
                       >
                         {type.toUpperCase()}
-                        {settings.allowedFileTypes.includes(type) && (
+                        {settings.application.allowedFileTypes.includes(type) && (
                           <Check className="h-3 w-3 ml-1" />
                         )}
                       </Badge>
@@ -424,8 +349,8 @@ export default function AdminSettingsPage() {
                   <Input
                     id="defaultDuration"
                     type="number"
-                    value={settings.defaultBookingDuration}
-                    onChange={(e) => updateSetting('defaultBookingDuration', parseInt(e.target.value) || 60)}
+                    value={settings.booking.defaultBookingDuration}
+                    onChange={(e) => updateSetting('booking', 'defaultBookingDuration', parseInt(e.target.value) || 60)}
                   />
                 </div>
                 
@@ -434,8 +359,8 @@ export default function AdminSettingsPage() {
                   <Input
                     id="maxAdvanceDays"
                     type="number"
-                    value={settings.maxAdvanceBookingDays}
-                    onChange={(e) => updateSetting('maxAdvanceBookingDays', parseInt(e.target.value) || 90)}
+                    value={settings.booking.maxAdvanceBookingDays}
+                    onChange={(e) => updateSetting('booking', 'maxAdvanceBookingDays', parseInt(e.target.value) || 90)}
                   />
                 </div>
                 
@@ -444,8 +369,8 @@ export default function AdminSettingsPage() {
                   <Input
                     id="minAdvanceHours"
                     type="number"
-                    value={settings.minAdvanceBookingHours}
-                    onChange={(e) => updateSetting('minAdvanceBookingHours', parseInt(e.target.value) || 2)}
+                    value={settings.booking.minAdvanceBookingHours}
+                    onChange={(e) => updateSetting('booking', 'minAdvanceBookingHours', parseInt(e.target.value) || 0)}
                   />
                 </div>
                 
@@ -453,8 +378,8 @@ export default function AdminSettingsPage() {
                   <Label htmlFor="sameDayBooking">Allow Same-Day Booking</Label>
                   <Switch
                     id="sameDayBooking"
-                    checked={settings.allowSameDayBooking}
-                    onCheckedChange={(checked) => updateSetting('allowSameDayBooking', checked)}
+                    checked={settings.booking.allowSameDayBooking}
+                    onCheckedChange={(checked) => updateSetting('booking', 'allowSameDayBooking', checked)}
                   />
                 </div>
                 
@@ -463,8 +388,20 @@ export default function AdminSettingsPage() {
                   <Input
                     id="cancellationHours"
                     type="number"
-                    value={settings.defaultCancellationHours}
-                    onChange={(e) => updateSetting('defaultCancellationHours', parseInt(e.target.value) || 24)}
+                    value={settings.booking.defaultCancellationHours}
+                    onChange={(e) => updateSetting('booking', 'defaultCancellationHours', parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                
+                <div>
+                  <Label htmlFor="waitlistHoldMinutes">Waitlist Hold (minutes)</Label>
+                  <Input
+                    id="waitlistHoldMinutes"
+                    type="number"
+                    min="5"
+                    max="1440"
+                    value={settings.booking.waitlistHoldMinutes}
+                    onChange={(e) => updateSetting('booking', 'waitlistHoldMinutes', parseInt(e.target.value) || 30)}
                   />
                 </div>
               </CardContent>
@@ -472,23 +409,410 @@ export default function AdminSettingsPage() {
           </div>
         )}
 
-        {/* Additional tabs would continue here... */}
-        
-        {/* Show info for other tabs */}
-        {['email', 'notifications', 'security', 'business', 'integrations'].includes(activeTab) && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <AlertCircle className="h-5 w-5" />
-                Coming Soon
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-muted-foreground">
-                {activeTab.charAt(0).toUpperCase() + activeTab.slice(1)} settings will be available in the next update.
-              </p>
-            </CardContent>
-          </Card>
+        {/* Email Settings */}
+        {activeTab === 'email' && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Mail className="h-5 w-5" />
+                  SMTP Server
+                </CardTitle>
+                <CardDescription>
+                  Outgoing mail server used for all system emails
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="emailEnabled">Send Emails</Label>
+                  <Switch
+                    id="emailEnabled"
+                    checked={settings.email.emailEnabled}
+                    onCheckedChange={(checked) => updateSetting('email', 'emailEnabled', checked)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="transport">Transport</Label>
+                  <Select
+                    value={settings.email.transport}
+                    onValueChange={(value) => updateSetting('email', 'transport', value as EmailTransportName)}
+                  >
+                    <SelectTrigger id="transport">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mailgun">Mailgun</SelectItem>
+                      <SelectItem value="smtp">SMTP</SelectItem>
+                      <SelectItem value="outbox">Outbox (development, nothing is sent)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="smtpHost">SMTP Host</Label>
+                  <Input
+                    id="smtpHost"
+                    value={settings.email.smtpHost}
+                    onChange={(e) => updateSetting('email', 'smtpHost', e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="smtpPort">SMTP Port</Label>
+                  <Input
+                    id="smtpPort"
+                    type="number"
+                    value={settings.email.smtpPort}
+                    onChange={(e) => updateSetting('email', 'smtpPort', parseInt(e.target.value) || 587)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="smtpSecure">Use TLS</Label>
+                  <Switch
+                    id="smtpSecure"
+                    checked={settings.email.smtpSecure}
+                    onCheckedChange={(checked) => updateSetting('email', 'smtpSecure', checked)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="smtpUser">SMTP User</Label>
+                  <Input
+                    id="smtpUser"
+                    value={settings.email.smtpUser}
+                    onChange={(e) => updateSetting('email', 'smtpUser', e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="smtpPassword">SMTP Password</Label>
+                  <Input
+                    id="smtpPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={settings.email.smtpPassword}
+                    onChange={(e) => updateSetting('email', 'smtpPassword', e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Mail className="h-5 w-5" />
+                  Sender
+                </CardTitle>
+                <CardDescription>
+                  Name and address shown to recipients
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="fromEmail">From Email</Label>
+                  <Input
+                    id="fromEmail"
+                    type="email"
+                    value={settings.email.fromEmail}
+                    onChange={(e) => updateSetting('email', 'fromEmail', e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="fromName">From Name</Label>
+                  <Input
+                    id="fromName"
+                    value={settings.email.fromName}
+                    onChange={(e) => updateSetting('email', 'fromName', e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Notification Settings */}
+        {activeTab === 'notifications' && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Email Notifications
+                </CardTitle>
+                <CardDescription>
+                  Which booking events send an email
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="bookingConfirmationEmail">Booking Confirmation</Label>
+                  <Switch
+                    id="bookingConfirmationEmail"
+                    checked={settings.notifications.bookingConfirmationEmail}
+                    onCheckedChange={(checked) => updateSetting('notifications', 'bookingConfirmationEmail', checked)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="bookingReminderEmail">Booking Reminder</Label>
+                  <Switch
+                    id="bookingReminderEmail"
+                    checked={settings.notifications.bookingReminderEmail}
+                    onCheckedChange={(checked) => updateSetting('notifications', 'bookingReminderEmail', checked)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="cancellationNotificationEmail">Cancellation Notice</Label>
+                  <Switch
+                    id="cancellationNotificationEmail"
+                    checked={settings.notifications.cancellationNotificationEmail}
+                    onCheckedChange={(checked) => updateSetting('notifications', 'cancellationNotificationEmail', checked)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="reminderHoursBefore">Send Reminder (hours before)</Label>
+                  <Input
+                    id="reminderHoursBefore"
+                    type="number"
+                    value={settings.notifications.reminderHoursBefore}
+                    onChange={(e) => updateSetting('notifications', 'reminderHoursBefore', parseInt(e.target.value) || 24)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Security Settings */}
+        {activeTab === 'security' && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Shield className="h-5 w-5" />
+                  Sessions and Login
+                </CardTitle>
+                <CardDescription>
+                  Session lifetime and brute-force protection
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="sessionTimeoutMinutes">Session Timeout (minutes)</Label>
+                  <Input
+                    id="sessionTimeoutMinutes"
+                    type="number"
+                    value={settings.security.sessionTimeoutMinutes}
+                    onChange={(e) => updateSetting('security', 'sessionTimeoutMinutes', parseInt(e.target.value) || 60)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="maxLoginAttempts">Max Login Attempts</Label>
+                  <Input
+                    id="maxLoginAttempts"
+                    type="number"
+                    value={settings.security.maxLoginAttempts}
+                    onChange={(e) => updateSetting('security', 'maxLoginAttempts', parseInt(e.target.value) || 5)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="lockoutDurationMinutes">Lockout Duration (minutes)</Label>
+                  <Input
+                    id="lockoutDurationMinutes"
+                    type="number"
+                    value={settings.security.lockoutDurationMinutes}
+                    onChange={(e) => updateSetting('security', 'lockoutDurationMinutes', parseInt(e.target.value) || 15)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="requireEmailVerification">Require Email Verification</Label>
+                  <Switch
+                    id="requireEmailVerification"
+                    checked={settings.security.requireEmailVerification}
+                    onCheckedChange={(checked) => updateSetting('security', 'requireEmailVerification', checked)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Shield className="h-5 w-5" />
+                  Password Policy
+                </CardTitle>
+                <CardDescription>
+                  Requirements for new passwords
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="passwordMinLength">Minimum Length</Label>
+                  <Input
+                    id="passwordMinLength"
+                    type="number"
+                    value={settings.security.passwordMinLength}
+                    onChange={(e) => updateSetting('security', 'passwordMinLength', parseInt(e.target.value) || 8)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="passwordRequireSpecialChar">Require Special Character</Label>
+                  <Switch
+                    id="passwordRequireSpecialChar"
+                    checked={settings.security.passwordRequireSpecialChar}
+                    onCheckedChange={(checked) => updateSetting('security', 'passwordRequireSpecialChar', checked)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Business Settings */}
+        {activeTab === 'business' && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  Business Information
+                </CardTitle>
+                <CardDescription>
+                  Company details used on invoices and emails
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="businessName">Business Name</Label>
+                  <Input
+                    id="businessName"
+                    value={settings.business.businessName}
+                    onChange={(e) => updateSetting('business', 'businessName', e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="businessAddress">Address</Label>
+                  <Input
+                    id="businessAddress"
+                    value={settings.business.businessAddress}
+                    onChange={(e) => updateSetting('business', 'businessAddress', e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="businessPhone">Phone</Label>
+                  <Input
+                    id="businessPhone"
+                    value={settings.business.businessPhone}
+                    onChange={(e) => updateSetting('business', 'businessPhone', e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="businessEmail">Email</Label>
+                  <Input
+                    id="businessEmail"
+                    type="email"
+                    value={settings.business.businessEmail}
+                    onChange={(e) => updateSetting('business', 'businessEmail', e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  Rates
+                </CardTitle>
+                <CardDescription>
+                  Tax and platform commission in percent
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="taxRate">Tax Rate (%)</Label>
+                  <Input
+                    id="taxRate"
+                    type="number"
+                    step="0.1"
+                    value={settings.business.taxRate}
+                    onChange={(e) => updateSetting('business', 'taxRate', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="commissionRate">Commission Rate (%)</Label>
+                  <Input
+                    id="commissionRate"
+                    type="number"
+                    step="0.1"
+                    value={settings.business.commissionRate}
+                    onChange={(e) => updateSetting('business', 'commissionRate', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Integration Settings */}
+        {activeTab === 'integrations' && (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Smartphone className="h-5 w-5" />
+                  Integrations
+                </CardTitle>
+                <CardDescription>
+                  External calendars and webhooks
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="googleCalendarEnabled">Google Calendar</Label>
+                  <Switch
+                    id="googleCalendarEnabled"
+                    checked={settings.integrations.googleCalendarEnabled}
+                    onCheckedChange={(checked) => updateSetting('integrations', 'googleCalendarEnabled', checked)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="enableWebhooks">Webhooks</Label>
+                  <Switch
+                    id="enableWebhooks"
+                    checked={settings.integrations.enableWebhooks}
+                    onCheckedChange={(checked) => updateSetting('integrations', 'enableWebhooks', checked)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="webhookUrl">Webhook URL</Label>
+                  <Input
+                    id="webhookUrl"
+                    type="url"
+                    placeholder="https://"
+                    value={settings.integrations.webhookUrl}
+                    disabled={!settings.integrations.enableWebhooks}
+                    onChange={(e) => updateSetting('integrations', 'webhookUrl', e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
         )}
       </div>
 
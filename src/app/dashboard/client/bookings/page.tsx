@@ -12,28 +12,76 @@ import {
   Clock, 
   MapPin, 
   Filter,
-  ArrowLeft
+  ArrowLeft,
+  Repeat
 } from 'lucide-react';
 import Link from 'next/link';
 
 interface Booking {
   _id: string;
-  service: {
+  serviceId: {
+    _id: string;
     name: string;
     price: number;
-    duration: number;
-  };
-  provider: {
+    durationMinutes: number;
+  } | null;
+  providerId: {
+    _id: string;
     businessName: string;
-    location: string;
-  };
-  selectedDate: string;
-  selectedTime: string;
+    contactInfo?: {
+      address?: string;
+    };
+  } | null;
+  staffId?: {
+    _id: string;
+    name: string;
+  } | null;
+  seriesId?: string;
+  // Usluge termina sa više usluga, redom
+  items?: {
+    serviceId: string;
+    name: string;
+    durationMinutes: number;
+    price: number;
+  }[];
+  start: string;
+  end: string;
+  originalStart?: string;
   status: string;
-  totalAmount: number;
+  note?: string;
   createdAt: string;
 }
 
+interface WaitlistEntry {
+  _id: string;
+  serviceId: {
+    _id: string;
+    name: string;
+  } | null;
+  providerId: {
+    _id: string;
+    businessName: string;
+  } | null;
+  staffId?: {
+    _id: string;
+    name: string;
+  } | null;
+  from: string;
+  to: string;
+  status: 'waiting' | 'offered';
+  offer?: {
+    start: string;
+    end: string;
+    staffId?: string;
+    expiresAt: string;
+  };
+}
+
+interface RescheduleSlot {
+  start: string;
+  time: string;
+}
+
 export default function ClientBookingsPage() {
   const { data: session, status } = useSession();
   const [bookings, setBookings] = useState<Booking[]>([]);
@@ -41,6 +89,11 @@ export default function ClientBookingsPage() {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState('');
+  const [rescheduleSlots, setRescheduleSlots] = useState<RescheduleSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -51,6 +104,7 @@ export default function ClientBookingsPage() {
   useEffect(() => {
     if (session) {
       fetchBookings();
+      fetchWaitlist();
     }
   }, [session]);
 
@@ -72,13 +126,96 @@ export default function ClientBookingsPage() {
     }
   };
 
+  const fetchWaitlist = async () => {
+    try {
+      const response = await fetch('/api/waitlist');
+      if (response.ok) {
+        const data = await response.json();
+        setWaitlist(data.entries || []);
+      }
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+    }
+  };
+
+  // Preuzimanje zadržanog termina je obična rezervacija uz waitlistEntryId
+  const handleClaim = async (entry: WaitlistEntry) => {
+    if (!entry.offer || !entry.providerId || !entry.serviceId) {
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/booking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          providerId: entry.providerId._id,
+          serviceId: entry.serviceId._id,
+          start: entry.offer.start,
+          staffId: entry.offer.staffId,
+          waitlistEntryId: entry._id,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to book this time');
+      }
+
+      await Promise.all([fetchBookings(), fetchWaitlist()]);
+    } catch (error) {
+      console.error('Error claiming waitlist offer:', error);
+      alert('Error claiming waitlist offer');
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    if (!confirm('Are you sure you want to leave the waitlist?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/waitlist?entryId=${entryId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to leave the waitlist');
+      }
+      await fetchWaitlist();
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      alert('Error leaving waitlist');
+    }
+  };
+
+  const formatWaitlistTime = (entry: WaitlistEntry) => {
+    if (entry.from === entry.to) {
+      return new Date(entry.from).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+    }
+    // to je kraj poslednjeg dana opsega
+    const lastDay = new Date(new Date(entry.to).getTime() - 1);
+    const first = new Date(entry.from).toLocaleDateString();
+    const last = lastDay.toLocaleDateString();
+    return first === last ? `Any time on ${first}` : `Any time ${first} – ${last}`;
+  };
+
+  // Termin sa više usluga prikazuje sve stavke i zbir cene
+  const getServiceName = (booking: Booking) =>
+    booking.items?.length
+      ? booking.items.map(item => item.name).join(' + ')
+      : booking.serviceId?.name || 'Service';
+
+  const getPrice = (booking: Booking) =>
+    booking.items?.length
+      ? booking.items.reduce((sum, item) => sum + item.price, 0)
+      : booking.serviceId?.price;
+
   const filterBookings = () => {
-    let filtered = bookings;
+    let filtered = [...bookings];
 
     if (searchQuery) {
       filtered = filtered.filter(booking =>
-        booking.service.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        booking.provider.businessName.toLowerCase().includes(searchQuery.toLowerCase())
+        getServiceName(booking).toLowerCase().includes(searchQuery.toLowerCase()) ||
+        booking.providerId?.businessName.toLowerCase().includes(searchQuery.toLowerCase())
       );
     }
 
@@ -87,11 +224,96 @@ export default function ClientBookingsPage() {
     }
 
     // Sort by date (newest first)
-    filtered.sort((a, b) => new Date(b.selectedDate).getTime() - new Date(a.selectedDate).getTime());
+    filtered.sort((a, b) => new Date(b.start).getTime() - new Date(a.start).getTime());
 
     setFilteredBookings(filtered);
   };
 
+  const updateBooking = async (bookingId: string, body: Record<string, string>) => {
+    try {
+      const response = await fetch(`/api/booking/${bookingId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to update booking');
+        return false;
+      }
+
+      await fetchBookings();
+      return true;
+    } catch (error) {
+      console.error('Error updating booking:', error);
+      alert('Error updating booking');
+      return false;
+    }
+  };
+
+  const handleCancel = async (bookingId: string) => {
+    if (!confirm('Are you sure you want to cancel this booking?')) {
+      return;
+    }
+    await updateBooking(bookingId, { action: 'cancel' });
+  };
+
+  // Otkazuje ovaj i sve kasnije termine serije
+  const handleCancelSeries = async (bookingId: string) => {
+    if (!confirm('Cancel this appointment and all later appointments in the series?')) {
+      return;
+    }
+    await updateBooking(bookingId, { action: 'cancel', scope: 'following' });
+  };
+
+  const openReschedule = (bookingId: string) => {
+    setReschedulingId(reschedulingId === bookingId ? null : bookingId);
+    setRescheduleDate('');
+    setRescheduleSlots([]);
+  };
+
+  const fetchRescheduleSlots = async (booking: Booking, date: string) => {
+    setRescheduleDate(date);
+    setRescheduleSlots([]);
+    if (!date || !booking.providerId || !booking.serviceId) {
+      return;
+    }
+
+    setLoadingSlots(true);
+    try {
+      const params = new URLSearchParams({
+        providerId: booking.providerId._id,
+        ...(booking.items && booking.items.length > 1
+          ? { serviceIds: booking.items.map(item => item.serviceId).join(',') }
+          : { serviceId: booking.serviceId._id }),
+        date,
+        excludeBookingId: booking._id,
+        // Pomeren termin ostaje kod istog zaposlenog
+        ...(booking.staffId && { staffId: booking.staffId._id }),
+      });
+      const response = await fetch(`/api/slots?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRescheduleSlots(data.slots || []);
+      }
+    } catch (error) {
+      console.error('Error fetching slots:', error);
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
+
+  const handleReschedule = async (bookingId: string, start: string) => {
+    const updated = await updateBooking(bookingId, { action: 'reschedule', start });
+    if (updated) {
+      setReschedulingId(null);
+    }
+  };
+
+  const isUpcoming = (booking: Booking) =>
+    ['confirmed', 'pending'].includes(booking.status) && new Date(booking.start) > new Date();
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -102,6 +324,8 @@ export default function ClientBookingsPage() {
         return 'bg-red-100 text-red-800';
       case 'completed':
         return 'bg-blue-100 text-blue-800';
+      case 'no_show':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -151,7 +375,6 @@ export default function ClientBookingsPage() {
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
-                </div>
               </div>
               <div className="sm:w-48">
                 <select
@@ -164,12 +387,65 @@ export default function ClientBookingsPage() {
                   <option value="pending">Pending</option>
                   <option value="completed">Completed</option>
                   <option value="cancelled">Cancelled</option>
+                  <option value="no_show">No-show</option>
                 </select>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Waitlist */}
+        {waitlist.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Waitlist</CardTitle>
+              <CardDescription>
+                When a time frees up it is held for you for a limited time. Book it before the hold expires.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {waitlist.map((entry) => (
+                <div
+                  key={entry._id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border rounded-md p-4"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{entry.serviceId?.name || 'Service'}</span>
+                      <Badge className={entry.status === 'offered' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                        {entry.status === 'offered' ? 'Time available' : 'Waiting'}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {entry.providerId?.businessName}
+                      {entry.staffId && ` · ${entry.staffId.name}`}
+                    </p>
+                    {entry.status === 'offered' && entry.offer ? (
+                      <p className="text-sm text-gray-700 mt-1">
+                        {new Date(entry.offer.start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                        {' · held until '}
+                        {new Date(entry.offer.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-700 mt-1">{formatWaitlistTime(entry)}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {entry.status === 'offered' && (
+                      <Button size="sm" onClick={() => handleClaim(entry)}>
+                        Book this time
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleLeaveWaitlist(entry._id)}>
+                      Leave waitlist
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Bookings List */}
         {filteredBookings.length > 0 ? (
           <div className="space-y-4">
@@ -179,29 +455,46 @@ export default function ClientBookingsPage() {
                   <div className="flex flex-col sm:flex-row sm:items-center justify-between">
                     <div className="flex-1">
                       <div className="flex items-start justify-between mb-2">
-                        <h3 className="text-lg font-semibold">{booking.service.name}</h3>
+                        <h3 className="text-lg font-semibold">{getServiceName(booking)}</h3>
                         <Badge className={getStatusColor(booking.status)}>
                           {booking.status}
                         </Badge>
                       </div>
                       
-                      <p className="text-gray-600 mb-3">{booking.provider.businessName}</p>
+                      <p className="text-gray-600 mb-3">
+                        {booking.providerId?.businessName}
+                        {booking.staffId && ` · ${booking.staffId.name}`}
+                        {booking.seriesId && (
+                          <span className="inline-flex items-center ml-2 text-sm text-gray-700">
+                            <Repeat className="w-4 h-4 mr-1" />
+                            Recurring
+                          </span>
+                        )}
+                      </p>
                       
                       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm text-gray-700">
                         <div className="flex items-center">
                           <Calendar className="w-4 h-4 mr-2" />
-                          {new Date(booking.selectedDate).toLocaleDateString()}
+                          {new Date(booking.start).toLocaleDateString()}
                         </div>
                         <div className="flex items-center">
                           <Clock className="w-4 h-4 mr-2" />
-                          {booking.selectedTime} ({booking.service.duration} min)
-                        </div>
-                        <div className="flex items-center">
-                          <MapPin className="w-4 h-4 mr-2" />
-                          {booking.provider.location}
+                          {new Date(booking.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} ({Math.round((new Date(booking.end).getTime() - new Date(booking.start).getTime()) / 60000)} min)
                         </div>
+                        {booking.providerId?.contactInfo?.address && (
+                          <div className="flex items-center">
+                            <MapPin className="w-4 h-4 mr-2" />
+                            {booking.providerId.contactInfo.address}
+                          </div>
+                        )}
                       </div>
                       
+                      {booking.originalStart && (
+                        <div className="mt-2 text-sm text-gray-600">
+                          Rescheduled from {new Date(booking.originalStart).toLocaleString()}
+                        </div>
+                      )}
+                      
                       <div className="mt-3 text-sm text-gray-700">
                         Booked on {new Date(booking.createdAt).toLocaleDateString()}
                       </div>
@@ -209,19 +502,39 @@ export default function ClientBookingsPage() {
                     
                     <div className="mt-4 sm:mt-0 sm:ml-6 text-right">
                       <div className="text-2xl font-bold text-gray-900">
-                        ${booking.totalAmount}
+                        {getPrice(booking)} RSD
                       </div>
                       <div className="mt-2 space-y-2">
-                        {booking.status === 'confirmed' && new Date(booking.selectedDate) > new Date() && (
-                          <Button variant="outline" size="sm" className="w-full sm:w-auto">
+                        {isUpcoming(booking) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full sm:w-auto"
+                            onClick={() => openReschedule(booking._id)}
+                          >
                             Reschedule
                           </Button>
                         )}
-                        {booking.status === 'confirmed' && new Date(booking.selectedDate) > new Date() && (
-                          <Button variant="destructive" size="sm" className="w-full sm:w-auto">
+                        {isUpcoming(booking) && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="w-full sm:w-auto"
+                            onClick={() => handleCancel(booking._id)}
+                          >
                             Cancel
                           </Button>
                         )}
+                        {isUpcoming(booking) && booking.seriesId && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full sm:w-auto text-red-600 border-red-600 hover:bg-red-50"
+                            onClick={() => handleCancelSeries(booking._id)}
+                          >
+                            Cancel rest of series
+                          </Button>
+                        )}
                         {booking.status === 'completed' && (
                           <Button variant="outline" size="sm" className="w-full sm:w-auto">
                             Leave Review
@@ -230,6 +543,44 @@ export default function ClientBookingsPage() {
                       </div>
                     </div>
                   </div>
+                  
+                  {reschedulingId === booking._id && (
+                    <div className="mt-4 border-t pt-4">
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                        <label htmlFor={`reschedule-date-${booking._id}`} className="text-sm font-medium text-gray-700">
+                          New date
+                        </label>
+                        <Input
+                          id={`reschedule-date-${booking._id}`}
+                          type="date"
+                          className="sm:w-48"
+                          value={rescheduleDate}
+                          min={new Date().toISOString().split('T')[0]}
+                          onChange={(e) => fetchRescheduleSlots(booking, e.target.value)}
+                        />
+                      </div>
+                      {loadingSlots && (
+                        <p className="mt-3 text-sm text-gray-600">Loading available times...</p>
+                      )}
+                      {!loadingSlots && rescheduleDate && rescheduleSlots.length === 0 && (
+                        <p className="mt-3 text-sm text-gray-600">No available times on this date</p>
+                      )}
+                      {rescheduleSlots.length > 0 && (
+                        <div className="mt-3 grid grid-cols-3 sm:grid-cols-6 gap-2">
+                          {rescheduleSlots.map((slot) => (
+                            <Button
+                              key={slot.start}
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleReschedule(booking._id, slot.start)}
+                            >
+                              {slot.time}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
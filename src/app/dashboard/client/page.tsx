@@ -17,6 +17,7 @@ import {
   Star
 } from 'lucide-react';
 import Link from 'next/link';
+import CalendarFeedCard from '@/components/CalendarFeedCard';
 
 interface Booking {
   _id: string;
@@ -245,6 +246,8 @@ export default function ClientDashboard() {
             </CardContent>
           </Card>
 
+          <CalendarFeedCard description="Add your appointments to Apple Calendar, Outlook or Google Calendar. Changes show up automatically." />
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
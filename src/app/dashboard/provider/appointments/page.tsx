@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui'
 import { format } from 'date-fns'
-import { Calendar, Clock, User, Phone, Mail } from 'lucide-react'
+import { Calendar, Clock, User, Phone, Mail, Boxes, Users } from 'lucide-react'
 
 interface Booking {
   _id: string
@@ -19,18 +19,42 @@ interface Booking {
     name: string
     durationMinutes: number
     price: number
+    maxParticipants?: number
   } | null
+  staffId?: {
+    _id: string
+    name: string
+  } | null
+  resourceIds?: {
+    _id: string
+    name: string
+  }[]
+  seriesId?: string
+  // Usluge termina sa više usluga, redom
+  items?: {
+    serviceId: string
+    name: string
+    durationMinutes: number
+    price: number
+  }[]
   start: string
   end: string
-  status: 'confirmed' | 'pending' | 'cancelled' | 'completed'
+  status: 'confirmed' | 'pending' | 'cancelled' | 'completed' | 'no_show'
   note?: string
   syncStatus: 'ok' | 'failed' | 'pending'
+  externalChange?: {
+    type: 'deleted' | 'moved'
+    start?: string
+    end?: string
+  }
 }
 
 export default function ProviderAppointments() {
   const [bookings, setBookings] = useState<Booking[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [filter, setFilter] = useState<'all' | 'today' | 'upcoming' | 'past'>('upcoming')
+  // Prazno = svi resursi
+  const [resourceFilter, setResourceFilter] = useState('')
 
   useEffect(() => {
     fetchBookings()
@@ -51,24 +75,30 @@ export default function ProviderAppointments() {
     }
   }
 
-  const handleCancelBooking = async (bookingId: string) => {
+  const handleBookingAction = async (
+    bookingId: string,
+    action: 'approve' | 'decline' | 'cancel' | 'complete' | 'no_show',
+    // Otkazivanje i svih kasnijih termina serije
+    scope?: 'following'
+  ) => {
     try {
       const response = await fetch(`/api/booking/${bookingId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ action: 'cancel' }),
+        body: JSON.stringify({ action, scope }),
       })
 
       if (response.ok) {
         fetchBookings() // Refresh the list
       } else {
-        alert('Failed to cancel booking')
+        const data = await response.json()
+        alert(data.error || 'Failed to update booking')
       }
     } catch (error) {
-      console.error('Error canceling booking:', error)
-      alert('Error canceling booking')
+      console.error('Error updating booking:', error)
+      alert('Error updating booking')
     }
   }
 
@@ -78,6 +108,7 @@ export default function ProviderAppointments() {
       pending: 'bg-yellow-100 text-yellow-800',
       cancelled: 'bg-red-100 text-red-800',
       completed: 'bg-blue-100 text-blue-800',
+      no_show: 'bg-orange-100 text-orange-800',
     }
     return colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800'
   }
@@ -91,7 +122,154 @@ export default function ProviderAppointments() {
     return colors[syncStatus as keyof typeof colors] || 'bg-gray-100 text-gray-800'
   }
 
+  const renderActions = (booking: Booking) => (
+    <div className="flex flex-col space-y-2">
+      {booking.status === 'pending' && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleBookingAction(booking._id, 'approve')}
+            className="text-green-600 border-green-600 hover:bg-green-50"
+          >
+            Approve
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleBookingAction(booking._id, 'decline')}
+            className="text-red-600 border-red-600 hover:bg-red-50"
+          >
+            Decline
+          </Button>
+        </>
+      )}
+
+      {booking.status === 'confirmed' && new Date(booking.start) > new Date() && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleBookingAction(booking._id, 'cancel')}
+          className="text-red-600 border-red-600 hover:bg-red-50"
+        >
+          Cancel
+        </Button>
+      )}
+
+      {booking.seriesId && booking.status === 'confirmed' && new Date(booking.start) > new Date() && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            if (confirm('Cancel this appointment and all later appointments in the series?')) {
+              handleBookingAction(booking._id, 'cancel', 'following')
+            }
+          }}
+          className="text-red-600 border-red-600 hover:bg-red-50"
+        >
+          Cancel Rest of Series
+        </Button>
+      )}
+
+      {booking.status === 'confirmed' && new Date(booking.start) <= new Date() && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleBookingAction(booking._id, 'complete')}
+            className="text-green-600 border-green-600 hover:bg-green-50"
+          >
+            Mark Complete
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleBookingAction(booking._id, 'no_show')}
+            className="text-orange-600 border-orange-600 hover:bg-orange-50"
+          >
+            No-show
+          </Button>
+        </>
+      )}
+    </div>
+  )
+
+  const renderSession = (key: string, attendees: Booking[]) => {
+    const session = attendees[0]
+    const booked = attendees.filter(attendee => attendee.status !== 'cancelled').length
+
+    return (
+      <Card key={key}>
+        <CardContent className="p-6">
+          <div className="flex items-center space-x-2 mb-2">
+            <Users className="h-4 w-4 text-gray-600" />
+            <span className="font-medium">{session.serviceId?.name || 'Service not found'}</span>
+            <Badge className="bg-blue-100 text-blue-800">
+              {booked} / {session.serviceId?.maxParticipants} booked
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600 mb-4">
+            <div className="flex items-center space-x-2">
+              <Calendar className="h-4 w-4" />
+              <span>{format(new Date(session.start), 'EEEE, MMMM d, yyyy')}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Clock className="h-4 w-4" />
+              <span>
+                {format(new Date(session.start), 'HH:mm')} - 
+                {format(new Date(session.end), 'HH:mm')}
+              </span>
+            </div>
+            {session.staffId && (
+              <div className="flex items-center space-x-2">
+                <User className="h-4 w-4" />
+                <span>with {session.staffId.name}</span>
+              </div>
+            )}
+            {!!session.resourceIds?.length && (
+              <div className="flex items-center space-x-1">
+                <Boxes className="h-4 w-4" />
+                <span>{session.resourceIds.map(resource => resource.name).join(', ')}</span>
+              </div>
+            )}
+          </div>
+
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Attendees</h4>
+          <div className="divide-y">
+            {attendees.map((attendee) => (
+              <div key={attendee._id} className="flex items-center justify-between py-2">
+                <div className="text-sm">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{attendee.clientId?.name || 'Unknown Client'}</span>
+                    <span className="text-gray-600">{attendee.clientId?.email || 'No email'}</span>
+                    <Badge className={getStatusBadge(attendee.status)}>
+                      {attendee.status === 'no_show' ? 'no-show' : attendee.status}
+                    </Badge>
+                  </div>
+                  {attendee.note && (
+                    <p className="mt-1 text-gray-600"><strong>Note:</strong> {attendee.note}</p>
+                  )}
+                </div>
+                {renderActions(attendee)}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Resursi koje koriste učitani termini, za filter
+  const bookingResources = Array.from(
+    new Map(bookings.flatMap(booking => booking.resourceIds || []).map(resource => [resource._id, resource])).values()
+  )
+
   const filteredBookings = bookings.filter((booking) => {
+    if (resourceFilter && !booking.resourceIds?.some(resource => resource._id === resourceFilter)) {
+      return false
+    }
+
     const bookingDate = new Date(booking.start)
     const now = new Date()
     const today = new Date()
@@ -111,6 +289,24 @@ export default function ProviderAppointments() {
     }
   })
 
+  // Rezervacije grupne usluge sa istim početkom i zaposlenim prikazuju se kao jedan termin sa listom učesnika
+  const entries: { key: string; booking: Booking; attendees?: Booking[] }[] = []
+  const sessions = new Map<string, Booking[]>()
+  for (const booking of filteredBookings) {
+    if ((booking.serviceId?.maxParticipants || 1) <= 1) {
+      entries.push({ key: booking._id, booking })
+      continue
+    }
+    const key = `${booking.serviceId?._id}|${booking.start}|${booking.staffId?._id || ''}`
+    const attendees = sessions.get(key)
+    if (attendees) {
+      attendees.push(booking)
+    } else {
+      sessions.set(key, [booking])
+      entries.push({ key, booking, attendees: sessions.get(key) })
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -129,6 +325,18 @@ export default function ProviderAppointments() {
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Appointments</h1>
         <div className="flex space-x-2">
+          {bookingResources.length > 0 && (
+            <select
+              className="px-2 border border-gray-300 rounded-md text-sm"
+              value={resourceFilter}
+              onChange={(e) => setResourceFilter(e.target.value)}
+            >
+              <option value="">All resources</option>
+              {bookingResources.map((resource) => (
+                <option key={resource._id} value={resource._id}>{resource.name}</option>
+              ))}
+            </select>
+          )}
           {(['all', 'today', 'upcoming', 'past'] as const).map((filterOption) => (
             <Button
               key={filterOption}
@@ -144,8 +352,8 @@ export default function ProviderAppointments() {
       </div>
 
       <div className="space-y-4">
-        {filteredBookings.length > 0 ? (
-          filteredBookings.map((booking) => (
+        {entries.length > 0 ? (
+          entries.map(({ key, booking, attendees }) => attendees ? renderSession(key, attendees) : (
             <Card key={booking._id}>
               <CardContent className="p-6">
                 <div className="flex items-center justify-between">
@@ -156,7 +364,7 @@ export default function ProviderAppointments() {
                           <User className="h-4 w-4 text-gray-600" />
                           <span className="font-medium">{booking.clientId?.name || 'Unknown Client'}</span>
                           <Badge className={getStatusBadge(booking.status)}>
-                            {booking.status}
+                            {booking.status === 'no_show' ? 'no-show' : booking.status}
                           </Badge>
                           <Badge className={getSyncStatusBadge(booking.syncStatus)}>
                             {booking.syncStatus === 'ok' ? 'Synced' : 
@@ -181,11 +389,37 @@ export default function ProviderAppointments() {
                             <span>{booking.clientId?.email || 'No email'}</span>
                           </div>
                           <div>
-                            <span className="font-medium">{booking.serviceId?.name || 'Service not found'}</span>
-                            <span className="ml-2">${booking.serviceId?.price || 0}</span>
+                            {booking.items?.length ? (
+                              <>
+                                <span className="font-medium">{booking.items.map(item => item.name).join(' + ')}</span>
+                                <span className="ml-2">${booking.items.reduce((sum, item) => sum + item.price, 0)}</span>
+                              </>
+                            ) : (
+                              <>
+                                <span className="font-medium">{booking.serviceId?.name || 'Service not found'}</span>
+                                <span className="ml-2">${booking.serviceId?.price || 0}</span>
+                              </>
+                            )}
+                            {booking.staffId && (
+                              <span className="ml-2 text-gray-600">with {booking.staffId.name}</span>
+                            )}
                           </div>
+                          {!!booking.resourceIds?.length && (
+                            <div className="flex items-center space-x-1">
+                              <Boxes className="h-4 w-4" />
+                              <span>{booking.resourceIds.map(resource => resource.name).join(', ')}</span>
+                            </div>
+                          )}
                         </div>
                         
+                        {booking.externalChange && ['pending', 'confirmed'].includes(booking.status) && (
+                          <div className="mt-2 p-2 bg-orange-50 border border-orange-200 rounded text-sm text-orange-800">
+                            {booking.externalChange.type === 'deleted'
+                              ? 'The event was deleted in Google Calendar. Cancel the booking or keep it.'
+                              : `The event was moved in Google Calendar to ${format(new Date(booking.externalChange.start!), 'MMMM d, HH:mm')}, but the booking could not be moved automatically.`}
+                          </div>
+                        )}
+                        
                         {booking.note && (
                           <div className="mt-2 p-2 bg-gray-50 rounded text-sm">
                             <strong>Note:</strong> {booking.note}
@@ -193,31 +427,7 @@ export default function ProviderAppointments() {
                         )}
                       </div>
                       
-                      <div className="flex flex-col space-y-2">
-                        {booking.status === 'confirmed' && new Date(booking.start) > new Date() && (
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleCancelBooking(booking._id)}
-                            className="text-red-600 border-red-600 hover:bg-red-50"
-                          >
-                            Cancel
-                          </Button>
-                        )}
-                        
-                        {booking.status === 'confirmed' && new Date(booking.end) < new Date() && (
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              // TODO: Mark as completed
-                            }}
-                            className="text-green-600 border-green-600 hover:bg-green-50"
-                          >
-                            Mark Complete
-                          </Button>
-                        )}
-                      </div>
+                      {renderActions(booking)}
                     </div>
                   </div>
                 </div>
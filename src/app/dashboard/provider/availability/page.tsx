@@ -1,6 +1,8 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -8,6 +10,9 @@ import { Badge } from '@/components/ui/badge'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
 import { Clock, Plus, Trash2, Calendar, Save } from 'lucide-react'
+import DateOverridesCalendar from '@/components/DateOverridesCalendar'
+import { DateOverride, SLOT_INTERVALS, SlotInterval } from '@/lib/availability'
+import { HolidayCountry } from '@/lib/holidays'
 
 interface TimeSlot {
   start: string
@@ -32,7 +37,12 @@ interface WeekSchedule {
 
 interface AvailabilitySettings {
   weekSchedule: WeekSchedule
-  bufferTime: number // minutes
+  dateOverrides: DateOverride[]
+  holidayCalendars: HolidayCountry[]
+  bufferTime: number // minutes, staro podešavanje
+  bufferBeforeMinutes: number
+  bufferAfterMinutes: number
+  slotInterval: SlotInterval
   advanceBookingDays: number
   minimumNoticeHours: number
   timezone: string
@@ -54,7 +64,12 @@ const defaultSettings: AvailabilitySettings = {
     saturday: defaultDaySchedule,
     sunday: defaultDaySchedule
   },
-  bufferTime: 15,
+  dateOverrides: [],
+  holidayCalendars: [],
+  bufferTime: 0,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 15,
+  slotInterval: 30,
   advanceBookingDays: 30,
   minimumNoticeHours: 2,
   timezone: 'Europe/Belgrade'
@@ -74,6 +89,12 @@ export default function ProviderAvailability() {
   const [settings, setSettings] = useState<AvailabilitySettings>(defaultSettings)
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
+  // Sa ?staffId= stranica uređuje raspored zaposlenog
+  const searchParams = useSearchParams()
+  const staffId = searchParams.get('staffId')
+  const availabilityUrl = staffId ? `/api/availability?staffId=${staffId}` : '/api/availability'
+  const [staffName, setStaffName] = useState<string | null>(null)
+  const [usesProviderSchedule, setUsesProviderSchedule] = useState(false)
 
   useEffect(() => {
     fetchAvailability()
@@ -82,16 +103,25 @@ export default function ProviderAvailability() {
   const fetchAvailability = async () => {
     try {
       console.log('📥 Fetching availability settings...')
-      const response = await fetch('/api/availability')
+      const response = await fetch(availabilityUrl)
       console.log('📥 Fetch response status:', response.status)
       
       if (response.ok) {
         const data = await response.json()
         console.log('📥 Fetched data:', data)
         if (data.availability) {
-          setSettings(data.availability)
+          setSettings({
+            ...data.availability,
+            dateOverrides: data.availability.dateOverrides || [],
+            holidayCalendars: data.availability.holidayCalendars || [],
+            bufferBeforeMinutes: data.availability.bufferBeforeMinutes ?? 0,
+            bufferAfterMinutes: data.availability.bufferAfterMinutes ?? data.availability.bufferTime ?? 0,
+            slotInterval: data.availability.slotInterval ?? 30
+          })
           console.log('✅ Settings loaded from server')
         }
+        setStaffName(data.staffMember?.name ?? null)
+        setUsesProviderSchedule(!!data.usesProviderSchedule)
       } else {
         console.error('❌ Failed to fetch availability:', response.status, response.statusText)
         if (response.status === 403) {
@@ -110,7 +140,7 @@ export default function ProviderAvailability() {
     setIsSaving(true)
     console.log('🚀 Saving settings:', JSON.stringify(settings, null, 2))
     try {
-      const response = await fetch('/api/availability', {
+      const response = await fetch(availabilityUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -189,10 +219,24 @@ export default function ProviderAvailability() {
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Availability Settings</h1>
-          <p className="text-gray-600">Configure when you're available for appointments</p>
-        </div>
+        {staffName ? (
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Schedule for {staffName}</h1>
+            <p className="text-gray-600">
+              {usesProviderSchedule
+                ? 'Currently uses your schedule. Saving gives this staff member their own schedule.'
+                : 'Working hours and exceptions for this staff member'}
+            </p>
+            <Link href="/dashboard/provider/staff" className="text-sm text-blue-600 hover:underline">
+              Back to staff
+            </Link>
+          </div>
+        ) : (
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Availability Settings</h1>
+            <p className="text-gray-600">Configure when you're available for appointments</p>
+          </div>
+        )}
         <Button onClick={handleSave} disabled={isSaving}>
           <Save className="h-4 w-4 mr-2" />
           {isSaving ? 'Saving...' : 'Save Settings'}
@@ -299,27 +343,73 @@ export default function ProviderAvailability() {
         </CardContent>
       </Card>
 
+      {/* Date Overrides */}
+      <DateOverridesCalendar
+        weekSchedule={settings.weekSchedule}
+        overrides={settings.dateOverrides}
+        onChange={(dateOverrides) => setSettings(prev => ({ ...prev, dateOverrides }))}
+        holidayCalendars={settings.holidayCalendars}
+        onHolidayCalendarsChange={(holidayCalendars) => setSettings(prev => ({ ...prev, holidayCalendars }))}
+      />
+
       {/* General Settings */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <Clock className="h-5 w-5" />
-              <span>Buffer Time</span>
+              <span>Buffers & Slots</span>
             </CardTitle>
-            <CardDescription>Time between appointments for preparation</CardDescription>
+            <CardDescription>Preparation and cleanup time around appointments, and how often they can start</CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="flex items-center space-x-2">
-              <Input
-                type="number"
-                value={settings.bufferTime}
-                onChange={(e) => setSettings(prev => ({ ...prev, bufferTime: parseInt(e.target.value) || 0 }))}
-                className="w-20"
-                min="0"
-                max="60"
-              />
-              <span className="text-sm text-gray-600">minutes</span>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm text-gray-600">Preparation before</Label>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    value={settings.bufferBeforeMinutes}
+                    onChange={(e) => setSettings(prev => ({ ...prev, bufferBeforeMinutes: parseInt(e.target.value) || 0 }))}
+                    className="w-20"
+                    min="0"
+                    max="120"
+                  />
+                  <span className="text-sm text-gray-600">minutes</span>
+                </div>
+              </div>
+              <div>
+                <Label className="text-sm text-gray-600">Cleanup after</Label>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    value={settings.bufferAfterMinutes}
+                    onChange={(e) => setSettings(prev => ({ ...prev, bufferAfterMinutes: parseInt(e.target.value) || 0 }))}
+                    className="w-20"
+                    min="0"
+                    max="120"
+                  />
+                  <span className="text-sm text-gray-600">minutes</span>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm text-gray-600">Appointments start</Label>
+              <select
+                className="w-full p-2 border border-gray-300 rounded-md"
+                value={String(settings.slotInterval)}
+                onChange={(e) => setSettings(prev => ({
+                  ...prev,
+                  slotInterval: e.target.value === 'back-to-back' ? 'back-to-back' : Number(e.target.value) as SlotInterval
+                }))}
+              >
+                {SLOT_INTERVALS.map(interval => (
+                  <option key={interval} value={String(interval)}>
+                    {interval === 'back-to-back' ? 'Back-to-back (duration + buffers)' : `Every ${interval} minutes`}
+                  </option>
+                ))}
+              </select>
             </div>
           </CardContent>
         </Card>
@@ -6,6 +6,8 @@ import { useSearchParams } from 'next/navigation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import CalendarFeedCard from '@/components/CalendarFeedCard';
 
 interface GoogleIntegration {
   isConnected: boolean;
@@ -13,6 +15,26 @@ interface GoogleIntegration {
   connectedAt?: string;
 }
 
+interface CalDavIntegration {
+  isConnected: boolean;
+  calendarUrl?: string;
+  username?: string;
+  displayName?: string;
+  connectedAt?: string;
+}
+
+interface UnsyncedBooking {
+  _id: string;
+  start: string;
+  status: string;
+  service?: { name: string };
+  client?: { name: string; email: string };
+  syncStatus: 'failed' | 'pending';
+  syncAttempts: number;
+  syncError?: string;
+  lastSyncAttemptAt?: string;
+}
+
 export default function IntegrationsPage() {
   const { data: session } = useSession();
   const searchParams = useSearchParams();
@@ -23,10 +45,18 @@ export default function IntegrationsPage() {
   const [connecting, setConnecting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [successMessage, setSuccessMessage] = useState<string>('');
+  const [calDavIntegration, setCalDavIntegration] = useState<CalDavIntegration>({
+    isConnected: false
+  });
+  const [calDavForm, setCalDavForm] = useState({ calendarUrl: '', username: '', password: '' });
+  const [connectingCalDav, setConnectingCalDav] = useState(false);
+  const [unsyncedBookings, setUnsyncedBookings] = useState<UnsyncedBooking[]>([]);
+  const [retrying, setRetrying] = useState<string | null>(null);
 
   useEffect(() => {
     // Always try to fetch status - let the API handle authorization
     fetchGoogleIntegrationStatus();
+    fetchCalDavIntegrationStatus();
     
     // Check for callback messages
     const error = searchParams.get('error');
@@ -97,6 +127,64 @@ export default function IntegrationsPage() {
     }
   };
 
+  const fetchCalDavIntegrationStatus = async () => {
+    try {
+      const response = await fetch('/api/provider/caldav/status');
+      if (response.ok) {
+        setCalDavIntegration(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching CalDAV integration status:', error);
+    }
+  };
+
+  const calendarConnected = googleIntegration.isConnected || calDavIntegration.isConnected;
+
+  useEffect(() => {
+    if (calendarConnected) {
+      fetchUnsyncedBookings();
+    }
+  }, [calendarConnected]);
+
+  const fetchUnsyncedBookings = async () => {
+    try {
+      const response = await fetch('/api/provider/calendar/sync');
+      if (response.ok) {
+        const data = await response.json();
+        setUnsyncedBookings(data.bookings);
+      }
+    } catch (error) {
+      console.error('Error fetching unsynced bookings:', error);
+    }
+  };
+
+  // bookingId 'all' ponavlja sinhronizaciju za sve rezervacije sa liste
+  const handleRetrySync = async (bookingId: string) => {
+    setRetrying(bookingId);
+    try {
+      const response = await fetch('/api/provider/calendar/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(bookingId === 'all' ? {} : { bookingId })
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        if (result.failed > 0) {
+          setErrorMessage(`${result.failed} booking(s) could not be synced with your calendar.`);
+        } else {
+          setSuccessMessage('Bookings synced with your calendar.');
+          setTimeout(() => setSuccessMessage(''), 3000);
+        }
+      }
+    } catch (error) {
+      console.error('Error retrying sync:', error);
+    } finally {
+      setRetrying(null);
+      fetchUnsyncedBookings();
+    }
+  };
+
   const handleConnectGoogle = async () => {
     setConnecting(true);
     try {
@@ -132,6 +220,49 @@ export default function IntegrationsPage() {
     }
   };
 
+  const handleConnectCalDav = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setConnectingCalDav(true);
+    setErrorMessage('');
+    try {
+      const response = await fetch('/api/provider/caldav/connect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(calDavForm)
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCalDavIntegration(data);
+        setCalDavForm({ calendarUrl: '', username: '', password: '' });
+        setSuccessMessage('CalDAV calendar connected successfully!');
+        setTimeout(() => setSuccessMessage(''), 3000);
+      } else {
+        setErrorMessage(data.error || 'Failed to connect CalDAV calendar.');
+      }
+    } catch (error) {
+      console.error('Error connecting CalDAV calendar:', error);
+      setErrorMessage('Failed to connect CalDAV calendar.');
+    } finally {
+      setConnectingCalDav(false);
+    }
+  };
+
+  const handleDisconnectCalDav = async () => {
+    try {
+      const response = await fetch('/api/provider/caldav/disconnect', {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        setCalDavIntegration({ isConnected: false });
+        setUnsyncedBookings([]);
+      }
+    } catch (error) {
+      console.error('Error disconnecting CalDAV calendar:', error);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -256,7 +387,7 @@ export default function IntegrationsPage() {
               ) : (
                 <Button
                   onClick={handleConnectGoogle}
-                  disabled={connecting}
+                  disabled={connecting || calDavIntegration.isConnected}
                   className="bg-blue-600 hover:bg-blue-700"
                 >
                   {connecting ? "Connecting..." : "Connect Google Calendar"}
@@ -300,6 +431,162 @@ export default function IntegrationsPage() {
           )}
         </Card>
 
+        {/* CalDAV Integration (Nextcloud, iCloud, Radicale...) */}
+        <Card className="p-6">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center space-x-4">
+              <div className="bg-purple-100 p-3 rounded-lg">
+                <svg className="w-8 h-8 text-purple-600" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M19 3h-1V1h-2v2H8V1H6v2H5c-1.11 0-1.99.9-1.99 2L3 19c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V8h14v11zM7 10h5v5H7z"/>
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">
+                  CalDAV Calendar
+                </h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  Nextcloud, iCloud, Fastmail, Radicale and other CalDAV calendars
+                </p>
+                {calDavIntegration.isConnected && (
+                  <p className="text-sm text-gray-700 mt-2">
+                    Connected to: {calDavIntegration.displayName || calDavIntegration.calendarUrl} ({calDavIntegration.username})
+                  </p>
+                )}
+                {calDavIntegration.isConnected && calDavIntegration.connectedAt && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    Connected on: {new Date(calDavIntegration.connectedAt).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Badge
+                variant={calDavIntegration.isConnected ? "default" : "secondary"}
+              >
+                {calDavIntegration.isConnected ? "Connected" : "Not Connected"}
+              </Badge>
+              {calDavIntegration.isConnected && (
+                <Button
+                  variant="outline"
+                  onClick={handleDisconnectCalDav}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Disconnect
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {!calDavIntegration.isConnected && googleIntegration.isConnected && (
+            <p className="mt-4 text-sm text-gray-600">
+              Disconnect Google Calendar to use a CalDAV calendar instead.
+            </p>
+          )}
+
+          {!calDavIntegration.isConnected && !googleIntegration.isConnected && (
+            <form onSubmit={handleConnectCalDav} className="mt-6 grid gap-4 md:grid-cols-3">
+              <div className="md:col-span-3">
+                <label htmlFor="caldav-url" className="block text-sm font-medium text-gray-700 mb-1">
+                  Calendar URL
+                </label>
+                <Input
+                  id="caldav-url"
+                  type="url"
+                  placeholder="https://cloud.example.com/remote.php/dav/calendars/user/personal/"
+                  value={calDavForm.calendarUrl}
+                  onChange={(e) => setCalDavForm({ ...calDavForm, calendarUrl: e.target.value })}
+                  required
+                  disabled={connectingCalDav}
+                />
+              </div>
+              <div>
+                <label htmlFor="caldav-username" className="block text-sm font-medium text-gray-700 mb-1">
+                  Username
+                </label>
+                <Input
+                  id="caldav-username"
+                  value={calDavForm.username}
+                  onChange={(e) => setCalDavForm({ ...calDavForm, username: e.target.value })}
+                  required
+                  disabled={connectingCalDav}
+                />
+              </div>
+              <div>
+                <label htmlFor="caldav-password" className="block text-sm font-medium text-gray-700 mb-1">
+                  Password
+                </label>
+                <Input
+                  id="caldav-password"
+                  type="password"
+                  value={calDavForm.password}
+                  onChange={(e) => setCalDavForm({ ...calDavForm, password: e.target.value })}
+                  required
+                  disabled={connectingCalDav}
+                />
+              </div>
+              <div className="flex items-end">
+                <Button type="submit" disabled={connectingCalDav} className="w-full">
+                  {connectingCalDav ? "Connecting..." : "Connect CalDAV"}
+                </Button>
+              </div>
+              <p className="md:col-span-3 text-xs text-gray-600">
+                For iCloud use an app-specific password. Existing events will block availability slots and new bookings will be added to this calendar.
+              </p>
+            </form>
+          )}
+        </Card>
+
+        {calendarConnected && unsyncedBookings.length > 0 && (
+          <Card className="p-4 bg-red-50 border-red-200">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-red-800">
+                {unsyncedBookings.length} booking(s) not synced with your calendar
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRetrySync('all')}
+                disabled={retrying !== null}
+              >
+                {retrying === 'all' ? 'Syncing...' : 'Retry all'}
+              </Button>
+            </div>
+            <p className="mt-1 text-xs text-red-700">
+              Failed syncs are retried automatically in the background.
+            </p>
+            <ul className="mt-3 divide-y divide-red-100">
+              {unsyncedBookings.map(booking => (
+                <li key={booking._id} className="py-2 flex items-center justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="text-gray-900">
+                      {new Date(booking.start).toLocaleString()} · {booking.service?.name || 'Booking'}
+                      {booking.client?.name && ` · ${booking.client.name}`}
+                      {booking.status === 'cancelled' && ' (cancelled)'}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {booking.syncStatus === 'pending' ? 'Not synced yet' : `Failed ${booking.syncAttempts} time(s)`}
+                      {booking.lastSyncAttemptAt && `, last attempt ${new Date(booking.lastSyncAttemptAt).toLocaleString()}`}
+                    </p>
+                    {booking.syncError && (
+                      <p className="text-xs text-red-700">{booking.syncError}</p>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRetrySync(booking._id)}
+                    disabled={retrying !== null}
+                  >
+                    {retrying === booking._id ? 'Syncing...' : 'Retry'}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        <CalendarFeedCard description="Subscribe to all your bookings from any calendar app, no account connection needed. Calendars refresh the feed periodically." />
+
         {/* Future integrations placeholder */}
         <Card className="p-6 opacity-60">
           <div className="flex items-start justify-between">
@@ -11,6 +11,8 @@ import {
   Users, 
   BarChart3, 
   Wrench,
+  UserCog,
+  Boxes,
   LogOut
 } from 'lucide-react'
 
@@ -18,6 +20,8 @@ const navigation = [
   { name: 'Overview', href: '/dashboard/provider', icon: BarChart3 },
   { name: 'Appointments', href: '/dashboard/provider/appointments', icon: Calendar },
   { name: 'Services', href: '/dashboard/provider/services', icon: Wrench },
+  { name: 'Staff', href: '/dashboard/provider/staff', icon: UserCog },
+  { name: 'Resources', href: '/dashboard/provider/resources', icon: Boxes },
   { name: 'Availability', href: '/dashboard/provider/availability', icon: Clock },
   { name: 'Integrations', href: '/dashboard/provider/integrations', icon: Settings },
   { name: 'Profile', href: '/dashboard/provider/profile', icon: Users },
@@ -21,6 +21,13 @@ interface ProviderProfile {
   contactInfo: ContactInfo;
   timezone: string;
   isActive: boolean;
+  bookingPolicy?: {
+    requiresApproval: boolean;
+    maxAdvanceBookingDays?: number | null;
+    minAdvanceBookingHours?: number | null;
+    allowSameDayBooking?: boolean | null;
+    cancellationHours?: number | null;
+  };
 }
 
 export default function ProviderProfilePage() {
@@ -314,6 +321,40 @@ export default function ProviderProfilePage() {
                 onCheckedChange={(checked) => updateProfile('isActive', checked)}
               />
             </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="requiresApproval">Manual Booking Approval</Label>
+                <p className="text-sm text-gray-600">
+                  New bookings stay pending until you approve or decline them
+                </p>
+              </div>
+              <Switch
+                id="requiresApproval"
+                checked={!!profile.bookingPolicy?.requiresApproval}
+                onCheckedChange={(checked) => updateProfile('bookingPolicy', { ...profile.bookingPolicy, requiresApproval: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="cancellationHours">Cancellation Window (hours)</Label>
+                <p className="text-sm text-gray-600">
+                  Clients cannot cancel or reschedule later than this. Leave empty to use the platform default
+                </p>
+              </div>
+              <Input
+                id="cancellationHours"
+                type="number"
+                min="0"
+                max="720"
+                className="w-24"
+                value={profile.bookingPolicy?.cancellationHours ?? ''}
+                onChange={(e) => updateProfile('bookingPolicy', {
+                  requiresApproval: false,
+                  ...profile.bookingPolicy,
+                  cancellationHours: e.target.value === '' ? null : parseInt(e.target.value) || 0
+                })}
+              />
+            </div>
           </CardContent>
         </Card>
 
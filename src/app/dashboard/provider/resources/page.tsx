@@ -0,0 +1,282 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Plus, Edit, Trash2, Boxes } from 'lucide-react'
+
+interface Resource {
+  _id: string
+  name: string
+  description?: string
+  quantity: number
+  isActive: boolean
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  quantity: 1,
+  isActive: true,
+}
+
+export default function ProviderResources() {
+  const [resources, setResources] = useState<Resource[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingResource, setEditingResource] = useState<Resource | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetchResources()
+  }, [])
+
+  const fetchResources = async () => {
+    try {
+      const response = await fetch('/api/provider/resources')
+      const data = await response.json()
+
+      if (data.resources) {
+        setResources(data.resources)
+      }
+    } catch (error) {
+      console.error('Error fetching resources:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const body = editingResource
+        ? { ...formData, resourceId: editingResource._id }
+        : formData
+
+      const response = await fetch('/api/provider/resources', {
+        method: editingResource ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+
+      if (response.ok) {
+        fetchResources()
+        resetForm()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to save resource')
+      }
+    } catch (error) {
+      console.error('Error saving resource:', error)
+      alert('Error saving resource')
+    }
+  }
+
+  const handleEdit = (resource: Resource) => {
+    setEditingResource(resource)
+    setFormData({
+      name: resource.name,
+      description: resource.description || '',
+      quantity: resource.quantity,
+      isActive: resource.isActive,
+    })
+    setShowForm(true)
+  }
+
+  const handleDelete = async (resourceId: string) => {
+    if (!confirm('Are you sure you want to delete this resource? Services will no longer require it.')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/provider/resources?resourceId=${resourceId}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchResources()
+      } else {
+        const errorData = await response.json()
+        alert(`Failed to delete resource: ${errorData.error || 'Unknown error'}`)
+      }
+    } catch (error) {
+      console.error('Error deleting resource:', error)
+      alert('Error deleting resource')
+    }
+  }
+
+  const resetForm = () => {
+    setFormData(emptyForm)
+    setEditingResource(null)
+    setShowForm(false)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Resources</h1>
+        <div className="animate-pulse space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Resources</h1>
+          <p className="text-gray-700">
+            Rooms and equipment shared by your staff. Pick the ones each service needs on the Services page.
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)} className="flex items-center space-x-2">
+          <Plus className="h-4 w-4" />
+          <span>Add Resource</span>
+        </Button>
+      </div>
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingResource ? 'Edit Resource' : 'Add Resource'}</CardTitle>
+            <CardDescription>
+              Quantity is how many bookings can use this resource at the same time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name *
+                  </label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    required
+                    placeholder="e.g., Massage table, Laser machine, Room 2"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Quantity *
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="50"
+                    value={formData.quantity}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      quantity: parseInt(e.target.value) || 1
+                    }))}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                  rows={2}
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="isActive"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                />
+                <label htmlFor="isActive" className="text-sm font-medium text-gray-700">
+                  Active (services that need an inactive resource cannot be booked)
+                </label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingResource ? 'Update Resource' : 'Add Resource'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        {resources.length > 0 ? (
+          resources.map((resource) => (
+            <Card key={resource._id}>
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Boxes className="h-4 w-4 text-gray-600" />
+                      <h3 className="text-lg font-medium text-gray-900">{resource.name}</h3>
+                      <Badge variant={resource.isActive ? 'default' : 'secondary'}>
+                        {resource.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                      {resource.quantity > 1 && (
+                        <Badge variant="secondary">× {resource.quantity}</Badge>
+                      )}
+                    </div>
+
+                    {resource.description && (
+                      <p className="text-gray-600">{resource.description}</p>
+                    )}
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(resource)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(resource._id)}
+                      className="text-red-600 border-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        ) : (
+          <Card>
+            <CardContent className="p-6 text-center text-gray-700">
+              <p>No resources yet.</p>
+              <Button onClick={() => setShowForm(true)} className="mt-2">
+                Add Your First Resource
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,7 +5,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
-import { Plus, Edit, Trash2, Clock, DollarSign, Tags } from 'lucide-react'
+import { Plus, Edit, Trash2, Clock, DollarSign, Tags, Users } from 'lucide-react'
+import { ServiceBookingRules, WeekDay } from '@/lib/availability'
 
 interface Category {
   _id: string
@@ -24,11 +25,36 @@ interface Service {
   durationMinutes: number
   price: number
   isActive: boolean
+  maxParticipants?: number
+  resourceIds?: string[]
+  bookingRules?: ServiceBookingRules
 }
 
+interface Resource {
+  _id: string
+  name: string
+  isActive: boolean
+}
+
+const emptyBookingRules: ServiceBookingRules = { availabilityWindows: [] }
+
+const dayLabels: Record<WeekDay, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday'
+}
+
+// Prazno polje znači da pravilo nije postavljeno
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value))
+
 export default function ProviderServices() {
   const [services, setServices] = useState<Service[]>([])
   const [categories, setCategories] = useState<Category[]>([])
+  const [resources, setResources] = useState<Resource[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [showForm, setShowForm] = useState(false)
   const [editingService, setEditingService] = useState<Service | null>(null)
@@ -39,11 +65,15 @@ export default function ProviderServices() {
     durationMinutes: 30,
     price: 0,
     isActive: true,
+    maxParticipants: 1,
+    resourceIds: [] as string[],
+    bookingRules: emptyBookingRules,
   })
 
   useEffect(() => {
     fetchServices()
     fetchCategories()
+    fetchResources()
   }, [])
 
   const fetchServices = async () => {
@@ -75,6 +105,16 @@ export default function ProviderServices() {
     }
   }
 
+  const fetchResources = async () => {
+    try {
+      const response = await fetch('/api/provider/resources')
+      const data = await response.json()
+      setResources(data.resources || [])
+    } catch (error) {
+      console.error('Error fetching resources:', error)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -117,6 +157,9 @@ export default function ProviderServices() {
       durationMinutes: service.durationMinutes,
       price: service.price,
       isActive: service.isActive,
+      maxParticipants: service.maxParticipants || 1,
+      resourceIds: service.resourceIds || [],
+      bookingRules: { ...emptyBookingRules, ...service.bookingRules },
     })
     setShowForm(true)
   }
@@ -152,11 +195,26 @@ export default function ProviderServices() {
       durationMinutes: 30,
       price: 0,
       isActive: true,
+      maxParticipants: 1,
+      resourceIds: [],
+      bookingRules: emptyBookingRules,
     })
     setEditingService(null)
     setShowForm(false)
   }
 
+  const updateBookingRules = (updates: Partial<ServiceBookingRules>) => {
+    setFormData(prev => ({ ...prev, bookingRules: { ...prev.bookingRules, ...updates } }))
+  }
+
+  const updateWindow = (index: number, updates: Partial<ServiceBookingRules['availabilityWindows'][number]>) => {
+    updateBookingRules({
+      availabilityWindows: formData.bookingRules.availabilityWindows.map((window, i) => (
+        i === index ? { ...window, ...updates } : window
+      ))
+    })
+  }
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -255,6 +313,23 @@ export default function ProviderServices() {
                     required
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max participants
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="200"
+                    value={formData.maxParticipants}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      maxParticipants: parseInt(e.target.value) || 1
+                    }))}
+                  />
+                  <p className="text-xs text-gray-600 mt-1">More than 1 makes this a group class or workshop.</p>
+                </div>
                 
                 <div className="flex items-center space-x-2 mt-6">
                   <input
@@ -282,6 +357,147 @@ export default function ProviderServices() {
                 />
               </div>
               
+              {resources.length > 0 && (
+                <div className="border-t pt-4">
+                  <h4 className="text-sm font-medium text-gray-900">Required Resources</h4>
+                  <p className="text-xs text-gray-600 mb-2">
+                    Rooms or equipment this service needs. A time is only offered when all of them are free.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    {resources.map((resource) => (
+                      <label key={resource._id} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.resourceIds.includes(resource._id)}
+                          onChange={(e) => setFormData(prev => ({
+                            ...prev,
+                            resourceIds: e.target.checked
+                              ? [...prev.resourceIds, resource._id]
+                              : prev.resourceIds.filter(id => id !== resource._id)
+                          }))}
+                        />
+                        <span>{resource.name}{!resource.isActive && ' (inactive)'}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="border-t pt-4 space-y-4">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900">Booking Rules</h4>
+                  <p className="text-xs text-gray-600">
+                    Optional limits for this service on top of your availability settings. Empty buffers use your default buffers.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Minimum notice (hours)</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="168"
+                      value={formData.bookingRules.minimumNoticeHours ?? ''}
+                      onChange={(e) => updateBookingRules({ minimumNoticeHours: optionalNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Max bookings per day</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={formData.bookingRules.maxBookingsPerDay ?? ''}
+                      onChange={(e) => updateBookingRules({ maxBookingsPerDay: optionalNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Buffer before (min)</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="120"
+                      step="5"
+                      value={formData.bookingRules.bufferBeforeMinutes ?? ''}
+                      onChange={(e) => updateBookingRules({ bufferBeforeMinutes: optionalNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Buffer after (min)</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="120"
+                      step="5"
+                      value={formData.bookingRules.bufferAfterMinutes ?? ''}
+                      onChange={(e) => updateBookingRules({ bufferAfterMinutes: optionalNumber(e.target.value) })}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Bookable only during
+                    </label>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateBookingRules({
+                        availabilityWindows: [
+                          ...formData.bookingRules.availabilityWindows,
+                          { day: 'monday', start: '09:00', end: '12:00' }
+                        ]
+                      })}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add Window
+                    </Button>
+                  </div>
+                  {formData.bookingRules.availabilityWindows.length === 0 && (
+                    <p className="text-xs text-gray-600">All working hours</p>
+                  )}
+                  {formData.bookingRules.availabilityWindows.map((window, index) => (
+                    <div key={index} className="flex items-center space-x-2 mb-2">
+                      <select
+                        className="p-2 border border-gray-300 rounded-md"
+                        value={window.day}
+                        onChange={(e) => updateWindow(index, { day: e.target.value as WeekDay })}
+                      >
+                        {Object.entries(dayLabels).map(([day, label]) => (
+                          <option key={day} value={day}>{label}</option>
+                        ))}
+                      </select>
+                      <Input
+                        type="time"
+                        value={window.start}
+                        onChange={(e) => updateWindow(index, { start: e.target.value })}
+                        className="flex-1"
+                      />
+                      <span className="text-gray-500">to</span>
+                      <Input
+                        type="time"
+                        value={window.end}
+                        onChange={(e) => updateWindow(index, { end: e.target.value })}
+                        className="flex-1"
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateBookingRules({
+                          availabilityWindows: formData.bookingRules.availabilityWindows.filter((_, i) => i !== index)
+                        })}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
               <div className="flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={resetForm}>
                   Cancel
@@ -335,6 +551,12 @@ export default function ProviderServices() {
                         <DollarSign className="h-4 w-4" />
                         <span>${service.price}</span>
                       </div>
+                      {(service.maxParticipants || 1) > 1 && (
+                        <div className="flex items-center space-x-1">
+                          <Users className="h-4 w-4" />
+                          <span>Group of up to {service.maxParticipants}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                   
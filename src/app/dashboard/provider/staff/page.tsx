@@ -0,0 +1,429 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Plus, Edit, Trash2, Clock, Calendar, Mail } from 'lucide-react'
+
+interface Service {
+  _id: string
+  name: string
+}
+
+interface StaffMember {
+  _id: string
+  name: string
+  email?: string
+  serviceIds: string[]
+  availabilitySettings?: unknown
+  isActive: boolean
+  calendarConnected: boolean
+}
+
+const emptyForm = {
+  name: '',
+  email: '',
+  serviceIds: [] as string[],
+  isActive: true,
+}
+
+export default function ProviderStaff() {
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [services, setServices] = useState<Service[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetchStaff()
+    fetchServices()
+  }, [])
+
+  const fetchStaff = async () => {
+    try {
+      const response = await fetch('/api/provider/staff')
+      const data = await response.json()
+
+      if (data.staff) {
+        setStaff(data.staff)
+      }
+    } catch (error) {
+      console.error('Error fetching staff:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchServices = async () => {
+    try {
+      const response = await fetch('/api/services')
+      const data = await response.json()
+      setServices(data.services || [])
+    } catch (error) {
+      console.error('Error fetching services:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const body = editingMember
+        ? { ...formData, staffId: editingMember._id }
+        : formData
+
+      const response = await fetch('/api/provider/staff', {
+        method: editingMember ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+
+      if (response.ok) {
+        fetchStaff()
+        resetForm()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to save staff member')
+      }
+    } catch (error) {
+      console.error('Error saving staff member:', error)
+      alert('Error saving staff member')
+    }
+  }
+
+  const handleEdit = (member: StaffMember) => {
+    setEditingMember(member)
+    setFormData({
+      name: member.name,
+      email: member.email || '',
+      serviceIds: member.serviceIds,
+      isActive: member.isActive,
+    })
+    setShowForm(true)
+  }
+
+  const handleDelete = async (staffId: string) => {
+    if (!confirm('Are you sure you want to remove this staff member? This action cannot be undone.')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/provider/staff?staffId=${staffId}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchStaff()
+      } else {
+        const errorData = await response.json()
+        alert(`Failed to remove staff member: ${errorData.error || 'Unknown error'}`)
+      }
+    } catch (error) {
+      console.error('Error deleting staff member:', error)
+      alert('Error removing staff member')
+    }
+  }
+
+  const handleConnectCalendar = async (staffId: string) => {
+    try {
+      const response = await fetch('/api/provider/google/connect', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ staffId }),
+      })
+      const data = await response.json()
+
+      if (data.authUrl) {
+        window.location.href = data.authUrl
+      } else {
+        alert(data.error || 'Failed to connect Google Calendar')
+      }
+    } catch (error) {
+      console.error('Error connecting Google Calendar:', error)
+      alert('Error connecting Google Calendar')
+    }
+  }
+
+  const handleDisconnectCalendar = async (staffId: string) => {
+    if (!confirm('Disconnect this staff member\'s Google Calendar?')) {
+      return
+    }
+
+    try {
+      const response = await fetch('/api/provider/google/disconnect', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ staffId }),
+      })
+
+      if (response.ok) {
+        fetchStaff()
+      } else {
+        alert('Failed to disconnect Google Calendar')
+      }
+    } catch (error) {
+      console.error('Error disconnecting Google Calendar:', error)
+      alert('Error disconnecting Google Calendar')
+    }
+  }
+
+  const handleUseProviderSchedule = async (member: StaffMember) => {
+    try {
+      const response = await fetch('/api/provider/staff', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          staffId: member._id,
+          name: member.name,
+          email: member.email || '',
+          serviceIds: member.serviceIds,
+          isActive: member.isActive,
+          availabilitySettings: null,
+        }),
+      })
+
+      if (response.ok) {
+        fetchStaff()
+      } else {
+        alert('Failed to reset schedule')
+      }
+    } catch (error) {
+      console.error('Error resetting staff schedule:', error)
+      alert('Error resetting schedule')
+    }
+  }
+
+  const resetForm = () => {
+    setFormData(emptyForm)
+    setEditingMember(null)
+    setShowForm(false)
+  }
+
+  const toggleService = (serviceId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      serviceIds: checked
+        ? [...prev.serviceIds, serviceId]
+        : prev.serviceIds.filter(id => id !== serviceId)
+    }))
+  }
+
+  const serviceNames = (member: StaffMember) => {
+    if (member.serviceIds.length === 0) {
+      return 'All services'
+    }
+    return services
+      .filter(service => member.serviceIds.includes(service._id))
+      .map(service => service.name)
+      .join(', ')
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Staff</h1>
+        <div className="animate-pulse space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Staff</h1>
+          <p className="text-gray-700">
+            With staff, clients book a specific person or anyone available for the service.
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)} className="flex items-center space-x-2">
+          <Plus className="h-4 w-4" />
+          <span>Add Staff Member</span>
+        </Button>
+      </div>
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingMember ? 'Edit Staff Member' : 'Add Staff Member'}</CardTitle>
+            <CardDescription>
+              Staff members use your availability until you give them their own schedule.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name *
+                  </label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    required
+                    placeholder="e.g., Ana Petrović"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Email
+                  </label>
+                  <Input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                    placeholder="ana@example.com"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Services
+                </label>
+                <p className="text-xs text-gray-600 mb-2">Leave all unchecked if this person performs every service.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {services.map((service) => (
+                    <label key={service._id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.serviceIds.includes(service._id)}
+                        onChange={(e) => toggleService(service._id, e.target.checked)}
+                      />
+                      <span>{service.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="isActive"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                />
+                <label htmlFor="isActive" className="text-sm font-medium text-gray-700">
+                  Active (available for booking)
+                </label>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingMember ? 'Update Staff Member' : 'Add Staff Member'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        {staff.length > 0 ? (
+          staff.map((member) => (
+            <Card key={member._id}>
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <h3 className="text-lg font-medium text-gray-900">{member.name}</h3>
+                      <Badge variant={member.isActive ? 'default' : 'secondary'}>
+                        {member.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                      {member.calendarConnected && (
+                        <Badge variant="secondary">Google Calendar</Badge>
+                      )}
+                    </div>
+
+                    {member.email && (
+                      <div className="flex items-center space-x-1 text-sm text-gray-700 mb-1">
+                        <Mail className="h-4 w-4" />
+                        <span>{member.email}</span>
+                      </div>
+                    )}
+
+                    <p className="text-sm text-gray-700 mb-1">{serviceNames(member)}</p>
+
+                    <div className="flex items-center space-x-1 text-sm text-gray-700">
+                      <Clock className="h-4 w-4" />
+                      <span>{member.availabilitySettings ? 'Own schedule' : 'Uses your schedule'}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Link href={`/dashboard/provider/availability?staffId=${member._id}`}>
+                      <Button variant="outline" size="sm">
+                        <Clock className="h-4 w-4 mr-1" />
+                        Schedule
+                      </Button>
+                    </Link>
+                    {member.availabilitySettings ? (
+                      <Button variant="outline" size="sm" onClick={() => handleUseProviderSchedule(member)}>
+                        Use My Schedule
+                      </Button>
+                    ) : null}
+                    {member.calendarConnected ? (
+                      <Button variant="outline" size="sm" onClick={() => handleDisconnectCalendar(member._id)}>
+                        <Calendar className="h-4 w-4 mr-1" />
+                        Disconnect
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => handleConnectCalendar(member._id)}>
+                        <Calendar className="h-4 w-4 mr-1" />
+                        Connect Google
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(member)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(member._id)}
+                      className="text-red-600 border-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        ) : (
+          <Card>
+            <CardContent className="p-6 text-center text-gray-700">
+              <p>No staff members yet. Bookings are scheduled with you directly.</p>
+              <Button onClick={() => setShowForm(true)} className="mt-2">
+                Add Your First Staff Member
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
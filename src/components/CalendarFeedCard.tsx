@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface CalendarFeed {
+  url: string;
+  webcalUrl: string;
+}
+
+/**
+ * Lični ICS feed sa rezervacijama, za pretplatu iz bilo kog kalendara
+ */
+export default function CalendarFeedCard({ description }: { description: string }) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/user/calendar-feed')
+      .then(response => (response.ok ? response.json() : null))
+      .then(setFeed)
+      .catch(error => console.error('Error fetching calendar feed:', error));
+  }, []);
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm('Calendars subscribed to the current link will stop updating. Continue?')) return;
+
+    setRegenerating(true);
+    try {
+      const response = await fetch('/api/user/calendar-feed', { method: 'POST' });
+      if (response.ok) {
+        setFeed(await response.json());
+      }
+    } catch (error) {
+      console.error('Error regenerating calendar feed:', error);
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  if (!feed) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Subscription</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} aria-label="Calendar feed URL" />
+          <Button variant="outline" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <a href={feed.webcalUrl}>
+            <Button variant="outline" size="sm">Subscribe in Calendar App</Button>
+          </a>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRegenerate}
+            disabled={regenerating}
+            className="text-red-600 hover:text-red-700"
+          >
+            {regenerating ? 'Generating...' : 'Reset Link'}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-600">
+          Keep this link private: anyone who has it can see your appointments.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
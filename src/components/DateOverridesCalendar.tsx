@@ -0,0 +1,388 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react'
+import {
+  AvailabilityTimeRange,
+  DateOverride,
+  WEEK_DAYS,
+  WeekSchedule,
+  findDateOverride
+} from '@/lib/availability'
+import {
+  HOLIDAY_COUNTRIES,
+  HOLIDAY_COUNTRY_NAMES,
+  HolidayCountry,
+  findPublicHoliday
+} from '@/lib/holidays'
+
+interface DateOverridesCalendarProps {
+  weekSchedule: WeekSchedule
+  overrides: DateOverride[]
+  onChange: (overrides: DateOverride[]) => void
+  holidayCalendars: HolidayCountry[]
+  onHolidayCalendarsChange: (holidayCalendars: HolidayCountry[]) => void
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd')
+
+function formatRange(override: DateOverride): string {
+  const start = format(parseISO(override.date), 'd MMM yyyy')
+  return override.endDate && override.endDate !== override.date
+    ? `${start} - ${format(parseISO(override.endDate), 'd MMM yyyy')}`
+    : start
+}
+
+/**
+ * Kalendar za izuzetke od nedeljnog rasporeda: neradni dani, posebno radno vreme, dodatni radni dani
+ * i državni praznici. Izmene se čuvaju zajedno sa ostalim podešavanjima dostupnosti
+ */
+export default function DateOverridesCalendar({
+  weekSchedule,
+  overrides,
+  onChange,
+  holidayCalendars,
+  onHolidayCalendarsChange
+}: DateOverridesCalendarProps) {
+  const today = toDateString(new Date())
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [selectedDate, setSelectedDate] = useState(today)
+
+  const days = useMemo(() => {
+    const result: Date[] = []
+    const last = endOfWeek(endOfMonth(month), { weekStartsOn: 1 })
+    for (let day = startOfWeek(month, { weekStartsOn: 1 }); day <= last; day = addDays(day, 1)) {
+      result.push(day)
+    }
+    return result
+  }, [month])
+
+  const selectedOverride = findDateOverride({ dateOverrides: overrides }, selectedDate)
+  const selectedIndex = selectedOverride ? overrides.indexOf(selectedOverride) : -1
+  const weekDay = weekSchedule[WEEK_DAYS[parseISO(selectedDate).getDay()]]
+  const selectedHoliday = findPublicHoliday(holidayCalendars, selectedDate)
+
+  const upcoming = overrides
+    .map((override, index) => ({ override, index }))
+    .filter(({ override }) => (override.endDate || override.date) >= today)
+    .sort((a, b) => a.override.date.localeCompare(b.override.date))
+
+  const updateOverride = (index: number, updates: Partial<DateOverride>) => {
+    onChange(overrides.map((override, i) => (i === index ? { ...override, ...updates } : override)))
+  }
+
+  const removeOverride = (index: number) => {
+    onChange(overrides.filter((_, i) => i !== index))
+  }
+
+  const addOverride = (isEnabled: boolean) => {
+    onChange([...overrides, {
+      date: selectedDate,
+      isEnabled,
+      workingHours: weekDay?.isEnabled ? weekDay.workingHours : { start: '09:00', end: '17:00' },
+      breaks: weekDay?.isEnabled ? weekDay.breaks : [],
+    }])
+  }
+
+  const updateBreak = (breakIndex: number, breakData: AvailabilityTimeRange) => {
+    if (!selectedOverride) return
+    const breaks = [...selectedOverride.breaks]
+    breaks[breakIndex] = breakData
+    updateOverride(selectedIndex, { breaks })
+  }
+
+  const toggleHolidayCalendar = (country: HolidayCountry, checked: boolean) => {
+    onHolidayCalendarsChange(checked
+      ? [...holidayCalendars, country]
+      : holidayCalendars.filter(selected => selected !== country))
+  }
+
+  const dayClassName = (date: string) => {
+    const override = findDateOverride({ dateOverrides: overrides }, date)
+    if (override) {
+      return override.isEnabled ? 'bg-blue-100 text-blue-900' : 'bg-red-100 text-red-900'
+    }
+    if (findPublicHoliday(holidayCalendars, date)) {
+      return 'bg-amber-100 text-amber-900'
+    }
+    return weekSchedule[WEEK_DAYS[parseISO(date).getDay()]]?.isEnabled ? 'bg-white' : 'bg-gray-100 text-gray-500'
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Holidays & Special Days</CardTitle>
+        <CardDescription>
+          Close specific dates, change hours for a single day or add extra working days. These take precedence over the weekly schedule.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <Button size="sm" variant="ghost" onClick={() => setMonth(addMonths(month, -1))} aria-label="Previous month">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="font-medium">{format(month, 'MMMM yyyy')}</span>
+              <Button size="sm" variant="ghost" onClick={() => setMonth(addMonths(month, 1))} aria-label="Next month">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+              {WEEKDAY_LABELS.map(label => <div key={label}>{label}</div>)}
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {days.map(day => {
+                const date = toDateString(day)
+                return (
+                  <button
+                    key={date}
+                    type="button"
+                    onClick={() => setSelectedDate(date)}
+                    className={`h-10 rounded border text-sm ${dayClassName(date)} ${
+                      isSameMonth(day, month) ? '' : 'opacity-40'
+                    } ${date === selectedDate ? 'ring-2 ring-blue-500' : ''} ${date < today ? 'line-through' : ''}`}
+                    aria-label={date}
+                    aria-pressed={date === selectedDate}
+                  >
+                    {format(day, 'd')}
+                  </button>
+                )
+              })}
+            </div>
+            <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-100 border" /> Closed</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-100 border" /> Special hours</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-amber-100 border" /> Public holiday</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-gray-100 border" /> Day off</span>
+            </div>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{format(parseISO(selectedDate), 'EEEE, d MMMM yyyy')}</span>
+              {selectedOverride && (
+                <Badge variant={selectedOverride.isEnabled ? 'secondary' : 'destructive'}>
+                  {selectedOverride.isEnabled ? 'Special hours' : 'Closed'}
+                </Badge>
+              )}
+            </div>
+
+            {!selectedOverride && selectedHoliday && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  {selectedHoliday.name} ({HOLIDAY_COUNTRY_NAMES[selectedHoliday.country]}) is closed automatically.
+                </p>
+                <Button size="sm" variant="outline" onClick={() => addOverride(true)}>
+                  Work on This Day
+                </Button>
+              </div>
+            )}
+
+            {!selectedOverride && !selectedHoliday && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  {weekDay?.isEnabled
+                    ? `Regular hours: ${weekDay.workingHours.start} - ${weekDay.workingHours.end}`
+                    : 'Not a working day in the weekly schedule'}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="outline" onClick={() => addOverride(false)}>
+                    Mark as Closed
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => addOverride(true)}>
+                    {weekDay?.isEnabled ? 'Set Special Hours' : 'Add Working Day'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {selectedOverride && (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-3">
+                  <Switch
+                    checked={selectedOverride.isEnabled}
+                    onCheckedChange={(checked: boolean) => updateOverride(selectedIndex, { isEnabled: checked })}
+                  />
+                  <Label className="text-sm">Open on this day</Label>
+                </div>
+
+                {selectedOverride.isEnabled && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label className="text-sm text-gray-600">Start Time</Label>
+                        <Input
+                          type="time"
+                          value={selectedOverride.workingHours.start}
+                          onChange={(e) => updateOverride(selectedIndex, {
+                            workingHours: { ...selectedOverride.workingHours, start: e.target.value }
+                          })}
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-sm text-gray-600">End Time</Label>
+                        <Input
+                          type="time"
+                          value={selectedOverride.workingHours.end}
+                          onChange={(e) => updateOverride(selectedIndex, {
+                            workingHours: { ...selectedOverride.workingHours, end: e.target.value }
+                          })}
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <Label className="text-sm text-gray-600">Breaks</Label>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateOverride(selectedIndex, {
+                            breaks: [...selectedOverride.breaks, { start: '12:00', end: '13:00' }]
+                          })}
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add Break
+                        </Button>
+                      </div>
+                      {selectedOverride.breaks.map((breakTime, index) => (
+                        <div key={index} className="flex items-center space-x-2 mb-2">
+                          <Input
+                            type="time"
+                            value={breakTime.start}
+                            onChange={(e) => updateBreak(index, { ...breakTime, start: e.target.value })}
+                            className="flex-1"
+                          />
+                          <span className="text-gray-500">to</span>
+                          <Input
+                            type="time"
+                            value={breakTime.end}
+                            onChange={(e) => updateBreak(index, { ...breakTime, end: e.target.value })}
+                            className="flex-1"
+                          />
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => updateOverride(selectedIndex, {
+                              breaks: selectedOverride.breaks.filter((_, i) => i !== index)
+                            })}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label className="text-sm text-gray-600">From</Label>
+                    <Input type="date" value={selectedOverride.date} readOnly />
+                  </div>
+                  <div>
+                    <Label className="text-sm text-gray-600">Until (optional)</Label>
+                    <Input
+                      type="date"
+                      min={selectedOverride.date}
+                      value={selectedOverride.endDate || ''}
+                      onChange={(e) => updateOverride(selectedIndex, { endDate: e.target.value || undefined })}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="text-sm text-gray-600">Note</Label>
+                  <Input
+                    value={selectedOverride.note || ''}
+                    placeholder="e.g. Summer vacation"
+                    maxLength={200}
+                    onChange={(e) => updateOverride(selectedIndex, { note: e.target.value || undefined })}
+                  />
+                </div>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => removeOverride(selectedIndex)}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Remove Exception
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <Label className="text-sm text-gray-600">Public holidays</Label>
+          <p className="text-xs text-gray-500 mb-2">
+            Holidays of the selected countries are closed automatically. Add an exception to work on one of them.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            {HOLIDAY_COUNTRIES.map(country => (
+              <div key={country} className="flex items-center space-x-2">
+                <Switch
+                  checked={holidayCalendars.includes(country)}
+                  onCheckedChange={(checked: boolean) => toggleHolidayCalendar(country, checked)}
+                />
+                <Label className="text-sm">{HOLIDAY_COUNTRY_NAMES[country]}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {upcoming.length > 0 && (
+          <div>
+            <Label className="text-sm text-gray-600">Upcoming exceptions</Label>
+            <div className="divide-y border rounded-lg mt-2">
+              {upcoming.map(({ override, index }) => (
+                <div key={`${override.date}-${index}`} className="flex items-center justify-between p-3 text-sm">
+                  <button
+                    type="button"
+                    className="text-left"
+                    onClick={() => {
+                      setSelectedDate(override.date)
+                      setMonth(startOfMonth(parseISO(override.date)))
+                    }}
+                  >
+                    <span className="font-medium">{formatRange(override)}</span>
+                    <span className="text-gray-600">
+                      {' · '}
+                      {override.isEnabled ? `${override.workingHours.start} - ${override.workingHours.end}` : 'Closed'}
+                      {override.note && ` · ${override.note}`}
+                    </span>
+                  </button>
+                  <Button size="sm" variant="ghost" onClick={() => removeOverride(index)} aria-label="Remove exception">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
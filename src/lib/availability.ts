@@ -0,0 +1,184 @@
+import { z } from 'zod'
+import { HOLIDAY_COUNTRIES, findPublicHoliday } from '@/lib/holidays'
+
+/**
+ * Shared shape of ProviderProfile.availabilitySettings
+ * Koristi se i za validaciju u /api/availability i u slot generation engine-u
+ */
+
+export const timeSlotSchema = z.object({
+  start: z.string(),
+  end: z.string()
+})
+
+export const dayScheduleSchema = z.object({
+  isEnabled: z.boolean(),
+  workingHours: timeSlotSchema,
+  breaks: z.array(timeSlotSchema)
+})
+
+export const weekScheduleSchema = z.object({
+  monday: dayScheduleSchema,
+  tuesday: dayScheduleSchema,
+  wednesday: dayScheduleSchema,
+  thursday: dayScheduleSchema,
+  friday: dayScheduleSchema,
+  saturday: dayScheduleSchema,
+  sunday: dayScheduleSchema
+})
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Izuzetak od nedeljnog rasporeda za jedan datum ili period (endDate uključen)
+ * isEnabled false = zatvoreno (odmor, praznik), inače važe navedeno radno vreme,
+ * što pokriva i posebno radno vreme i dodatni radni dan
+ */
+export const dateOverrideSchema = dayScheduleSchema.extend({
+  date: z.string().regex(DATE_PATTERN, 'Date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(DATE_PATTERN, 'Date must be in YYYY-MM-DD format').optional(),
+  note: z.string().max(200).optional()
+}).refine(override => !override.endDate || override.endDate >= override.date, {
+  message: 'End date must not be before the start date',
+  path: ['endDate']
+}).refine(override => !override.isEnabled || override.workingHours.start < override.workingHours.end, {
+  message: 'Working hours must end after they start',
+  path: ['workingHours']
+})
+
+/**
+ * Razmak između mogućih početaka termina u minutima
+ * 'back-to-back' pakuje termine jedan za drugim (trajanje + bufferi) i odmah posle zauzetih
+ */
+export const SLOT_INTERVALS = [15, 30, 60, 'back-to-back'] as const
+
+export const slotIntervalSchema = z.union([z.literal(15), z.literal(30), z.literal(60), z.literal('back-to-back')])
+
+export const availabilitySchema = z.object({
+  weekSchedule: weekScheduleSchema,
+  // Stara podešavanja nemaju izuzetke
+  dateOverrides: z.array(dateOverrideSchema).max(500).default([]),
+  // Zemlje čiji su državni praznici automatski neradni dani
+  holidayCalendars: z.array(z.enum(HOLIDAY_COUNTRIES)).default([]),
+  // Staro podešavanje sa jednim bufferom, važi kao buffer posle termina ako bufferAfterMinutes nije postavljen
+  bufferTime: z.number().min(0).max(120).default(0),
+  // Priprema pre i raspremanje posle svakog termina
+  bufferBeforeMinutes: z.number().min(0).max(120).optional(),
+  bufferAfterMinutes: z.number().min(0).max(120).optional(),
+  slotInterval: slotIntervalSchema.default(30),
+  advanceBookingDays: z.number().min(1).max(365),
+  minimumNoticeHours: z.number().min(0).max(168),
+  timezone: z.string()
+})
+
+/**
+ * Pravila zakazivanja jedne usluge (Service.bookingRules)
+ * Prazna lista prozora znači da se usluga zakazuje u celom radnom vremenu providera
+ */
+export const serviceBookingRulesSchema = z.object({
+  availabilityWindows: z.array(timeSlotSchema.extend({
+    day: weekScheduleSchema.keyof()
+  }).refine(window => window.start < window.end, {
+    message: 'Window must end after it starts',
+    path: ['end']
+  })).max(50).default([]),
+  minimumNoticeHours: z.number().min(0).max(168).optional(),
+  maxBookingsPerDay: z.number().int().min(1).max(100).optional(),
+  bufferBeforeMinutes: z.number().min(0).max(120).optional(),
+  bufferAfterMinutes: z.number().min(0).max(120).optional()
+})
+
+export type AvailabilityTimeRange = z.infer<typeof timeSlotSchema>
+export type DaySchedule = z.infer<typeof dayScheduleSchema>
+export type WeekSchedule = z.infer<typeof weekScheduleSchema>
+export type DateOverride = z.infer<typeof dateOverrideSchema>
+export type ServiceBookingRules = z.infer<typeof serviceBookingRulesSchema>
+export type AvailabilitySettings = z.infer<typeof availabilitySchema>
+export type WeekDay = keyof WeekSchedule
+export type SlotInterval = z.infer<typeof slotIntervalSchema>
+
+export interface AppointmentBuffers {
+  before: number
+  after: number
+}
+
+// Index odgovara Date.getUTCDay() (0 = nedelja)
+export const WEEK_DAYS: WeekDay[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+]
+
+export const DEFAULT_AVAILABILITY: AvailabilitySettings = {
+  weekSchedule: {
+    monday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
+    tuesday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
+    wednesday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
+    thursday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
+    friday: { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
+    saturday: { isEnabled: false, workingHours: { start: '09:00', end: '17:00' }, breaks: [] },
+    sunday: { isEnabled: false, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
+  },
+  dateOverrides: [],
+  holidayCalendars: [],
+  bufferTime: 0,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 15,
+  slotInterval: 30,
+  advanceBookingDays: 30,
+  minimumNoticeHours: 2,
+  timezone: 'Europe/Belgrade'
+}
+
+/**
+ * Parsira sačuvana podešavanja (Mixed polje) u validan oblik
+ * Vraća null za stare/neispravne formate kako provider ne bi dobio pogrešne termine
+ */
+export function parseAvailabilitySettings(raw: unknown): AvailabilitySettings | null {
+  const result = availabilitySchema.safeParse(raw)
+  return result.success ? result.data : null
+}
+
+
+function overrideLength(override: DateOverride): number {
+  const end = override.endDate || override.date
+  return new Date(`${end}T00:00:00.000Z`).getTime() - new Date(`${override.date}T00:00:00.000Z`).getTime()
+}
+
+/**
+ * Izuzetak koji važi za lokalni datum (YYYY-MM-DD)
+ * Kada se preklapaju, važi najkraći, pa npr. jedan radni dan usred odmora ima prednost
+ */
+export function findDateOverride(availability: Pick<AvailabilitySettings, 'dateOverrides'>, date: string): DateOverride | undefined {
+  return (availability.dateOverrides || [])
+    .filter(override => override.date <= date && date <= (override.endDate || override.date))
+    .sort((a, b) => overrideLength(a) - overrideLength(b))[0]
+}
+
+/**
+ * Raspored za konkretan lokalni datum: izuzetak ako postoji, zatim praznik iz izabranih kalendara
+ * (zatvoreno), inače nedeljni raspored
+ */
+export function getDaySchedule(availability: AvailabilitySettings, date: string): DaySchedule | undefined {
+  const override = findDateOverride(availability, date)
+  if (override) {
+    return { isEnabled: override.isEnabled, workingHours: override.workingHours, breaks: override.breaks }
+  }
+
+  const weekDay = availability.weekSchedule[WEEK_DAYS[new Date(`${date}T00:00:00.000Z`).getUTCDay()]]
+  if (weekDay && findPublicHoliday(availability.holidayCalendars || [], date)) {
+    return { ...weekDay, isEnabled: false }
+  }
+  return weekDay
+}
+
+/**
+ * Bufferi termina: podešavanja usluge imaju prednost nad podešavanjima providera
+ */
+export function resolveAppointmentBuffers(
+  availability: Pick<AvailabilitySettings, 'bufferTime' | 'bufferBeforeMinutes' | 'bufferAfterMinutes'>,
+  serviceRules?: Pick<ServiceBookingRules, 'bufferBeforeMinutes' | 'bufferAfterMinutes'> | null
+): AppointmentBuffers {
+  return {
+    before: serviceRules?.bufferBeforeMinutes ?? availability.bufferBeforeMinutes ?? 0,
+    after: serviceRules?.bufferAfterMinutes ?? availability.bufferAfterMinutes ?? availability.bufferTime ?? 0,
+  }
+}
@@ -0,0 +1,134 @@
+import crypto from 'crypto'
+
+/**
+ * Šifrovanje tajni u bazi (OAuth tokeni, lozinke kalendara) sa AES-256-GCM
+ *
+ * Ključevi su u CREDENTIALS_ENCRYPTION_KEYS kao "keyId:base64Ključ,..."
+ * Prvi ključ šifruje, svi ostali služe samo za dešifrovanje starih vrednosti (rotacija)
+ * Šifrovana vrednost nosi ID ključa: enc:v1:<keyId>:<iv>:<tag>:<podaci>
+ */
+
+const PREFIX = 'enc:v1:'
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EncryptionError'
+  }
+}
+
+interface EncryptionKeys {
+  currentKeyId: string
+  keys: Map<string, Buffer>
+}
+
+let cachedKeys: { source: string; keys: EncryptionKeys | null } | null = null
+let warnedMissingKeys = false
+
+function parseKeys(source: string): EncryptionKeys | null {
+  const entries = source.split(',').map(entry => entry.trim()).filter(Boolean)
+  if (entries.length === 0) {
+    return null
+  }
+
+  const keys = new Map<string, Buffer>()
+  for (const entry of entries) {
+    const separator = entry.indexOf(':')
+    const keyId = entry.slice(0, separator)
+    const key = Buffer.from(entry.slice(separator + 1), 'base64')
+    if (separator < 1 || !/^[\w.-]+$/.test(keyId)) {
+      throw new EncryptionError('CREDENTIALS_ENCRYPTION_KEYS entries must look like "keyId:base64Key"')
+    }
+    if (key.length !== 32) {
+      throw new EncryptionError(`Encryption key "${keyId}" must be 32 bytes (openssl rand -base64 32)`)
+    }
+    if (keys.has(keyId)) {
+      throw new EncryptionError(`Encryption key "${keyId}" is listed twice`)
+    }
+    keys.set(keyId, key)
+  }
+
+  return { currentKeyId: entries[0].slice(0, entries[0].indexOf(':')), keys }
+}
+
+function getKeys(): EncryptionKeys | null {
+  const source = process.env.CREDENTIALS_ENCRYPTION_KEYS || ''
+  if (cachedKeys?.source !== source) {
+    cachedKeys = { source, keys: parseKeys(source) }
+  }
+  return cachedKeys.keys
+}
+
+export function isEncryptionConfigured(): boolean {
+  return getKeys() !== null
+}
+
+// ID ključa kojim se trenutno šifruje, null ako ključevi nisu podešeni
+export function getCurrentKeyId(): string | null {
+  return getKeys()?.currentKeyId ?? null
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX)
+}
+
+// ID ključa kojim je vrednost šifrovana, null za nešifrovanu vrednost
+export function getEncryptionKeyId(value: string): string | null {
+  return isEncrypted(value) ? value.slice(PREFIX.length).split(':')[0] : null
+}
+
+/**
+ * Šifruje vrednost trenutnim ključem
+ * Već šifrovana vrednost se vraća nepromenjena; bez podešenih ključeva (lokalni razvoj) vrednost ostaje čitljiva
+ */
+export function encryptSecret(value: string): string
+export function encryptSecret(value: string | null | undefined): string | null | undefined
+export function encryptSecret(value: string | null | undefined): string | null | undefined {
+  if (!value || isEncrypted(value)) {
+    return value
+  }
+
+  const keys = getKeys()
+  if (!keys) {
+    if (process.env.NODE_ENV === 'production' && !warnedMissingKeys) {
+      warnedMissingKeys = true
+      console.warn('⚠️ CREDENTIALS_ENCRYPTION_KEYS is not set, credentials are stored unencrypted')
+    }
+    return value
+  }
+
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv(ALGORITHM, keys.keys.get(keys.currentKeyId)!, iv)
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+
+  return `${PREFIX}${keys.currentKeyId}:${iv.toString('base64')}:${tag.toString('base64')}:${data.toString('base64')}`
+}
+
+/**
+ * Dešifruje vrednost bilo kojim podešenim ključem
+ * Nešifrovana vrednost (pre migracije) se vraća nepromenjena
+ */
+export function decryptSecret(value: string): string
+export function decryptSecret(value: string | null | undefined): string | null | undefined
+export function decryptSecret(value: string | null | undefined): string | null | undefined {
+  if (!value || !isEncrypted(value)) {
+    return value
+  }
+
+  const [keyId, iv, tag, data] = value.slice(PREFIX.length).split(':')
+  const key = getKeys()?.keys.get(keyId)
+  if (!key) {
+    throw new EncryptionError(`Encryption key "${keyId}" is not configured`)
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8')
+  } catch {
+    throw new EncryptionError(`Value could not be decrypted with key "${keyId}"`)
+  }
+}
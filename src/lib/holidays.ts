@@ -0,0 +1,203 @@
+/**
+ * Državni praznici (neradni dani) po zemljama
+ * Računaju se za svaku godinu, pa nema listi koje treba ažurirati
+ */
+
+export const HOLIDAY_COUNTRIES = ['RS', 'HR', 'SI', 'DE', 'AT'] as const
+
+export type HolidayCountry = typeof HOLIDAY_COUNTRIES[number]
+
+export interface PublicHoliday {
+  date: string // YYYY-MM-DD
+  name: string
+  country: HolidayCountry
+}
+
+export const HOLIDAY_COUNTRY_NAMES: Record<HolidayCountry, string> = {
+  RS: 'Serbia',
+  HR: 'Croatia',
+  SI: 'Slovenia',
+  DE: 'Germany',
+  AT: 'Austria'
+}
+
+type HolidayRule = { month: number; day: number; name: string } | { easterOffset: number; name: string }
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Zapadni (katolički) Uskrs, gregorijanski algoritam
+ */
+export function westernEaster(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return utcDate(year, month, day)
+}
+
+/**
+ * Pravoslavni Uskrs: julijanski algoritam, prebačen u gregorijanski kalendar
+ * Razlika između kalendara je 13 dana za godine 1900-2099
+ */
+export function orthodoxEaster(year: number): Date {
+  const a = year % 4
+  const b = year % 7
+  const c = year % 19
+  const d = (19 * c + 15) % 30
+  const e = (2 * a + 4 * b - d + 34) % 7
+  const month = Math.floor((d + e + 114) / 31)
+  const day = ((d + e + 114) % 31) + 1
+  return addUtcDays(utcDate(year, month, day), 13)
+}
+
+const RULES: Record<HolidayCountry, HolidayRule[]> = {
+  RS: [
+    { month: 1, day: 1, name: 'New Year' },
+    { month: 1, day: 2, name: 'New Year' },
+    { month: 1, day: 7, name: 'Orthodox Christmas' },
+    { month: 2, day: 15, name: 'Statehood Day' },
+    { month: 2, day: 16, name: 'Statehood Day' },
+    { easterOffset: -2, name: 'Orthodox Good Friday' },
+    { easterOffset: -1, name: 'Orthodox Holy Saturday' },
+    { easterOffset: 0, name: 'Orthodox Easter' },
+    { easterOffset: 1, name: 'Orthodox Easter Monday' },
+    { month: 5, day: 1, name: 'Labour Day' },
+    { month: 5, day: 2, name: 'Labour Day' },
+    { month: 11, day: 11, name: 'Armistice Day' }
+  ],
+  HR: [
+    { month: 1, day: 1, name: 'New Year' },
+    { month: 1, day: 6, name: 'Epiphany' },
+    { easterOffset: 0, name: 'Easter' },
+    { easterOffset: 1, name: 'Easter Monday' },
+    { month: 5, day: 1, name: 'Labour Day' },
+    { month: 5, day: 30, name: 'Statehood Day' },
+    { easterOffset: 60, name: 'Corpus Christi' },
+    { month: 6, day: 22, name: 'Anti-Fascist Struggle Day' },
+    { month: 8, day: 5, name: 'Victory Day' },
+    { month: 8, day: 15, name: 'Assumption Day' },
+    { month: 11, day: 1, name: 'All Saints\' Day' },
+    { month: 11, day: 18, name: 'Remembrance Day' },
+    { month: 12, day: 25, name: 'Christmas' },
+    { month: 12, day: 26, name: 'St. Stephen\'s Day' }
+  ],
+  SI: [
+    { month: 1, day: 1, name: 'New Year' },
+    { month: 1, day: 2, name: 'New Year' },
+    { month: 2, day: 8, name: 'Prešeren Day' },
+    { easterOffset: 0, name: 'Easter' },
+    { easterOffset: 1, name: 'Easter Monday' },
+    { month: 4, day: 27, name: 'Day of Uprising Against Occupation' },
+    { month: 5, day: 1, name: 'Labour Day' },
+    { month: 5, day: 2, name: 'Labour Day' },
+    { easterOffset: 49, name: 'Whit Sunday' },
+    { month: 6, day: 25, name: 'Statehood Day' },
+    { month: 8, day: 15, name: 'Assumption Day' },
+    { month: 10, day: 31, name: 'Reformation Day' },
+    { month: 11, day: 1, name: 'Remembrance Day' },
+    { month: 12, day: 25, name: 'Christmas' },
+    { month: 12, day: 26, name: 'Independence and Unity Day' }
+  ],
+  // Samo praznici koji važe u celoj zemlji, bez pokrajinskih
+  DE: [
+    { month: 1, day: 1, name: 'New Year' },
+    { easterOffset: -2, name: 'Good Friday' },
+    { easterOffset: 1, name: 'Easter Monday' },
+    { month: 5, day: 1, name: 'Labour Day' },
+    { easterOffset: 39, name: 'Ascension Day' },
+    { easterOffset: 50, name: 'Whit Monday' },
+    { month: 10, day: 3, name: 'German Unity Day' },
+    { month: 12, day: 25, name: 'Christmas' },
+    { month: 12, day: 26, name: 'St. Stephen\'s Day' }
+  ],
+  AT: [
+    { month: 1, day: 1, name: 'New Year' },
+    { month: 1, day: 6, name: 'Epiphany' },
+    { easterOffset: 1, name: 'Easter Monday' },
+    { month: 5, day: 1, name: 'Labour Day' },
+    { easterOffset: 39, name: 'Ascension Day' },
+    { easterOffset: 50, name: 'Whit Monday' },
+    { easterOffset: 60, name: 'Corpus Christi' },
+    { month: 8, day: 15, name: 'Assumption Day' },
+    { month: 10, day: 26, name: 'National Day' },
+    { month: 11, day: 1, name: 'All Saints\' Day' },
+    { month: 12, day: 8, name: 'Immaculate Conception' },
+    { month: 12, day: 25, name: 'Christmas' },
+    { month: 12, day: 26, name: 'St. Stephen\'s Day' }
+  ]
+}
+
+// Srbija: državni (ne verski) praznik koji padne u nedelju pomera se na prvi sledeći radni dan
+const RS_MOVABLE = ['New Year', 'Statehood Day', 'Labour Day', 'Armistice Day']
+
+const cache = new Map<string, PublicHoliday[]>()
+
+/**
+ * Praznici jedne zemlje za godinu, sortirani po datumu
+ */
+export function getPublicHolidays(country: HolidayCountry, year: number): PublicHoliday[] {
+  const key = `${country}:${year}`
+  const cached = cache.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const easter = country === 'RS' ? orthodoxEaster(year) : westernEaster(year)
+  const holidays: PublicHoliday[] = RULES[country].map(rule => ({
+    date: toDateString('easterOffset' in rule ? addUtcDays(easter, rule.easterOffset) : utcDate(year, rule.month, rule.day)),
+    name: rule.name,
+    country,
+  }))
+
+  if (country === 'RS') {
+    const dates = new Set(holidays.map(holiday => holiday.date))
+    for (const holiday of [...holidays]) {
+      const date = new Date(`${holiday.date}T00:00:00.000Z`)
+      if (!RS_MOVABLE.includes(holiday.name) || date.getUTCDay() !== 0) continue
+
+      let observed = addUtcDays(date, 1)
+      while (dates.has(toDateString(observed))) {
+        observed = addUtcDays(observed, 1)
+      }
+      dates.add(toDateString(observed))
+      holidays.push({ date: toDateString(observed), name: `${holiday.name} (observed)`, country })
+    }
+  }
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date))
+  cache.set(key, holidays)
+  return holidays
+}
+
+/**
+ * Praznik na lokalni datum (YYYY-MM-DD) u bilo kojoj od izabranih zemalja
+ */
+export function findPublicHoliday(countries: readonly HolidayCountry[], date: string): PublicHoliday | undefined {
+  const year = Number(date.slice(0, 4))
+  for (const country of countries) {
+    const holiday = getPublicHolidays(country, year).find(candidate => candidate.date === date)
+    if (holiday) {
+      return holiday
+    }
+  }
+  return undefined
+}
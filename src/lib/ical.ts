@@ -0,0 +1,364 @@
+import { addDays, addMinutes } from 'date-fns'
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+
+/**
+ * Minimalan iCalendar (RFC 5545) format i parser
+ * Pokriva ono što aplikacija piše i čita: pojedinačne VEVENT-e sa vremenom početka i kraja
+ */
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL'
+
+export interface IcsPerson {
+  name?: string
+  email: string
+}
+
+export interface IcsEvent {
+  uid: string
+  start: Date
+  end: Date
+  // Vreme se piše kao lokalno u ovoj zoni (TZID), uz VTIMEZONE u kalendaru; bez nje u UTC
+  timezone?: string
+  summary?: string
+  description?: string
+  location?: string
+  organizer?: IcsPerson
+  attendee?: IcsPerson
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  sequence?: number
+}
+
+export interface ParsedIcsEvent {
+  uid?: string
+  start: Date
+  end: Date
+  allDay: boolean
+  summary?: string
+  status?: string
+  // TRANSP:TRANSPARENT događaji ne zauzimaju vreme
+  transparent: boolean
+  recurring: boolean
+}
+
+const PRODID = '-//Zakazivac//Booking//SR'
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+}
+
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatIcsLocalDate(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, "yyyyMMdd'T'HHmmss")
+}
+
+function formatIcsDateProperty(name: string, date: Date, timezone?: string): string {
+  return timezone
+    ? `${name};TZID=${timezone}:${formatIcsLocalDate(date, timezone)}`
+    : `${name}:${formatIcsDate(date)}`
+}
+
+function formatIcsPerson(name: string, person: IcsPerson, params: string = ''): string {
+  const cn = person.name ? `;CN="${person.name.replace(/"/g, '')}"` : ''
+  return `${name}${cn}${params}:mailto:${person.email}`
+}
+
+// Duge linije se prelamaju na 75 okteta UTF-8 (RFC 5545, 3.1), samo između celih znakova
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  // for...of ide po code point-ima, pa se emoji (surrogate par) nikad ne deli
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    if (currentBytes + bytes > 75) {
+      parts.push(current)
+      // Nastavak počinje razmakom, koji je deo ograničenja
+      current = ' '
+      currentBytes = 1
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n')
+}
+
+export function formatIcsEvent(event: IcsEvent, now: Date = new Date()): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    formatIcsDateProperty('DTSTART', event.start, event.timezone),
+    formatIcsDateProperty('DTEND', event.end, event.timezone),
+  ]
+  if (event.summary) lines.push(`SUMMARY:${escapeIcsText(event.summary)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`)
+  if (event.organizer) lines.push(formatIcsPerson('ORGANIZER', event.organizer))
+  if (event.attendee) {
+    lines.push(formatIcsPerson('ATTENDEE', event.attendee, event.organizer ? ';ROLE=REQ-PARTICIPANT' : ''))
+  }
+  if (event.status) lines.push(`STATUS:${event.status}`)
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`)
+  lines.push('END:VEVENT')
+  return lines
+}
+
+const timezoneCache = new Map<string, string[]>()
+
+// Pomeraj zone u ms; getTimezoneOffset iz date-fns-tz greši za sat tačno u trenutku prelaza
+function getUtcOffset(timezone: string, date: Date): number {
+  const local = Date.parse(`${formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ss")}Z`)
+  return Math.round((local - date.getTime()) / 60000) * 60000
+}
+
+function formatUtcOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / 60000)
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0')
+  return `${offsetMs < 0 ? '-' : '+'}${hours}${String(minutes % 60).padStart(2, '0')}`
+}
+
+function formatObservance(timezone: string, at: Date, offsetFrom: number, offsetTo: number): string[] {
+  const type = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD'
+  return [
+    `BEGIN:${type}`,
+    // Početak prelaza po lokalnom vremenu koje je važilo pre njega
+    `DTSTART:${formatIcsDate(new Date(at.getTime() + offsetFrom)).replace('Z', '')}`,
+    `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+    `TZNAME:${formatInTimeZone(at, timezone, 'zzz')}`,
+    `END:${type}`,
+  ]
+}
+
+/**
+ * VTIMEZONE za IANA zonu sa svim promenama pomeraja u godinama od from do to
+ * Prelazi se traže dan po dan pa preciznije do minuta, pa radi i za zone bez pravilnog DST pravila
+ */
+export function formatVTimezone(timezone: string, from: Date, to: Date): string[] {
+  const startYear = from.getUTCFullYear()
+  const endYear = to.getUTCFullYear()
+  const cacheKey = `${timezone}:${startYear}:${endYear}`
+  const cached = timezoneCache.get(cacheKey)
+  if (cached) return cached
+
+  const rangeStart = new Date(Date.UTC(startYear, 0, 1))
+  const rangeEnd = new Date(Date.UTC(endYear + 1, 0, 1))
+  const offsetAt = (date: Date) => getUtcOffset(timezone, date)
+
+  const initialOffset = offsetAt(rangeStart)
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...formatObservance(timezone, rangeStart, initialOffset, initialOffset),
+  ]
+
+  let previous = rangeStart
+  let previousOffset = initialOffset
+  for (let day = addDays(rangeStart, 1); day <= rangeEnd; day = addDays(day, 1)) {
+    const offset = offsetAt(day)
+    if (offset === previousOffset) {
+      previous = day
+      continue
+    }
+
+    // Prvi minut sa novim pomerajem
+    let low = previous.getTime()
+    let high = day.getTime()
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000
+      if (offsetAt(new Date(middle)) === previousOffset) low = middle
+      else high = middle
+    }
+    const transition = addMinutes(new Date(low), 1)
+
+    lines.push(...formatObservance(timezone, transition, previousOffset, offset))
+    previous = day
+    previousOffset = offset
+  }
+
+  lines.push('END:VTIMEZONE')
+  timezoneCache.set(cacheKey, lines)
+  return lines
+}
+
+export function formatIcsCalendar(
+  events: IcsEvent[],
+  options: { name?: string; now?: Date; method?: IcsMethod } = {}
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+  ]
+  if (options.method) lines.push(`METHOD:${options.method}`)
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`)
+
+  const timezones = new Set(events.map(event => event.timezone).filter((timezone): timezone is string => !!timezone))
+  for (const timezone of timezones) {
+    const zoned = events.filter(event => event.timezone === timezone)
+    const from = new Date(Math.min(...zoned.map(event => event.start.getTime())))
+    const to = new Date(Math.max(...zoned.map(event => event.end.getTime())))
+    lines.push(...formatVTimezone(timezone, from, to))
+  }
+
+  for (const event of events) {
+    lines.push(...formatIcsEvent(event, options.now))
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // Dvotačka unutar navodnika u parametrima nije kraj imena
+  let inQuotes = false
+  let separator = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      separator = i
+      break
+    }
+  }
+  if (separator === -1) return null
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=')
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) }
+}
+
+/**
+ * Vreme iz DTSTART/DTEND: UTC (Z), sa TZID ili "plutajuće" (tumači se u defaultTimezone)
+ */
+function parseIcsDate(property: IcsProperty, defaultTimezone: string): { date: Date; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const allDay = hour === undefined || property.params.VALUE === 'DATE'
+  const local = `${year}-${month}-${day}T${hour || '00'}:${minute || '00'}:${second || '00'}`
+
+  if (utc) {
+    return { date: new Date(`${local}Z`), allDay }
+  }
+
+  const timezone = property.params.TZID || defaultTimezone
+  try {
+    const date = fromZonedTime(local, timezone)
+    if (!isNaN(date.getTime())) {
+      return { date, allDay }
+    }
+  } catch {
+    // Nepoznat TZID (npr. Windows nazivi zona), ispod se koristi podrazumevana zona
+  }
+  return { date: fromZonedTime(local, defaultTimezone), allDay }
+}
+
+function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const ms = ((Number(weeks || 0) * 7 + Number(days || 0)) * 86400 +
+    Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0)) * 1000
+  return sign === '-' ? -ms : ms
+}
+
+/**
+ * Čita VEVENT komponente iz iCalendar teksta
+ * Ponavljajući događaji (RRULE) se vraćaju samo sa prvim pojavljivanjem i oznakom recurring
+ */
+export function parseIcsEvents(ics: string, defaultTimezone: string = 'UTC'): ParsedIcsEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const events: ParsedIcsEvent[] = []
+  let current: IcsProperty[] | null = null
+  // Ugnježdene komponente (VALARM) unutar VEVENT-a se preskaču
+  let nestedDepth = 0
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = []
+      nestedDepth = 0
+      continue
+    }
+    if (!current) continue
+
+    if (line.startsWith('BEGIN:')) {
+      nestedDepth++
+      continue
+    }
+    if (line.startsWith('END:') && line !== 'END:VEVENT') {
+      nestedDepth--
+      continue
+    }
+    if (line === 'END:VEVENT') {
+      const event = buildEvent(current, defaultTimezone)
+      if (event) events.push(event)
+      current = null
+      continue
+    }
+
+    if (nestedDepth === 0) {
+      const property = parseProperty(line)
+      if (property) current.push(property)
+    }
+  }
+
+  return events
+}
+
+function buildEvent(properties: IcsProperty[], defaultTimezone: string): ParsedIcsEvent | null {
+  const get = (name: string) => properties.find(property => property.name === name)
+
+  const dtStart = get('DTSTART')
+  const start = dtStart && parseIcsDate(dtStart, defaultTimezone)
+  if (!start) return null
+
+  let end: Date | undefined
+  const dtEnd = get('DTEND')
+  const duration = get('DURATION')
+  if (dtEnd) {
+    end = parseIcsDate(dtEnd, defaultTimezone)?.date
+  } else if (duration) {
+    const ms = parseIcsDuration(duration.value)
+    if (ms !== null) end = new Date(start.date.getTime() + ms)
+  } else if (start.allDay) {
+    end = addDays(start.date, 1)
+  }
+  if (!end || end <= start.date) return null
+
+  const summary = get('SUMMARY')
+  return {
+    uid: get('UID')?.value,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    summary: summary ? unescapeIcsText(summary.value) : undefined,
+    status: get('STATUS')?.value.toUpperCase(),
+    transparent: get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT',
+    recurring: !!get('RRULE'),
+  }
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod'
+
+export const ALLOWED_FILE_TYPES = ['jpg', 'jpeg', 'png', 'gif', 'pdf', 'doc', 'docx', 'txt'] as const
+
+// outbox ne šalje ništa, koristi se za razvoj i testove
+export const EMAIL_TRANSPORTS = ['mailgun', 'smtp', 'outbox'] as const
+
+// Lozinke se nikad ne vraćaju klijentu
+export const SECRET_MASK = '********'
+
+export const applicationSettingsSchema = z.object({
+  appName: z.string().trim().min(1),
+  appDescription: z.string().trim(),
+  defaultTimezone: z.string().min(1),
+  defaultLanguage: z.string().min(2).max(5),
+  defaultCurrency: z.string().length(3),
+  maxFileUploadSize: z.number().min(1).max(100), // MB
+  allowedFileTypes: z.array(z.enum(ALLOWED_FILE_TYPES)),
+})
+
+export const bookingSettingsSchema = z.object({
+  defaultBookingDuration: z.number().int().min(5).max(480), // minutes
+  maxAdvanceBookingDays: z.number().int().min(1).max(365),
+  minAdvanceBookingHours: z.number().min(0).max(168),
+  allowSameDayBooking: z.boolean(),
+  defaultCancellationHours: z.number().min(0).max(720),
+  // Koliko dugo je oslobođen termin zadržan za klijenta sa liste čekanja
+  waitlistHoldMinutes: z.number().int().min(5).max(1440),
+})
+
+export const emailSettingsSchema = z.object({
+  emailEnabled: z.boolean(),
+  transport: z.enum(EMAIL_TRANSPORTS),
+  smtpHost: z.string().trim(),
+  smtpPort: z.number().int().min(1).max(65535),
+  smtpSecure: z.boolean(),
+  smtpUser: z.string().trim(),
+  smtpPassword: z.string(),
+  fromEmail: z.string().trim().email().or(z.literal('')),
+  fromName: z.string().trim(),
+})
+
+export const notificationSettingsSchema = z.object({
+  bookingConfirmationEmail: z.boolean(),
+  bookingReminderEmail: z.boolean(),
+  cancellationNotificationEmail: z.boolean(),
+  reminderHoursBefore: z.number().min(1).max(168),
+})
+
+export const securitySettingsSchema = z.object({
+  sessionTimeoutMinutes: z.number().int().min(5).max(1440),
+  maxLoginAttempts: z.number().int().min(1).max(100),
+  lockoutDurationMinutes: z.number().int().min(1).max(1440),
+  requireEmailVerification: z.boolean(),
+  passwordMinLength: z.number().int().min(6).max(128),
+  passwordRequireSpecialChar: z.boolean(),
+})
+
+export const integrationSettingsSchema = z.object({
+  googleCalendarEnabled: z.boolean(),
+  enableWebhooks: z.boolean(),
+  webhookUrl: z.string().trim().url().or(z.literal('')),
+})
+
+export const businessSettingsSchema = z.object({
+  businessName: z.string().trim(),
+  businessAddress: z.string().trim(),
+  businessPhone: z.string().trim(),
+  businessEmail: z.string().trim().email().or(z.literal('')),
+  taxRate: z.number().min(0).max(100),
+  commissionRate: z.number().min(0).max(100),
+})
+
+export const platformSettingsSchema = z.object({
+  application: applicationSettingsSchema,
+  booking: bookingSettingsSchema,
+  email: emailSettingsSchema,
+  notifications: notificationSettingsSchema,
+  security: securitySettingsSchema,
+  integrations: integrationSettingsSchema,
+  business: businessSettingsSchema,
+})
+
+// Izmena može da sadrži samo neke sekcije i neka polja
+export const platformSettingsUpdateSchema = z.object({
+  application: applicationSettingsSchema.partial().optional(),
+  booking: bookingSettingsSchema.partial().optional(),
+  email: emailSettingsSchema.partial().optional(),
+  notifications: notificationSettingsSchema.partial().optional(),
+  security: securitySettingsSchema.partial().optional(),
+  integrations: integrationSettingsSchema.partial().optional(),
+  business: businessSettingsSchema.partial().optional(),
+}).strict()
+
+export type PlatformSettings = z.infer<typeof platformSettingsSchema>
+export type BookingSettings = z.infer<typeof bookingSettingsSchema>
+export type EmailSettings = z.infer<typeof emailSettingsSchema>
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number]
+export type PlatformSettingsUpdate = z.infer<typeof platformSettingsUpdateSchema>
+export type SettingsSection = keyof PlatformSettings
+
+export const SETTINGS_SECTIONS = Object.keys(platformSettingsSchema.shape) as SettingsSection[]
+
+// Polja čija se vrednost maskira u odgovorima i istoriji izmena
+export const SECRET_SETTINGS: { section: SettingsSection; field: string }[] = [
+  { section: 'email', field: 'smtpPassword' },
+]
+
+export const DEFAULT_BOOKING_SETTINGS: BookingSettings = {
+  defaultBookingDuration: 60,
+  maxAdvanceBookingDays: 90,
+  minAdvanceBookingHours: 2,
+  allowSameDayBooking: true,
+  defaultCancellationHours: 24,
+  waitlistHoldMinutes: 30,
+}
+
+function getDefaultEmailTransport(): EmailTransportName {
+  const fromEnv = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined
+  if (fromEnv && EMAIL_TRANSPORTS.includes(fromEnv)) {
+    return fromEnv
+  }
+  return process.env.MAILGUN_API_KEY ? 'mailgun' : 'outbox'
+}
+
+/**
+ * Podrazumevana podešavanja dok admin ništa ne sačuva
+ * Vrednosti iz okruženja (SMTP, business) služe kao početne
+ */
+export function getDefaultSettings(): PlatformSettings {
+  return {
+    application: {
+      appName: 'Zakazivač',
+      appDescription: 'Professional appointment booking system',
+      defaultTimezone: 'Europe/Belgrade',
+      defaultLanguage: 'sr',
+      defaultCurrency: 'RSD',
+      maxFileUploadSize: 5,
+      allowedFileTypes: ['jpg', 'jpeg', 'png', 'pdf'],
+    },
+    booking: { ...DEFAULT_BOOKING_SETTINGS },
+    email: {
+      emailEnabled: true,
+      transport: getDefaultEmailTransport(),
+      smtpHost: process.env.SMTP_HOST || '',
+      smtpPort: parseInt(process.env.SMTP_PORT || '587'),
+      smtpSecure: process.env.SMTP_SECURE === 'true',
+      smtpUser: process.env.SMTP_USER || '',
+      smtpPassword: process.env.SMTP_PASSWORD || '',
+      fromEmail: process.env.FROM_EMAIL || '',
+      fromName: process.env.FROM_NAME || 'Zakazivač',
+    },
+    notifications: {
+      bookingConfirmationEmail: true,
+      bookingReminderEmail: true,
+      cancellationNotificationEmail: true,
+      reminderHoursBefore: 24,
+    },
+    security: {
+      sessionTimeoutMinutes: 60,
+      maxLoginAttempts: 5,
+      lockoutDurationMinutes: 15,
+      requireEmailVerification: true,
+      passwordMinLength: 8,
+      passwordRequireSpecialChar: true,
+    },
+    integrations: {
+      googleCalendarEnabled: !!process.env.GOOGLE_CLIENT_ID,
+      enableWebhooks: false,
+      webhookUrl: process.env.WEBHOOK_URL || '',
+    },
+    business: {
+      businessName: process.env.BUSINESS_NAME || '',
+      businessAddress: process.env.BUSINESS_ADDRESS || '',
+      businessPhone: process.env.BUSINESS_PHONE || '',
+      businessEmail: process.env.BUSINESS_EMAIL || '',
+      taxRate: parseFloat(process.env.TAX_RATE || '0'),
+      commissionRate: parseFloat(process.env.COMMISSION_RATE || '0'),
+    },
+  }
+}
+
+/**
+ * Kopija podešavanja sa maskiranim tajnama, za API odgovore
+ */
+export function maskSecretSettings(settings: PlatformSettings): PlatformSettings {
+  const masked = structuredClone(settings)
+  for (const { section, field } of SECRET_SETTINGS) {
+    const values = masked[section] as Record<string, unknown>
+    if (values[field]) {
+      values[field] = SECRET_MASK
+    }
+  }
+  return masked
+}
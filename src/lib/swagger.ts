@@ -77,6 +77,38 @@ export const swaggerSpec = {
           price: { type: 'number', description: 'Cena usluge' },
           currency: { type: 'string', default: 'RSD', description: 'Valuta' },
           isActive: { type: 'boolean', description: 'Status aktivnosti usluge' },
+          maxParticipants: {
+            type: 'number',
+            default: 1,
+            description: 'Broj klijenata po terminu; više od 1 = grupna usluga (čas, radionica)'
+          },
+          resourceIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Prostorije i uređaji koji su svi potrebni za termin'
+          },
+          bookingRules: {
+            type: 'object',
+            description: 'Pravila zakazivanja usluge, povrh rasporeda i pravila providera',
+            properties: {
+              availabilityWindows: {
+                type: 'array',
+                description: 'Usluga se zakazuje samo u ovim prozorima; prazno = celo radno vreme',
+                items: {
+                  type: 'object',
+                  properties: {
+                    day: { type: 'string', example: 'tuesday' },
+                    start: { type: 'string', example: '09:00' },
+                    end: { type: 'string', example: '12:00' }
+                  }
+                }
+              },
+              minimumNoticeHours: { type: 'number', description: 'Minimalna najava u satima' },
+              maxBookingsPerDay: { type: 'number', description: 'Najviše rezervacija usluge po danu' },
+              bufferBeforeMinutes: { type: 'number', description: 'Slobodno vreme pre termina' },
+              bufferAfterMinutes: { type: 'number', description: 'Slobodno vreme posle termina' }
+            }
+          },
           createdAt: { type: 'string', format: 'date-time' },
           updatedAt: { type: 'string', format: 'date-time' }
         }
@@ -88,13 +120,45 @@ export const swaggerSpec = {
           clientId: { type: 'string', description: 'ID klijenta' },
           providerId: { type: 'string', description: 'ID provider profila' },
           serviceId: { type: 'string', description: 'ID usluge' },
+          staffId: { type: 'string', description: 'ID zaposlenog koji radi termin (ako provider ima zaposlene)' },
+          resourceIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Prostorije i uređaji koje termin zauzima'
+          },
+          seriesId: { type: 'string', description: 'Serija ponavljajućih termina kojoj rezervacija pripada' },
+          items: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/BookingLineItem' },
+            description: 'Usluge kombinovanog termina, redom (serviceId je prva)'
+          },
           startTime: { type: 'string', format: 'date-time', description: 'Vreme početka' },
           endTime: { type: 'string', format: 'date-time', description: 'Vreme kraja' },
           status: { 
             type: 'string', 
-            enum: ['pending', 'confirmed', 'cancelled', 'completed'], 
+            enum: ['pending', 'confirmed', 'cancelled', 'completed', 'no_show'], 
             description: 'Status rezervacije' 
           },
+          statusHistory: {
+            type: 'array',
+            description: 'Istorija promena statusa (akcija, ko je izvršio i kada)',
+            items: {
+              type: 'object',
+              properties: {
+                from: { type: 'string', nullable: true },
+                to: { type: 'string' },
+                action: { type: 'string', example: 'approve' },
+                actorId: { type: 'string' },
+                actorRole: { type: 'string', enum: ['client', 'provider', 'system'] },
+                reason: { type: 'string' },
+                previousStart: { type: 'string', format: 'date-time', description: 'Vreme pre pomeranja (reschedule)' },
+                previousEnd: { type: 'string', format: 'date-time' },
+                at: { type: 'string', format: 'date-time' }
+              }
+            }
+          },
+          originalStart: { type: 'string', format: 'date-time', description: 'Prvobitno zakazan početak (ako je termin pomeren)' },
+          originalEnd: { type: 'string', format: 'date-time' },
           notes: { type: 'string', description: 'Napomene' },
           googleEventId: { type: 'string', description: 'ID Google Calendar događaja' },
           createdAt: { type: 'string', format: 'date-time' },
@@ -104,9 +168,94 @@ export const swaggerSpec = {
       TimeSlot: {
         type: 'object',
         properties: {
-          startTime: { type: 'string', format: 'date-time', description: 'Vreme početka slota' },
-          endTime: { type: 'string', format: 'date-time', description: 'Vreme kraja slota' },
-          isAvailable: { type: 'boolean', description: 'Da li je slot dostupan' }
+          start: { type: 'string', format: 'date-time', description: 'Početak slota (UTC)' },
+          end: { type: 'string', format: 'date-time', description: 'Kraj slota (UTC)' },
+          time: { type: 'string', description: 'Lokalno vreme početka u zoni providera (HH:mm)' },
+          startTime: { type: 'string', description: 'Lokalno vreme početka (HH:mm)' },
+          endTime: { type: 'string', description: 'Lokalno vreme kraja (HH:mm)' },
+          available: { type: 'boolean', description: 'Da li je slot dostupan' },
+          staffIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Zaposleni slobodni u terminu (samo kod providera sa zaposlenima)'
+          },
+          remainingSeats: {
+            type: 'number',
+            description: 'Slobodna mesta u terminu (samo kod grupnih usluga)'
+          }
+        }
+      },
+      Resource: {
+        type: 'object',
+        properties: {
+          _id: { type: 'string', description: 'Jedinstveni ID resursa' },
+          providerId: { type: 'string', description: 'ID provider profila' },
+          name: { type: 'string', description: 'Naziv prostorije ili uređaja', example: 'Masažni sto' },
+          description: { type: 'string' },
+          quantity: { type: 'number', description: 'Broj istovetnih jedinica koje se mogu koristiti istovremeno', default: 1 },
+          isActive: { type: 'boolean', description: 'Neaktivan resurs je nedostupan, usluge koje ga traže nemaju termina' }
+        }
+      },
+      StaffMember: {
+        type: 'object',
+        properties: {
+          _id: { type: 'string', description: 'Jedinstveni ID zaposlenog' },
+          providerId: { type: 'string', description: 'ID provider profila' },
+          name: { type: 'string', description: 'Ime zaposlenog' },
+          email: { type: 'string', format: 'email' },
+          serviceIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Usluge koje zaposleni radi; prazno = sve usluge'
+          },
+          availabilitySettings: {
+            type: 'object',
+            nullable: true,
+            description: 'Sopstveni raspored; null = raspored providera'
+          },
+          isActive: { type: 'boolean' },
+          calendarConnected: { type: 'boolean', description: 'Da li zaposleni ima povezan Google kalendar' }
+        }
+      },
+      WaitlistEntry: {
+        type: 'object',
+        properties: {
+          _id: { type: 'string', description: 'Jedinstveni ID prijave' },
+          providerId: { type: 'string' },
+          serviceId: { type: 'string' },
+          clientId: { type: 'string' },
+          staffId: { type: 'string', description: 'Samo termini ovog zaposlenog' },
+          from: { type: 'string', format: 'date-time', description: 'Početak opsega; jednak to za tačan termin' },
+          to: { type: 'string', format: 'date-time', description: 'Kraj opsega (isključen)' },
+          status: { type: 'string', enum: ['waiting', 'offered', 'booked', 'expired', 'cancelled'] },
+          offer: {
+            type: 'object',
+            description: 'Termin zadržan za klijenta',
+            properties: {
+              start: { type: 'string', format: 'date-time' },
+              end: { type: 'string', format: 'date-time' },
+              staffId: { type: 'string' },
+              expiresAt: { type: 'string', format: 'date-time', description: 'Posle ovog trenutka termin ide sledećem na listi' }
+            }
+          }
+        }
+      },
+      BookingLineItem: {
+        type: 'object',
+        description: 'Usluga u terminu sa više usluga',
+        properties: {
+          serviceId: { type: 'string' },
+          name: { type: 'string' },
+          durationMinutes: { type: 'integer' },
+          price: { type: 'number' }
+        }
+      },
+      SeriesConflict: {
+        type: 'object',
+        description: 'Termin serije koji ne može da se zakaže',
+        properties: {
+          start: { type: 'string', format: 'date-time' },
+          error: { type: 'string', description: 'Razlog (zauzet termin, van prozora za zakazivanje...)' }
         }
       },
       ApiError: {
@@ -115,6 +264,42 @@ export const swaggerSpec = {
           error: { type: 'string', description: 'Poruka o grešci' },
           code: { type: 'string', description: 'Kod greške' }
         }
+      },
+      PlatformSettings: {
+        type: 'object',
+        description: 'Podešavanja platforme po sekcijama',
+        properties: {
+          application: { type: 'object' },
+          booking: { type: 'object' },
+          email: { type: 'object' },
+          notifications: { type: 'object' },
+          security: { type: 'object' },
+          integrations: { type: 'object' },
+          business: { type: 'object' }
+        }
+      },
+      PlatformSettingsUpdate: {
+        type: 'object',
+        description: 'Delimična izmena, samo sekcije i polja koja se menjaju',
+        additionalProperties: false,
+        properties: {
+          application: { type: 'object' },
+          booking: { type: 'object' },
+          email: { type: 'object' },
+          notifications: { type: 'object' },
+          security: { type: 'object' },
+          integrations: { type: 'object' },
+          business: { type: 'object' }
+        }
+      },
+      SettingsChange: {
+        type: 'object',
+        properties: {
+          section: { type: 'string' },
+          field: { type: 'string' },
+          from: { description: 'Prethodna vrednost' },
+          to: { description: 'Nova vrednost' }
+        }
       }
     }
   },
@@ -1,20 +1,151 @@
 import mongoose from 'mongoose';
 
+export const BOOKING_STATUSES = ['pending', 'confirmed', 'cancelled', 'completed', 'no_show'] as const;
+
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+
+export interface IBookingStatusChange {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  action: string;
+  actorId?: mongoose.Types.ObjectId;
+  actorRole: 'client' | 'provider' | 'system';
+  reason?: string;
+  // Kod pomeranja termina: vreme pre promene
+  previousStart?: Date;
+  previousEnd?: Date;
+  at: Date;
+}
+
+// Izmena događaja rezervacije koju je provider napravio direktno u Google kalendaru
+export interface IBookingExternalChange {
+  type: 'deleted' | 'moved';
+  // Kod pomeranja: vreme događaja u Google kalendaru
+  start?: Date;
+  end?: Date;
+  detectedAt: Date;
+}
+
+// Usluga u kombinovanom terminu, sa podacima u trenutku zakazivanja
+export interface IBookingLineItem {
+  serviceId: mongoose.Types.ObjectId;
+  name: string;
+  durationMinutes: number;
+  price: number;
+}
+
 export interface IBooking {
   _id?: mongoose.Types.ObjectId;
   providerId: mongoose.Types.ObjectId;
   serviceId: mongoose.Types.ObjectId;
   clientId: mongoose.Types.ObjectId;
+  // Zaposleni koji radi termin; prazno kod providera bez zaposlenih
+  staffId?: mongoose.Types.ObjectId;
+  // Prostorije i uređaji koje termin zauzima (resourceIds usluge u trenutku zakazivanja)
+  resourceIds?: mongoose.Types.ObjectId[];
+  // Ponavljajući termini iste serije dele seriesId
+  seriesId?: mongoose.Types.ObjectId;
+  // Više usluga redom u jednom terminu; serviceId je prva od njih
+  items?: IBookingLineItem[];
   start: Date;
   end: Date;
-  status: 'confirmed' | 'pending' | 'cancelled' | 'completed';
+  status: BookingStatus;
+  statusHistory: IBookingStatusChange[];
+  // Prvobitno zakazano vreme, postavlja se pri prvom pomeranju termina
+  originalStart?: Date;
+  originalEnd?: Date;
   note?: string;
+  // Kada je poslat podsetnik, briše se pri pomeranju termina
+  reminderSentAt?: Date;
+  // ID događaja u povezanom kalendaru (Google event ID ili CalDAV UID), ime polja je istorijsko
   googleEventId?: string;
   syncStatus: 'ok' | 'failed' | 'pending';
+  // Neuspeli pokušaji sinhronizacije od poslednjeg uspeha i poslednja greška
+  syncAttempts: number;
+  syncError?: string;
+  lastSyncAttemptAt?: Date;
+  // Postavlja se kada izmenu iz Google-a nije moguće automatski primeniti
+  externalChange?: IBookingExternalChange;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const statusChangeSchema = new mongoose.Schema<IBookingStatusChange>({
+  from: {
+    type: String,
+    enum: [...BOOKING_STATUSES, null],
+    default: null,
+  },
+  to: {
+    type: String,
+    enum: BOOKING_STATUSES,
+    required: true,
+  },
+  action: {
+    type: String,
+    required: true,
+  },
+  actorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  actorRole: {
+    type: String,
+    enum: ['client', 'provider', 'system'],
+    required: true,
+  },
+  reason: {
+    type: String,
+    trim: true,
+  },
+  previousStart: Date,
+  previousEnd: Date,
+  at: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  _id: false,
+});
+
+const externalChangeSchema = new mongoose.Schema<IBookingExternalChange>({
+  type: {
+    type: String,
+    enum: ['deleted', 'moved'],
+    required: true,
+  },
+  start: Date,
+  end: Date,
+  detectedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  _id: false,
+});
+
+const lineItemSchema = new mongoose.Schema<IBookingLineItem>({
+  serviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Service',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  durationMinutes: {
+    type: Number,
+    required: true,
+  },
+  price: {
+    type: Number,
+    required: true,
+  },
+}, {
+  _id: false,
+});
+
 const bookingSchema = new mongoose.Schema<IBooking>({
   providerId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -31,6 +162,21 @@ const bookingSchema = new mongoose.Schema<IBooking>({
     ref: 'User',
     required: true,
   },
+  staffId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'StaffMember',
+  },
+  resourceIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Resource',
+  }],
+  seriesId: {
+    type: mongoose.Schema.Types.ObjectId,
+  },
+  items: {
+    type: [lineItemSchema],
+    default: undefined,
+  },
   start: {
     type: Date,
     required: true,
@@ -41,13 +187,20 @@ const bookingSchema = new mongoose.Schema<IBooking>({
   },
   status: {
     type: String,
-    enum: ['confirmed', 'pending', 'cancelled', 'completed'],
+    enum: BOOKING_STATUSES,
     default: 'confirmed',
   },
+  statusHistory: {
+    type: [statusChangeSchema],
+    default: [],
+  },
+  originalStart: Date,
+  originalEnd: Date,
   note: {
     type: String,
     trim: true,
   },
+  reminderSentAt: Date,
   googleEventId: {
     type: String,
     sparse: true, // Allow null values, but if set, must be unique
@@ -57,6 +210,13 @@ const bookingSchema = new mongoose.Schema<IBooking>({
     enum: ['ok', 'failed', 'pending'],
     default: 'pending',
   },
+  syncAttempts: {
+    type: Number,
+    default: 0,
+  },
+  syncError: String,
+  lastSyncAttemptAt: Date,
+  externalChange: externalChangeSchema,
 }, {
   timestamps: true,
 });
@@ -64,9 +224,14 @@ const bookingSchema = new mongoose.Schema<IBooking>({
 // Indexes for efficient queries
 bookingSchema.index({ providerId: 1, start: 1 });
 bookingSchema.index({ clientId: 1, start: 1 });
+bookingSchema.index({ staffId: 1, start: 1 }, { sparse: true });
+bookingSchema.index({ resourceIds: 1, start: 1 });
+bookingSchema.index({ seriesId: 1, start: 1 }, { sparse: true });
+bookingSchema.index({ 'items.serviceId': 1, start: 1 }, { sparse: true });
 bookingSchema.index({ start: 1, end: 1 });
 bookingSchema.index({ status: 1, start: 1 }); // Za filter po status-u
 bookingSchema.index({ createdAt: 1 }); // Za sortiranje po datumu kreacije
+bookingSchema.index({ syncStatus: 1, providerId: 1 }); // Za rekoncilijaciju Google sinhronizacije
 
 // Validation: end must be after start
 bookingSchema.pre('save', function(next) {
@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+
+export interface IBookingLock {
+  _id?: mongoose.Types.ObjectId;
+  providerId: mongoose.Types.ObjectId;
+  owner: string;
+  lockedUntil: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const bookingLockSchema = new mongoose.Schema<IBookingLock>({
+  providerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProviderProfile',
+    required: true,
+    unique: true, // Jedan aktivan lock po provideru
+  },
+  owner: {
+    type: String,
+    required: true,
+  },
+  lockedUntil: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Stari lock-ovi (npr. posle pada procesa) se brišu automatski
+bookingLockSchema.index({ lockedUntil: 1 }, { expireAfterSeconds: 60 });
+
+export default mongoose.models.BookingLock || mongoose.model<IBookingLock>('BookingLock', bookingLockSchema);
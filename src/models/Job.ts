@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+
+export const JOB_TYPES = [
+  'booking.send-reminders',
+  'calendar.sync-booking',
+  'calendar.reconcile-sync',
+  'calendar.pull-changes',
+  'calendar.renew-watches',
+  'jobs.cleanup',
+  'waitlist.expire-hold',
+] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface IJob {
+  _id?: mongoose.Types.ObjectId;
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  // Posao se ne pokreće pre ovog trenutka (zakazivanje i backoff)
+  runAt: Date;
+  attempts: number;
+  maxAttempts: number;
+  // Worker koji trenutno izvršava posao i do kada važi njegov lock
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  // Sprečava dupli posao dok je isti već u redu (npr. jedan sync po rezervaciji)
+  uniqueKey?: string;
+  // Periodični poslovi se posle izvršavanja ponovo zakazuju
+  repeatIntervalMs?: number;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new mongoose.Schema<IJob>({
+  type: {
+    type: String,
+    enum: JOB_TYPES,
+    required: true,
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'queued',
+  },
+  runAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5,
+    min: 1,
+  },
+  lockedBy: String,
+  lockedUntil: Date,
+  lastError: String,
+  uniqueKey: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  repeatIntervalMs: Number,
+  completedAt: Date,
+}, {
+  timestamps: true,
+  minimize: false,
+});
+
+// Worker traži najstariji dospeli posao
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, completedAt: 1 }); // Za čišćenje završenih poslova
+
+export default mongoose.models.Job || mongoose.model<IJob>('Job', jobSchema);
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+import { encryptSecret } from '@/lib/encryption';
+
+export interface IProviderCalDavIntegration {
+  _id?: mongoose.Types.ObjectId;
+  providerId: mongoose.Types.ObjectId;
+  // URL kolekcije kalendara na CalDAV serveru
+  calendarUrl: string;
+  username: string;
+  // Šifrovana u bazi (lib/encryption)
+  password: string;
+  displayName?: string;
+  isActive: boolean;
+  lastSyncAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const providerCalDavIntegrationSchema = new mongoose.Schema<IProviderCalDavIntegration>({
+  providerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProviderProfile',
+    required: true,
+    unique: true,
+  },
+  calendarUrl: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  username: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  password: {
+    type: String,
+    required: true,
+    set: encryptSecret,
+  },
+  displayName: {
+    type: String,
+    trim: true,
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+  lastSyncAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+export default mongoose.models.ProviderCalDavIntegration || mongoose.model<IProviderCalDavIntegration>('ProviderCalDavIntegration', providerCalDavIntegrationSchema);
@@ -1,15 +1,24 @@
 import mongoose from 'mongoose';
+import { encryptSecret } from '@/lib/encryption';
 
 export interface IProviderGoogleIntegration {
   _id?: mongoose.Types.ObjectId;
   providerId: mongoose.Types.ObjectId;
   googleAccountEmail: string;
+  // Tokeni su u bazi šifrovani (lib/encryption), čitaju se preko decryptSecret
   accessToken: string;
   refreshToken: string;
   calendarId: string;
   tokenExpiry?: Date;
   isActive: boolean;
   lastSyncAt?: Date;
+  // Token za inkrementalno preuzimanje izmena iz Google kalendara
+  syncToken?: string;
+  // Watch kanal za push obaveštenja, token potvrđuje da poziv stiže od Google-a
+  watchChannelId?: string;
+  watchResourceId?: string;
+  watchToken?: string;
+  watchExpiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -30,10 +39,12 @@ const providerGoogleIntegrationSchema = new mongoose.Schema<IProviderGoogleInteg
   accessToken: {
     type: String,
     required: true,
+    set: encryptSecret,
   },
   refreshToken: {
     type: String,
     required: true,
+    set: encryptSecret,
   },
   calendarId: {
     type: String,
@@ -49,6 +60,15 @@ const providerGoogleIntegrationSchema = new mongoose.Schema<IProviderGoogleInteg
   lastSyncAt: {
     type: Date,
   },
+  syncToken: String,
+  watchChannelId: {
+    type: String,
+    sparse: true,
+    index: true,
+  },
+  watchResourceId: String,
+  watchToken: String,
+  watchExpiresAt: Date,
 }, {
   timestamps: true,
 });
@@ -13,6 +13,14 @@ export interface IProviderProfile {
   timezone: string;
   isActive: boolean;
   availabilitySettings?: any;
+  bookingPolicy: {
+    requiresApproval: boolean;
+    // Override-i sistemskih pravila; ako nisu postavljeni važe admin podešavanja
+    maxAdvanceBookingDays?: number;
+    minAdvanceBookingHours?: number;
+    allowSameDayBooking?: boolean;
+    cancellationHours?: number;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -52,6 +60,29 @@ const providerProfileSchema = new mongoose.Schema<IProviderProfile>({
     default: null,
     strict: false,
   },
+  bookingPolicy: {
+    // Nove rezervacije čekaju odobrenje providera (status 'pending')
+    requiresApproval: {
+      type: Boolean,
+      default: false,
+    },
+    maxAdvanceBookingDays: {
+      type: Number,
+      min: 1,
+      max: 365,
+    },
+    minAdvanceBookingHours: {
+      type: Number,
+      min: 0,
+      max: 168,
+    },
+    allowSameDayBooking: Boolean,
+    cancellationHours: {
+      type: Number,
+      min: 0,
+      max: 720,
+    },
+  },
 }, {
   timestamps: true,
 });
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+
+export interface IResource {
+  _id?: mongoose.Types.ObjectId;
+  providerId: mongoose.Types.ObjectId;
+  // Prostorija ili uređaj koji dele svi zaposleni (sala, masažni sto, laser)
+  name: string;
+  description?: string;
+  // Broj istovetnih jedinica, toliko termina može da ga koristi u isto vreme
+  quantity: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const resourceSchema = new mongoose.Schema<IResource>({
+  providerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProviderProfile',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+  quantity: {
+    type: Number,
+    default: 1,
+    min: 1,
+    max: 50,
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+}, {
+  timestamps: true,
+});
+
+resourceSchema.index({ providerId: 1, isActive: 1 });
+
+export default mongoose.models.Resource || mongoose.model<IResource>('Resource', resourceSchema);
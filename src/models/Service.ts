@@ -9,6 +9,18 @@ export interface IService {
   durationMinutes: number;
   price: number;
   isActive: boolean;
+  // Broj učesnika po terminu; više od 1 = grupna usluga (čas, radionica)
+  maxParticipants: number;
+  // Prostorije i uređaji koji su svi potrebni za termin
+  resourceIds?: mongoose.Types.ObjectId[];
+  // Pravila koja važe samo za ovu uslugu, povrh rasporeda i pravila providera
+  bookingRules?: {
+    availabilityWindows: { day: string; start: string; end: string }[];
+    minimumNoticeHours?: number;
+    maxBookingsPerDay?: number;
+    bufferBeforeMinutes?: number;
+    bufferAfterMinutes?: number;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,6 +60,49 @@ const serviceSchema = new mongoose.Schema<IService>({
     type: Boolean,
     default: true,
   },
+  maxParticipants: {
+    type: Number,
+    default: 1,
+    min: 1,
+    max: 200,
+  },
+  resourceIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Resource',
+  }],
+  bookingRules: {
+    // Usluga se zakazuje samo u ovim prozorima (lokalno vreme providera); prazno = celo radno vreme
+    availabilityWindows: [{
+      _id: false,
+      day: {
+        type: String,
+        enum: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
+        required: true,
+      },
+      start: { type: String, required: true },
+      end: { type: String, required: true },
+    }],
+    minimumNoticeHours: {
+      type: Number,
+      min: 0,
+      max: 168,
+    },
+    maxBookingsPerDay: {
+      type: Number,
+      min: 1,
+      max: 100,
+    },
+    bufferBeforeMinutes: {
+      type: Number,
+      min: 0,
+      max: 120,
+    },
+    bufferAfterMinutes: {
+      type: Number,
+      min: 0,
+      max: 120,
+    },
+  },
 }, {
   timestamps: true,
 });
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+
+// Platforma ima jedan dokument sa podešavanjima
+export const PLATFORM_SETTINGS_KEY = 'platform';
+
+export interface ISettings {
+  _id?: mongoose.Types.ObjectId;
+  key: string;
+  // Sekcije se validiraju zod šemama iz '@/lib/settings'
+  application?: Record<string, unknown>;
+  booking?: Record<string, unknown>;
+  email?: Record<string, unknown>;
+  notifications?: Record<string, unknown>;
+  security?: Record<string, unknown>;
+  integrations?: Record<string, unknown>;
+  business?: Record<string, unknown>;
+  version: number;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const settingsSchema = new mongoose.Schema<ISettings>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    default: PLATFORM_SETTINGS_KEY,
+  },
+  application: mongoose.Schema.Types.Mixed,
+  booking: mongoose.Schema.Types.Mixed,
+  email: mongoose.Schema.Types.Mixed,
+  notifications: mongoose.Schema.Types.Mixed,
+  security: mongoose.Schema.Types.Mixed,
+  integrations: mongoose.Schema.Types.Mixed,
+  business: mongoose.Schema.Types.Mixed,
+  version: {
+    type: Number,
+    required: true,
+    default: 0,
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+  minimize: false,
+});
+
+export default mongoose.models.Settings || mongoose.model<ISettings>('Settings', settingsSchema);
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+
+export interface ISettingsChange {
+  section: string;
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ISettingsRevision {
+  _id?: mongoose.Types.ObjectId;
+  version: number;
+  changes: ISettingsChange[];
+  changedBy?: mongoose.Types.ObjectId;
+  changedByEmail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const settingsChangeSchema = new mongoose.Schema<ISettingsChange>({
+  section: {
+    type: String,
+    required: true,
+  },
+  field: {
+    type: String,
+    required: true,
+  },
+  from: mongoose.Schema.Types.Mixed,
+  to: mongoose.Schema.Types.Mixed,
+}, {
+  _id: false,
+});
+
+const settingsRevisionSchema = new mongoose.Schema<ISettingsRevision>({
+  version: {
+    type: Number,
+    required: true,
+    unique: true,
+  },
+  changes: {
+    type: [settingsChangeSchema],
+    default: [],
+  },
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  changedByEmail: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+}, {
+  timestamps: true,
+});
+
+settingsRevisionSchema.index({ createdAt: -1 });
+
+export default mongoose.models.SettingsRevision || mongoose.model<ISettingsRevision>('SettingsRevision', settingsRevisionSchema);
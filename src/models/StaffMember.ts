@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+
+export interface IStaffMember {
+  _id?: mongoose.Types.ObjectId;
+  providerId: mongoose.Types.ObjectId;
+  name: string;
+  email?: string;
+  // Usluge koje zaposleni radi; prazno = sve usluge providera
+  serviceIds: mongoose.Types.ObjectId[];
+  // Sopstveni raspored (lib/availability); bez njega važi raspored providera
+  availabilitySettings?: Record<string, unknown> | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const staffMemberSchema = new mongoose.Schema<IStaffMember>({
+  providerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProviderProfile',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+  serviceIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Service',
+  }],
+  availabilitySettings: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null,
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+}, {
+  timestamps: true,
+});
+
+staffMemberSchema.index({ providerId: 1, isActive: 1 });
+
+export default mongoose.models.StaffMember || mongoose.model<IStaffMember>('StaffMember', staffMemberSchema);
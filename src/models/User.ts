@@ -9,6 +9,8 @@ export interface IUser {
   emailVerified: boolean;
   verificationToken?: string;
   verificationTokenExpires?: Date;
+  // Tajni token u URL-u ICS feed-a sa rezervacijama korisnika
+  calendarFeedToken?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +51,13 @@ const userSchema = new mongoose.Schema<IUser>({
     type: Date,
     required: false,
   },
+  calendarFeedToken: {
+    type: String,
+    required: false,
+    unique: true,
+    sparse: true,
+    select: false,
+  },
 }, {
   timestamps: true,
 });
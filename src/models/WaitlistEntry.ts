@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+
+export const WAITLIST_STATUSES = ['waiting', 'offered', 'booked', 'expired', 'cancelled'] as const;
+
+export type WaitlistStatus = typeof WAITLIST_STATUSES[number];
+
+export interface IWaitlistEntry {
+  _id?: mongoose.Types.ObjectId;
+  providerId: mongoose.Types.ObjectId;
+  serviceId: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  // Samo termini ovog zaposlenog; bez njega bilo koji
+  staffId?: mongoose.Types.ObjectId;
+  // Početak termina koji klijent čeka: tačan početak (from = to) ili opseg [from, to)
+  from: Date;
+  to: Date;
+  status: WaitlistStatus;
+  // Oslobođen termin zadržan za klijenta dok ne istekne expiresAt
+  offer?: {
+    start: Date;
+    end: Date;
+    staffId?: mongoose.Types.ObjectId;
+    resourceIds: mongoose.Types.ObjectId[];
+    expiresAt: Date;
+  };
+  bookingId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const waitlistEntrySchema = new mongoose.Schema<IWaitlistEntry>({
+  providerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ProviderProfile',
+    required: true,
+  },
+  serviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Service',
+    required: true,
+  },
+  clientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  staffId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'StaffMember',
+  },
+  from: {
+    type: Date,
+    required: true,
+  },
+  to: {
+    type: Date,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: WAITLIST_STATUSES,
+    default: 'waiting',
+  },
+  offer: {
+    type: new mongoose.Schema({
+      start: { type: Date, required: true },
+      end: { type: Date, required: true },
+      staffId: { type: mongoose.Schema.Types.ObjectId, ref: 'StaffMember' },
+      resourceIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Resource' }],
+      expiresAt: { type: Date, required: true },
+    }, { _id: false }),
+    required: false,
+  },
+  bookingId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking',
+  },
+}, {
+  timestamps: true,
+});
+
+// Redosled čekanja po provideru i zadržani termini koji blokiraju slotove
+waitlistEntrySchema.index({ providerId: 1, status: 1, createdAt: 1 });
+waitlistEntrySchema.index({ status: 1, 'offer.start': 1 });
+waitlistEntrySchema.index({ clientId: 1, status: 1 });
+
+export default mongoose.models.WaitlistEntry || mongoose.model<IWaitlistEntry>('WaitlistEntry', waitlistEntrySchema);
@@ -0,0 +1,131 @@
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import { subDays } from 'date-fns'
+import { formatIcsCalendar, IcsEvent, IcsMethod, IcsPerson } from '@/lib/ical'
+import Booking, { IBooking } from '@/models/Booking'
+import ProviderProfile from '@/models/ProviderProfile'
+import User from '@/models/User'
+import { getProviderTimezone } from '@/services/calendar/slotGeneration'
+import { getBookedServiceName } from '@/services/booking/serviceBundles'
+
+// Feed sadrži buduće termine i one iz poslednjih 90 dana
+const FEED_HISTORY_DAYS = 90
+
+type BookingLike = Pick<IBooking, 'start' | 'end' | 'status' | 'statusHistory' | 'note'> & {
+  _id?: mongoose.Types.ObjectId | string
+}
+
+export interface BookingCalendarDetails {
+  timezone: string
+  serviceName: string
+  providerName: string
+  clientName: string
+  address?: string
+  organizer?: IcsPerson
+  attendee?: IcsPerson
+  // Naslov događaja iz ugla onoga čiji je kalendar
+  viewer: 'client' | 'provider'
+}
+
+// Isti UID u pozivnici, otkazivanju i feed-u, da kalendar prepozna isti termin
+export function bookingEventUid(bookingId: mongoose.Types.ObjectId | string): string {
+  return `booking-${bookingId}@zakazivac`
+}
+
+export function toBookingIcsEvent(booking: BookingLike, details: BookingCalendarDetails): IcsEvent {
+  return {
+    uid: bookingEventUid(booking._id!),
+    start: booking.start,
+    end: booking.end,
+    timezone: details.timezone,
+    summary: details.viewer === 'provider'
+      ? `${details.serviceName} - ${details.clientName}`
+      : `${details.serviceName} - ${details.providerName}`,
+    description: booking.note,
+    location: details.address,
+    organizer: details.organizer,
+    attendee: details.attendee,
+    status: booking.status === 'cancelled'
+      ? 'CANCELLED'
+      : booking.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+    // Svaka promena statusa ili vremena je nova verzija događaja
+    sequence: booking.statusHistory?.length || 0,
+  }
+}
+
+/**
+ * .ics pozivnica za email: REQUEST za potvrđen ili pomeren termin, CANCEL za otkazan
+ */
+export function buildBookingInvite(booking: BookingLike, details: BookingCalendarDetails): { method: IcsMethod; content: string } {
+  const method: IcsMethod = booking.status === 'cancelled' ? 'CANCEL' : 'REQUEST'
+  return {
+    method,
+    content: formatIcsCalendar([toBookingIcsEvent(booking, details)], { method }),
+  }
+}
+
+export function generateCalendarFeedToken(): string {
+  return crypto.randomBytes(24).toString('base64url')
+}
+
+/**
+ * Token feed-a korisnika, pravi se pri prvom zahtevu
+ * regenerate poništava stari URL (npr. ako je podeljen greškom)
+ */
+export async function getCalendarFeedToken(userId: string, regenerate: boolean = false): Promise<string | null> {
+  if (!regenerate) {
+    const user = await User.findById(userId).select('+calendarFeedToken')
+    if (!user) {
+      return null
+    }
+    if (user.calendarFeedToken) {
+      return user.calendarFeedToken
+    }
+  }
+
+  const token = generateCalendarFeedToken()
+  const updated = await User.findByIdAndUpdate(userId, { $set: { calendarFeedToken: token } })
+  return updated ? token : null
+}
+
+/**
+ * ICS feed korisnika sa tokenom: termini koje je zakazao kao klijent
+ * i, ako je provider, sve rezervacije kod njega
+ * Vraća null za nepoznat token
+ */
+export async function buildCalendarFeed(token: string, now: Date = new Date()): Promise<string | null> {
+  const user = await User.findOne({ calendarFeedToken: token }).select('name')
+  if (!user) {
+    return null
+  }
+
+  const providerProfile = await ProviderProfile.findOne({ userId: user._id }).select('_id')
+  const owners: Record<string, unknown>[] = [{ clientId: user._id }]
+  if (providerProfile) {
+    owners.push({ providerId: providerProfile._id })
+  }
+
+  const bookings = await Booking.find({
+    $or: owners,
+    status: { $ne: 'cancelled' },
+    end: { $gte: subDays(now, FEED_HISTORY_DAYS) },
+  })
+    .sort({ start: 1 })
+    .populate('serviceId', 'name')
+    .populate('clientId', 'name')
+    .populate('providerId', 'businessName timezone availabilitySettings.timezone contactInfo.address')
+
+  const events = bookings.filter(booking => booking.providerId).map(booking => {
+    const provider = booking.providerId
+    return toBookingIcsEvent(booking, {
+      timezone: getProviderTimezone(provider),
+      serviceName: getBookedServiceName(booking, booking.serviceId?.name || 'Booking'),
+      providerName: provider.businessName,
+      clientName: booking.clientId?.name || '',
+      address: provider.contactInfo?.address,
+      viewer: providerProfile && provider._id.equals(providerProfile._id) ? 'provider' : 'client',
+    })
+  })
+
+  return formatIcsCalendar(events, { name: `Zakazivač - ${user.name}`, method: 'PUBLISH', now })
+}
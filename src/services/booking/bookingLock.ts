@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto'
+import BookingLock from '@/models/BookingLock'
+import connectDB from '@/lib/mongodb'
+
+// Koliko dugo lock važi ako ga vlasnik ne oslobodi ni ne produži (pad procesa)
+const LOCK_TTL_MS = 10000
+// Koliko dugo zahtev čeka na lock pre nego što odustane
+const ACQUIRE_TIMEOUT_MS = 5000
+const RETRY_DELAY_MS = 25
+
+export class BookingLockTimeoutError extends Error {
+  constructor(providerId: string) {
+    super(`Could not acquire booking lock for provider ${providerId}`)
+    this.name = 'BookingLockTimeoutError'
+  }
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function tryAcquire(providerId: string, owner: string, ttlMs: number): Promise<boolean> {
+  const now = new Date()
+
+  try {
+    // Upsert uspeva samo ako lock ne postoji ili je istekao;
+    // u suprotnom unique indeks na providerId baca duplicate key grešku
+    await BookingLock.findOneAndUpdate(
+      { providerId, lockedUntil: { $lt: now } },
+      { $set: { owner, lockedUntil: new Date(now.getTime() + ttlMs) } },
+      { upsert: true, new: true }
+    )
+    return true
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return false
+    }
+    throw error
+  }
+}
+
+// Produžava lock samo dok je još naš; false znači da ga je u međuvremenu preuzeo drugi zahtev
+async function renew(providerId: string, owner: string, ttlMs: number): Promise<boolean> {
+  const { matchedCount } = await BookingLock.updateOne(
+    { providerId, owner },
+    { $set: { lockedUntil: new Date(Date.now() + ttlMs) } }
+  )
+  return matchedCount > 0
+}
+
+// Briše samo sopstveni lock; false znači da je istekao dok je callback radio
+async function release(providerId: string, owner: string): Promise<boolean> {
+  const { deletedCount } = await BookingLock.deleteOne({ providerId, owner })
+  return deletedCount > 0
+}
+
+/**
+ * Izvršava callback dok drži ekskluzivni booking lock za providera
+ * Sve provere dostupnosti i upisi rezervacija za jednog providera se tako serijalizuju,
+ * pa od više istovremenih zahteva za isti termin samo jedan može da uspe
+ * Dok callback radi lock se produžava, pa ni spor callback (npr. provera cele serije) ne gubi lock
+ */
+export async function withProviderBookingLock<T>(
+  providerId: string,
+  callback: () => Promise<T>,
+  options: { ttlMs?: number } = {}
+): Promise<T> {
+  await connectDB()
+  // Unique indeks mora postojati pre prvog upsert-a
+  await BookingLock.init()
+
+  const ttlMs = options.ttlMs ?? LOCK_TTL_MS
+  const owner = randomUUID()
+  const deadline = Date.now() + ACQUIRE_TIMEOUT_MS
+
+  while (!(await tryAcquire(providerId, owner, ttlMs))) {
+    if (Date.now() >= deadline) {
+      throw new BookingLockTimeoutError(providerId)
+    }
+    await sleep(RETRY_DELAY_MS + Math.floor(Math.random() * RETRY_DELAY_MS))
+  }
+
+  let lost = false
+  const renewal = setInterval(() => {
+    renew(providerId, owner, ttlMs)
+      .then(renewed => { lost ||= !renewed })
+      .catch(error => console.error('Error renewing booking lock:', error))
+  }, Math.floor(ttlMs / 3))
+
+  try {
+    return await callback()
+  } finally {
+    clearInterval(renewal)
+    if (!(await release(providerId, owner)) || lost) {
+      console.error('Booking lock expired while it was held:', { providerId })
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { addHours } from 'date-fns'
+import { formatInTimeZone } from 'date-fns-tz'
+import Booking, { IBooking } from '@/models/Booking'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import User from '@/models/User'
+import { IWaitlistEntry } from '@/models/WaitlistEntry'
+import { BookingEmailDetails, BookingEmailEvent, emailService } from '@/services/emailService'
+import { buildBookingInvite } from '@/services/booking/bookingCalendar'
+import { getBookedServiceName } from '@/services/booking/serviceBundles'
+import { getSettings } from '@/services/settings/settingsService'
+import { getProviderTimezone } from '@/services/calendar/slotGeneration'
+import { PlatformSettings } from '@/lib/settings'
+
+type NotificationToggle = keyof Omit<PlatformSettings['notifications'], 'reminderHoursBefore'>
+
+// Koje admin podešavanje uključuje koji email
+const EVENT_TOGGLES: Record<BookingEmailEvent, NotificationToggle> = {
+  created: 'bookingConfirmationEmail',
+  approved: 'bookingConfirmationEmail',
+  rescheduled: 'bookingConfirmationEmail',
+  cancelled: 'cancellationNotificationEmail',
+  reminder: 'bookingReminderEmail',
+  // Ponudu sa liste čekanja pokreće otkazan termin
+  waitlist_offer: 'cancellationNotificationEmail',
+}
+
+// Podsetnik ide samo klijentu, ostali događaji i klijentu i provideru
+const PROVIDER_EVENTS: BookingEmailEvent[] = ['created', 'approved', 'rescheduled', 'cancelled']
+
+const DATE_FORMAT = 'dd.MM.yyyy. HH:mm'
+
+type BookingLike = Pick<IBooking, '_id' | 'providerId' | 'serviceId' | 'clientId' | 'start' | 'end' | 'status' | 'statusHistory' | 'note' | 'items'>
+
+// Pozivnica ide uz potvrđen, pomeren i otkazan termin; zahtev koji čeka odobrenje je još nema
+function includesCalendarInvite(booking: BookingLike, event: BookingEmailEvent): boolean {
+  if (event === 'cancelled') return true
+  if (event === 'reminder') return false
+  return booking.status === 'confirmed'
+}
+
+async function isEnabled(event: BookingEmailEvent): Promise<boolean> {
+  const { email, notifications } = await getSettings()
+  return email.emailEnabled && notifications[EVENT_TOGGLES[event]]
+}
+
+/**
+ * Šalje email klijentu i provideru o promeni na rezervaciji
+ * Greške se samo loguju, slanje emaila ne sme da obori zakazivanje
+ */
+export async function notifyBooking(booking: BookingLike, event: BookingEmailEvent): Promise<void> {
+  try {
+    if (!(await isEnabled(event))) {
+      return
+    }
+
+    const [client, providerProfile, service] = await Promise.all([
+      User.findById(booking.clientId).select('name email'),
+      ProviderProfile.findById(booking.providerId),
+      Service.findById(booking.serviceId).select('name'),
+    ])
+    if (!client || !providerProfile || !service) {
+      console.warn('Booking notification skipped, missing related documents:', { event })
+      return
+    }
+
+    const providerUser = await User.findById(providerProfile.userId).select('name email')
+    const timezone = getProviderTimezone(providerProfile)
+    const lastChange = booking.statusHistory?.[booking.statusHistory.length - 1]
+    const providerEmail = providerProfile.contactInfo?.email || providerUser?.email
+    const serviceName = getBookedServiceName(booking, service.name)
+
+    const details: Omit<BookingEmailDetails, 'recipientName' | 'recipientRole'> = {
+      status: booking.status,
+      serviceName,
+      providerName: providerProfile.businessName,
+      clientName: client.name,
+      start: formatInTimeZone(booking.start, timezone, DATE_FORMAT),
+      previousStart: lastChange?.previousStart
+        ? formatInTimeZone(lastChange.previousStart, timezone, DATE_FORMAT)
+        : undefined,
+      address: providerProfile.contactInfo?.address,
+      note: booking.note,
+      reason: event === 'cancelled' ? lastChange?.reason : undefined,
+    }
+
+    // Naslov pozivnice zavisi od toga u čiji kalendar ide, kao u feed-u
+    const calendarInvite = (viewer: 'client' | 'provider') => includesCalendarInvite(booking, event)
+      ? buildBookingInvite(booking, {
+        timezone,
+        serviceName,
+        providerName: providerProfile.businessName,
+        clientName: client.name,
+        address: providerProfile.contactInfo?.address,
+        organizer: providerEmail ? { name: providerProfile.businessName, email: providerEmail } : undefined,
+        attendee: { name: client.name, email: client.email },
+        viewer,
+      })
+      : undefined
+
+    const sends = [
+      emailService.sendBookingEmail(client.email, event, {
+        ...details,
+        recipientName: client.name,
+        recipientRole: 'client',
+        calendarInvite: calendarInvite('client'),
+      }),
+    ]
+
+    if (providerEmail && PROVIDER_EVENTS.includes(event)) {
+      sends.push(emailService.sendBookingEmail(providerEmail, event, {
+        ...details,
+        recipientName: providerUser?.name || providerProfile.businessName,
+        recipientRole: 'provider',
+        calendarInvite: calendarInvite('provider'),
+      }))
+    }
+
+    await Promise.all(sends)
+  } catch (error) {
+    console.error('Error sending booking notification:', { event, error })
+  }
+}
+
+/**
+ * Javlja klijentu sa liste čekanja da je termin oslobođen i zadržan za njega
+ * Greške se samo loguju, kao i kod ostalih obaveštenja
+ */
+export async function notifyWaitlistOffer(
+  entry: Pick<IWaitlistEntry, 'providerId' | 'serviceId' | 'clientId' | 'offer'>
+): Promise<void> {
+  try {
+    if (!entry.offer || !(await isEnabled('waitlist_offer'))) {
+      return
+    }
+
+    const [client, providerProfile, service] = await Promise.all([
+      User.findById(entry.clientId).select('name email'),
+      ProviderProfile.findById(entry.providerId),
+      Service.findById(entry.serviceId).select('name'),
+    ])
+    if (!client || !providerProfile || !service) {
+      console.warn('Waitlist notification skipped, missing related documents')
+      return
+    }
+
+    const timezone = getProviderTimezone(providerProfile)
+    await emailService.sendBookingEmail(client.email, 'waitlist_offer', {
+      recipientName: client.name,
+      recipientRole: 'client',
+      status: 'offered',
+      serviceName: service.name,
+      providerName: providerProfile.businessName,
+      clientName: client.name,
+      start: formatInTimeZone(entry.offer.start, timezone, DATE_FORMAT),
+      address: providerProfile.contactInfo?.address,
+      holdUntil: formatInTimeZone(entry.offer.expiresAt, timezone, DATE_FORMAT),
+    })
+  } catch (error) {
+    console.error('Error sending waitlist notification:', error)
+  }
+}
+
+/**
+ * Šalje podsetnike za potvrđene termine koji počinju u narednih reminderHoursBefore sati
+ * Svaka rezervacija se prvo atomski označi (reminderSentAt), pa paralelna pokretanja ne šalju duplo
+ * Vraća broj poslatih podsetnika
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<number> {
+  const { email, notifications } = await getSettings()
+  if (!email.emailEnabled || !notifications.bookingReminderEmail) {
+    return 0
+  }
+
+  const dueBookings = await Booking.find({
+    status: 'confirmed',
+    reminderSentAt: null,
+    start: { $gt: now, $lte: addHours(now, notifications.reminderHoursBefore) },
+  }).select('_id')
+
+  let sent = 0
+  for (const { _id } of dueBookings) {
+    const booking = await Booking.findOneAndUpdate(
+      { _id, reminderSentAt: null },
+      { $set: { reminderSentAt: now } },
+      { new: true }
+    )
+    if (!booking) {
+      continue
+    }
+
+    await notifyBooking(booking, 'reminder')
+    sent++
+  }
+
+  return sent
+}
@@ -0,0 +1,165 @@
+import { addDays, addHours } from 'date-fns'
+import { formatInTimeZone } from 'date-fns-tz'
+import { IProviderProfile } from '@/models/ProviderProfile'
+import { IService } from '@/models/Service'
+import { parseAvailabilitySettings } from '@/lib/availability'
+import { BookingSettings, DEFAULT_BOOKING_SETTINGS } from '@/lib/settings'
+import { getSettings } from '@/services/settings/settingsService'
+
+// Sistemska pravila zakazivanja (admin podešavanja, sekcija booking)
+export type SystemBookingPolicy = Omit<BookingSettings, 'defaultBookingDuration' | 'waitlistHoldMinutes'>
+
+// Pravila koja važe za konkretnog providera
+export interface BookingPolicy {
+  maxAdvanceBookingDays: number
+  minAdvanceBookingHours: number
+  allowSameDayBooking: boolean
+  cancellationHours: number
+}
+
+export const DEFAULT_BOOKING_POLICY: SystemBookingPolicy = {
+  maxAdvanceBookingDays: DEFAULT_BOOKING_SETTINGS.maxAdvanceBookingDays,
+  minAdvanceBookingHours: DEFAULT_BOOKING_SETTINGS.minAdvanceBookingHours,
+  allowSameDayBooking: DEFAULT_BOOKING_SETTINGS.allowSameDayBooking,
+  defaultCancellationHours: DEFAULT_BOOKING_SETTINGS.defaultCancellationHours,
+}
+
+export type BookingPolicyErrorCode =
+  | 'BOOKING_TOO_SOON'
+  | 'BOOKING_TOO_FAR_AHEAD'
+  | 'SAME_DAY_BOOKING_NOT_ALLOWED'
+  | 'CANCELLATION_WINDOW_PASSED'
+
+export class BookingPolicyError extends Error {
+  status = 422
+
+  constructor(message: string, public code: BookingPolicyErrorCode) {
+    super(message)
+    this.name = 'BookingPolicyError'
+  }
+}
+
+type ProviderPolicySource = Pick<IProviderProfile, 'timezone' | 'availabilitySettings'> & {
+  bookingPolicy?: Partial<IProviderProfile['bookingPolicy']>
+}
+
+/**
+ * Sistemska pravila zakazivanja iz admin podešavanja
+ */
+export async function getSystemBookingPolicy(): Promise<SystemBookingPolicy> {
+  const { booking } = await getSettings()
+  return booking
+}
+
+/**
+ * Spaja sistemska pravila sa override-ima providera (ProviderProfile.bookingPolicy)
+ * Podešavanja dostupnosti providera (advanceBookingDays, minimumNoticeHours) mogu samo da suze prozor
+ */
+export function resolveBookingPolicy(
+  system: SystemBookingPolicy,
+  providerProfile: ProviderPolicySource
+): BookingPolicy {
+  const overrides = providerProfile.bookingPolicy || {}
+  const availability = parseAvailabilitySettings(providerProfile.availabilitySettings)
+
+  const maxAdvanceBookingDays = overrides.maxAdvanceBookingDays ?? system.maxAdvanceBookingDays
+  const minAdvanceBookingHours = overrides.minAdvanceBookingHours ?? system.minAdvanceBookingHours
+
+  return {
+    maxAdvanceBookingDays: availability
+      ? Math.min(maxAdvanceBookingDays, availability.advanceBookingDays)
+      : maxAdvanceBookingDays,
+    minAdvanceBookingHours: availability
+      ? Math.max(minAdvanceBookingHours, availability.minimumNoticeHours)
+      : minAdvanceBookingHours,
+    allowSameDayBooking: overrides.allowSameDayBooking ?? system.allowSameDayBooking,
+    cancellationHours: overrides.cancellationHours ?? system.defaultCancellationHours,
+  }
+}
+
+export async function getBookingPolicy(providerProfile: ProviderPolicySource): Promise<BookingPolicy> {
+  return resolveBookingPolicy(await getSystemBookingPolicy(), providerProfile)
+}
+
+/**
+ * Minimalna najava usluge može samo da produži najavu providera
+ */
+export function applyServiceBookingRules(
+  policy: BookingPolicy,
+  service: Pick<IService, 'bookingRules'>
+): BookingPolicy {
+  const minimumNoticeHours = service.bookingRules?.minimumNoticeHours
+  if (minimumNoticeHours == null) {
+    return policy
+  }
+  return {
+    ...policy,
+    minAdvanceBookingHours: Math.max(policy.minAdvanceBookingHours, minimumNoticeHours),
+  }
+}
+
+/**
+ * Vraća grešku ako početak termina nije u dozvoljenom prozoru za zakazivanje, inače null
+ */
+export function getBookingWindowViolation(
+  start: Date,
+  policy: BookingPolicy,
+  timezone: string,
+  now: Date = new Date()
+): BookingPolicyError | null {
+  if (start < addHours(now, policy.minAdvanceBookingHours)) {
+    return new BookingPolicyError(
+      `Bookings must be made at least ${policy.minAdvanceBookingHours} hours in advance`,
+      'BOOKING_TOO_SOON'
+    )
+  }
+
+  if (start > addDays(now, policy.maxAdvanceBookingDays)) {
+    return new BookingPolicyError(
+      `Bookings can be made at most ${policy.maxAdvanceBookingDays} days in advance`,
+      'BOOKING_TOO_FAR_AHEAD'
+    )
+  }
+
+  // Isti dan se gleda u vremenskoj zoni providera
+  const dayFormat = 'yyyy-MM-dd'
+  if (
+    !policy.allowSameDayBooking &&
+    formatInTimeZone(start, timezone, dayFormat) === formatInTimeZone(now, timezone, dayFormat)
+  ) {
+    return new BookingPolicyError(
+      'Same-day bookings are not allowed',
+      'SAME_DAY_BOOKING_NOT_ALLOWED'
+    )
+  }
+
+  return null
+}
+
+export function assertWithinBookingWindow(
+  start: Date,
+  policy: BookingPolicy,
+  timezone: string,
+  now: Date = new Date()
+): void {
+  const violation = getBookingWindowViolation(start, policy, timezone, now)
+  if (violation) {
+    throw violation
+  }
+}
+
+/**
+ * Klijent ne može da otkaže (ni pomeri) termin unutar perioda za otkazivanje
+ */
+export function assertCancellationAllowed(
+  booking: { start: Date },
+  policy: BookingPolicy,
+  now: Date = new Date()
+): void {
+  if (new Date(booking.start) < addHours(now, policy.cancellationHours)) {
+    throw new BookingPolicyError(
+      `Bookings can only be cancelled at least ${policy.cancellationHours} hours in advance`,
+      'CANCELLATION_WINDOW_PASSED'
+    )
+  }
+}
@@ -0,0 +1,212 @@
+import mongoose from 'mongoose'
+import { BookingStatus, IBookingStatusChange } from '@/models/Booking'
+
+export const BOOKING_ACTIONS = ['approve', 'decline', 'cancel', 'complete', 'no_show'] as const
+
+export type BookingAction = typeof BOOKING_ACTIONS[number]
+
+// Pomeranje termina ne menja status, pa nije deo tabele prelaza
+export const RESCHEDULE_ACTION = 'reschedule'
+
+export const RESCHEDULABLE_STATUSES: BookingStatus[] = ['pending', 'confirmed']
+
+export type BookingActorRole = IBookingStatusChange['actorRole']
+
+export interface BookingActor {
+  id?: string
+  role: BookingActorRole
+}
+
+interface TransitionRule {
+  from: BookingStatus[]
+  to: BookingStatus
+  roles: BookingActorRole[]
+  // Akcija je dozvoljena tek kada termin počne
+  requiresStarted?: boolean
+}
+
+export const BOOKING_TRANSITIONS: Record<BookingAction, TransitionRule> = {
+  approve: { from: ['pending'], to: 'confirmed', roles: ['provider'] },
+  decline: { from: ['pending'], to: 'cancelled', roles: ['provider'] },
+  cancel: { from: ['pending', 'confirmed'], to: 'cancelled', roles: ['client', 'provider', 'system'] },
+  complete: { from: ['confirmed'], to: 'completed', roles: ['provider', 'system'], requiresStarted: true },
+  no_show: { from: ['confirmed'], to: 'no_show', roles: ['provider'], requiresStarted: true },
+}
+
+export class BookingTransitionError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message)
+    this.name = 'BookingTransitionError'
+  }
+}
+
+interface TransitionableBooking {
+  status: BookingStatus
+  start: Date
+  statusHistory: IBookingStatusChange[]
+}
+
+interface ReschedulableBooking extends TransitionableBooking {
+  end: Date
+  originalStart?: Date
+  originalEnd?: Date
+}
+
+export function isBookingAction(action: unknown): action is BookingAction {
+  return typeof action === 'string' && (BOOKING_ACTIONS as readonly string[]).includes(action)
+}
+
+/**
+ * Dodaje zapis u istoriju statusa (ko, kada, iz kog u koji status)
+ */
+export function recordStatusChange(
+  booking: TransitionableBooking,
+  change: {
+    from: BookingStatus | null
+    to: BookingStatus
+    action: string
+    actor: BookingActor
+    reason?: string
+    previousStart?: Date
+    previousEnd?: Date
+    at?: Date
+  }
+): void {
+  booking.statusHistory.push({
+    from: change.from,
+    to: change.to,
+    action: change.action,
+    actorId: change.actor.id ? new mongoose.Types.ObjectId(change.actor.id) : undefined,
+    actorRole: change.actor.role,
+    reason: change.reason,
+    previousStart: change.previousStart,
+    previousEnd: change.previousEnd,
+    at: change.at || new Date(),
+  })
+}
+
+/**
+ * Proverava da li rezervacija može da se pomeri (aktivna je i termin još nije počeo)
+ */
+export function assertReschedulable(booking: TransitionableBooking, now: Date = new Date()): void {
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    throw new BookingTransitionError(
+      `Cannot reschedule a booking with status "${booking.status}"`,
+      409,
+      'INVALID_STATUS_TRANSITION'
+    )
+  }
+
+  if (new Date(booking.start) <= now) {
+    throw new BookingTransitionError(
+      'Cannot reschedule a booking after the appointment has started',
+      409,
+      'APPOINTMENT_ALREADY_STARTED'
+    )
+  }
+}
+
+/**
+ * Pomera rezervaciju na novo vreme i čuva vezu ka prethodnom i prvobitnom terminu
+ * Dostupnost novog termina proverava pozivalac (pod booking lock-om)
+ */
+export function rescheduleBooking(
+  booking: ReschedulableBooking,
+  slot: { start: Date; end: Date },
+  actor: BookingActor,
+  options: { reason?: string; now?: Date } = {}
+): void {
+  const now = options.now || new Date()
+  assertReschedulable(booking, now)
+
+  const previousStart = booking.start
+  const previousEnd = booking.end
+
+  if (!booking.originalStart) {
+    booking.originalStart = previousStart
+    booking.originalEnd = previousEnd
+  }
+
+  booking.start = slot.start
+  booking.end = slot.end
+
+  recordStatusChange(booking, {
+    from: booking.status,
+    to: booking.status,
+    action: RESCHEDULE_ACTION,
+    actor,
+    reason: options.reason,
+    previousStart,
+    previousEnd,
+    at: now,
+  })
+}
+
+/**
+ * Validira i primenjuje akciju nad rezervacijom
+ * Baca BookingTransitionError sa HTTP statusom i kodom ako prelaz nije dozvoljen
+ */
+export function transitionBooking(
+  booking: TransitionableBooking,
+  action: BookingAction,
+  actor: BookingActor,
+  options: { reason?: string; now?: Date } = {}
+): BookingStatus {
+  const rule = BOOKING_TRANSITIONS[action]
+  const now = options.now || new Date()
+
+  if (!rule.roles.includes(actor.role)) {
+    throw new BookingTransitionError(
+      `Action "${action}" is not allowed for ${actor.role}`,
+      403,
+      'ACTION_NOT_ALLOWED'
+    )
+  }
+
+  if (!rule.from.includes(booking.status)) {
+    throw new BookingTransitionError(
+      `Cannot ${action} a booking with status "${booking.status}"`,
+      409,
+      'INVALID_STATUS_TRANSITION'
+    )
+  }
+
+  if (rule.requiresStarted && new Date(booking.start) > now) {
+    throw new BookingTransitionError(
+      `Cannot ${action} a booking before the appointment starts`,
+      409,
+      'APPOINTMENT_NOT_STARTED'
+    )
+  }
+
+  const from = booking.status
+  booking.status = rule.to
+  recordStatusChange(booking, { from, to: rule.to, action, actor, reason: options.reason, at: now })
+
+  return rule.to
+}
+
+/**
+ * Čuva prelaz samo ako je rezervacija u bazi i dalje u statusu iz kog je prelaz krenuo
+ * Istovremene akcije (npr. odobravanje i otkazivanje) tako ne prepisuju jedna drugu
+ */
+export async function saveTransition(
+  booking: mongoose.Document & TransitionableBooking,
+  from: BookingStatus
+): Promise<void> {
+  booking.$where = { status: from }
+  try {
+    await booking.save()
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      throw new BookingTransitionError(
+        'The booking was changed by someone else, reload and try again',
+        409,
+        'BOOKING_CHANGED'
+      )
+    }
+    throw error
+  } finally {
+    booking.$where = {}
+  }
+}
@@ -0,0 +1,142 @@
+import { addMinutes } from 'date-fns'
+import { formatInTimeZone } from 'date-fns-tz'
+import Booking from '@/models/Booking'
+import {
+  ProviderLike,
+  ServiceLike,
+  TimeSlot,
+  findAvailableSlot,
+  getLocalDateString,
+  zonedTimeToUtc
+} from '@/services/calendar/slotGeneration'
+import { BookingPolicy, getBookingWindowViolation } from '@/services/booking/bookingPolicy'
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number]
+
+// Najviše termina u jednoj seriji
+export const MAX_SERIES_OCCURRENCES = 52
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency
+  // Ukupan broj termina, uključujući prvi
+  count?: number
+  // Poslednji lokalni datum serije (YYYY-MM-DD), uključivo
+  until?: string
+}
+
+export interface SeriesOccurrence {
+  start: Date
+  end: Date
+  // Slobodan termin; bez njega error kaže zašto termin ne može
+  slot?: TimeSlot
+  error?: string
+}
+
+const WEEKS_BETWEEN: Record<Exclude<RecurrenceFrequency, 'monthly'>, number> = {
+  weekly: 1,
+  biweekly: 2,
+}
+
+/**
+ * Lokalni datum n-tog termina serije
+ * Mesečna serija ostaje na istom danu u mesecu; kraći meseci dobijaju poslednji dan
+ */
+function getOccurrenceDate(date: string, frequency: RecurrenceFrequency, index: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+
+  if (frequency === 'monthly') {
+    const lastDay = new Date(Date.UTC(year, month + index, 0)).getUTCDate()
+    return new Date(Date.UTC(year, month - 1 + index, Math.min(day, lastDay))).toISOString().slice(0, 10)
+  }
+
+  return new Date(Date.UTC(year, month - 1, day + 7 * WEEKS_BETWEEN[frequency] * index)).toISOString().slice(0, 10)
+}
+
+/**
+ * Počeci svih termina serije, u istom lokalnom vremenu providera i posle prelaska na letnje/zimsko vreme
+ * Serija staje na count termina, posle datuma until ili na MAX_SERIES_OCCURRENCES
+ */
+export function getOccurrenceStarts(start: Date, recurrence: Recurrence, timezone: string): Date[] {
+  const date = getLocalDateString(start, timezone)
+  const time = formatInTimeZone(start, timezone, 'HH:mm')
+  const count = Math.min(recurrence.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES)
+
+  const starts: Date[] = []
+  for (let index = 0; index < count; index++) {
+    const occurrenceDate = getOccurrenceDate(date, recurrence.frequency, index)
+    if (recurrence.until && occurrenceDate > recurrence.until) {
+      break
+    }
+    starts.push(zonedTimeToUtc(occurrenceDate, time, timezone))
+  }
+  return starts
+}
+
+/**
+ * Proverava sve termine serije unapred, istim pravilima kao pojedinačnu rezervaciju
+ * Bez izabranog zaposlenog serija ostaje kod zaposlenog prvog slobodnog termina kad god je on slobodan
+ * Poziva se pod lock-om providera, zajedno sa upisom rezervacija
+ */
+export async function checkSeriesOccurrences(
+  providerProfile: ProviderLike,
+  service: ServiceLike,
+  starts: Date[],
+  options: {
+    clientId: string
+    policy: BookingPolicy
+    timezone: string
+    staffId?: string
+    cachedCalendarOnly?: boolean
+    now?: Date
+  }
+): Promise<SeriesOccurrence[]> {
+  let preferredStaffId = options.staffId
+
+  const occurrences: SeriesOccurrence[] = []
+  for (const start of starts) {
+    const occurrence: SeriesOccurrence = { start, end: addMinutes(start, service.durationMinutes) }
+    occurrences.push(occurrence)
+
+    const violation = getBookingWindowViolation(start, options.policy, options.timezone, options.now)
+    if (violation) {
+      occurrence.error = violation.message
+      continue
+    }
+
+    if ((service.maxParticipants ?? 1) > 1) {
+      const alreadyBooked = await Booking.exists({
+        serviceId: service._id,
+        clientId: options.clientId,
+        start,
+        status: { $in: ['pending', 'confirmed'] },
+      })
+      if (alreadyBooked) {
+        occurrence.error = 'You are already booked for this session'
+        continue
+      }
+    }
+
+    let slot = await findAvailableSlot(providerProfile, service, start, {
+      staffId: preferredStaffId,
+      cachedCalendarOnly: options.cachedCalendarOnly,
+      now: options.now,
+    })
+    if (!slot && preferredStaffId && !options.staffId) {
+      slot = await findAvailableSlot(providerProfile, service, start, {
+        cachedCalendarOnly: options.cachedCalendarOnly,
+        now: options.now,
+      })
+    }
+    if (!slot) {
+      occurrence.error = 'This time slot is no longer available'
+      continue
+    }
+
+    occurrence.slot = slot
+    preferredStaffId ??= slot.staffIds?.[0]
+  }
+
+  return occurrences
+}
@@ -0,0 +1,135 @@
+import mongoose from 'mongoose'
+import Service, { IService } from '@/models/Service'
+import { IBookingLineItem } from '@/models/Booking'
+import { ServiceLike } from '@/services/calendar/slotGeneration'
+
+// Najviše usluga u jednom terminu
+export const MAX_BUNDLE_SERVICES = 5
+
+type ServiceDocument = InstanceType<typeof Service>
+type AvailabilityWindow = NonNullable<IService['bookingRules']>['availabilityWindows'][number]
+
+/**
+ * Više usluga redom u jednom terminu, za engine termina kao jedna usluga
+ * _id je prva usluga; zaposleni mora da radi sve usluge (parts)
+ */
+export type ServiceBundle = Omit<ServiceLike, 'parts'> & {
+  _id: mongoose.Types.ObjectId
+  name: string
+  price: number
+  durationMinutes: number
+  maxParticipants: number
+  resourceIds: mongoose.Types.ObjectId[]
+  parts: ServiceDocument[]
+}
+
+export class ServiceBundleError extends Error {
+  status = 400
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'ServiceBundleError'
+  }
+}
+
+/**
+ * Preseci prozora dve usluge po danu u nedelji
+ */
+export function intersectAvailabilityWindows(
+  first: AvailabilityWindow[],
+  second: AvailabilityWindow[]
+): AvailabilityWindow[] {
+  return first.flatMap(a => second
+    .filter(b => b.day === a.day)
+    .map(b => ({
+      day: a.day,
+      start: a.start > b.start ? a.start : b.start,
+      end: a.end < b.end ? a.end : b.end,
+    }))
+    .filter(window => window.start < window.end))
+}
+
+/**
+ * Spaja usluge u jedan termin: zbir trajanja i cene, svi resursi za ceo termin
+ * Priprema je od prve usluge, raspremanje od poslednje, najava je najduža od svih
+ * Usluga sa prozorima zahteva da ceo termin bude u njima, pa se prozori seku
+ * Dnevni limit svake usluge proverava engine termina preko parts
+ */
+export function combineServices(services: ServiceDocument[]): ServiceBundle {
+  if (services.some(service => (service.maxParticipants ?? 1) > 1)) {
+    throw new ServiceBundleError('Group classes cannot be combined with other services')
+  }
+
+  let windows: AvailabilityWindow[] | null = null
+  for (const service of services) {
+    const serviceWindows = service.bookingRules?.availabilityWindows || []
+    if (serviceWindows.length) {
+      windows = windows ? intersectAvailabilityWindows(windows, serviceWindows) : serviceWindows
+    }
+  }
+  if (windows && windows.length === 0) {
+    throw new ServiceBundleError('These services have no common booking hours')
+  }
+
+  const notices = services
+    .map(service => service.bookingRules?.minimumNoticeHours)
+    .filter((hours): hours is number => hours != null)
+  const resourceIds = new Map<string, mongoose.Types.ObjectId>()
+  services.forEach(service => (service.resourceIds || []).forEach((id: mongoose.Types.ObjectId) => {
+    resourceIds.set(id.toString(), id)
+  }))
+
+  return {
+    _id: services[0]._id,
+    name: services.map(service => service.name).join(' + '),
+    price: services.reduce((sum, service) => sum + service.price, 0),
+    durationMinutes: services.reduce((sum, service) => sum + service.durationMinutes, 0),
+    maxParticipants: 1,
+    resourceIds: [...resourceIds.values()],
+    bookingRules: {
+      availabilityWindows: windows || [],
+      minimumNoticeHours: notices.length ? Math.max(...notices) : undefined,
+      bufferBeforeMinutes: services[0].bookingRules?.bufferBeforeMinutes,
+      bufferAfterMinutes: services[services.length - 1].bookingRules?.bufferAfterMinutes,
+    },
+    parts: services,
+  }
+}
+
+/**
+ * Stavke termina, sa nazivom, trajanjem i cenom u trenutku zakazivanja
+ */
+export function getLineItems(bundle: ServiceBundle): IBookingLineItem[] {
+  return bundle.parts.map((service: ServiceDocument) => ({
+    serviceId: service._id,
+    name: service.name,
+    durationMinutes: service.durationMinutes,
+    price: service.price,
+  }))
+}
+
+/**
+ * Naziv usluge za email i kalendar; kombinovani termin navodi sve usluge
+ */
+export function getBookedServiceName(
+  booking: { items?: Pick<IBookingLineItem, 'name'>[] },
+  serviceName: string
+): string {
+  return booking.items?.length ? booking.items.map(item => item.name).join(' + ') : serviceName
+}
+
+/**
+ * Usluge providera tačno ovim redom, spojene u jedan termin
+ * Vraća null ako neka usluga ne postoji; ServiceBundleError ako se ne mogu spojiti
+ */
+export async function findServiceBundle(
+  providerId: string | mongoose.Types.ObjectId,
+  serviceIds: string[]
+): Promise<ServiceBundle | null> {
+  const services: ServiceDocument[] = await Service.find({ _id: { $in: serviceIds }, providerId })
+  const ordered = serviceIds.map(id => services.find(service => service._id.toString() === id))
+  if (ordered.some(service => !service)) {
+    return null
+  }
+  return combineServices(ordered as ServiceDocument[])
+}
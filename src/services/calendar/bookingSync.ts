@@ -0,0 +1,192 @@
+import { addMinutes, subMinutes } from 'date-fns'
+import Booking from '@/models/Booking'
+import Service from '@/models/Service'
+import User from '@/models/User'
+import {
+  CalendarProvider,
+  getBookingCalendarProvider,
+  getConnectedProviderIds,
+  hasCalendarConnection
+} from '@/services/calendar/calendarProviders'
+import { enqueueJob } from '@/services/jobs/jobQueue'
+import { getBookedServiceName } from '@/services/booking/serviceBundles'
+
+// Prvi ponovni pokušaj posle minut, dalje backoff iz reda poslova
+const SYNC_RETRY_DELAY_MINUTES = 1
+// Posle ovoliko neuspeha rekoncilijacija odustaje, provider može ručno da pokrene sync
+export const MAX_SYNC_ATTEMPTS = 10
+// Rezervacija u 'pending' stanju je možda upravo u obradi u API ruti
+const PENDING_SYNC_GRACE_MINUTES = 5
+
+type BookingDocument = InstanceType<typeof Booking>
+
+export interface ReconcileResult {
+  checked: number
+  synced: number
+  failed: number
+}
+
+/**
+ * Zakazuje ponovnu sinhronizaciju rezervacije sa povezanim kalendarom
+ * Za jednu rezervaciju u redu postoji najviše jedan takav posao
+ */
+export async function scheduleBookingSync(bookingId: string, now: Date = new Date()) {
+  return enqueueJob('calendar.sync-booking', { bookingId }, {
+    runAt: addMinutes(now, SYNC_RETRY_DELAY_MINUTES),
+    uniqueKey: `calendar.sync-booking:${bookingId}`,
+  })
+}
+
+async function pushBookingToCalendar(booking: BookingDocument, calendar: CalendarProvider): Promise<boolean> {
+  if (booking.status === 'cancelled') {
+    return booking.googleEventId
+      ? calendar.deleteEvent(booking.googleEventId)
+      : true
+  }
+
+  if (booking.googleEventId) {
+    return calendar.updateEvent(booking.googleEventId, {
+      start: booking.start,
+      end: booking.end,
+    })
+  }
+
+  const [service, client] = await Promise.all([
+    Service.findById(booking.serviceId).select('name'),
+    User.findById(booking.clientId).select('name email'),
+  ])
+
+  const eventId = await calendar.createEvent({
+    start: booking.start,
+    end: booking.end,
+    serviceName: getBookedServiceName(booking, service?.name || 'Booking'),
+    clientName: client?.name || 'Unknown Client',
+    clientEmail: client?.email || '',
+    note: booking.note,
+  })
+  if (eventId) {
+    booking.googleEventId = eventId
+  }
+  return !!eventId
+}
+
+/**
+ * Dovodi događaj u povezanom kalendaru (Google ili CalDAV) u stanje rezervacije:
+ * otkazana rezervacija briše događaj, aktivna ga kreira ili pomera na trenutno vreme
+ * Beleži broj pokušaja i poslednju grešku, ne baca grešku
+ * Vraća false ako kalendar nije prihvatio izmenu
+ */
+export async function syncBooking(booking: BookingDocument, now: Date = new Date()): Promise<boolean> {
+  const calendar = await getBookingCalendarProvider(booking)
+  if (!calendar) {
+    return true
+  }
+
+  let synced = false
+  let syncError: string | undefined
+  try {
+    synced = await pushBookingToCalendar(booking, calendar)
+    if (!synced) {
+      syncError = 'Calendar did not accept the change'
+    }
+  } catch (error) {
+    console.error('Error syncing booking with calendar:', error)
+    syncError = error instanceof Error ? error.message : String(error)
+  }
+
+  booking.lastSyncAttemptAt = now
+  if (synced) {
+    booking.syncStatus = 'ok'
+    booking.syncAttempts = 0
+    booking.syncError = undefined
+  } else {
+    booking.syncStatus = 'failed'
+    booking.syncAttempts = (booking.syncAttempts || 0) + 1
+    booking.syncError = syncError
+  }
+  await booking.save()
+
+  return synced
+}
+
+/**
+ * Sinhronizacija iz reda poslova, baca grešku da bi posao bio ponovljen
+ */
+export async function syncBookingWithCalendar(bookingId: string): Promise<void> {
+  const booking = await Booking.findById(bookingId)
+  if (!booking) {
+    return
+  }
+
+  if (!(await syncBooking(booking))) {
+    throw new Error(`Calendar sync failed for booking ${bookingId}: ${booking.syncError}`)
+  }
+}
+
+// Budući termini koji nisu stigli u povezani kalendar
+// 'pending' se preskače dok je možda upravo u obradi u API ruti
+function unsyncedBookingsFilter(now: Date) {
+  return {
+    end: { $gte: now },
+    $or: [
+      { syncStatus: 'failed' },
+      { syncStatus: 'pending', updatedAt: { $lt: subMinutes(now, PENDING_SYNC_GRACE_MINUTES) } },
+    ],
+  }
+}
+
+/**
+ * Rezervacije providera koje čekaju sinhronizaciju, za prikaz u integracijama
+ */
+export async function findUnsyncedBookings(providerId: string, now: Date = new Date()) {
+  if (!(await hasCalendarConnection(providerId))) {
+    return []
+  }
+
+  return Booking.find({ providerId, ...unsyncedBookingsFilter(now) })
+    .sort({ start: 1 })
+    .limit(100)
+}
+
+/**
+ * Ponavlja sinhronizaciju za sve rezervacije koje nisu stigle u povezani kalendar
+ * Obrađuje samo providere sa povezanim kalendarom; bez providerId preskače
+ * rezervacije koje su već MAX_SYNC_ATTEMPTS puta bile neuspešne
+ */
+export async function reconcileCalendarSync(
+  options: { now?: Date; limit?: number; providerId?: string } = {}
+): Promise<ReconcileResult> {
+  const now = options.now || new Date()
+  const result: ReconcileResult = { checked: 0, synced: 0, failed: 0 }
+
+  const providerIds = options.providerId
+    ? [options.providerId]
+    : await getConnectedProviderIds()
+  if (providerIds.length === 0) {
+    return result
+  }
+
+  // Vlasnik kalendara je provider ili zaposleni
+  const bookings = await Booking.find({
+    $and: [
+      { $or: [{ providerId: { $in: providerIds } }, { staffId: { $in: providerIds } }] },
+      unsyncedBookingsFilter(now),
+    ],
+    // Ručno pokretanje za jednog providera ignoriše limit pokušaja
+    // $not hvata i starije rezervacije bez polja syncAttempts
+    ...(options.providerId ? {} : { syncAttempts: { $not: { $gte: MAX_SYNC_ATTEMPTS } } }),
+  })
+    .sort({ start: 1 })
+    .limit(options.limit || 100)
+
+  for (const booking of bookings) {
+    result.checked++
+    if (await syncBooking(booking, now)) {
+      result.synced++
+    } else {
+      result.failed++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,311 @@
+import crypto from 'crypto'
+import dns from 'dns/promises'
+import net from 'net'
+import { formatIcsCalendar, formatIcsDate, parseIcsEvents } from '@/lib/ical'
+import type {
+  CalendarEventDetails,
+  CalendarProvider,
+  ExternalBusyInterval
+} from '@/services/calendar/calendarProviders'
+
+const REQUEST_TIMEOUT_MS = 10000
+
+export interface CalDavCredentials {
+  // URL kolekcije kalendara, npr. https://cloud.example.com/remote.php/dav/calendars/ana/personal/
+  calendarUrl: string
+  username: string
+  password: string
+}
+
+export class CalDavError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message)
+    this.name = 'CalDavError'
+  }
+}
+
+// Mreže na koje server ne šalje zahteve sa lozinkom provajdera
+const INTERNAL_ADDRESSES = new net.BlockList()
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(address, prefix, 'ipv4')
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(address, prefix, 'ipv6')
+}
+
+/**
+ * Proverava URL kalendara pre svakog zahteva: https i javna adresa posle DNS-a
+ * Provera pri svakom zahtevu hvata i ime koje posle povezivanja počne da vodi na internu adresu
+ * Za lokalni razvoj: CALDAV_ALLOW_HTTP=true dozvoljava http, CALDAV_ALLOW_PRIVATE_HOSTS=true interne adrese
+ */
+export async function assertPublicCalendarUrl(calendarUrl: string): Promise<void> {
+  const url = new URL(calendarUrl)
+  const allowHttp = process.env.CALDAV_ALLOW_HTTP === 'true'
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    throw new CalDavError('The calendar URL must use https')
+  }
+  if (process.env.CALDAV_ALLOW_PRIVATE_HOSTS === 'true') {
+    return
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  let addresses: { address: string; family: number }[]
+  try {
+    addresses = await dns.lookup(hostname, { all: true })
+  } catch {
+    throw new CalDavError('Could not resolve the calendar host')
+  }
+
+  // Ime koje vodi i na jednu internu adresu se odbija
+  const internal = addresses.some(({ address, family }) =>
+    INTERNAL_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  )
+  if (addresses.length === 0 || internal) {
+    throw new CalDavError('The calendar URL must point to a public server')
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&#13;': '\r',
+  '&#xD;': '\r',
+  '&#10;': '\n',
+  '&#xA;': '\n',
+}
+
+function decodeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/)
+  if (cdata) return cdata[1]
+  return value
+    .replace(/&(lt|gt|quot|apos|#13|#xD|#10|#xA);/gi, entity => XML_ENTITIES[entity] ?? entity)
+    .replace(/&amp;/g, '&')
+}
+
+// Sadržaj svih elemenata sa datim imenom, bez obzira na namespace prefiks
+function xmlElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'gi')
+  return [...xml.matchAll(pattern)].map(match => match[1])
+}
+
+/**
+ * CalDAV (RFC 4791) kalendar: Nextcloud, iCloud, Radicale, Baïkal...
+ * Prijava je Basic auth sa korisničkim imenom i lozinkom (kod iCloud-a app-specific lozinka)
+ */
+export class CalDavCalendarProvider implements CalendarProvider {
+  readonly type = 'caldav' as const
+  private calendarUrl: string
+
+  constructor(
+    private credentials: CalDavCredentials,
+    // Zona za događaje bez vremenske zone (celodnevni i "plutajući")
+    private timezone: string = 'UTC'
+  ) {
+    this.calendarUrl = credentials.calendarUrl.endsWith('/')
+      ? credentials.calendarUrl
+      : `${credentials.calendarUrl}/`
+  }
+
+  private eventUrl(uid: string): string {
+    return new URL(`${encodeURIComponent(uid)}.ics`, this.calendarUrl).toString()
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    options: { body?: string; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    // Lozinka ide samo na javnu adresu, i kad se DNS zapis promeni posle povezivanja
+    await assertPublicCalendarUrl(url)
+
+    const auth = Buffer.from(`${this.credentials.username}:${this.credentials.password}`).toString('base64')
+    return fetch(url, {
+      method,
+      body: options.body,
+      headers: {
+        Authorization: `Basic ${auth}`,
+        ...options.headers,
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      // Preusmerenje bi zaobišlo proveru adrese iz assertPublicCalendarUrl
+      redirect: 'error',
+    })
+  }
+
+  /**
+   * Proverava pristup i da li URL zaista pokazuje na kalendar
+   * Vraća naziv kalendara
+   */
+  async verify(): Promise<string | null> {
+    const response = await this.request('PROPFIND', this.calendarUrl, {
+      headers: { Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:resourcetype/><d:displayname/></d:prop>
+</d:propfind>`,
+    })
+
+    if (response.status === 401 || response.status === 403) {
+      throw new CalDavError('Invalid CalDAV username or password', response.status)
+    }
+    if (response.status !== 207) {
+      throw new CalDavError(`CalDAV server responded with ${response.status}`, response.status)
+    }
+
+    const body = await response.text()
+    const resourceType = xmlElements(body, 'resourcetype')[0] || ''
+    if (!/<(?:[\w-]+:)?calendar[\s/>]/i.test(resourceType)) {
+      throw new CalDavError('The URL is not a CalDAV calendar collection')
+    }
+
+    const displayName = xmlElements(body, 'displayname')[0]
+    return displayName ? decodeXml(displayName).trim() : null
+  }
+
+  async getBusyIntervals(start: Date, end: Date): Promise<ExternalBusyInterval[]> {
+    const response = await this.request('REPORT', this.calendarUrl, {
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <c:calendar-data>
+      <c:expand start="${formatIcsDate(start)}" end="${formatIcsDate(end)}"/>
+    </c:calendar-data>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${formatIcsDate(start)}" end="${formatIcsDate(end)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`,
+    })
+
+    if (response.status !== 207) {
+      throw new CalDavError(`CalDAV calendar query failed with ${response.status}`, response.status)
+    }
+
+    const body = await response.text()
+    return xmlElements(body, 'calendar-data')
+      .flatMap(data => parseIcsEvents(decodeXml(data), this.timezone))
+      // Server razvija ponavljajuće događaje (expand), ali opseg ne mora da poštuje precizno
+      .filter(event => !event.transparent && event.status !== 'CANCELLED')
+      .filter(event => event.start < end && event.end > start)
+      .map(event => ({ start: event.start, end: event.end }))
+  }
+
+  async createEvent(details: CalendarEventDetails): Promise<string | null> {
+    const uid = `${crypto.randomUUID()}@zakazivac`
+
+    try {
+      const response = await this.request('PUT', this.eventUrl(uid), {
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'If-None-Match': '*',
+        },
+        body: formatIcsCalendar([{
+          uid,
+          start: details.start,
+          end: details.end,
+          summary: `${details.serviceName} - ${details.clientName}`,
+          description: details.note || `Booking for ${details.serviceName}`,
+          attendee: details.clientEmail ? { name: details.clientName, email: details.clientEmail } : undefined,
+        }]),
+      })
+
+      if (!response.ok) {
+        console.error('Error creating CalDAV event:', response.status)
+        return null
+      }
+      return uid
+    } catch (error) {
+      console.error('Error creating CalDAV event:', error)
+      return null
+    }
+  }
+
+  async updateEvent(eventId: string, slot: { start: Date; end: Date }): Promise<boolean> {
+    try {
+      const current = await this.request('GET', this.eventUrl(eventId))
+      if (!current.ok) {
+        console.error('Error loading CalDAV event:', current.status)
+        return false
+      }
+
+      // Menja se samo vreme, i to samo u samom VEVENT-u (ne u VTIMEZONE ni VALARM)
+      const components: string[] = []
+      const ics = (await current.text())
+        .replace(/\r?\n[ \t]/g, '')
+        .split(/\r?\n/)
+        .flatMap(line => {
+          if (line.startsWith('BEGIN:')) components.push(line.slice(6))
+          if (line.startsWith('END:')) components.pop()
+          if (components[components.length - 1] !== 'VEVENT') return [line]
+
+          if (/^DURATION[;:]/i.test(line)) return []
+          if (/^DTSTART[;:]/i.test(line)) return [`DTSTART:${formatIcsDate(slot.start)}`]
+          if (/^DTEND[;:]/i.test(line)) return [`DTEND:${formatIcsDate(slot.end)}`]
+          if (/^DTSTAMP[;:]/i.test(line)) return [`DTSTAMP:${formatIcsDate(new Date())}`]
+          return [line]
+        })
+        .join('\r\n')
+
+      const etag = current.headers.get('etag')
+      const response = await this.request('PUT', this.eventUrl(eventId), {
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          ...(etag && { 'If-Match': etag }),
+        },
+        body: ics,
+      })
+
+      if (!response.ok) {
+        console.error('Error updating CalDAV event:', response.status)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error updating CalDAV event:', error)
+      return false
+    }
+  }
+
+  async deleteEvent(eventId: string): Promise<boolean> {
+    try {
+      const response = await this.request('DELETE', this.eventUrl(eventId))
+      // Već obrisan događaj je željeno stanje
+      if (!response.ok && response.status !== 404) {
+        console.error('Error deleting CalDAV event:', response.status)
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('Error deleting CalDAV event:', error)
+      return false
+    }
+  }
+
+  // Basic auth nema token koji ističe
+  async refreshToken(): Promise<void> {}
+}
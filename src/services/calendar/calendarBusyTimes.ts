@@ -0,0 +1,77 @@
+import { ExternalBusyInterval, getCalendarProvider } from '@/services/calendar/calendarProviders'
+
+// Kratak keš: lista termina se često osvežava, a upit ka spoljnom kalendaru je spor
+const CACHE_TTL_MS = 2 * 60 * 1000
+const CACHE_MAX_ENTRIES = 500
+// Posle ovoliko čekanja termini se računaju bez zauzetosti iz kalendara
+const CALENDAR_TIMEOUT_MS = 5000
+
+const cache = new Map<string, { value: ExternalBusyInterval[]; expiresAt: number }>()
+
+export function clearCalendarBusyCache(providerId?: string): void {
+  if (!providerId) {
+    cache.clear()
+    return
+  }
+  for (const key of cache.keys()) {
+    if (key.startsWith(`${providerId}:`)) {
+      cache.delete(key)
+    }
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Calendar did not respond in ${ms}ms`)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Zauzeti intervali iz povezanog kalendara providera za jedan lokalni dan
+ * Ako kalendar nije dostupan, vraća poslednju poznatu vrednost ili praznu listu,
+ * tako da zakazivanje radi i bez njega
+ * Sa cachedOnly ne zove kalendar, samo čita keš (provera pod lock-om zakazivanja)
+ */
+export async function getCalendarBusyIntervals(
+  providerId: string,
+  date: string,
+  dayStart: Date,
+  dayEnd: Date,
+  options: { cachedOnly?: boolean } = {}
+): Promise<ExternalBusyInterval[]> {
+  const key = `${providerId}:${date}`
+  const cached = cache.get(key)
+  if (cached && (cached.expiresAt > Date.now() || options.cachedOnly)) {
+    return cached.value
+  }
+  if (options.cachedOnly) {
+    return []
+  }
+
+  const calendar = await getCalendarProvider(providerId)
+  if (!calendar) {
+    return []
+  }
+
+  try {
+    const value = await withTimeout(calendar.getBusyIntervals(dayStart, dayEnd), CALENDAR_TIMEOUT_MS)
+
+    if (cache.size >= CACHE_MAX_ENTRIES) {
+      // Map čuva redosled upisa, briše se najstariji
+      cache.delete(cache.keys().next().value!)
+    }
+    cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS })
+
+    return value
+  } catch (error) {
+    console.error('Calendar busy times unavailable, using bookings only:', {
+      providerId,
+      date,
+      calendar: calendar.type,
+      error: error instanceof Error ? error.message : error,
+    })
+    return cached?.value || []
+  }
+}
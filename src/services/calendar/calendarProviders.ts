@@ -0,0 +1,133 @@
+import mongoose from 'mongoose'
+import { DEFAULT_AVAILABILITY } from '@/lib/availability'
+import { decryptSecret } from '@/lib/encryption'
+import ProviderCalDavIntegration from '@/models/ProviderCalDavIntegration'
+import ProviderGoogleIntegration, { IProviderGoogleIntegration } from '@/models/ProviderGoogleIntegration'
+import ProviderProfile from '@/models/ProviderProfile'
+import { CalDavCalendarProvider } from '@/services/calendar/calDavCalendarProvider'
+import {
+  createGoogleCalendarEvent,
+  deleteGoogleCalendarEvent,
+  getGoogleCalendarBusyIntervals,
+  refreshGoogleToken,
+  updateGoogleCalendarEvent
+} from '@/services/calendar/googleCalendarService'
+
+export const CALENDAR_PROVIDER_TYPES = ['google', 'caldav'] as const
+
+export type CalendarProviderType = typeof CALENDAR_PROVIDER_TYPES[number]
+
+export interface ExternalBusyInterval {
+  start: Date
+  end: Date
+}
+
+export interface CalendarEventDetails {
+  start: Date
+  end: Date
+  serviceName: string
+  clientName: string
+  clientEmail: string
+  note?: string
+}
+
+/**
+ * Spoljni kalendar providera
+ * Greške u izmeni događaja vraćaju null/false, čitanje zauzetosti baca grešku
+ */
+export interface CalendarProvider {
+  readonly type: CalendarProviderType
+  getBusyIntervals(start: Date, end: Date): Promise<ExternalBusyInterval[]>
+  // Vraća ID događaja u kalendaru
+  createEvent(details: CalendarEventDetails): Promise<string | null>
+  updateEvent(eventId: string, slot: { start: Date; end: Date }): Promise<boolean>
+  deleteEvent(eventId: string): Promise<boolean>
+  refreshToken(): Promise<void>
+}
+
+export class GoogleCalendarProvider implements CalendarProvider {
+  readonly type = 'google' as const
+
+  constructor(private integration: IProviderGoogleIntegration) {}
+
+  getBusyIntervals(start: Date, end: Date) {
+    return getGoogleCalendarBusyIntervals(this.integration, start, end)
+  }
+
+  createEvent(details: CalendarEventDetails) {
+    return createGoogleCalendarEvent(this.integration, details)
+  }
+
+  updateEvent(eventId: string, slot: { start: Date; end: Date }) {
+    return updateGoogleCalendarEvent(this.integration, eventId, slot)
+  }
+
+  deleteEvent(eventId: string) {
+    return deleteGoogleCalendarEvent(this.integration, eventId)
+  }
+
+  refreshToken() {
+    return refreshGoogleToken(this.integration)
+  }
+}
+
+/**
+ * Povezani kalendar providera, ili null ako ga nema
+ * Provider ima najviše jednu aktivnu vezu (Google ili CalDAV)
+ */
+export async function getCalendarProvider(providerId: string | mongoose.Types.ObjectId): Promise<CalendarProvider | null> {
+  const googleIntegration = await ProviderGoogleIntegration.findOne({ providerId, isActive: true })
+  if (googleIntegration) {
+    return new GoogleCalendarProvider(googleIntegration)
+  }
+
+  const calDavIntegration = await ProviderCalDavIntegration.findOne({ providerId, isActive: true })
+  if (calDavIntegration) {
+    const providerProfile = await ProviderProfile.findById(providerId).select('timezone')
+    return new CalDavCalendarProvider(
+      {
+        calendarUrl: calDavIntegration.calendarUrl,
+        username: calDavIntegration.username,
+        password: decryptSecret(calDavIntegration.password),
+      },
+      providerProfile?.timezone || DEFAULT_AVAILABILITY.timezone
+    )
+  }
+
+  return null
+}
+
+/**
+ * Kalendar u koji ide rezervacija: kalendar zaposlenog ako ga je povezao, inače kalendar providera
+ */
+export async function getBookingCalendarProvider(booking: {
+  providerId: mongoose.Types.ObjectId
+  staffId?: mongoose.Types.ObjectId
+}): Promise<CalendarProvider | null> {
+  if (booking.staffId) {
+    const staffCalendar = await getCalendarProvider(booking.staffId)
+    if (staffCalendar) {
+      return staffCalendar
+    }
+  }
+  return getCalendarProvider(booking.providerId)
+}
+
+export async function hasCalendarConnection(providerId: string | mongoose.Types.ObjectId): Promise<boolean> {
+  const [google, calDav] = await Promise.all([
+    ProviderGoogleIntegration.exists({ providerId, isActive: true }),
+    ProviderCalDavIntegration.exists({ providerId, isActive: true }),
+  ])
+  return !!(google || calDav)
+}
+
+/**
+ * Provideri i zaposleni sa bilo kojim aktivnim kalendarom
+ */
+export async function getConnectedProviderIds(): Promise<mongoose.Types.ObjectId[]> {
+  const [google, calDav] = await Promise.all([
+    ProviderGoogleIntegration.find({ isActive: true }).distinct('providerId'),
+    ProviderCalDavIntegration.find({ isActive: true }).distinct('providerId'),
+  ])
+  return [...google, ...calDav]
+}
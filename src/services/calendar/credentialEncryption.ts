@@ -0,0 +1,89 @@
+import mongoose from 'mongoose'
+import {
+  decryptSecret,
+  encryptSecret,
+  EncryptionError,
+  getCurrentKeyId,
+  getEncryptionKeyId
+} from '@/lib/encryption'
+import ProviderCalDavIntegration from '@/models/ProviderCalDavIntegration'
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import Settings from '@/models/Settings'
+
+export type ReencryptMode = 'encrypt' | 'rotate'
+
+export interface ReencryptResult {
+  checked: number
+  updated: number
+  failed: number
+}
+
+// Kolekcije i polja sa tajnama (polja u podešavanjima su putanje sa tačkom)
+const ENCRYPTED_FIELDS: { model: mongoose.Model<unknown>; fields: string[] }[] = [
+  { model: ProviderGoogleIntegration, fields: ['accessToken', 'refreshToken'] },
+  { model: ProviderCalDavIntegration, fields: ['password'] },
+  { model: Settings, fields: ['email.smtpPassword'] },
+]
+
+function getField(document: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((parent, key) => (parent as Record<string, unknown> | undefined)?.[key], document)
+}
+
+function needsReencrypt(value: unknown, mode: ReencryptMode, currentKeyId: string): value is string {
+  if (typeof value !== 'string' || !value) {
+    return false
+  }
+  const keyId = getEncryptionKeyId(value)
+  return keyId === null || (mode === 'rotate' && keyId !== currentKeyId)
+}
+
+/**
+ * Šifruje tajne integracija i podešavanja trenutnim ključem
+ * 'encrypt' šifruje samo nešifrovane vrednosti (migracija postojećih dokumenata),
+ * 'rotate' i vrednosti šifrovane starijim ključem, koji zato mora biti još podešen
+ * Radi direktno nad kolekcijom, da setter modela ne bi ponovo šifrovao vrednosti
+ */
+export async function reencryptCredentials(mode: ReencryptMode): Promise<ReencryptResult> {
+  const currentKeyId = getCurrentKeyId()
+  if (!currentKeyId) {
+    throw new EncryptionError('CREDENTIALS_ENCRYPTION_KEYS is not set')
+  }
+
+  const result: ReencryptResult = { checked: 0, updated: 0, failed: 0 }
+
+  for (const { model, fields } of ENCRYPTED_FIELDS) {
+    const cursor = model.collection.find({}, { projection: Object.fromEntries(fields.map(field => [field, 1])) })
+
+    for await (const document of cursor) {
+      result.checked++
+
+      const filter: Record<string, unknown> = { _id: document._id }
+      const update: Record<string, string> = {}
+      try {
+        for (const field of fields) {
+          const value = getField(document, field)
+          if (needsReencrypt(value, mode, currentKeyId)) {
+            // Uslov na staru vrednost čuva token koji je u međuvremenu osvežen
+            filter[field] = value
+            update[field] = encryptSecret(decryptSecret(value))
+          }
+        }
+      } catch (error) {
+        console.error('Error re-encrypting credentials:', {
+          collection: model.collection.collectionName,
+          id: document._id.toString(),
+          error: error instanceof Error ? error.message : error,
+        })
+        result.failed++
+        continue
+      }
+
+      if (Object.keys(update).length > 0) {
+        const { modifiedCount } = await model.collection.updateOne(filter, { $set: update })
+        result.updated += modifiedCount
+      }
+    }
+  }
+
+  return result
+}
@@ -1,20 +1,28 @@
 import { google } from 'googleapis'
+import { decryptSecret } from '@/lib/encryption'
 import { IProviderGoogleIntegration } from '@/models/ProviderGoogleIntegration'
 
-export async function getGoogleCalendarBusyIntervals(
-  integration: IProviderGoogleIntegration,
-  startTime: Date,
-  endTime: Date
-): Promise<{ start: Date; end: Date }[]> {
+// Tokeni se dešifruju tek ovde, pri pozivu Google API-ja
+function createOAuthClient(integration: IProviderGoogleIntegration) {
   const oauth2Client = new google.auth.OAuth2(
     process.env.GOOGLE_CLIENT_ID,
     process.env.GOOGLE_CLIENT_SECRET
   )
-  
+
   oauth2Client.setCredentials({
-    access_token: integration.accessToken,
-    refresh_token: integration.refreshToken,
+    access_token: decryptSecret(integration.accessToken),
+    refresh_token: decryptSecret(integration.refreshToken),
   })
+
+  return oauth2Client
+}
+
+export async function getGoogleCalendarBusyIntervals(
+  integration: IProviderGoogleIntegration,
+  startTime: Date,
+  endTime: Date
+): Promise<{ start: Date; end: Date }[]> {
+  const oauth2Client = createOAuthClient(integration)
   
   const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
   
@@ -64,15 +72,7 @@ export async function createGoogleCalendarEvent(
     note?: string
   }
 ): Promise<string | null> {
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET
-  )
-  
-  oauth2Client.setCredentials({
-    access_token: integration.accessToken,
-    refresh_token: integration.refreshToken,
-  })
+  const oauth2Client = createOAuthClient(integration)
   
   const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
   
@@ -112,19 +112,54 @@ export async function createGoogleCalendarEvent(
   }
 }
 
+export async function updateGoogleCalendarEvent(
+  integration: IProviderGoogleIntegration,
+  eventId: string,
+  booking: {
+    start: Date
+    end: Date
+  }
+): Promise<boolean> {
+  const oauth2Client = createOAuthClient(integration)
+  
+  const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
+  
+  try {
+    // Patch menja samo vreme, opis i učesnici ostaju isti
+    await calendar.events.patch({
+      calendarId: integration.calendarId,
+      eventId: eventId,
+      requestBody: {
+        start: {
+          dateTime: booking.start.toISOString(),
+          timeZone: 'Europe/Belgrade',
+        },
+        end: {
+          dateTime: booking.end.toISOString(),
+          timeZone: 'Europe/Belgrade',
+        },
+      },
+    })
+    
+    return true
+  } catch (error) {
+    // If token expired, try to refresh
+    if (getErrorCode(error) === 401) {
+      await refreshGoogleToken(integration)
+      // Retry the request
+      return updateGoogleCalendarEvent(integration, eventId, booking)
+    }
+    
+    console.error('Error updating Google Calendar event:', error)
+    return false
+  }
+}
+
 export async function deleteGoogleCalendarEvent(
   integration: IProviderGoogleIntegration,
   eventId: string
 ): Promise<boolean> {
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET
-  )
-  
-  oauth2Client.setCredentials({
-    access_token: integration.accessToken,
-    refresh_token: integration.refreshToken,
-  })
+  const oauth2Client = createOAuthClient(integration)
   
   const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
   
@@ -148,15 +183,152 @@ export async function deleteGoogleCalendarEvent(
   }
 }
 
-async function refreshGoogleToken(integration: IProviderGoogleIntegration): Promise<void> {
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET
-  )
+export interface GoogleCalendarEventChange {
+  id: string
+  // Događaj obrisan u Google kalendaru
+  cancelled: boolean
+  start?: Date
+  end?: Date
+  updated?: Date
+}
+
+// Google je poništio syncToken (410 Gone), potrebna je puna sinhronizacija
+export class GoogleSyncTokenExpiredError extends Error {
+  constructor() {
+    super('Google Calendar sync token expired')
+    this.name = 'GoogleSyncTokenExpiredError'
+  }
+}
+
+function getErrorCode(error: unknown): number | undefined {
+  return (error as { code?: number })?.code
+}
+
+/**
+ * Događaji izmenjeni posle syncToken-a; bez tokena vraća sve događaje (puna sinhronizacija)
+ * nextSyncToken se koristi za sledeći poziv
+ */
+export async function listGoogleCalendarChanges(
+  integration: IProviderGoogleIntegration,
+  syncToken?: string
+): Promise<{ events: GoogleCalendarEventChange[]; nextSyncToken: string }> {
+  const oauth2Client = createOAuthClient(integration)
   
-  oauth2Client.setCredentials({
-    refresh_token: integration.refreshToken,
-  })
+  const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
+  
+  try {
+    const events: GoogleCalendarEventChange[] = []
+    let pageToken: string | undefined
+    let nextSyncToken: string | undefined
+    
+    do {
+      const response = await calendar.events.list({
+        calendarId: integration.calendarId,
+        syncToken,
+        pageToken,
+        showDeleted: true,
+        maxResults: 250,
+      })
+      
+      for (const event of response.data.items || []) {
+        if (!event.id) continue
+        events.push({
+          id: event.id,
+          cancelled: event.status === 'cancelled',
+          start: event.start?.dateTime ? new Date(event.start.dateTime) : undefined,
+          end: event.end?.dateTime ? new Date(event.end.dateTime) : undefined,
+          updated: event.updated ? new Date(event.updated) : undefined,
+        })
+      }
+      
+      pageToken = response.data.nextPageToken || undefined
+      nextSyncToken = response.data.nextSyncToken || undefined
+    } while (pageToken)
+    
+    return { events, nextSyncToken: nextSyncToken! }
+  } catch (error) {
+    if (getErrorCode(error) === 410) {
+      throw new GoogleSyncTokenExpiredError()
+    }
+    
+    // If token expired, try to refresh
+    if (getErrorCode(error) === 401) {
+      await refreshGoogleToken(integration)
+      // Retry the request
+      return listGoogleCalendarChanges(integration, syncToken)
+    }
+    
+    console.error('Error listing Google Calendar changes:', error)
+    throw error
+  }
+}
+
+/**
+ * Otvara watch kanal: Google šalje POST na address kad se kalendar promeni
+ */
+export async function watchGoogleCalendar(
+  integration: IProviderGoogleIntegration,
+  channel: {
+    id: string
+    token: string
+    address: string
+  }
+): Promise<{ resourceId: string; expiration?: Date }> {
+  const oauth2Client = createOAuthClient(integration)
+  
+  const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
+  
+  try {
+    const response = await calendar.events.watch({
+      calendarId: integration.calendarId,
+      requestBody: {
+        id: channel.id,
+        token: channel.token,
+        type: 'web_hook',
+        address: channel.address,
+      },
+    })
+    
+    return {
+      resourceId: response.data.resourceId!,
+      expiration: response.data.expiration ? new Date(Number(response.data.expiration)) : undefined,
+    }
+  } catch (error) {
+    // If token expired, try to refresh
+    if (getErrorCode(error) === 401) {
+      await refreshGoogleToken(integration)
+      // Retry the request
+      return watchGoogleCalendar(integration, channel)
+    }
+    
+    console.error('Error creating Google Calendar watch channel:', error)
+    throw error
+  }
+}
+
+export async function stopGoogleCalendarWatch(
+  integration: IProviderGoogleIntegration,
+  channelId: string,
+  resourceId: string
+): Promise<boolean> {
+  const oauth2Client = createOAuthClient(integration)
+  
+  const calendar = google.calendar({ version: 'v3', auth: oauth2Client })
+  
+  try {
+    await calendar.channels.stop({
+      requestBody: { id: channelId, resourceId },
+    })
+    
+    return true
+  } catch (error) {
+    console.error('Error stopping Google Calendar watch channel:', error)
+    return false
+  }
+}
+
+export async function refreshGoogleToken(integration: IProviderGoogleIntegration): Promise<void> {
+  const oauth2Client = createOAuthClient(integration)
   
   try {
     const { credentials } = await oauth2Client.refreshAccessToken()
@@ -0,0 +1,347 @@
+import crypto from 'crypto'
+import { addDays } from 'date-fns'
+import Booking, { IBookingLineItem } from '@/models/Booking'
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import { withProviderBookingLock } from '@/services/booking/bookingLock'
+import { notifyBooking } from '@/services/booking/bookingNotifications'
+import { rescheduleBooking } from '@/services/booking/bookingStatus'
+import { findServiceBundle } from '@/services/booking/serviceBundles'
+import { clearCalendarBusyCache } from '@/services/calendar/calendarBusyTimes'
+import { findAvailableSlot } from '@/services/calendar/slotGeneration'
+import {
+  GoogleCalendarEventChange,
+  GoogleSyncTokenExpiredError,
+  listGoogleCalendarChanges,
+  stopGoogleCalendarWatch,
+  watchGoogleCalendar
+} from '@/services/calendar/googleCalendarService'
+import { enqueueJob } from '@/services/jobs/jobQueue'
+
+// Kanal se obnavlja kad mu ostane manje od ovoga do isteka (Google ga drži najviše ~7 dana)
+const WATCH_RENEW_BEFORE_DAYS = 1
+
+type IntegrationDocument = InstanceType<typeof ProviderGoogleIntegration>
+type BookingDocument = InstanceType<typeof Booking>
+
+export interface GoogleNotificationHeaders {
+  channelId: string | null
+  channelToken: string | null
+  resourceId: string | null
+  resourceState: string | null
+}
+
+export interface PullChangesResult {
+  events: number
+  moved: number
+  flagged: number
+}
+
+/**
+ * Javni HTTPS URL na koji Google šalje obaveštenja
+ * Bez njega (npr. lokalni razvoj) push sinhronizacija je isključena
+ */
+export function getGoogleWebhookUrl(): string | null {
+  if (process.env.GOOGLE_WEBHOOK_URL) {
+    return process.env.GOOGLE_WEBHOOK_URL
+  }
+  const baseUrl = process.env.NEXTAUTH_URL
+  return baseUrl?.startsWith('https://') ? `${baseUrl}/api/integrations/google/webhook` : null
+}
+
+export async function stopGoogleWatch(integration: IntegrationDocument): Promise<void> {
+  if (integration.watchChannelId && integration.watchResourceId) {
+    await stopGoogleCalendarWatch(integration, integration.watchChannelId, integration.watchResourceId)
+  }
+  integration.watchChannelId = undefined
+  integration.watchResourceId = undefined
+  integration.watchToken = undefined
+  integration.watchExpiresAt = undefined
+  await integration.save()
+}
+
+/**
+ * Otvara (ili zamenjuje) watch kanal za kalendar integracije
+ * Vraća false ako webhook URL nije podešen
+ */
+export async function startGoogleWatch(integration: IntegrationDocument): Promise<boolean> {
+  const address = getGoogleWebhookUrl()
+  if (!address) {
+    return false
+  }
+
+  // Bez početnog tokena prvo obaveštenje ne bi imalo od čega da krene
+  if (!integration.syncToken) {
+    await pullGoogleChanges(integration)
+  }
+
+  const previous = integration.watchChannelId && integration.watchResourceId
+    ? { channelId: integration.watchChannelId, resourceId: integration.watchResourceId }
+    : null
+
+  const channel = {
+    id: crypto.randomUUID(),
+    token: crypto.randomBytes(24).toString('hex'),
+    address,
+  }
+  const { resourceId, expiration } = await watchGoogleCalendar(integration, channel)
+
+  integration.watchChannelId = channel.id
+  integration.watchToken = channel.token
+  integration.watchResourceId = resourceId
+  integration.watchExpiresAt = expiration
+  await integration.save()
+
+  // Stari kanal se gasi tek kad novi radi, da obaveštenja ne bi bila izgubljena
+  if (previous) {
+    await stopGoogleCalendarWatch(integration, previous.channelId, previous.resourceId)
+  }
+
+  return true
+}
+
+/**
+ * Obnavlja kanale koji uskoro ističu i otvara kanale za integracije koje ga nemaju
+ */
+export async function renewGoogleWatches(now: Date = new Date()): Promise<number> {
+  if (!getGoogleWebhookUrl()) {
+    return 0
+  }
+
+  const integrations = await ProviderGoogleIntegration.find({
+    isActive: true,
+    $or: [
+      { watchExpiresAt: { $exists: false } },
+      { watchExpiresAt: null },
+      { watchExpiresAt: { $lt: addDays(now, WATCH_RENEW_BEFORE_DAYS) } },
+    ],
+  })
+
+  let renewed = 0
+  for (const integration of integrations) {
+    try {
+      if (await startGoogleWatch(integration)) {
+        renewed++
+      }
+    } catch (error) {
+      console.error('Error renewing Google Calendar watch channel:', {
+        integrationId: integration._id.toString(),
+        error,
+      })
+    }
+  }
+  return renewed
+}
+
+/**
+ * Pomera rezervaciju na vreme Google događaja pod lock-om providera, ako je termin slobodan
+ * Proverava iste stvari kao i pomeranje iz aplikacije (druge rezervacije, grupni termini,
+ * radno vreme, resursi), osim samog Google kalendara iz kog izmena stiže
+ * Promenjeno trajanje ili zauzet termin vraća false, pa odluka ostaje provideru
+ */
+async function moveToEventTime(
+  booking: BookingDocument,
+  event: { start: Date; end: Date },
+  now: Date
+): Promise<boolean> {
+  if (event.end.getTime() - event.start.getTime() !== booking.end.getTime() - booking.start.getTime()) {
+    return false
+  }
+
+  const [providerProfile, service] = await Promise.all([
+    ProviderProfile.findById(booking.providerId),
+    booking.items && booking.items.length > 1
+      ? findServiceBundle(booking.providerId, booking.items.map((item: IBookingLineItem) => item.serviceId.toString())).catch(() => null)
+      : Service.findById(booking.serviceId),
+  ])
+  if (!providerProfile || !service) {
+    return false
+  }
+
+  return withProviderBookingLock(booking.providerId.toString(), async () => {
+    const slot = await findAvailableSlot(providerProfile, service, event.start, {
+      excludeBookingId: booking._id.toString(),
+      staffId: booking.staffId?.toString(),
+      skipExternalCalendar: true,
+      now,
+    })
+    if (!slot) {
+      return false
+    }
+
+    rescheduleBooking(
+      booking,
+      { start: event.start, end: event.end },
+      { role: 'system' },
+      { reason: 'Moved in Google Calendar', now }
+    )
+    booking.reminderSentAt = undefined
+    booking.externalChange = undefined
+    await booking.save()
+    return true
+  })
+}
+
+/**
+ * Primenjuje izmenu Google događaja na rezervaciju
+ * Pomeren događaj pomera rezervaciju ako je novi termin slobodan, inače se izmena samo označava;
+ * obrisan događaj se takođe samo označava da provider odluči da li otkazuje termin
+ */
+async function applyEventChange(
+  booking: BookingDocument,
+  event: GoogleCalendarEventChange,
+  now: Date
+): Promise<'moved' | 'flagged' | null> {
+  // Aktivnu rezervaciju je upravo menjala aplikacija, Google još nije dobio izmenu
+  if (event.updated && booking.updatedAt > event.updated) {
+    return null
+  }
+
+  if (event.cancelled) {
+    booking.externalChange = { type: 'deleted', detectedAt: now }
+    booking.googleEventId = undefined
+    await booking.save()
+    return 'flagged'
+  }
+
+  if (!event.start || !event.end) {
+    return null
+  }
+  if (event.start.getTime() === booking.start.getTime() && event.end.getTime() === booking.end.getTime()) {
+    return null
+  }
+
+  if (booking.start > now && event.start > now && await moveToEventTime(booking, { start: event.start, end: event.end }, now)) {
+    await notifyBooking(booking, 'rescheduled')
+    return 'moved'
+  }
+
+  booking.externalChange = { type: 'moved', start: event.start, end: event.end, detectedAt: now }
+  await booking.save()
+  return 'flagged'
+}
+
+/**
+ * Preuzima izmene iz Google kalendara od poslednjeg syncToken-a
+ * i primenjuje ih na aktivne rezervacije providera
+ */
+export async function pullGoogleChanges(
+  integration: IntegrationDocument,
+  now: Date = new Date()
+): Promise<PullChangesResult> {
+  const result: PullChangesResult = { events: 0, moved: 0, flagged: 0 }
+
+  let changes
+  try {
+    changes = await listGoogleCalendarChanges(integration, integration.syncToken)
+  } catch (error) {
+    if (!(error instanceof GoogleSyncTokenExpiredError)) {
+      throw error
+    }
+    changes = await listGoogleCalendarChanges(integration)
+  }
+
+  result.events = changes.events.length
+  const eventsById = new Map(changes.events.map(event => [event.id, event]))
+
+  if (eventsById.size > 0) {
+    // Kalendar zaposlenog je vezan za njegov ID umesto ID-a providera
+    const bookings = await Booking.find({
+      $or: [{ providerId: integration.providerId }, { staffId: integration.providerId }],
+      googleEventId: { $in: [...eventsById.keys()] },
+      status: { $in: ['pending', 'confirmed'] },
+    })
+
+    for (const booking of bookings) {
+      const outcome = await applyEventChange(booking, eventsById.get(booking.googleEventId!)!, now)
+      if (outcome) {
+        result[outcome]++
+      }
+    }
+
+    // Privatni događaji su se možda promenili, slobodni termini se računaju ponovo
+    clearCalendarBusyCache(integration.providerId.toString())
+  }
+
+  integration.syncToken = changes.nextSyncToken
+  integration.lastSyncAt = now
+  await integration.save()
+
+  return result
+}
+
+function tokensMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(received)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+/**
+ * Obrađuje obaveštenje sa watch kanala
+ * Samo proverava kanal i zakazuje preuzimanje izmena, da bi Google odmah dobio odgovor
+ * Vraća false ako kanal ili token nisu prepoznati
+ */
+export async function handleGoogleNotification(headers: GoogleNotificationHeaders): Promise<boolean> {
+  if (!headers.channelId || !headers.channelToken) {
+    return false
+  }
+
+  const integration = await ProviderGoogleIntegration.findOne({
+    watchChannelId: headers.channelId,
+    isActive: true,
+  })
+  if (
+    !integration?.watchToken ||
+    integration.watchResourceId !== headers.resourceId ||
+    !tokensMatch(integration.watchToken, headers.channelToken)
+  ) {
+    return false
+  }
+
+  // Prvo obaveštenje samo potvrđuje da je kanal otvoren
+  if (headers.resourceState === 'sync') {
+    return true
+  }
+
+  await enqueueJob('calendar.pull-changes', { integrationId: integration._id.toString() }, {
+    uniqueKey: `calendar.pull-changes:${integration._id}`,
+  })
+  return true
+}
+
+/**
+ * Preuzimanje izmena iz reda poslova
+ */
+export async function pullGoogleChangesForIntegration(integrationId: string): Promise<void> {
+  const integration = await ProviderGoogleIntegration.findById(integrationId)
+  if (!integration?.isActive) {
+    return
+  }
+
+  const result = await pullGoogleChanges(integration)
+  if (result.moved > 0 || result.flagged > 0) {
+    console.log('📅 Google Calendar changes applied:', { integrationId, ...result })
+  }
+}
+
+/**
+ * Povremeno preuzimanje izmena za sve kanale, ako je neko obaveštenje izgubljeno
+ */
+export async function pullAllGoogleChanges(now: Date = new Date()): Promise<void> {
+  const integrations = await ProviderGoogleIntegration.find({
+    isActive: true,
+    watchChannelId: { $exists: true, $ne: null },
+  })
+
+  for (const integration of integrations) {
+    try {
+      await pullGoogleChanges(integration, now)
+    } catch (error) {
+      console.error('Error pulling Google Calendar changes:', {
+        integrationId: integration._id.toString(),
+        error,
+      })
+    }
+  }
+}
@@ -1,203 +1,602 @@
-import { 
-  startOfDay, 
-  endOfDay, 
-  addMinutes, 
-  isAfter, 
-  isBefore, 
-  format, 
-  parse,
-  isWithinInterval,
-  isSameDay 
-} from 'date-fns'
-import { toZonedTime, fromZonedTime } from 'date-fns-tz'
-import ProviderProfile from '@/models/ProviderProfile'
+import { addDays, addMinutes } from 'date-fns'
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
 import Booking from '@/models/Booking'
-import Service from '@/models/Service'
+import { IProviderProfile } from '@/models/ProviderProfile'
+import { IService } from '@/models/Service'
 import connectDB from '@/lib/mongodb'
+import {
+  AvailabilitySettings,
+  DEFAULT_AVAILABILITY,
+  WEEK_DAYS,
+  getDaySchedule,
+  parseAvailabilitySettings,
+  resolveAppointmentBuffers
+} from '@/lib/availability'
+import {
+  BookingPolicy,
+  applyServiceBookingRules,
+  getBookingPolicy,
+  getBookingWindowViolation
+} from '@/services/booking/bookingPolicy'
+import { getCalendarBusyIntervals } from '@/services/calendar/calendarBusyTimes'
+import { hasCalendarConnection } from '@/services/calendar/calendarProviders'
+import { getBookableStaff } from '@/services/staff/staffMembers'
+import { getResourceUsage, hasFreeResources } from '@/services/resources/resourceAvailability'
+import { getActiveHolds } from '@/services/waitlist/waitlistHolds'
 
 export interface TimeSlot {
-  startTime: string
-  endTime: string
-  available: boolean
+  start: Date
+  end: Date
+  // Zaposleni koji su slobodni u terminu; nema ga kod providera bez zaposlenih
+  staffIds?: string[]
+  // Slobodna mesta u terminu grupne usluge
+  remainingSeats?: number
+}
+
+export interface GroupSession {
+  start: Date
+  end: Date
+  staffId?: string
+  participants: number
 }
 
 export interface BusyInterval {
   start: Date
   end: Date
   title?: string
+  // Bufferi zauzetog termina; ako nisu navedeni važe bufferi providera
+  bufferBeforeMinutes?: number
+  bufferAfterMinutes?: number
+}
+
+export interface SlotComputationInput {
+  availability: AvailabilitySettings
+  date: string // YYYY-MM-DD u vremenskoj zoni providera
+  timezone: string
+  durationMinutes: number
+  busyIntervals: BusyInterval[]
+  // Prozori i bufferi konkretne usluge
+  serviceRules?: IService['bookingRules']
+  // Prozor za zakazivanje (minimalna najava, maksimalno unapred, isti dan)
+  policy?: BookingPolicy
+  now?: Date
+}
+
+export interface SlotLookupOptions {
+  // Rezervacija koja se pomera ne blokira sopstveni novi termin
+  excludeBookingId?: string
+  // Samo termini ovog zaposlenog; bez njega termin je slobodan ako je slobodan bilo ko
+  staffId?: string
+  // Zadržan termin sa liste čekanja koji klijent preuzima ne blokira sam sebe
+  waitlistEntryId?: string
+  // Zauzetost kalendara samo iz keša, bez HTTP poziva; keš se puni sa warmCalendarBusyTimes pre lock-a
+  cachedCalendarOnly?: boolean
+  // Bez zauzetosti iz spoljnog kalendara (izmena koja upravo stiže iz tog kalendara)
+  skipExternalCalendar?: boolean
+  now?: Date
+}
+
+export type ProviderLike = Pick<IProviderProfile, 'timezone' | 'availabilitySettings'> & {
+  _id?: unknown
+  bookingPolicy?: Partial<IProviderProfile['bookingPolicy']>
+}
+
+export type ServiceLike = Pick<IService, 'durationMinutes'> & {
+  _id?: unknown
+  bookingRules?: IService['bookingRules']
+  resourceIds?: IService['resourceIds']
+  maxParticipants?: IService['maxParticipants']
+  // Kombinovani termin više usluga: zaposleni radi sve, dnevni limit važi za svaku
+  parts?: ServiceLike[]
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isValidDateString(date: string): boolean {
+  return DATE_PATTERN.test(date) && !isNaN(new Date(`${date}T00:00:00.000Z`).getTime())
+}
+
+/**
+ * Pretvara lokalni datum i vreme (HH:mm) u zoni providera u UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  return fromZonedTime(`${date}T${time}:00`, timezone)
+}
+
+/**
+ * Vraća lokalni datum (YYYY-MM-DD) za dati instant u zoni providera
+ */
+export function getLocalDateString(instant: Date, timezone: string): string {
+  return formatInTimeZone(instant, timezone, 'yyyy-MM-dd')
 }
 
 /**
- * Get busy intervals for a provider on a specific date
- * This includes existing bookings and Google Calendar events
+ * Početak i kraj lokalnog dana providera kao UTC instanti
+ */
+export function getLocalDayBounds(date: string, timezone: string): { start: Date; end: Date } {
+  const nextDate = addDays(new Date(`${date}T00:00:00.000Z`), 1).toISOString().slice(0, 10)
+  return {
+    start: zonedTimeToUtc(date, '00:00', timezone),
+    end: zonedTimeToUtc(nextDate, '00:00', timezone),
+  }
+}
+
+export function getProviderTimezone(providerProfile: ProviderLike): string {
+  return providerProfile.timezone ||
+    providerProfile.availabilitySettings?.timezone ||
+    DEFAULT_AVAILABILITY.timezone
+}
+
+function overlaps(start: Date, end: Date, interval: { start: Date; end: Date }): boolean {
+  return start < interval.end && end > interval.start
+}
+
+/**
+ * Delovi intervala koji ne padaju u removed
+ */
+function subtractInterval(interval: BusyInterval, removed: { start: Date; end: Date }): BusyInterval[] {
+  if (!overlaps(interval.start, interval.end, removed)) {
+    return [interval]
+  }
+  const parts: BusyInterval[] = []
+  if (interval.start < removed.start) {
+    parts.push({ ...interval, end: removed.start })
+  }
+  if (interval.end > removed.end) {
+    parts.push({ ...interval, start: removed.end })
+  }
+  return parts
+}
+
+/**
+ * Get busy intervals for a provider on a specific local date
+ * Booking intervals use the stored start/end of each active booking,
+ * merged with busy times from the provider's connected calendar
+ * and slots held for waitlisted clients
+ * With options.staffId only that staff member's bookings and unassigned bookings count,
+ * and only the staff member's own calendar, if connected, replaces the provider's
  */
 export async function getBusyIntervalsForProviderOnDate(
-  providerId: string, 
-  date: Date,
-  timezone: string = 'Europe/Belgrade'
+  providerId: string,
+  date: string,
+  timezone: string = DEFAULT_AVAILABILITY.timezone,
+  options: SlotLookupOptions = {}
 ): Promise<BusyInterval[]> {
   await connectDB()
-  
-  const busyIntervals: BusyInterval[] = []
-  
-  try {
-    // Get existing bookings for this date
-    const startOfTargetDay = startOfDay(date)
-    const endOfTargetDay = endOfDay(date)
-    
-    const existingBookings = await Booking.find({
+
+  const { start: dayStart, end: dayEnd } = getLocalDayBounds(date, timezone)
+
+  // Rezervacije zaposlenih bez kalendara upisuju se u kalendar providera,
+  // pa bi njegova zauzetost jednog zaposlenog blokirala za sve ostale
+  const calendarOwnerId = options.staffId
+    ? await hasCalendarConnection(options.staffId) ? options.staffId : undefined
+    : providerId
+
+  const [existingBookings, calendarBusy, excludedBooking, holds] = await Promise.all([
+    Booking.find({
       providerId,
-      start: {
-        $gte: startOfTargetDay,
-        $lte: endOfTargetDay
-      },
-      status: { $in: ['confirmed', 'pending'] }
-    }).populate('serviceId')
-    
-    // Add booking intervals
-    for (const booking of existingBookings) {
-      const service = booking.serviceId as any
-      if (service?.duration) {
-        const bookingStart = new Date(booking.start)
-        const bookingEnd = addMinutes(bookingStart, service.duration)
-        
-        busyIntervals.push({
-          start: bookingStart,
-          end: bookingEnd,
-          title: `Booking: ${service.name}`
-        })
-      }
+      start: { $lt: dayEnd },
+      end: { $gt: dayStart },
+      status: { $in: ['confirmed', 'pending'] },
+      ...(options.excludeBookingId && { _id: { $ne: options.excludeBookingId } }),
+      ...(options.staffId && { staffId: { $in: [options.staffId, null] } }),
+    })
+      .select('start end serviceId items.serviceId')
+      .populate([
+        { path: 'serviceId', select: 'bookingRules.bufferBeforeMinutes bookingRules.bufferAfterMinutes' },
+        { path: 'items.serviceId', select: 'bookingRules.bufferBeforeMinutes bookingRules.bufferAfterMinutes' },
+      ]),
+    options.skipExternalCalendar || !calendarOwnerId
+      ? []
+      : getCalendarBusyIntervals(calendarOwnerId, date, dayStart, dayEnd, { cachedOnly: options.cachedCalendarOnly }),
+    options.excludeBookingId ? Booking.findById(options.excludeBookingId).select('start end') : null,
+    getActiveHolds({
+      providerId,
+      ...(options.staffId && { 'offer.staffId': { $in: [options.staffId, null] } }),
+    }, { start: dayStart, end: dayEnd }, options.waitlistEntryId, options.now),
+  ])
+
+  // Postojeća rezervacija nosi buffere svoje usluge, ako ih usluga ima
+  // Kombinovani termin, kao i pri zakazivanju: priprema prve usluge, raspremanje poslednje
+  const bookingIntervals: BusyInterval[] = existingBookings.map((booking: {
+    start: Date
+    end: Date
+    serviceId?: Pick<IService, 'bookingRules'> | null
+    items?: { serviceId?: Pick<IService, 'bookingRules'> | null }[]
+  }) => {
+    const first = booking.items?.length ? booking.items[0].serviceId : booking.serviceId
+    const last = booking.items?.length ? booking.items[booking.items.length - 1].serviceId : booking.serviceId
+    return {
+      start: new Date(booking.start),
+      end: new Date(booking.end),
+      title: 'Booking',
+      bufferBeforeMinutes: first?.bookingRules?.bufferBeforeMinutes,
+      bufferAfterMinutes: last?.bookingRules?.bufferAfterMinutes,
     }
-    
-    console.log(`Found ${busyIntervals.length} busy intervals for provider ${providerId} on ${format(date, 'yyyy-MM-dd')}`)
-    
-  } catch (error) {
-    console.error('Error getting busy intervals:', error)
+  })
+
+  // Kalendar vraća i događaj rezervacije koja se pomera, on ne sme da blokira novi termin
+  // Spoljni događaji nemaju buffere, štiti ih samo buffer novog termina
+  let calendarIntervals: BusyInterval[] = calendarBusy.map(interval => ({
+    start: interval.start,
+    end: interval.end,
+    title: 'Calendar',
+    bufferBeforeMinutes: 0,
+    bufferAfterMinutes: 0,
+  }))
+  if (excludedBooking) {
+    calendarIntervals = calendarIntervals.flatMap(interval => subtractInterval(interval, excludedBooking))
   }
-  
-  return busyIntervals
+
+  const holdIntervals: BusyInterval[] = holds.map(hold => ({
+    start: hold.start,
+    end: hold.end,
+    title: 'Waitlist hold',
+  }))
+
+  return [...bookingIntervals, ...calendarIntervals, ...holdIntervals]
 }
 
 /**
- * Generate available time slots for a provider on a specific date
+ * Broj aktivnih rezervacija usluge na lokalni dan (za maxBookingsPerDay)
  */
-export async function generateAvailableSlots(
-  providerId: string,
+async function countServiceBookingsOnDate(
   serviceId: string,
-  date: Date,
-  timezone: string = 'Europe/Belgrade'
-): Promise<TimeSlot[]> {
-  await connectDB()
-  
-  try {
-    console.log(`🔍 Generating slots for provider ${providerId}, service ${serviceId}, date ${format(date, 'yyyy-MM-dd')}`)
-    
-    // Get provider profile with availability settings
-    const providerProfile = await ProviderProfile.findOne({ userId: providerId })
-    if (!providerProfile || !providerProfile.availabilitySettings) {
-      console.log('❌ No provider profile or availability settings found')
-      return []
+  date: string,
+  timezone: string,
+  options: SlotLookupOptions
+): Promise<number> {
+  const { start, end } = getLocalDayBounds(date, timezone)
+  // Kombinovani termini se računaju u limit svake svoje usluge
+  return Booking.countDocuments({
+    $or: [{ serviceId }, { 'items.serviceId': serviceId }],
+    start: { $gte: start, $lt: end },
+    status: { $in: ['confirmed', 'pending'] },
+    ...(options.excludeBookingId && { _id: { $ne: options.excludeBookingId } }),
+  })
+}
+
+/**
+ * Zakazani termini grupne usluge na lokalni dan, sa brojem prijavljenih
+ * Rezervacije sa istim početkom i istim zaposlenim su jedan termin
+ * Mesto zadržano za klijenta sa liste čekanja se računa kao prijavljen učesnik
+ */
+async function getGroupSessionsOnDate(
+  serviceId: string,
+  date: string,
+  timezone: string,
+  options: SlotLookupOptions
+): Promise<GroupSession[]> {
+  const { start, end } = getLocalDayBounds(date, timezone)
+  const [bookings, holds] = await Promise.all([
+    Booking.find({
+      serviceId,
+      start: { $gte: start, $lt: end },
+      status: { $in: ['confirmed', 'pending'] },
+      ...(options.excludeBookingId && { _id: { $ne: options.excludeBookingId } }),
+    }).select('start end staffId'),
+    getActiveHolds({ serviceId }, { start, end }, options.waitlistEntryId, options.now),
+  ])
+
+  const sessions = new Map<string, GroupSession>()
+  for (const booking of [...bookings, ...holds] as { start: Date; end: Date; staffId?: unknown }[]) {
+    const staffId = booking.staffId ? String(booking.staffId) : undefined
+    const key = `${booking.start.getTime()}|${staffId || ''}`
+    const session = sessions.get(key)
+    if (session) {
+      session.participants++
+    } else {
+      sessions.set(key, { start: booking.start, end: booking.end, staffId, participants: 1 })
     }
-    
-    // Get service details
-    const service = await Service.findById(serviceId)
-    if (!service) {
-      console.log('❌ Service not found')
-      return []
+  }
+  return [...sessions.values()]
+}
+
+/**
+ * Dodaje mesta u termine grupne usluge: novi termini imaju pun kapacitet,
+ * a već zakazani termini ostaju otvoreni dok ima mesta, iako ih sopstvene rezervacije zauzimaju
+ */
+export function addGroupSessionSlots(
+  slots: TimeSlot[],
+  sessions: GroupSession[],
+  capacity: number,
+  isOpen: (start: Date) => boolean
+): TimeSlot[] {
+  const byStart = new Map<number, TimeSlot>(
+    slots.map(slot => [slot.start.getTime(), { ...slot, remainingSeats: capacity }])
+  )
+  for (const session of sessions) {
+    const remainingSeats = capacity - session.participants
+    if (remainingSeats > 0 && isOpen(session.start)) {
+      byStart.set(session.start.getTime(), { start: session.start, end: session.end, remainingSeats })
     }
-    
-    const { availabilitySettings } = providerProfile
-    const dayOfWeek = format(date, 'EEEE').toLowerCase() // monday, tuesday, etc.
-    
-    // Check if provider works on this day
-    if (!availabilitySettings[dayOfWeek]?.enabled) {
-      console.log(`❌ Provider doesn't work on ${dayOfWeek}`)
-      return []
+  }
+  return [...byStart.values()].sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Računa slobodne termine za jedan lokalni dan
+ * Čista funkcija: sve ulaze dobija spolja, vraća UTC instante
+ */
+export function computeAvailableSlots(input: SlotComputationInput): TimeSlot[] {
+  const { availability, date, timezone, durationMinutes, busyIntervals, policy, serviceRules } = input
+  const now = input.now || new Date()
+
+  const daySchedule = getDaySchedule(availability, date)
+
+  if (!daySchedule?.isEnabled) {
+    return []
+  }
+
+  const workStart = zonedTimeToUtc(date, daySchedule.workingHours.start, timezone)
+  const workEnd = zonedTimeToUtc(date, daySchedule.workingHours.end, timezone)
+
+  const breaks = daySchedule.breaks.map(breakTime => ({
+    start: zonedTimeToUtc(date, breakTime.start, timezone),
+    end: zonedTimeToUtc(date, breakTime.end, timezone),
+  }))
+
+  // Usluga sa prozorima se zakazuje samo unutar prozora za taj dan u nedelji
+  const dayName = WEEK_DAYS[new Date(`${date}T00:00:00.000Z`).getUTCDay()]
+  const serviceWindows = serviceRules?.availabilityWindows?.length
+    ? serviceRules.availabilityWindows
+      .filter(window => window.day === dayName)
+      .map(window => ({
+        start: zonedTimeToUtc(date, window.start, timezone),
+        end: zonedTimeToUtc(date, window.end, timezone),
+      }))
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+    : null
+  if (serviceWindows && serviceWindows.length === 0) {
+    return []
+  }
+
+  // Svaki termin zauzima [početak - priprema, kraj + raspremanje]; zauzeti termini nose svoje buffere
+  const providerBuffers = resolveAppointmentBuffers(availability)
+  const buffers = resolveAppointmentBuffers(availability, serviceRules)
+  const blocked = busyIntervals.map(interval => ({
+    start: addMinutes(interval.start, -(interval.bufferBeforeMinutes ?? providerBuffers.before)),
+    end: addMinutes(interval.end, interval.bufferAfterMinutes ?? providerBuffers.after),
+  }))
+
+  const { slotInterval } = availability
+  const backToBack = slotInterval === 'back-to-back'
+  const step = backToBack
+    ? buffers.before + durationMinutes + buffers.after
+    : slotInterval
+
+  /**
+   * Najraniji početak posle kog termin više ne bi upao u pauzu, zauzeto ili van prozora usluge
+   * null znači da je termin slobodan
+   */
+  const getConflictEnd = (slotStart: Date, slotEnd: Date): Date | null => {
+    const conflicts = breaks.filter(interval => overlaps(slotStart, slotEnd, interval))
+    blocked
+      .filter(interval => overlaps(addMinutes(slotStart, -buffers.before), addMinutes(slotEnd, buffers.after), interval))
+      .forEach(interval => conflicts.push({ start: interval.start, end: addMinutes(interval.end, buffers.before) }))
+
+    if (serviceWindows && !serviceWindows.some(window => slotStart >= window.start && slotEnd <= window.end)) {
+      const nextWindow = serviceWindows.find(window => window.start > slotStart)
+      conflicts.push({ start: slotStart, end: nextWindow ? nextWindow.start : workEnd })
     }
-    
-    const daySettings = availabilitySettings[dayOfWeek]
-    const bufferTime = availabilitySettings.bufferTime || 15
-    const serviceDuration = service.duration
-    
-    // Get busy intervals (existing bookings)
-    const busyIntervals = await getBusyIntervalsForProviderOnDate(providerId, date, timezone)
-    
-    // Generate time slots
-    const slots: TimeSlot[] = []
-    
-    // Parse working hours
-    const workStart = parse(daySettings.startTime, 'HH:mm', date)
-    const workEnd = parse(daySettings.endTime, 'HH:mm', date)
-    
-    let currentTime = workStart
-    
-    while (isBefore(currentTime, workEnd)) {
-      const slotEnd = addMinutes(currentTime, serviceDuration)
-      
-      // Check if slot end time is within working hours
-      if (isAfter(slotEnd, workEnd)) {
-        break
-      }
-      
-      // Check if slot conflicts with breaks
-      let conflictsWithBreak = false
-      if (daySettings.breaks) {
-        for (const breakPeriod of daySettings.breaks) {
-          const breakStart = parse(breakPeriod.startTime, 'HH:mm', date)
-          const breakEnd = parse(breakPeriod.endTime, 'HH:mm', date)
-          
-          // Check if slot overlaps with break
-          if (
-            (isWithinInterval(currentTime, { start: breakStart, end: breakEnd }) ||
-             isWithinInterval(slotEnd, { start: breakStart, end: breakEnd }) ||
-             (isBefore(currentTime, breakStart) && isAfter(slotEnd, breakEnd)))
-          ) {
-            conflictsWithBreak = true
-            break
-          }
-        }
-      }
-      
-      if (conflictsWithBreak) {
-        currentTime = addMinutes(currentTime, 15) // Move to next 15-minute slot
-        continue
+
+    if (conflicts.length === 0) {
+      return null
+    }
+    return new Date(Math.max(...conflicts.map(interval => interval.end.getTime())))
+  }
+
+  const slots: TimeSlot[] = []
+
+  let slotStart = workStart
+  while (addMinutes(slotStart, durationMinutes) <= workEnd) {
+    const slotEnd = addMinutes(slotStart, durationMinutes)
+    let next = addMinutes(slotStart, step)
+
+    const tooEarly = slotStart <= now ||
+      (policy && getBookingWindowViolation(slotStart, policy, timezone, now))
+    if (!tooEarly) {
+      const conflictEnd = getConflictEnd(slotStart, slotEnd)
+      if (!conflictEnd) {
+        slots.push({ start: slotStart, end: slotEnd })
+      } else if (backToBack) {
+        // Sledeći termin počinje čim se oslobodi (posle zauzetog i pripreme)
+        next = conflictEnd
       }
-      
-      // Check if slot conflicts with busy intervals
-      let conflictsWithBooking = false
-      for (const busyInterval of busyIntervals) {
-        if (
-          (isWithinInterval(currentTime, { start: busyInterval.start, end: busyInterval.end }) ||
-           isWithinInterval(slotEnd, { start: busyInterval.start, end: busyInterval.end }) ||
-           (isBefore(currentTime, busyInterval.start) && isAfter(slotEnd, busyInterval.end)))
-        ) {
-          conflictsWithBooking = true
-          break
-        }
+    }
+
+    slotStart = next
+  }
+
+  return slots
+}
+
+/**
+ * Spaja termine zaposlenih: isti početak je jedan termin sa svim slobodnim zaposlenima
+ */
+function mergeStaffSlots(slots: TimeSlot[]): TimeSlot[] {
+  const byStart = new Map<number, TimeSlot>()
+  for (const slot of slots) {
+    const existing = byStart.get(slot.start.getTime())
+    if (existing) {
+      existing.staffIds = [...(existing.staffIds || []), ...(slot.staffIds || [])]
+      if (slot.remainingSeats !== undefined) {
+        existing.remainingSeats = Math.max(existing.remainingSeats || 0, slot.remainingSeats)
       }
-      
-      // Check if slot is in the past
-      const now = new Date()
-      const isPast = isBefore(currentTime, now)
-      
-      const available = !conflictsWithBooking && !isPast
-      
-      slots.push({
-        startTime: format(currentTime, 'HH:mm'),
-        endTime: format(slotEnd, 'HH:mm'),
-        available
-      })
-      
-      // Move to next slot (add buffer time)
-      currentTime = addMinutes(currentTime, serviceDuration + bufferTime)
+    } else {
+      byStart.set(slot.start.getTime(), { ...slot })
     }
-    
-    console.log(`✅ Generated ${slots.length} slots (${slots.filter(s => s.available).length} available)`)
-    
-    return slots
-    
-  } catch (error) {
-    console.error('Error generating available slots:', error)
+  }
+  return [...byStart.values()].sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Generate available time slots for a provider and service on a local date
+ * Providers with staff get the union of slots of every staff member who performs the service,
+ * each computed from that member's schedule, bookings and calendar
+ * Slots are then limited to times when every resource the service requires has a free unit
+ * Group services (maxParticipants > 1) also keep already booked sessions open until they are full
+ */
+export async function generateAvailableSlots(
+  providerProfile: ProviderLike,
+  service: ServiceLike,
+  date: string,
+  options: SlotLookupOptions = {}
+): Promise<TimeSlot[]> {
+  const providerId = String(providerProfile._id)
+  const providerAvailability = parseAvailabilitySettings(providerProfile.availabilitySettings)
+  const timezone = getProviderTimezone(providerProfile)
+
+  const capacity = service.maxParticipants ?? 1
+  const parts = service.parts ?? [service]
+  const limitedParts = capacity <= 1 ? parts.filter(part => part.bookingRules?.maxBookingsPerDay) : []
+
+  const [staff, policy, serviceBookings, resourceUsage, sessions] = await Promise.all([
+    getBookableStaff(providerId, parts.map(part => String(part._id))),
+    getBookingPolicy(providerProfile),
+    Promise.all(limitedParts.map(part => countServiceBookingsOnDate(String(part._id), date, timezone, options))),
+    getResourceUsage(service.resourceIds, getLocalDayBounds(date, timezone), options),
+    capacity > 1 ? getGroupSessionsOnDate(String(service._id), date, timezone, options) : [],
+  ])
+
+  if (!resourceUsage) {
     return []
   }
-}
\ No newline at end of file
+
+  // Kod grupne usluge dnevni limit broji termine, popunjen limit zatvara samo nove termine
+  const maxBookingsPerDay = service.bookingRules?.maxBookingsPerDay
+  const dailyLimitReached = capacity > 1
+    ? !!maxBookingsPerDay && sessions.length >= maxBookingsPerDay
+    : limitedParts.some((part, index) => serviceBookings[index] >= part.bookingRules!.maxBookingsPerDay!)
+  if (dailyLimitReached && capacity <= 1) {
+    return []
+  }
+
+  const servicePolicy = applyServiceBookingRules(policy, service)
+  const now = options.now || new Date()
+  const isOpen = (start: Date) => start > now && !getBookingWindowViolation(start, servicePolicy, timezone, now)
+
+  const computeFor = (availability: AvailabilitySettings, busyIntervals: BusyInterval[], staffId?: string) => {
+    const slots = computeAvailableSlots({
+      availability,
+      date,
+      timezone,
+      durationMinutes: service.durationMinutes,
+      busyIntervals,
+      serviceRules: service.bookingRules,
+      policy: servicePolicy,
+      now,
+    }).filter(slot => !dailyLimitReached && hasFreeResources(slot, resourceUsage))
+
+    if (capacity <= 1) {
+      return slots
+    }
+    // Nedodeljeni termini pripadaju svakom zaposlenom, kao i kod zauzetosti
+    const ownSessions = staffId
+      ? sessions.filter(session => !session.staffId || session.staffId === staffId)
+      : sessions
+    return addGroupSessionSlots(slots, ownSessions, capacity, isOpen)
+  }
+
+  if (!staff) {
+    if (!providerAvailability || options.staffId) {
+      return []
+    }
+    const busyIntervals = await getBusyIntervalsForProviderOnDate(providerId, date, timezone, options)
+    return computeFor(providerAvailability, busyIntervals)
+  }
+
+  const candidates = options.staffId
+    ? staff.filter(member => member._id.toString() === options.staffId)
+    : staff
+
+  const staffSlots = await Promise.all(candidates.map(async member => {
+    const staffId = member._id.toString()
+    // Zaposleni bez sopstvenog rasporeda radi po rasporedu providera
+    const availability = parseAvailabilitySettings(member.availabilitySettings) || providerAvailability
+    if (!availability) {
+      return []
+    }
+    const busyIntervals = await getBusyIntervalsForProviderOnDate(providerId, date, timezone, { ...options, staffId })
+    return computeFor(availability, busyIntervals, staffId).map(slot => ({ ...slot, staffIds: [staffId] }))
+  }))
+
+  return mergeStaffSlots(staffSlots.flat())
+}
+
+/**
+ * Puni keš zauzetosti iz kalendara providera i zaposlenih za dane datih termina
+ * Poziva se pre lock-a zakazivanja, da spor kalendar ne drži lock;
+ * pod lock-om se termini onda računaju sa cachedCalendarOnly
+ */
+export async function warmCalendarBusyTimes(
+  providerProfile: ProviderLike,
+  service: ServiceLike,
+  starts: Date[],
+  options: Pick<SlotLookupOptions, 'staffId'> = {}
+): Promise<void> {
+  const providerId = String(providerProfile._id)
+  const timezone = getProviderTimezone(providerProfile)
+  const parts = service.parts ?? [service]
+
+  const staff = await getBookableStaff(providerId, parts.map(part => String(part._id)))
+  // Zaposleni bez sopstvenog kalendara ne čitaju kalendar providera
+  const calendarOwnerIds = staff
+    ? (await Promise.all(staff
+      .filter(member => !options.staffId || member._id.toString() === options.staffId)
+      .map(async member => {
+        const staffId = member._id.toString()
+        return await hasCalendarConnection(staffId) ? staffId : undefined
+      }))).filter((ownerId): ownerId is string => !!ownerId)
+    : [providerId]
+
+  const dates = [...new Set(starts.map(start => getLocalDateString(start, timezone)))]
+  await Promise.all(dates.flatMap(date => {
+    const { start: dayStart, end: dayEnd } = getLocalDayBounds(date, timezone)
+    return calendarOwnerIds.map(ownerId => getCalendarBusyIntervals(ownerId, date, dayStart, dayEnd))
+  }))
+}
+
+/**
+ * Slobodan termin sa tačnim početkom, ili undefined ako ga nema
+ * Koristi isti engine kao i lista termina, tako da se booking i prikaz ne razilaze
+ */
+export async function findAvailableSlot(
+  providerProfile: ProviderLike,
+  service: ServiceLike,
+  start: Date,
+  options: SlotLookupOptions = {}
+): Promise<TimeSlot | undefined> {
+  const date = getLocalDateString(start, getProviderTimezone(providerProfile))
+  const slots = await generateAvailableSlots(providerProfile, service, date, options)
+  return slots.find(slot => slot.start.getTime() === start.getTime())
+}
+
+/**
+ * Proverava da li je tačan početak termina i dalje slobodan
+ */
+export async function isSlotAvailable(
+  providerProfile: ProviderLike,
+  service: ServiceLike,
+  start: Date,
+  options: SlotLookupOptions = {}
+): Promise<boolean> {
+  return !!(await findAvailableSlot(providerProfile, service, start, options))
+}
+
+/**
+ * Format slota za API odgovor (UTC instanti + lokalno vreme providera)
+ */
+export function formatSlot(slot: TimeSlot, timezone: string) {
+  const time = formatInTimeZone(slot.start, timezone, 'HH:mm')
+  return {
+    start: slot.start.toISOString(),
+    end: slot.end.toISOString(),
+    time,
+    startTime: time,
+    endTime: formatInTimeZone(slot.end, timezone, 'HH:mm'),
+    available: true,
+    ...(slot.staffIds && { staffIds: slot.staffIds }),
+    ...(slot.remainingSeats !== undefined && { remainingSeats: slot.remainingSeats }),
+  }
+}
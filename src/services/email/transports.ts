@@ -0,0 +1,141 @@
+import Mailgun from 'mailgun.js'
+import formData from 'form-data'
+import nodemailer from 'nodemailer'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { EmailSettings, EmailTransportName } from '@/lib/settings'
+
+export interface EmailAttachment {
+  filename: string
+  content: string
+  contentType: string
+}
+
+export interface EmailMessage {
+  from: string
+  to: string[]
+  subject: string
+  html: string
+  text: string
+  attachments?: EmailAttachment[]
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName
+  // Vraća id poruke kod provajdera, ako postoji
+  send(message: EmailMessage): Promise<string | undefined>
+}
+
+export interface OutboxEntry extends EmailMessage {
+  id: string
+  sentAt: Date
+}
+
+export class MailgunTransport implements EmailTransport {
+  readonly name = 'mailgun' as const
+  private client: ReturnType<InstanceType<typeof Mailgun>['client']>
+
+  constructor(apiKey: string, private domain: string) {
+    this.client = new Mailgun(formData).client({ username: 'api', key: apiKey })
+  }
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const { attachments, ...rest } = message
+    const result = await this.client.messages.create(this.domain, {
+      ...rest,
+      attachment: attachments?.map(attachment => ({
+        filename: attachment.filename,
+        data: Buffer.from(attachment.content),
+        contentType: attachment.contentType,
+      })),
+    })
+    return result.id
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const
+  private transporter: nodemailer.Transporter
+
+  constructor(settings: Pick<EmailSettings, 'smtpHost' | 'smtpPort' | 'smtpSecure' | 'smtpUser' | 'smtpPassword'>) {
+    this.transporter = nodemailer.createTransport({
+      host: settings.smtpHost,
+      port: settings.smtpPort,
+      secure: settings.smtpSecure,
+      auth: settings.smtpUser
+        ? { user: settings.smtpUser, pass: settings.smtpPassword }
+        : undefined,
+    })
+  }
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const info = await this.transporter.sendMail({ ...message, to: message.to.join(', ') })
+    return info.messageId
+  }
+}
+
+// Poslednje poruke poslate preko outbox transporta (razvoj i testovi)
+const OUTBOX_LIMIT = 100
+const outbox: OutboxEntry[] = []
+
+/**
+ * Ne šalje ništa: poruke čuva u memoriji, a ako je zadat direktorijum upisuje ih i kao JSON fajlove
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox' as const
+
+  constructor(private directory?: string) {}
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const entry: OutboxEntry = {
+      ...message,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      sentAt: new Date(),
+    }
+
+    outbox.push(entry)
+    if (outbox.length > OUTBOX_LIMIT) {
+      outbox.shift()
+    }
+
+    if (this.directory) {
+      await fs.mkdir(this.directory, { recursive: true })
+      await fs.writeFile(path.join(this.directory, `${entry.id}.json`), JSON.stringify(entry, null, 2))
+    }
+
+    console.log('📧 Email stored in outbox:', { to: message.to, subject: message.subject })
+    return entry.id
+  }
+}
+
+export function getOutbox(): OutboxEntry[] {
+  return [...outbox]
+}
+
+export function clearOutbox(): void {
+  outbox.length = 0
+}
+
+/**
+ * Transport izabran u admin podešavanjima (sekcija email)
+ * Ako izabrani transport nije podešen, poruke idu u outbox da se ne bi izgubile
+ */
+export function createEmailTransport(settings: EmailSettings): EmailTransport {
+  const outboxDir = process.env.EMAIL_OUTBOX_DIR
+
+  if (settings.transport === 'mailgun') {
+    if (process.env.MAILGUN_API_KEY && process.env.MAILGUN_DOMAIN) {
+      return new MailgunTransport(process.env.MAILGUN_API_KEY, process.env.MAILGUN_DOMAIN)
+    }
+    console.warn('⚠️ Mailgun is not configured, using outbox transport')
+  }
+
+  if (settings.transport === 'smtp') {
+    if (settings.smtpHost) {
+      return new SmtpTransport(settings)
+    }
+    console.warn('⚠️ SMTP host is not configured, using outbox transport')
+  }
+
+  return new OutboxTransport(outboxDir)
+}
@@ -1,49 +1,86 @@
-import Mailgun from 'mailgun.js'
-import formData from 'form-data'
+import { IcsMethod } from '@/lib/ical'
+import { EmailSettings } from '@/lib/settings'
+import { getSettings } from '@/services/settings/settingsService'
+import { EmailAttachment, EmailTransport, createEmailTransport } from '@/services/email/transports'
 
 interface EmailOptions {
   to: string
   subject: string
   html: string
   text?: string
+  attachments?: EmailAttachment[]
+}
+
+export type BookingEmailEvent = 'created' | 'approved' | 'rescheduled' | 'cancelled' | 'reminder' | 'waitlist_offer'
+
+export interface BookingEmailDetails {
+  recipientName: string
+  recipientRole: 'client' | 'provider'
+  status: string
+  serviceName: string
+  providerName: string
+  clientName: string
+  start: string
+  previousStart?: string
+  address?: string
+  note?: string
+  reason?: string
+  // Do kada je termin sa liste čekanja zadržan za klijenta
+  holdUntil?: string
+  // .ics pozivnica (ili otkazivanje) koja ide kao prilog
+  calendarInvite?: { method: IcsMethod; content: string }
 }
 
 class EmailService {
-  private mg: any
-  private domain: string
   private fromEmail: string
+  private transportCache: { key: string; transport: EmailTransport } | null = null
 
   constructor() {
-    const mailgun = new Mailgun(formData)
-    
-    this.mg = mailgun.client({
-      username: 'api',
-      key: process.env.MAILGUN_API_KEY || '',
-    })
-    
-    this.domain = process.env.MAILGUN_DOMAIN || ''
     this.fromEmail = process.env.MAILGUN_FROM_EMAIL || 'noreply@zakazivac.app'
   }
 
+  /**
+   * Transport se pravi ponovo samo kada se promene njegova podešavanja
+   */
+  private getTransport(settings: EmailSettings): EmailTransport {
+    const key = JSON.stringify([
+      settings.transport,
+      settings.smtpHost,
+      settings.smtpPort,
+      settings.smtpSecure,
+      settings.smtpUser,
+      settings.smtpPassword,
+    ])
+
+    if (this.transportCache?.key !== key) {
+      this.transportCache = { key, transport: createEmailTransport(settings) }
+    }
+    return this.transportCache.transport
+  }
+
   async sendEmail(options: EmailOptions): Promise<boolean> {
     try {
-      const messageData = {
-        from: `Zakazivač <${this.fromEmail}>`,
+      const { email } = await getSettings()
+      const transport = this.getTransport(email)
+
+      const message = {
+        from: `${email.fromName || 'Zakazivač'} <${email.fromEmail || this.fromEmail}>`,
         to: [options.to],
         subject: options.subject,
         html: options.html,
         text: options.text || this.stripHtml(options.html),
+        attachments: options.attachments,
       }
 
-      console.log('📧 Sending email via Mailgun:', {
+      console.log('📧 Sending email:', {
+        transport: transport.name,
         to: options.to,
         subject: options.subject,
-        domain: this.domain,
       })
 
-      const result = await this.mg.messages.create(this.domain, messageData)
-      
-      console.log('✅ Email sent successfully:', result.id)
+      const messageId = await transport.send(message)
+
+      console.log('✅ Email sent successfully:', messageId)
       return true
     } catch (error) {
       console.error('❌ Failed to send email:', error)
@@ -158,6 +195,142 @@ class EmailService {
     `
   }
 
+  async sendBookingEmail(
+    to: string,
+    event: BookingEmailEvent,
+    details: BookingEmailDetails
+  ): Promise<boolean> {
+    const invite = details.calendarInvite
+    return this.sendEmail({
+      to,
+      subject: `${this.getBookingEmailSubject(event, details)} - Zakazivač`,
+      html: this.getBookingEmailTemplate(event, details),
+      attachments: invite && [{
+        filename: invite.method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+        content: invite.content,
+        contentType: `text/calendar; charset=utf-8; method=${invite.method}`,
+      }],
+    })
+  }
+
+  private getBookingEmailSubject(event: BookingEmailEvent, details: BookingEmailDetails): string {
+    const isProvider = details.recipientRole === 'provider'
+
+    switch (event) {
+      case 'created':
+        if (details.status === 'pending') {
+          return isProvider ? 'Novi zahtev za termin' : 'Zahtev za termin je poslat'
+        }
+        return isProvider ? 'Nova rezervacija' : 'Termin je potvrđen'
+      case 'approved':
+        return 'Termin je potvrđen'
+      case 'rescheduled':
+        return 'Termin je pomeren'
+      case 'cancelled':
+        return 'Termin je otkazan'
+      case 'reminder':
+        return 'Podsetnik za termin'
+      case 'waitlist_offer':
+        return 'Oslobodio se termin'
+    }
+  }
+
+  private getBookingEmailIntro(event: BookingEmailEvent, details: BookingEmailDetails): string {
+    const isProvider = details.recipientRole === 'provider'
+    const client = this.escapeHtml(details.clientName)
+
+    switch (event) {
+      case 'created':
+        if (details.status === 'pending') {
+          return isProvider
+            ? `${client} je poslao zahtev za termin. Zahtev čeka vaše odobrenje.`
+            : 'Vaš zahtev za termin je poslat. Javićemo vam kada ga pružalac usluge odobri.'
+        }
+        return isProvider
+          ? `${client} je zakazao termin.`
+          : 'Vaš termin je uspešno zakazan.'
+      case 'approved':
+        return isProvider
+          ? `Termin za ${client} je potvrđen.`
+          : 'Pružalac usluge je potvrdio vaš termin.'
+      case 'rescheduled':
+        return 'Termin je pomeren na novo vreme.'
+      case 'cancelled':
+        return 'Termin je otkazan.'
+      case 'reminder':
+        return 'Podsećamo vas na predstojeći termin.'
+      case 'waitlist_offer':
+        return 'Oslobodio se termin za koji ste na listi čekanja. Zadržan je za vas kratko vreme, potvrdite ga u pregledu termina.'
+    }
+  }
+
+  private getBookingEmailTemplate(event: BookingEmailEvent, details: BookingEmailDetails): string {
+    const rows: [string, string | undefined][] = [
+      ['Usluga', details.serviceName],
+      [details.recipientRole === 'provider' ? 'Klijent' : 'Pružalac usluge',
+        details.recipientRole === 'provider' ? details.clientName : details.providerName],
+      [event === 'rescheduled' ? 'Novo vreme' : 'Vreme', details.start],
+      ['Prethodno vreme', event === 'rescheduled' ? details.previousStart : undefined],
+      ['Adresa', details.address],
+      ['Napomena', details.note],
+      ['Razlog', details.reason],
+      ['Zadržano do', details.holdUntil],
+    ]
+
+    const detailRows = rows
+      .filter(([, value]) => value)
+      .map(([label, value]) => `
+              <tr>
+                <td style="padding: 6px 12px 6px 0; color: #666;">${label}</td>
+                <td style="padding: 6px 0;"><strong>${this.escapeHtml(value!)}</strong></td>
+              </tr>`)
+      .join('')
+
+    const manageUrl = `${process.env.NEXTAUTH_URL}/dashboard/${details.recipientRole === 'provider' ? 'provider/appointments' : 'client/bookings'}`
+
+    return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${this.getBookingEmailSubject(event, details)}</title>
+      </head>
+      <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f5f5f5;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 10px; overflow: hidden;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center;">
+            <div style="font-size: 28px; font-weight: bold;">📅 Zakazivač</div>
+            <p>${this.getBookingEmailSubject(event, details)}</p>
+          </div>
+
+          <div style="padding: 40px 30px;">
+            <h2>Zdravo ${this.escapeHtml(details.recipientName)}!</h2>
+
+            <p>${this.getBookingEmailIntro(event, details)}</p>
+
+            <table style="border-collapse: collapse; margin: 20px 0;">${detailRows}
+            </table>
+
+            <p><a href="${manageUrl}" style="color: #667eea;">Pregled termina</a></p>
+          </div>
+
+          <div style="background-color: #f8f9fa; padding: 20px 30px; text-align: center; color: #666; border-top: 1px solid #eee;">
+            <p>Ovaj email je automatski generisan, molimo vas ne odgovarajte.</p>
+          </div>
+        </div>
+      </body>
+    </html>
+    `
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+
   private stripHtml(html: string): string {
     return html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim()
   }
@@ -0,0 +1,52 @@
+import { JobType } from '@/models/Job'
+import { sendDueReminders } from '@/services/booking/bookingNotifications'
+import { reconcileCalendarSync, syncBookingWithCalendar } from '@/services/calendar/bookingSync'
+import {
+  pullAllGoogleChanges,
+  pullGoogleChangesForIntegration,
+  renewGoogleWatches
+} from '@/services/calendar/googlePushSync'
+import { JobHandlers, cleanupJobs } from '@/services/jobs/jobQueue'
+import { expireWaitlistHold } from '@/services/waitlist/waitlist'
+
+export const JOB_HANDLERS: JobHandlers = {
+  'booking.send-reminders': async () => {
+    const sent = await sendDueReminders()
+    if (sent > 0) {
+      console.log('📧 Booking reminders sent:', sent)
+    }
+  },
+  'calendar.sync-booking': async (payload) => {
+    await syncBookingWithCalendar(String(payload.bookingId))
+  },
+  'calendar.reconcile-sync': async () => {
+    const result = await reconcileCalendarSync()
+    if (result.checked > 0) {
+      console.log('📅 Calendar sync reconciliation:', result)
+    }
+  },
+  'calendar.pull-changes': async (payload) => {
+    await pullGoogleChangesForIntegration(String(payload.integrationId))
+  },
+  'calendar.renew-watches': async () => {
+    const renewed = await renewGoogleWatches()
+    if (renewed > 0) {
+      console.log('📅 Google Calendar watch channels renewed:', renewed)
+    }
+    await pullAllGoogleChanges()
+  },
+  'jobs.cleanup': async () => {
+    await cleanupJobs()
+  },
+  'waitlist.expire-hold': async (payload) => {
+    await expireWaitlistHold(String(payload.entryId))
+  },
+}
+
+// Poslovi koje worker zakazuje pri pokretanju i ponavlja u zadatom intervalu
+export const RECURRING_JOBS: { type: JobType; intervalMs: number }[] = [
+  { type: 'booking.send-reminders', intervalMs: 5 * 60 * 1000 },
+  { type: 'calendar.reconcile-sync', intervalMs: 15 * 60 * 1000 },
+  { type: 'calendar.renew-watches', intervalMs: 60 * 60 * 1000 },
+  { type: 'jobs.cleanup', intervalMs: 24 * 60 * 60 * 1000 },
+]
@@ -0,0 +1,185 @@
+import { addMilliseconds, subDays } from 'date-fns'
+import Job, { IJob, JobType } from '@/models/Job'
+
+// Koliko dugo worker drži posao pre nego što ga drugi worker može preuzeti
+const LOCK_DURATION_MS = 5 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+type JobDocument = InstanceType<typeof Job>
+
+export type JobHandler = (payload: Record<string, unknown>, job: IJob) => Promise<void>
+
+export type JobHandlers = Partial<Record<JobType, JobHandler>>
+
+export interface EnqueueJobOptions {
+  runAt?: Date
+  maxAttempts?: number
+  uniqueKey?: string
+  repeatIntervalMs?: number
+}
+
+/**
+ * Eksponencijalni backoff: 30s, 1min, 2min... najviše 1h
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Dodaje posao u red
+ * Ako je zadat uniqueKey i isti posao već čeka ili se izvršava, vraća postojeći
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: EnqueueJobOptions = {}
+): Promise<JobDocument> {
+  const fields = {
+    type,
+    payload,
+    status: 'queued',
+    runAt: options.runAt || new Date(),
+    attempts: 0,
+    maxAttempts: options.maxAttempts || 5,
+    repeatIntervalMs: options.repeatIntervalMs,
+  }
+
+  if (!options.uniqueKey) {
+    return Job.create(fields)
+  }
+
+  // Unique indeks na uniqueKey mora postojati pre prvog upsert-a
+  await Job.init()
+
+  try {
+    return await Job.findOneAndUpdate(
+      { uniqueKey: options.uniqueKey },
+      { $setOnInsert: { ...fields, uniqueKey: options.uniqueKey } },
+      { upsert: true, new: true }
+    )
+  } catch (error) {
+    // Dva istovremena upserta, drugi dobija duplicate key
+    if ((error as { code?: number })?.code === 11000) {
+      return Job.findOne({ uniqueKey: options.uniqueKey })
+    }
+    throw error
+  }
+}
+
+/**
+ * Periodični posao postoji samo jednom, bez obzira koliko workera ga zakazuje
+ */
+export function ensureRecurringJob(type: JobType, intervalMs: number, now: Date = new Date()) {
+  return enqueueJob(type, {}, {
+    runAt: now,
+    uniqueKey: `recurring:${type}`,
+    repeatIntervalMs: intervalMs,
+  })
+}
+
+/**
+ * Atomski preuzima najstariji dospeli posao
+ * Posao čiji je lock istekao (worker je pao) može da preuzme drugi worker
+ */
+export async function claimNextJob(workerId: string, now: Date = new Date()): Promise<JobDocument | null> {
+  return Job.findOneAndUpdate(
+    {
+      runAt: { $lte: now },
+      $or: [
+        { status: 'queued' },
+        { status: 'running', lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: 'running',
+        lockedBy: workerId,
+        lockedUntil: addMilliseconds(now, LOCK_DURATION_MS),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, new: true }
+  )
+}
+
+async function completeJob(job: JobDocument, workerId: string, now: Date): Promise<void> {
+  const update = job.repeatIntervalMs
+    ? {
+        $set: { status: 'queued', runAt: addMilliseconds(now, job.repeatIntervalMs), attempts: 0 },
+        $unset: { lockedBy: 1, lockedUntil: 1, lastError: 1 },
+      }
+    : {
+        $set: { status: 'completed', completedAt: now },
+        $unset: { lockedBy: 1, lockedUntil: 1, uniqueKey: 1 },
+      }
+
+  // Upis samo ako lock nije u međuvremenu preuzeo drugi worker
+  await Job.updateOne({ _id: job._id, lockedBy: workerId }, update)
+}
+
+async function failJob(job: JobDocument, workerId: string, error: unknown, now: Date): Promise<void> {
+  const lastError = error instanceof Error ? error.message : String(error)
+
+  let update
+  if (job.attempts < job.maxAttempts) {
+    update = {
+      $set: { status: 'queued', runAt: addMilliseconds(now, getRetryDelayMs(job.attempts)), lastError },
+      $unset: { lockedBy: 1, lockedUntil: 1 },
+    }
+  } else if (job.repeatIntervalMs) {
+    // Periodični posao se ne gasi, sledeći put kreće od početka
+    update = {
+      $set: { status: 'queued', runAt: addMilliseconds(now, job.repeatIntervalMs), attempts: 0, lastError },
+      $unset: { lockedBy: 1, lockedUntil: 1 },
+    }
+  } else {
+    update = {
+      $set: { status: 'failed', completedAt: now, lastError },
+      $unset: { lockedBy: 1, lockedUntil: 1, uniqueKey: 1 },
+    }
+  }
+
+  await Job.updateOne({ _id: job._id, lockedBy: workerId }, update)
+}
+
+/**
+ * Preuzima i izvršava jedan dospeli posao
+ * Vraća false ako nije bilo posla
+ */
+export async function runNextJob(
+  handlers: JobHandlers,
+  workerId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const job = await claimNextJob(workerId, now)
+  if (!job) {
+    return false
+  }
+
+  const handler = handlers[job.type as JobType]
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`)
+    }
+    await handler(job.payload || {}, job)
+    await completeJob(job, workerId, now)
+  } catch (error) {
+    console.error('❌ Job failed:', { id: job._id.toString(), type: job.type, attempt: job.attempts, error })
+    await failJob(job, workerId, error, now)
+  }
+
+  return true
+}
+
+/**
+ * Briše završene poslove starije od zadatog broja dana
+ */
+export async function cleanupJobs(olderThanDays: number = 7, now: Date = new Date()): Promise<number> {
+  const result = await Job.deleteMany({
+    status: { $in: ['completed', 'failed'] },
+    completedAt: { $lt: subDays(now, olderThanDays) },
+  })
+  return result.deletedCount
+}
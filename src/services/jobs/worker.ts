@@ -0,0 +1,49 @@
+import os from 'os'
+import { ensureRecurringJob, runNextJob } from '@/services/jobs/jobQueue'
+import { JOB_HANDLERS, RECURRING_JOBS } from '@/services/jobs/jobHandlers'
+
+export interface WorkerOptions {
+  workerId?: string
+  pollIntervalMs?: number
+  signal?: AbortSignal
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+/**
+ * Izvršava poslove iz reda dok signal ne bude prekinut
+ * Više workera (i više Next.js instanci) može raditi istovremeno, svaki posao preuzima samo jedan
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId || `${os.hostname()}:${process.pid}`
+  const pollIntervalMs = options.pollIntervalMs || 5000
+
+  for (const { type, intervalMs } of RECURRING_JOBS) {
+    await ensureRecurringJob(type, intervalMs)
+  }
+
+  console.log('👷 Job worker started:', { workerId, pollIntervalMs })
+
+  while (!options.signal?.aborted) {
+    try {
+      const processed = await runNextJob(JOB_HANDLERS, workerId)
+      if (!processed) {
+        await sleep(pollIntervalMs, options.signal)
+      }
+    } catch (error) {
+      // Npr. prekid veze sa bazom, worker nastavlja posle pauze
+      console.error('❌ Job worker error:', error)
+      await sleep(pollIntervalMs, options.signal)
+    }
+  }
+
+  console.log('👷 Job worker stopped:', { workerId })
+}
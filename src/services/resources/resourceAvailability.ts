@@ -0,0 +1,94 @@
+import mongoose from 'mongoose'
+import Booking from '@/models/Booking'
+import Resource from '@/models/Resource'
+import connectDB from '@/lib/mongodb'
+import { getActiveHolds } from '@/services/waitlist/waitlistHolds'
+
+export interface ResourceUsage {
+  resourceId: string
+  name: string
+  quantity: number
+  // Termini koji tog dana već koriste resurs
+  busyIntervals: { start: Date; end: Date }[]
+}
+
+/**
+ * Najveći broj intervala koji se istovremeno preklapaju unutar [start, end)
+ */
+function maxConcurrentUsage(intervals: { start: Date; end: Date }[], start: Date, end: Date): number {
+  const events: [number, number][] = []
+  for (const interval of intervals) {
+    if (interval.start < end && interval.end > start) {
+      events.push([Math.max(interval.start.getTime(), start.getTime()), 1])
+      events.push([Math.min(interval.end.getTime(), end.getTime()), -1])
+    }
+  }
+
+  // Termin koji se završava u istom trenutku kada drugi počinje oslobađa jedinicu pre njega
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+
+  let current = 0
+  let max = 0
+  for (const [, delta] of events) {
+    current += delta
+    max = Math.max(max, current)
+  }
+  return max
+}
+
+/**
+ * Da li svaki potreban resurs ima slobodnu jedinicu tokom celog termina
+ */
+export function hasFreeResources(slot: { start: Date; end: Date }, usage: ResourceUsage[]): boolean {
+  return usage.every(resource => maxConcurrentUsage(resource.busyIntervals, slot.start, slot.end) < resource.quantity)
+}
+
+/**
+ * Zauzetost resursa koje usluga traži, za interval jednog lokalnog dana
+ * Termini zadržani za klijente sa liste čekanja zauzimaju resurse kao i rezervacije
+ * Vraća null ako neki resurs više nije aktivan, tada usluga nema slobodnih termina
+ */
+export async function getResourceUsage(
+  resourceIds: (string | mongoose.Types.ObjectId)[] | undefined,
+  day: { start: Date; end: Date },
+  options: { excludeBookingId?: string; waitlistEntryId?: string; now?: Date } = {}
+): Promise<ResourceUsage[] | null> {
+  if (!resourceIds?.length) {
+    return []
+  }
+
+  await connectDB()
+
+  const ids = [...new Set(resourceIds.map(String))]
+  const [resources, bookings, holds] = await Promise.all([
+    Resource.find({ _id: { $in: ids }, isActive: true }).select('name quantity'),
+    Booking.find({
+      resourceIds: { $in: ids },
+      start: { $lt: day.end },
+      end: { $gt: day.start },
+      status: { $in: ['confirmed', 'pending'] },
+      ...(options.excludeBookingId && { _id: { $ne: options.excludeBookingId } }),
+    }).select('start end serviceId resourceIds'),
+    getActiveHolds({ 'offer.resourceIds': { $in: ids } }, day, options.waitlistEntryId, options.now),
+  ])
+
+  if (resources.length < ids.length) {
+    return null
+  }
+
+  // Učesnici istog grupnog termina dele jednu jedinicu resursa
+  const sessions = new Map<string, { start: Date; end: Date; resourceIds: (string | mongoose.Types.ObjectId)[] }>()
+  type Usage = { start: Date; end: Date; serviceId: unknown; resourceIds: (string | mongoose.Types.ObjectId)[] }
+  for (const booking of [...bookings, ...holds] as Usage[]) {
+    sessions.set(`${String(booking.serviceId)}|${booking.start.getTime()}`, booking)
+  }
+
+  return resources.map((resource: { _id: mongoose.Types.ObjectId; name: string; quantity: number }) => ({
+    resourceId: resource._id.toString(),
+    name: resource.name,
+    quantity: resource.quantity,
+    busyIntervals: [...sessions.values()]
+      .filter(booking => booking.resourceIds.some(id => id.toString() === resource._id.toString()))
+      .map(booking => ({ start: booking.start, end: booking.end })),
+  }))
+}
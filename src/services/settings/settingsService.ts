@@ -0,0 +1,255 @@
+import mongoose from 'mongoose'
+import { decryptSecret, encryptSecret } from '@/lib/encryption'
+import connectDB from '@/lib/mongodb'
+import Settings, { ISettings, PLATFORM_SETTINGS_KEY } from '@/models/Settings'
+import SettingsRevision, { ISettingsChange } from '@/models/SettingsRevision'
+import {
+  PlatformSettings,
+  PlatformSettingsUpdate,
+  SECRET_MASK,
+  SECRET_SETTINGS,
+  SETTINGS_SECTIONS,
+  SettingsSection,
+  getDefaultSettings,
+  platformSettingsSchema
+} from '@/lib/settings'
+
+// Podešavanja se čitaju pri svakom zakazivanju, pa se kratko keširaju u memoriji
+const CACHE_TTL_MS = 60000
+
+export interface VersionedSettings {
+  settings: PlatformSettings
+  version: number
+  updatedAt?: Date
+  updatedBy?: string
+}
+
+let cache: { value: VersionedSettings; expiresAt: number } | null = null
+
+export class SettingsVersionConflictError extends Error {
+  constructor(public currentVersion: number) {
+    super('Settings were changed by someone else, reload and try again')
+    this.name = 'SettingsVersionConflictError'
+  }
+}
+
+export class SettingsValidationError extends Error {
+  constructor(public issues: unknown[]) {
+    super('Invalid settings')
+    this.name = 'SettingsValidationError'
+  }
+}
+
+function isSecret(section: string, field: string): boolean {
+  return SECRET_SETTINGS.some(secret => secret.section === section && secret.field === field)
+}
+
+/**
+ * Tajne (SMTP lozinka) su u bazi šifrovane kao i kredencijali integracija (lib/encryption)
+ */
+function mapSecretSettings<T extends Partial<Record<SettingsSection, unknown>>>(
+  settings: T,
+  map: (value: string) => string
+): T {
+  const result: Partial<Record<SettingsSection, unknown>> = { ...settings }
+  for (const { section, field } of SECRET_SETTINGS) {
+    const values = result[section] as Record<string, unknown> | undefined
+    const value = values?.[field]
+    if (typeof value === 'string' && value) {
+      result[section] = { ...values, [field]: map(value) }
+    }
+  }
+  return result as T
+}
+
+function decryptStoredSecret(value: string): string {
+  try {
+    return decryptSecret(value)
+  } catch (error) {
+    // Bez ključa tajna se tretira kao nepodešena, ostala podešavanja i dalje rade
+    console.error('Error decrypting a settings secret:', error instanceof Error ? error.message : error)
+    return ''
+  }
+}
+
+/**
+ * Sačuvane sekcije se spajaju preko podrazumevanih
+ * Sekcija koja ne prolazi validaciju (npr. posle promene šeme) vraća se na podrazumevanu
+ */
+function mergeStoredSettings(stored: Partial<Record<SettingsSection, unknown>> | null): PlatformSettings {
+  const defaults = getDefaultSettings()
+  if (!stored) {
+    return defaults
+  }
+
+  const merged = { ...defaults } as Record<SettingsSection, unknown>
+  for (const section of SETTINGS_SECTIONS) {
+    const candidate = { ...defaults[section], ...(stored[section] as object || {}) }
+    const result = platformSettingsSchema.shape[section].safeParse(candidate)
+    merged[section] = result.success ? result.data : defaults[section]
+  }
+
+  return merged as PlatformSettings
+}
+
+export function clearSettingsCache(): void {
+  cache = null
+}
+
+/**
+ * Trenutna podešavanja sa verzijom (za optimistic concurrency u admin panelu)
+ */
+export async function getVersionedSettings(): Promise<VersionedSettings> {
+  if (cache && cache.expiresAt > Date.now()) {
+    return cache.value
+  }
+
+  await connectDB()
+  const doc = await Settings.findOne({ key: PLATFORM_SETTINGS_KEY }).lean<ISettings>()
+
+  const value: VersionedSettings = {
+    settings: mergeStoredSettings(doc && mapSecretSettings(doc, decryptStoredSecret)),
+    version: doc?.version || 0,
+    updatedAt: doc?.updatedAt,
+    updatedBy: doc?.updatedBy?.toString(),
+  }
+
+  cache = { value, expiresAt: Date.now() + CACHE_TTL_MS }
+  return value
+}
+
+/**
+ * Tipizovan pristup podešavanjima platforme na serveru
+ */
+export async function getSettings(): Promise<PlatformSettings> {
+  return (await getVersionedSettings()).settings
+}
+
+function diffSettings(current: PlatformSettings, next: PlatformSettings): ISettingsChange[] {
+  const changes: ISettingsChange[] = []
+
+  for (const section of SETTINGS_SECTIONS) {
+    const before = current[section] as Record<string, unknown>
+    const after = next[section] as Record<string, unknown>
+
+    for (const field of Object.keys(after)) {
+      if (JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+        continue
+      }
+      changes.push({
+        section,
+        field,
+        // Tajne se ne upisuju u istoriju
+        from: isSecret(section, field) ? SECRET_MASK : before[field],
+        to: isSecret(section, field) ? SECRET_MASK : after[field],
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Primenjuje delimičnu izmenu podešavanja i upisuje novu verziju sa listom promena
+ * Ako je prosleđen expectedVersion a u bazi je novija verzija, baca SettingsVersionConflictError
+ */
+export async function updateSettings(
+  update: PlatformSettingsUpdate,
+  options: { actorId?: string; actorEmail?: string; expectedVersion?: number } = {}
+): Promise<VersionedSettings & { changes: ISettingsChange[] }> {
+  await connectDB()
+  // Unique indeks na key mora postojati pre prvog upsert-a
+  await Settings.init()
+
+  clearSettingsCache()
+  const current = await getVersionedSettings()
+
+  if (options.expectedVersion !== undefined && options.expectedVersion !== current.version) {
+    throw new SettingsVersionConflictError(current.version)
+  }
+
+  const candidate = structuredClone(current.settings) as Record<SettingsSection, Record<string, unknown>>
+  for (const section of SETTINGS_SECTIONS) {
+    const sectionUpdate = update[section] as Record<string, unknown> | undefined
+    if (!sectionUpdate) continue
+
+    for (const [field, value] of Object.entries(sectionUpdate)) {
+      // Maskirana tajna iz forme znači "bez promene"
+      if (value === undefined || (isSecret(section, field) && value === SECRET_MASK)) continue
+      candidate[section][field] = value
+    }
+  }
+
+  const parsed = platformSettingsSchema.safeParse(candidate)
+  if (!parsed.success) {
+    throw new SettingsValidationError(parsed.error.issues)
+  }
+
+  const changes = diffSettings(current.settings, parsed.data)
+  if (changes.length === 0) {
+    return { ...current, changes }
+  }
+
+  const actorId = options.actorId && mongoose.isValidObjectId(options.actorId)
+    ? new mongoose.Types.ObjectId(options.actorId)
+    : undefined
+
+  // Upisuju se samo sekcije koje su se promenile
+  const changedSections: Partial<PlatformSettings> = {}
+  for (const change of changes) {
+    const section = change.section as SettingsSection
+    Object.assign(changedSections, { [section]: parsed.data[section] })
+  }
+
+  let doc
+  try {
+    // Upis uspeva samo ako se verzija u međuvremenu nije promenila
+    doc = await Settings.findOneAndUpdate(
+      { key: PLATFORM_SETTINGS_KEY, version: current.version },
+      {
+        $set: { ...mapSecretSettings(changedSections, encryptSecret), updatedBy: actorId },
+        $inc: { version: 1 },
+      },
+      { new: true, upsert: current.version === 0 }
+    )
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) {
+      throw new SettingsVersionConflictError(current.version)
+    }
+    throw error
+  }
+
+  if (!doc) {
+    clearSettingsCache()
+    throw new SettingsVersionConflictError((await getVersionedSettings()).version)
+  }
+
+  await SettingsRevision.create({
+    version: doc.version,
+    changes,
+    changedBy: actorId,
+    changedByEmail: options.actorEmail,
+  })
+
+  clearSettingsCache()
+
+  return {
+    settings: parsed.data,
+    version: doc.version,
+    updatedAt: doc.updatedAt,
+    updatedBy: actorId?.toString(),
+    changes,
+  }
+}
+
+/**
+ * Poslednje izmene podešavanja, od najnovije
+ */
+export async function getSettingsHistory(limit: number = 20) {
+  await connectDB()
+  return SettingsRevision.find()
+    .sort({ version: -1 })
+    .limit(limit)
+    .populate('changedBy', 'name email')
+    .lean()
+}
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose'
+import StaffMember, { IStaffMember } from '@/models/StaffMember'
+import connectDB from '@/lib/mongodb'
+
+type StaffMemberDocument = InstanceType<typeof StaffMember>
+
+/**
+ * Da li zaposleni radi uslugu; prazna lista usluga znači sve usluge providera
+ */
+export function performsService(member: Pick<IStaffMember, 'serviceIds'>, serviceId: string): boolean {
+  return !member.serviceIds?.length ||
+    member.serviceIds.some(id => id.toString() === serviceId)
+}
+
+/**
+ * Aktivni zaposleni providera koji rade sve usluge termina, sortirani po imenu
+ * Vraća null ako provider nema zaposlene, tada se termin zakazuje kod samog providera
+ */
+export async function getBookableStaff(
+  providerId: string | mongoose.Types.ObjectId,
+  serviceIds: string[]
+): Promise<StaffMemberDocument[] | null> {
+  await connectDB()
+
+  const staff: StaffMemberDocument[] = await StaffMember.find({ providerId, isActive: true }).sort({ name: 1 })
+  if (staff.length === 0) {
+    return null
+  }
+
+  return staff.filter(member => serviceIds.every(serviceId => performsService(member, serviceId)))
+}
+
+/**
+ * Zaposleni koji pripada provideru, ili null (i za neispravan ID)
+ */
+export async function findProviderStaffMember(
+  providerId: string | mongoose.Types.ObjectId,
+  staffId: string
+): Promise<StaffMemberDocument | null> {
+  if (!mongoose.isValidObjectId(staffId)) {
+    return null
+  }
+
+  await connectDB()
+  return StaffMember.findOne({ _id: staffId, providerId })
+}
@@ -0,0 +1,192 @@
+import { addMinutes } from 'date-fns'
+import mongoose from 'mongoose'
+import WaitlistEntry, { IWaitlistEntry } from '@/models/WaitlistEntry'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import connectDB from '@/lib/mongodb'
+import { getSettings } from '@/services/settings/settingsService'
+import { withProviderBookingLock } from '@/services/booking/bookingLock'
+import { notifyWaitlistOffer } from '@/services/booking/bookingNotifications'
+import {
+  generateAvailableSlots,
+  getLocalDateString,
+  getProviderTimezone,
+  warmCalendarBusyTimes
+} from '@/services/calendar/slotGeneration'
+import { enqueueJob } from '@/services/jobs/jobQueue'
+
+type WaitlistEntryDocument = InstanceType<typeof WaitlistEntry>
+
+// Najduža usluga; termin koji počinje ranije ne može da upadne u oslobođeno vreme
+const MAX_SERVICE_MINUTES = 480
+
+/**
+ * Da li klijentu sa liste čekanja odgovara termin sa ovim početkom
+ * from = to je tačan početak, inače opseg [from, to)
+ */
+export function wantsSlot(entry: Pick<IWaitlistEntry, 'from' | 'to'>, start: Date): boolean {
+  if (entry.from.getTime() === entry.to.getTime()) {
+    return start.getTime() === entry.from.getTime()
+  }
+  return start >= entry.from && start < entry.to
+}
+
+/**
+ * Nudi oslobođeno vreme klijentima sa liste čekanja, po redosledu prijave
+ * Svaki dobija prvi slobodan termin iz svog opsega koji pada u oslobođeno vreme,
+ * zadržan waitlistHoldMinutes; zadržan termin je zauzet za sve ostale
+ * Ponude idu pod lock-om providera kao i rezervacije, pa se isti termin ne može istovremeno zauzeti
+ * Greške se samo loguju, otkazivanje ne sme da padne zbog liste čekanja
+ * Vraća broj poslatih ponuda
+ */
+export async function offerFreedTime(
+  providerId: string,
+  freed: { start: Date; end: Date },
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    await connectDB()
+
+    const providerProfile = await ProviderProfile.findById(providerId)
+    if (!providerProfile) {
+      return 0
+    }
+
+    const { booking: { waitlistHoldMinutes } } = await getSettings()
+    const date = getLocalDateString(freed.start, getProviderTimezone(providerProfile))
+
+    const waitingFilter = {
+      providerId,
+      status: 'waiting',
+      from: { $lt: freed.end },
+      to: { $gte: addMinutes(freed.start, -MAX_SERVICE_MINUTES) },
+    }
+
+    // Spoljni kalendari se čitaju pre lock-a, pod lock-om samo baza
+    const waiting = await WaitlistEntry.find(waitingFilter).select('serviceId staffId')
+    for (const entry of waiting) {
+      const service = await Service.findById(entry.serviceId)
+      if (service) {
+        await warmCalendarBusyTimes(providerProfile, service, [freed.start], { staffId: entry.staffId?.toString() })
+      }
+    }
+
+    const offered: WaitlistEntryDocument[] = await withProviderBookingLock(providerId, async () => {
+      const entries = await WaitlistEntry.find(waitingFilter).sort({ createdAt: 1 })
+
+      const newOffers: WaitlistEntryDocument[] = []
+      for (const entry of entries) {
+        const service = await Service.findOne({ _id: entry.serviceId, isActive: true })
+        if (!service) {
+          continue
+        }
+
+        const slots = await generateAvailableSlots(providerProfile, service, date, {
+          staffId: entry.staffId?.toString(),
+          cachedCalendarOnly: true,
+          now,
+        })
+        const slot = slots.find(candidate =>
+          candidate.start < freed.end && candidate.end > freed.start && wantsSlot(entry, candidate.start))
+        if (!slot) {
+          continue
+        }
+
+        entry.status = 'offered'
+        entry.offer = {
+          start: slot.start,
+          end: slot.end,
+          staffId: slot.staffIds?.[0] ? new mongoose.Types.ObjectId(slot.staffIds[0]) : undefined,
+          resourceIds: service.resourceIds || [],
+          expiresAt: addMinutes(now, waitlistHoldMinutes),
+        }
+        await entry.save()
+        newOffers.push(entry)
+      }
+      return newOffers
+    })
+
+    for (const entry of offered) {
+      await enqueueJob('waitlist.expire-hold', { entryId: entry._id.toString() }, {
+        runAt: entry.offer!.expiresAt,
+        uniqueKey: `waitlist-hold:${entry._id}`,
+      })
+      await notifyWaitlistOffer(entry)
+    }
+
+    return offered.length
+  } catch (error) {
+    console.error('Error offering freed time to the waitlist:', error)
+    return 0
+  }
+}
+
+/**
+ * Zatvara istekla zadržavanja i nudi termin sledećem na listi
+ * Vraća false ako je klijent u međuvremenu preuzeo termin ili napustio listu
+ */
+export async function expireWaitlistHold(entryId: string, now: Date = new Date()): Promise<boolean> {
+  await connectDB()
+
+  const entry = await WaitlistEntry.findOneAndUpdate(
+    { _id: entryId, status: 'offered', 'offer.expiresAt': { $lte: now } },
+    { $set: { status: 'expired' } },
+    { new: true }
+  )
+  if (!entry?.offer) {
+    return false
+  }
+
+  await offerFreedTime(entry.providerId.toString(), entry.offer, now)
+  return true
+}
+
+/**
+ * Klijent napušta listu čekanja; zadržan termin odmah ide sledećem
+ */
+export async function leaveWaitlist(entry: WaitlistEntryDocument, now: Date = new Date()): Promise<void> {
+  const heldOffer = entry.status === 'offered' ? entry.offer : undefined
+
+  entry.status = 'cancelled'
+  await entry.save()
+
+  if (heldOffer) {
+    await offerFreedTime(entry.providerId.toString(), heldOffer, now)
+  }
+}
+
+/**
+ * Važeća ponuda sa liste čekanja koju klijent preuzima rezervacijom
+ */
+export async function findClaimableOffer(
+  entryId: string,
+  clientId: string,
+  now: Date = new Date()
+): Promise<WaitlistEntryDocument | null> {
+  if (!mongoose.isValidObjectId(entryId)) {
+    return null
+  }
+  return WaitlistEntry.findOne({
+    _id: entryId,
+    clientId,
+    status: 'offered',
+    'offer.expiresAt': { $gt: now },
+  })
+}
+
+/**
+ * Preuzima ponudu za novu rezervaciju, samo ako je još važeća
+ * Uslovni upis, da istek zadržavanja (expireWaitlistHold) i preuzimanje ne prepišu jedno drugo
+ */
+export async function claimWaitlistOffer(
+  entryId: mongoose.Types.ObjectId | string,
+  bookingId: mongoose.Types.ObjectId,
+  now: Date = new Date()
+): Promise<boolean> {
+  const claimed = await WaitlistEntry.findOneAndUpdate(
+    { _id: entryId, status: 'offered', 'offer.expiresAt': { $gt: now } },
+    { $set: { status: 'booked', bookingId } },
+    { new: true }
+  )
+  return !!claimed
+}
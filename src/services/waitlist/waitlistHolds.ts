@@ -0,0 +1,42 @@
+import mongoose from 'mongoose'
+import WaitlistEntry from '@/models/WaitlistEntry'
+
+export interface WaitlistHold {
+  serviceId: string
+  staffId?: string
+  resourceIds: string[]
+  start: Date
+  end: Date
+}
+
+/**
+ * Termini zadržani za klijente sa liste čekanja koji se preklapaju sa intervalom
+ * Dok zadržavanje ne istekne termin je zauzet za sve ostale
+ * ignoreEntryId je zadržavanje koje klijent upravo preuzima, a now trenutak za koji se računa isticanje
+ */
+export async function getActiveHolds(
+  filter: Record<string, unknown>,
+  interval: { start: Date; end: Date },
+  ignoreEntryId?: string,
+  now: Date = new Date()
+): Promise<WaitlistHold[]> {
+  const entries = await WaitlistEntry.find({
+    ...filter,
+    status: 'offered',
+    'offer.expiresAt': { $gt: now },
+    'offer.start': { $lt: interval.end },
+    'offer.end': { $gt: interval.start },
+    ...(ignoreEntryId && { _id: { $ne: ignoreEntryId } }),
+  }).select('serviceId offer')
+
+  return entries.map((entry: {
+    serviceId: mongoose.Types.ObjectId
+    offer: { start: Date; end: Date; staffId?: mongoose.Types.ObjectId; resourceIds?: mongoose.Types.ObjectId[] }
+  }) => ({
+    serviceId: entry.serviceId.toString(),
+    staffId: entry.offer.staffId?.toString(),
+    resourceIds: (entry.offer.resourceIds || []).map(id => id.toString()),
+    start: entry.offer.start,
+    end: entry.offer.end,
+  }))
+}
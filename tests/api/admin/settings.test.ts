@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { GET, PUT } from '@/app/api/admin/settings/route'
+import { clearSettingsCache } from '@/services/settings/settingsService'
+import { SECRET_MASK } from '@/lib/settings'
+import SettingsRevision from '@/models/SettingsRevision'
+import User from '@/models/User'
+import { createMockRequest } from '../../utils/testHelpers'
+
+// Mock adminAuth completely - avoid NextAuth entirely
+jest.mock('@/lib/adminAuth', () => ({
+  requireAdminAuth: jest.fn(),
+}))
+
+// Mock MongoDB connection
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const mockRequireAdminAuth = require('@/lib/adminAuth').requireAdminAuth
+
+describe('/api/admin/settings', () => {
+  let adminUser: any
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    clearSettingsCache()
+
+    adminUser = await User.create({
+      email: 'admin@example.com',
+      name: 'Admin User',
+      roles: ['admin'],
+      emailVerified: true,
+    })
+
+    mockRequireAdminAuth.mockResolvedValue({
+      id: adminUser._id.toString(),
+      email: adminUser.email,
+      name: adminUser.name,
+      roles: ['admin']
+    })
+  })
+
+  const putSettings = (body: any) => PUT(createMockRequest({
+    method: 'PUT',
+    url: 'http://localhost:3000/api/admin/settings',
+    body,
+  }))
+
+  describe('GET /api/admin/settings', () => {
+    it('should return settings grouped by section with version', async () => {
+      const response = await GET(createMockRequest({ method: 'GET' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.version).toBe(0)
+      expect(data.settings.booking.maxAdvanceBookingDays).toBe(90)
+      expect(data.settings.application.appName).toBeDefined()
+    })
+
+    it('should return 403 for non-admin user', async () => {
+      mockRequireAdminAuth.mockRejectedValue(new Error('Forbidden - Admin access required'))
+
+      const response = await GET(createMockRequest({ method: 'GET' }))
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('PUT /api/admin/settings', () => {
+    it('should save settings, bump the version and record the change', async () => {
+      const response = await putSettings({
+        settings: { booking: { maxAdvanceBookingDays: 14 } },
+        version: 0,
+      })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.version).toBe(1)
+      expect(data.changes).toEqual([
+        { section: 'booking', field: 'maxAdvanceBookingDays', from: 90, to: 14 },
+      ])
+
+      const revision = await SettingsRevision.findOne({ version: 1 })
+      expect(revision?.changedBy?.toString()).toBe(adminUser._id.toString())
+
+      const getResponse = await GET(createMockRequest({ method: 'GET' }))
+      const getData = await getResponse.json()
+      expect(getData.settings.booking.maxAdvanceBookingDays).toBe(14)
+      expect(getData.version).toBe(1)
+    })
+
+    it('should mask the SMTP password in responses', async () => {
+      const response = await putSettings({ settings: { email: { smtpPassword: 'secret' } } })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.settings.email.smtpPassword).toBe(SECRET_MASK)
+    })
+
+    it('should return 400 for invalid values', async () => {
+      const response = await putSettings({
+        settings: { booking: { maxAdvanceBookingDays: 'soon' } },
+      })
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Validation failed')
+    })
+
+    it('should return 400 for unknown sections', async () => {
+      const response = await putSettings({ settings: { payments: { enabled: true } } })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 409 when saving against an outdated version', async () => {
+      await putSettings({ settings: { application: { appName: 'First' } }, version: 0 })
+
+      const response = await putSettings({ settings: { application: { appName: 'Second' } }, version: 0 })
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.code).toBe('SETTINGS_VERSION_CONFLICT')
+      expect(data.currentVersion).toBe(1)
+    })
+  })
+})
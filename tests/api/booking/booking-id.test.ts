@@ -0,0 +1,389 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { addDays, addHours, addWeeks } from 'date-fns'
+import mongoose from 'mongoose'
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+import { PATCH } from '@/app/api/booking/[id]/route'
+import Booking from '@/models/Booking'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import DatabaseTestUtils from '../../utils/databaseUtils'
+import {
+  createMockAvailabilitySettings,
+  createMockGoogleIntegration,
+  createMockRequest,
+  createMockSession
+} from '../../utils/testHelpers'
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+jest.mock('@/services/calendar/googleCalendarService', () => ({
+  updateGoogleCalendarEvent: jest.fn(() => Promise.resolve(true)),
+  deleteGoogleCalendarEvent: jest.fn(() => Promise.resolve(true)),
+}))
+
+const mockGetServerSession = require('next-auth').getServerSession
+const mockUpdateGoogleCalendarEvent = require('@/services/calendar/googleCalendarService').updateGoogleCalendarEvent
+
+const TIMEZONE = 'Europe/Belgrade'
+const allDays = { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
+
+// Termin za tri dana po lokalnom vremenu providera
+const upcomingSlot = (time: string) => {
+  const date = formatInTimeZone(addDays(new Date(), 3), TIMEZONE, 'yyyy-MM-dd')
+  return fromZonedTime(`${date}T${time}:00`, TIMEZONE)
+}
+
+// NextAuth sesija nosi id kao string
+const sessionFor = (user: any) => createMockSession({ ...user.toObject(), _id: user._id.toString() })
+
+describe('/api/booking/[id]', () => {
+  let client: any
+  let providerUser: any
+  let providerProfile: any
+  let service: any
+
+  const createBooking = (overrides: Record<string, unknown> = {}) => {
+    const start = addHours(new Date(), 48)
+    return Booking.create({
+      providerId: providerProfile._id,
+      serviceId: service._id,
+      clientId: client._id,
+      start,
+      end: addHours(start, 1),
+      status: 'confirmed',
+      ...overrides,
+    })
+  }
+
+  const patchRequest = (booking: any, body: Record<string, unknown>) => PATCH(
+    createMockRequest({
+      method: 'PATCH',
+      url: `http://localhost:3000/api/booking/${booking._id}`,
+      body,
+    }),
+    { params: Promise.resolve({ id: booking._id.toString() }) }
+  )
+
+  beforeEach(async () => {
+    await DatabaseTestUtils.cleanDatabase()
+    jest.clearAllMocks()
+
+    client = await User.create({
+      email: 'client@example.com',
+      name: 'Test Client',
+      roles: ['client'],
+      emailVerified: true,
+    })
+
+    providerUser = await User.create({
+      email: 'provider@example.com',
+      name: 'Test Provider',
+      roles: ['provider'],
+      emailVerified: true,
+    })
+
+    providerProfile = await ProviderProfile.create({
+      userId: providerUser._id,
+      businessName: 'Test Business',
+      timezone: TIMEZONE,
+      isActive: true,
+      availabilitySettings: createMockAvailabilitySettings({
+        weekSchedule: {
+          monday: allDays,
+          tuesday: allDays,
+          wednesday: allDays,
+          thursday: allDays,
+          friday: allDays,
+          saturday: allDays,
+          sunday: allDays,
+        },
+      }),
+    })
+
+    service = await Service.create({
+      providerId: providerProfile._id,
+      name: 'Haircut',
+      durationMinutes: 60,
+      price: 1500,
+    })
+  })
+
+  describe('PATCH /api/booking/[id]', () => {
+    it('should let the provider approve a pending booking', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(providerUser))
+      const booking = await createBooking({ status: 'pending' })
+
+      const response = await patchRequest(booking, { action: 'approve' })
+
+      expect(response.status).toBe(200)
+      const updated = await Booking.findById(booking._id)
+      expect(updated.status).toBe('confirmed')
+      expect(updated.statusHistory).toHaveLength(1)
+      expect(updated.statusHistory[0].action).toBe('approve')
+      expect(updated.statusHistory[0].actorRole).toBe('provider')
+    })
+
+    it('should let the provider decline a pending booking', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(providerUser))
+      const booking = await createBooking({ status: 'pending' })
+
+      const response = await patchRequest(booking, { action: 'decline', reason: 'On vacation' })
+
+      expect(response.status).toBe(200)
+      const updated = await Booking.findById(booking._id)
+      expect(updated.status).toBe('cancelled')
+      expect(updated.statusHistory[0].reason).toBe('On vacation')
+    })
+
+    it('should let the client cancel their booking', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(client))
+      const booking = await createBooking()
+
+      const response = await patchRequest(booking, { action: 'cancel' })
+
+      expect(response.status).toBe(200)
+      const updated = await Booking.findById(booking._id)
+      expect(updated.status).toBe('cancelled')
+      expect(updated.statusHistory[0].actorRole).toBe('client')
+    })
+
+    it('should return 422 when the client cancels inside the cancellation window', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(client))
+      const start = addHours(new Date(), 12)
+      const booking = await createBooking({ start, end: addHours(start, 1) })
+
+      const response = await patchRequest(booking, { action: 'cancel' })
+      const responseData = await response.json()
+
+      expect(response.status).toBe(422)
+      expect(responseData.code).toBe('CANCELLATION_WINDOW_PASSED')
+      expect((await Booking.findById(booking._id)).status).toBe('confirmed')
+    })
+
+    it('should let the provider cancel inside the cancellation window', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(providerUser))
+      const start = addHours(new Date(), 12)
+      const booking = await createBooking({ start, end: addHours(start, 1) })
+
+      const response = await patchRequest(booking, { action: 'cancel' })
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should return 403 when the client tries to approve', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(client))
+      const booking = await createBooking({ status: 'pending' })
+
+      const response = await patchRequest(booking, { action: 'approve' })
+      const responseData = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(responseData.code).toBe('ACTION_NOT_ALLOWED')
+    })
+
+    it('should return 409 when completing a booking before it starts', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(providerUser))
+      const booking = await createBooking()
+
+      const response = await patchRequest(booking, { action: 'complete' })
+      const responseData = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(responseData.code).toBe('APPOINTMENT_NOT_STARTED')
+    })
+
+    it('should mark a started booking as no-show', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(providerUser))
+      const start = addHours(new Date(), -2)
+      const booking = await createBooking({ start, end: addHours(start, 1) })
+
+      const response = await patchRequest(booking, { action: 'no_show' })
+
+      expect(response.status).toBe(200)
+      expect((await Booking.findById(booking._id)).status).toBe('no_show')
+    })
+
+    it('should return 409 for a transition from a terminal status', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(providerUser))
+      const booking = await createBooking({ status: 'cancelled' })
+
+      const response = await patchRequest(booking, { action: 'approve' })
+      const responseData = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(responseData.code).toBe('INVALID_STATUS_TRANSITION')
+    })
+
+    it('should return 400 for an unknown action', async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(providerUser))
+      const booking = await createBooking()
+
+      const response = await patchRequest(booking, { action: 'delete' })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 403 for a user unrelated to the booking', async () => {
+      const stranger = await User.create({
+        email: 'stranger@example.com',
+        name: 'Stranger',
+        roles: ['client'],
+        emailVerified: true,
+      })
+      mockGetServerSession.mockResolvedValue(sessionFor(stranger))
+      const booking = await createBooking()
+
+      const response = await patchRequest(booking, { action: 'cancel' })
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('PATCH /api/booking/[id] reschedule', () => {
+    const createBookingAt = (time: string, overrides: Record<string, unknown> = {}) => {
+      const start = upcomingSlot(time)
+      return createBooking({ start, end: addHours(start, 1), ...overrides })
+    }
+
+    beforeEach(() => {
+      mockGetServerSession.mockResolvedValue(sessionFor(client))
+    })
+
+    it('should move the booking to a free slot and keep the original time', async () => {
+      const booking = await createBookingAt('10:00', { note: 'Bring photos' })
+      const newStart = upcomingSlot('14:00')
+
+      const response = await patchRequest(booking, { action: 'reschedule', start: newStart.toISOString() })
+
+      expect(response.status).toBe(200)
+      const updated = await Booking.findById(booking._id)
+      expect(updated.start.toISOString()).toBe(newStart.toISOString())
+      expect(updated.end.toISOString()).toBe(addHours(newStart, 1).toISOString())
+      expect(updated.originalStart.toISOString()).toBe(booking.start.toISOString())
+      expect(updated.note).toBe('Bring photos')
+      expect(updated.status).toBe('confirmed')
+      expect(updated.statusHistory[0].action).toBe('reschedule')
+      expect(updated.statusHistory[0].previousStart.toISOString()).toBe(booking.start.toISOString())
+    })
+
+    it('should allow moving into a slot that overlaps the booking itself', async () => {
+      const booking = await createBookingAt('10:00')
+
+      const response = await patchRequest(booking, {
+        action: 'reschedule',
+        start: upcomingSlot('10:30').toISOString(),
+      })
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should return 409 when the new slot is taken by another booking', async () => {
+      const booking = await createBookingAt('10:00')
+      await createBookingAt('14:00')
+
+      const response = await patchRequest(booking, {
+        action: 'reschedule',
+        start: upcomingSlot('14:00').toISOString(),
+      })
+
+      expect(response.status).toBe(409)
+      const unchanged = await Booking.findById(booking._id)
+      expect(unchanged.start.toISOString()).toBe(booking.start.toISOString())
+    })
+
+    it('should return 409 for a slot outside working hours', async () => {
+      const booking = await createBookingAt('10:00')
+
+      const response = await patchRequest(booking, {
+        action: 'reschedule',
+        start: upcomingSlot('20:00').toISOString(),
+      })
+
+      expect(response.status).toBe(409)
+    })
+
+    it('should return 409 when rescheduling a cancelled booking', async () => {
+      const booking = await createBookingAt('10:00', { status: 'cancelled' })
+
+      const response = await patchRequest(booking, {
+        action: 'reschedule',
+        start: upcomingSlot('14:00').toISOString(),
+      })
+      const responseData = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(responseData.code).toBe('INVALID_STATUS_TRANSITION')
+    })
+
+    it('should return 400 when the new start is missing', async () => {
+      const booking = await createBookingAt('10:00')
+
+      const response = await patchRequest(booking, { action: 'reschedule' })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should patch the existing Google Calendar event', async () => {
+      await ProviderGoogleIntegration.create(createMockGoogleIntegration({
+        _id: undefined,
+        providerId: providerProfile._id,
+      }))
+      const booking = await createBookingAt('10:00', { googleEventId: 'google-event-1' })
+      const newStart = upcomingSlot('14:00')
+
+      const response = await patchRequest(booking, { action: 'reschedule', start: newStart.toISOString() })
+
+      expect(response.status).toBe(200)
+      expect(mockUpdateGoogleCalendarEvent).toHaveBeenCalledWith(
+        expect.anything(),
+        'google-event-1',
+        { start: newStart, end: addHours(newStart, 1) }
+      )
+      const updated = await Booking.findById(booking._id)
+      expect(updated.googleEventId).toBe('google-event-1')
+      expect(updated.syncStatus).toBe('ok')
+    })
+  })
+
+  describe('PATCH /api/booking/[id] for a recurring series', () => {
+    let series: any[]
+
+    beforeEach(async () => {
+      mockGetServerSession.mockResolvedValue(sessionFor(client))
+      const seriesId = new mongoose.Types.ObjectId()
+      const first = addHours(new Date(), 48)
+      series = []
+      for (let week = 0; week < 3; week++) {
+        const start = addWeeks(first, week)
+        series.push(await createBooking({ seriesId, start, end: addHours(start, 1) }))
+      }
+    })
+
+    it('should cancel a single occurrence by default', async () => {
+      const response = await patchRequest(series[1], { action: 'cancel' })
+
+      expect(response.status).toBe(200)
+      const statuses = await Promise.all(series.map(async booking => (await Booking.findById(booking._id)).status))
+      expect(statuses).toEqual(['confirmed', 'cancelled', 'confirmed'])
+    })
+
+    it('should cancel the occurrence and the rest of the series', async () => {
+      const response = await patchRequest(series[1], { action: 'cancel', scope: 'following' })
+      const responseData = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(responseData.cancelledCount).toBe(2)
+      const statuses = await Promise.all(series.map(async booking => (await Booking.findById(booking._id)).status))
+      expect(statuses).toEqual(['confirmed', 'cancelled', 'cancelled'])
+    })
+  })
+})
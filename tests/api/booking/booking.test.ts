@@ -0,0 +1,492 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import { addDays } from 'date-fns'
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+import { POST } from '@/app/api/booking/route'
+import Booking from '@/models/Booking'
+import BookingLock from '@/models/BookingLock'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import StaffMember from '@/models/StaffMember'
+import WaitlistEntry from '@/models/WaitlistEntry'
+import DatabaseTestUtils from '../../utils/databaseUtils'
+import { createMockAvailabilitySettings, createMockRequest, createMockSession } from '../../utils/testHelpers'
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}))
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const mockGetServerSession = require('next-auth').getServerSession
+
+const TIMEZONE = 'Europe/Belgrade'
+const allDays = { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
+
+// Termin za tri dana u 10:00 po lokalnom vremenu providera
+const upcomingSlot = (time: string = '10:00') => {
+  const date = formatInTimeZone(addDays(new Date(), 3), TIMEZONE, 'yyyy-MM-dd')
+  return fromZonedTime(`${date}T${time}:00`, TIMEZONE)
+}
+
+describe('/api/booking', () => {
+  let client: any
+  let providerProfile: any
+  let service: any
+
+  const bookingRequest = (start: Date, overrides: Record<string, unknown> = {}) => createMockRequest({
+    method: 'POST',
+    url: 'http://localhost:3000/api/booking',
+    body: {
+      providerId: providerProfile._id.toString(),
+      serviceId: service._id.toString(),
+      start: start.toISOString(),
+      ...overrides,
+    },
+  })
+
+  beforeEach(async () => {
+    await DatabaseTestUtils.cleanDatabase()
+    jest.clearAllMocks()
+
+    client = await User.create({
+      email: 'client@example.com',
+      name: 'Test Client',
+      roles: ['client'],
+      emailVerified: true,
+    })
+
+    const providerUser = await User.create({
+      email: 'provider@example.com',
+      name: 'Test Provider',
+      roles: ['provider'],
+      emailVerified: true,
+    })
+
+    providerProfile = await ProviderProfile.create({
+      userId: providerUser._id,
+      businessName: 'Test Business',
+      timezone: TIMEZONE,
+      isActive: true,
+      availabilitySettings: createMockAvailabilitySettings({
+        weekSchedule: {
+          monday: allDays,
+          tuesday: allDays,
+          wednesday: allDays,
+          thursday: allDays,
+          friday: allDays,
+          saturday: allDays,
+          sunday: allDays,
+        },
+      }),
+    })
+
+    service = await Service.create({
+      providerId: providerProfile._id,
+      name: 'Haircut',
+      durationMinutes: 60,
+      price: 1500,
+    })
+
+    mockGetServerSession.mockResolvedValue(createMockSession(client))
+  })
+
+  describe('POST /api/booking', () => {
+    it('should create a booking for an available slot', async () => {
+      const start = upcomingSlot()
+
+      const response = await POST(bookingRequest(start))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(new Date(responseData.booking.start).toISOString()).toBe(start.toISOString())
+      expect(await Booking.countDocuments()).toBe(1)
+    })
+
+    it('should return 401 for unauthenticated user', async () => {
+      mockGetServerSession.mockResolvedValue(null)
+
+      const response = await POST(bookingRequest(upcomingSlot()))
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should return 409 for a slot that is already booked', async () => {
+      const start = upcomingSlot()
+      await POST(bookingRequest(start))
+
+      const response = await POST(bookingRequest(start))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(responseData.error).toBe('This time slot is no longer available')
+    })
+
+    it('should return 409 for a slot outside working hours', async () => {
+      const response = await POST(bookingRequest(upcomingSlot('20:00')))
+
+      expect(response.status).toBe(409)
+    })
+
+    it('should return 422 for a slot beyond the advance booking window', async () => {
+      const date = formatInTimeZone(addDays(new Date(), 45), TIMEZONE, 'yyyy-MM-dd')
+      const start = fromZonedTime(`${date}T10:00:00`, TIMEZONE)
+
+      const response = await POST(bookingRequest(start))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(422)
+      expect(responseData.code).toBe('BOOKING_TOO_FAR_AHEAD')
+      expect(await Booking.countDocuments()).toBe(0)
+    })
+
+    it('should return 422 for a same-day slot when the provider disallows it', async () => {
+      await ProviderProfile.updateOne(
+        { _id: providerProfile._id },
+        { $set: { 'bookingPolicy.allowSameDayBooking': false, 'bookingPolicy.minAdvanceBookingHours': 0 } }
+      )
+      const date = formatInTimeZone(new Date(), TIMEZONE, 'yyyy-MM-dd')
+      const start = fromZonedTime(`${date}T23:30:00`, TIMEZONE)
+
+      const response = await POST(bookingRequest(start))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(422)
+      expect(responseData.code).toBe('SAME_DAY_BOOKING_NOT_ALLOWED')
+    })
+
+    it('should allow exactly one of many concurrent requests for the same slot', async () => {
+      const start = upcomingSlot()
+
+      const responses = await Promise.all(
+        Array.from({ length: 8 }, () => POST(bookingRequest(start)))
+      )
+      const statuses = responses.map(response => response.status)
+
+      expect(statuses.filter(status => status === 201)).toHaveLength(1)
+      expect(statuses.filter(status => status === 409)).toHaveLength(7)
+      expect(await Booking.countDocuments({ providerId: providerProfile._id })).toBe(1)
+    })
+
+    it('should allow exactly one of concurrent requests for overlapping slots', async () => {
+      const responses = await Promise.all([
+        POST(bookingRequest(upcomingSlot('10:00'))),
+        POST(bookingRequest(upcomingSlot('10:30'))),
+        POST(bookingRequest(upcomingSlot('10:00'))),
+        POST(bookingRequest(upcomingSlot('10:30'))),
+      ])
+      const statuses = responses.map(response => response.status)
+
+      expect(statuses.filter(status => status === 201)).toHaveLength(1)
+      expect(statuses.filter(status => status === 409)).toHaveLength(3)
+    })
+
+    it('should accept concurrent requests for non-overlapping slots', async () => {
+      const responses = await Promise.all([
+        POST(bookingRequest(upcomingSlot('10:00'))),
+        POST(bookingRequest(upcomingSlot('12:00'))),
+        POST(bookingRequest(upcomingSlot('14:00'))),
+      ])
+
+      expect(responses.map(response => response.status)).toEqual([201, 201, 201])
+    })
+
+    it('should create a pending booking when the provider requires approval', async () => {
+      await ProviderProfile.updateOne(
+        { _id: providerProfile._id },
+        { $set: { 'bookingPolicy.requiresApproval': true } }
+      )
+
+      const response = await POST(bookingRequest(upcomingSlot()))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(responseData.booking.status).toBe('pending')
+      expect(responseData.booking.statusHistory[0]).toMatchObject({ from: null, to: 'pending', action: 'create' })
+    })
+
+    it('should release the provider lock after each request', async () => {
+      await POST(bookingRequest(upcomingSlot()))
+      await POST(bookingRequest(upcomingSlot()))
+
+      expect(await BookingLock.countDocuments()).toBe(0)
+    })
+  })
+
+  describe('POST /api/booking with staff', () => {
+    let ana: any
+    let marko: any
+
+    beforeEach(async () => {
+      ana = await StaffMember.create({ providerId: providerProfile._id, name: 'Ana' })
+      marko = await StaffMember.create({ providerId: providerProfile._id, name: 'Marko' })
+    })
+
+    it('should assign the requested staff member', async () => {
+      const response = await POST(bookingRequest(upcomingSlot(), { staffId: marko._id.toString() }))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(responseData.booking.staffId._id).toBe(marko._id.toString())
+    })
+
+    it('should assign the next free staff member when none is requested', async () => {
+      const start = upcomingSlot()
+
+      const first = await (await POST(bookingRequest(start))).json()
+      const second = await (await POST(bookingRequest(start))).json()
+      const third = await POST(bookingRequest(start))
+
+      expect(first.booking.staffId._id).toBe(ana._id.toString())
+      expect(second.booking.staffId._id).toBe(marko._id.toString())
+      expect(third.status).toBe(409)
+    })
+
+    it('should return 409 when the requested staff member is busy', async () => {
+      const start = upcomingSlot()
+      await POST(bookingRequest(start, { staffId: ana._id.toString() }))
+
+      const response = await POST(bookingRequest(start, { staffId: ana._id.toString() }))
+
+      expect(response.status).toBe(409)
+    })
+
+    it('should return 404 for a staff member who does not perform the service', async () => {
+      const otherService = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Coloring',
+        durationMinutes: 90,
+        price: 4000,
+      })
+      await StaffMember.updateOne({ _id: marko._id }, { serviceIds: [otherService._id] })
+
+      const response = await POST(bookingRequest(upcomingSlot(), { staffId: marko._id.toString() }))
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('POST /api/booking for group classes', () => {
+    beforeEach(async () => {
+      service.maxParticipants = 2
+      await service.save()
+    })
+
+    const bookAs = async (email: string, start: Date) => {
+      const user = await User.create({ email, name: email, roles: ['client'], emailVerified: true })
+      mockGetServerSession.mockResolvedValue(createMockSession(user))
+      return POST(bookingRequest(start))
+    }
+
+    it('should accept bookings for the same start until the class is full', async () => {
+      const start = upcomingSlot()
+
+      expect((await POST(bookingRequest(start))).status).toBe(201)
+      expect((await bookAs('second@example.com', start)).status).toBe(201)
+      expect((await bookAs('third@example.com', start)).status).toBe(409)
+      expect(await Booking.countDocuments({ start })).toBe(2)
+    })
+
+    it('should not book the same client into a session twice', async () => {
+      const start = upcomingSlot()
+      await POST(bookingRequest(start))
+
+      const response = await POST(bookingRequest(start))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(responseData.error).toBe('You are already booked for this session')
+    })
+  })
+
+  describe('POST /api/booking with a waitlist offer', () => {
+    let holder: any
+    let entry: any
+
+    beforeEach(async () => {
+      const start = upcomingSlot()
+      holder = await User.create({ email: 'holder@example.com', name: 'Holder', roles: ['client'], emailVerified: true })
+      entry = await WaitlistEntry.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: holder._id,
+        from: start,
+        to: start,
+        status: 'offered',
+        offer: {
+          start,
+          end: new Date(start.getTime() + 60 * 60 * 1000),
+          resourceIds: [],
+          expiresAt: addDays(new Date(), 1),
+        },
+      })
+    })
+
+    it('should keep a held slot from other clients', async () => {
+      const response = await POST(bookingRequest(upcomingSlot()))
+
+      expect(response.status).toBe(409)
+    })
+
+    it('should let the client with the offer claim the held slot', async () => {
+      mockGetServerSession.mockResolvedValue(createMockSession(holder))
+
+      const response = await POST(bookingRequest(upcomingSlot(), { waitlistEntryId: entry._id.toString() }))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(201)
+      const claimed = await WaitlistEntry.findById(entry._id)
+      expect(claimed.status).toBe('booked')
+      expect(claimed.bookingId.toString()).toBe(responseData.booking._id.toString())
+    })
+
+    it('should reject an offer that belongs to another client', async () => {
+      const response = await POST(bookingRequest(upcomingSlot(), { waitlistEntryId: entry._id.toString() }))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(responseData.error).toBe('This waitlist offer has expired')
+    })
+
+    it('should not keep the booking when the offer has expired', async () => {
+      mockGetServerSession.mockResolvedValue(createMockSession(holder))
+      await WaitlistEntry.updateOne({ _id: entry._id }, { 'offer.expiresAt': new Date(Date.now() - 1000) })
+
+      const response = await POST(bookingRequest(upcomingSlot(), { waitlistEntryId: entry._id.toString() }))
+
+      expect(response.status).toBe(409)
+      expect(await Booking.countDocuments({ clientId: holder._id })).toBe(0)
+      expect((await WaitlistEntry.findById(entry._id)).status).toBe('offered')
+    })
+  })
+
+  describe('POST /api/booking with recurrence', () => {
+    const weekly = { frequency: 'weekly', count: 3 }
+
+    it('should book every occurrence of the series', async () => {
+      const start = upcomingSlot()
+
+      const response = await POST(bookingRequest(start, { recurrence: weekly }))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(responseData.bookings).toHaveLength(3)
+      const bookings = await Booking.find({ seriesId: responseData.seriesId }).sort({ start: 1 })
+      // Isto lokalno vreme svake nedelje, i preko prelaska na letnje vreme
+      expect(bookings.map(booking => formatInTimeZone(booking.start, TIMEZONE, 'yyyy-MM-dd HH:mm'))).toEqual(
+        [0, 7, 14].map(days => `${formatInTimeZone(addDays(start, days), TIMEZONE, 'yyyy-MM-dd')} 10:00`)
+      )
+    })
+
+    it('should report conflicting occurrences and book nothing', async () => {
+      const start = upcomingSlot()
+      const taken = fromZonedTime(`${formatInTimeZone(addDays(start, 7), TIMEZONE, 'yyyy-MM-dd')}T10:00:00`, TIMEZONE)
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: providerProfile.userId,
+        start: taken,
+        end: new Date(taken.getTime() + 60 * 60 * 1000),
+        status: 'confirmed',
+      })
+
+      const response = await POST(bookingRequest(start, { recurrence: weekly }))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(responseData.conflicts).toEqual([
+        { start: taken.toISOString(), error: 'This time slot is no longer available' },
+      ])
+      expect(responseData.availableCount).toBe(2)
+      expect(await Booking.countDocuments({ clientId: client._id })).toBe(0)
+    })
+
+    it('should book only the free occurrences with skipConflicts', async () => {
+      const start = upcomingSlot()
+      const taken = fromZonedTime(`${formatInTimeZone(addDays(start, 7), TIMEZONE, 'yyyy-MM-dd')}T10:00:00`, TIMEZONE)
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: providerProfile.userId,
+        start: taken,
+        end: new Date(taken.getTime() + 60 * 60 * 1000),
+        status: 'confirmed',
+      })
+
+      const response = await POST(bookingRequest(start, { recurrence: { ...weekly, skipConflicts: true } }))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(responseData.bookings).toHaveLength(2)
+      expect(responseData.skipped).toHaveLength(1)
+    })
+
+    it('should require count or until', async () => {
+      const response = await POST(bookingRequest(upcomingSlot(), { recurrence: { frequency: 'weekly' } }))
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/booking with several services', () => {
+    let shave: any
+
+    beforeEach(async () => {
+      shave = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Shave',
+        durationMinutes: 30,
+        price: 800,
+      })
+    })
+
+    const bothServices = () => ({ serviceIds: [service._id.toString(), shave._id.toString()] })
+
+    it('should book the services back to back as one appointment', async () => {
+      const start = upcomingSlot()
+
+      const response = await POST(bookingRequest(start, bothServices()))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(201)
+      const booking = await Booking.findById(responseData.booking._id)
+      expect(booking.serviceId.toString()).toBe(service._id.toString())
+      expect(booking.end.getTime() - booking.start.getTime()).toBe(90 * 60 * 1000)
+      expect(booking.items.map((item: any) => [item.name, item.durationMinutes, item.price])).toEqual([
+        ['Haircut', 60, 1500],
+        ['Shave', 30, 800],
+      ])
+    })
+
+    it('should reject a start where the whole sequence does not fit', async () => {
+      const taken = upcomingSlot('11:00')
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: providerProfile.userId,
+        start: taken,
+        end: new Date(taken.getTime() + 60 * 60 * 1000),
+        status: 'confirmed',
+      })
+
+      const response = await POST(bookingRequest(upcomingSlot(), bothServices()))
+
+      expect(response.status).toBe(409)
+      expect(await Booking.countDocuments({ clientId: client._id })).toBe(0)
+    })
+
+    it('should not combine a group class with other services', async () => {
+      shave.maxParticipants = 5
+      await shave.save()
+
+      const response = await POST(bookingRequest(upcomingSlot(), bothServices()))
+      const responseData = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(responseData.error).toBe('Group classes cannot be combined with other services')
+    })
+  })
+})
@@ -155,7 +155,7 @@ describe('Booking Model', () => {
   })
 
   describe('Status Management', () => {
-    const validStatuses = ['pending', 'confirmed', 'cancelled', 'completed']
+    const validStatuses = ['pending', 'confirmed', 'cancelled', 'completed', 'no_show']
 
     validStatuses.forEach(status => {
       it(`should accept status: ${status}`, async () => {
@@ -189,6 +189,54 @@ describe('Booking Model', () => {
 
       expect(savedBooking.status).toBe('confirmed')
     })
+
+    it('should default status history to an empty array', async () => {
+      const booking = await Booking.create({
+        clientId: testClient._id,
+        providerId: testProviderProfile._id,
+        serviceId: testService._id,
+        start: new Date('2024-12-01T10:00:00.000Z'),
+        end: new Date('2024-12-01T11:00:00.000Z'),
+      })
+
+      expect(booking.statusHistory).toHaveLength(0)
+    })
+
+    it('should store status history entries with actor and timestamp', async () => {
+      const at = new Date('2024-11-30T12:00:00.000Z')
+      const booking = await Booking.create({
+        clientId: testClient._id,
+        providerId: testProviderProfile._id,
+        serviceId: testService._id,
+        start: new Date('2024-12-01T10:00:00.000Z'),
+        end: new Date('2024-12-01T11:00:00.000Z'),
+        status: 'confirmed',
+        statusHistory: [
+          { from: null, to: 'pending', action: 'create', actorId: testClient._id, actorRole: 'client', at },
+          { from: 'pending', to: 'confirmed', action: 'approve', actorId: testProvider._id, actorRole: 'provider', at },
+        ],
+      })
+
+      const found = await Booking.findById(booking._id).lean() as any
+      expect(found.statusHistory).toHaveLength(2)
+      expect(found.statusHistory[1].action).toBe('approve')
+      expect(found.statusHistory[1].actorRole).toBe('provider')
+      expect(found.statusHistory[1].actorId.toString()).toBe(testProvider._id.toString())
+      expect(found.statusHistory[1].at).toEqual(at)
+    })
+
+    it('should reject status history entries with an invalid actor role', async () => {
+      const booking = new Booking({
+        clientId: testClient._id,
+        providerId: testProviderProfile._id,
+        serviceId: testService._id,
+        start: new Date('2024-12-01T10:00:00.000Z'),
+        end: new Date('2024-12-01T11:00:00.000Z'),
+        statusHistory: [{ from: null, to: 'confirmed', action: 'create', actorRole: 'admin' }],
+      })
+
+      await expect(booking.save()).rejects.toThrow()
+    })
   })
 
   describe('Date and Time Validation', () => {
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import mongoose from 'mongoose'
+import { parseIcsEvents } from '@/lib/ical'
+import Booking from '@/models/Booking'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import {
+  bookingEventUid,
+  buildBookingInvite,
+  buildCalendarFeed,
+  getCalendarFeedToken
+} from '@/services/booking/bookingCalendar'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const NOW = new Date('2030-01-10T09:00:00.000Z')
+
+const unfold = (ics: string) => ics.replace(/\r\n[ \t]/g, '').split('\r\n')
+
+describe('Booking calendar', () => {
+  describe('buildBookingInvite', () => {
+    const booking = {
+      _id: new mongoose.Types.ObjectId(),
+      // Posle prelaska na letnje vreme (UTC+2)
+      start: new Date('2030-04-15T08:00:00.000Z'),
+      end: new Date('2030-04-15T09:00:00.000Z'),
+      status: 'confirmed' as const,
+      statusHistory: [],
+      note: 'Kratko, sa strane',
+    }
+    const details = {
+      timezone: 'Europe/Belgrade',
+      serviceName: 'Haircut',
+      providerName: 'Test Business',
+      clientName: 'Test Client',
+      address: 'Knez Mihailova 1',
+      organizer: { name: 'Test Business', email: 'provider@example.com' },
+      attendee: { name: 'Test Client', email: 'client@example.com' },
+      viewer: 'client' as const,
+    }
+
+    it('should create a REQUEST with local times in the provider timezone', () => {
+      const invite = buildBookingInvite(booking, details)
+      const lines = unfold(invite.content)
+
+      expect(invite.method).toBe('REQUEST')
+      expect(lines).toContain('METHOD:REQUEST')
+      expect(lines).toContain(`UID:${bookingEventUid(booking._id)}`)
+      expect(lines).toContain('DTSTART;TZID=Europe/Belgrade:20300415T100000')
+      expect(lines).toContain('DTEND;TZID=Europe/Belgrade:20300415T110000')
+      expect(lines).toContain('ORGANIZER;CN="Test Business":mailto:provider@example.com')
+      expect(lines).toContain('LOCATION:Knez Mihailova 1')
+      expect(lines).toContain('DESCRIPTION:Kratko\\, sa strane')
+      expect(parseIcsEvents(invite.content)[0]).toMatchObject({ start: booking.start, end: booking.end })
+    })
+
+    it('should fold long non-ASCII lines at 75 octets without splitting characters', () => {
+      const serviceName = 'Šišanje i brijanje 🙂 češljanje i feniranje za đake 💈 i njihove očeve i žene'
+      const invite = buildBookingInvite(booking, { ...details, serviceName })
+
+      const folded = invite.content.split('\r\n')
+      expect(Math.max(...folded.map(line => Buffer.byteLength(line)))).toBeLessThanOrEqual(75)
+      // Presečen surrogate par se ne bi vratio isti iz UTF-8
+      expect(folded.every(line => Buffer.from(line).toString() === line)).toBe(true)
+      expect(parseIcsEvents(invite.content)[0].summary).toBe(`${serviceName} - Test Business`)
+    })
+
+    it('should describe the timezone transitions in VTIMEZONE', () => {
+      const lines = unfold(buildBookingInvite(booking, details).content)
+      const timezone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1)
+
+      expect(timezone).toContain('TZID:Europe/Belgrade')
+      // Letnje vreme 2030: 31. mart u 02:00, zimsko 27. oktobar u 03:00
+      expect(timezone.join('\n')).toContain([
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20300331T020000',
+        'TZOFFSETFROM:+0100',
+        'TZOFFSETTO:+0200',
+      ].join('\n'))
+      expect(timezone.join('\n')).toContain([
+        'BEGIN:STANDARD',
+        'DTSTART:20301027T030000',
+        'TZOFFSETFROM:+0200',
+        'TZOFFSETTO:+0100',
+      ].join('\n'))
+    })
+
+    it('should create a CANCEL with a higher sequence for a cancelled booking', () => {
+      const cancelled = {
+        ...booking,
+        status: 'cancelled' as const,
+        statusHistory: [{ from: 'confirmed' as const, to: 'cancelled' as const, action: 'cancel', actorRole: 'client' as const, at: NOW }],
+      }
+
+      const invite = buildBookingInvite(cancelled, details)
+      const lines = unfold(invite.content)
+
+      expect(invite.method).toBe('CANCEL')
+      expect(lines).toContain('METHOD:CANCEL')
+      expect(lines).toContain('STATUS:CANCELLED')
+      expect(lines).toContain('SEQUENCE:1')
+      expect(lines).toContain(`UID:${bookingEventUid(booking._id)}`)
+    })
+  })
+
+  describe('buildCalendarFeed', () => {
+    let client: any
+    let providerUser: any
+    let providerProfile: any
+    let service: any
+
+    const createBooking = (overrides: Record<string, unknown> = {}) => Booking.create({
+      providerId: providerProfile._id,
+      serviceId: service._id,
+      clientId: client._id,
+      start: new Date('2030-01-14T10:00:00.000Z'),
+      end: new Date('2030-01-14T11:00:00.000Z'),
+      status: 'confirmed',
+      ...overrides,
+    })
+
+    beforeEach(async () => {
+      client = await User.create({
+        email: 'client@example.com',
+        name: 'Test Client',
+        roles: ['client'],
+      })
+
+      providerUser = await User.create({
+        email: 'provider@example.com',
+        name: 'Test Provider',
+        roles: ['provider'],
+      })
+
+      providerProfile = await ProviderProfile.create({
+        userId: providerUser._id,
+        businessName: 'Test Business',
+        timezone: 'Europe/Belgrade',
+      })
+
+      service = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Haircut',
+        durationMinutes: 60,
+        price: 1500,
+      })
+    })
+
+    it('should list the client appointments', async () => {
+      const booking = await createBooking()
+      await createBooking({ status: 'cancelled', start: new Date('2030-01-15T10:00:00.000Z'), end: new Date('2030-01-15T11:00:00.000Z') })
+      const token = await getCalendarFeedToken(client._id.toString())
+
+      const feed = await buildCalendarFeed(token!, NOW)
+
+      const events = parseIcsEvents(feed!)
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({ uid: bookingEventUid(booking._id), summary: 'Haircut - Test Business' })
+      expect(unfold(feed!)).toContain('METHOD:PUBLISH')
+    })
+
+    it('should list all bookings of a provider with the client name', async () => {
+      await createBooking()
+      const token = await getCalendarFeedToken(providerUser._id.toString())
+
+      const events = parseIcsEvents((await buildCalendarFeed(token!, NOW))!)
+
+      expect(events).toHaveLength(1)
+      expect(events[0].summary).toBe('Haircut - Test Client')
+    })
+
+    it('should stop serving the old token after regenerating', async () => {
+      const token = await getCalendarFeedToken(client._id.toString())
+
+      expect(await getCalendarFeedToken(client._id.toString())).toBe(token)
+      const newToken = await getCalendarFeedToken(client._id.toString(), true)
+
+      expect(newToken).not.toBe(token)
+      expect(await buildCalendarFeed(token!, NOW)).toBeNull()
+      expect(await buildCalendarFeed(newToken!, NOW)).not.toBeNull()
+    })
+  })
+})
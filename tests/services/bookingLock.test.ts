@@ -0,0 +1,50 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import mongoose from 'mongoose'
+import BookingLock from '@/models/BookingLock'
+import { withProviderBookingLock } from '@/services/booking/bookingLock'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('Booking lock', () => {
+  it('should run callbacks for the same provider one at a time', async () => {
+    const providerId = new mongoose.Types.ObjectId().toString()
+    const events: string[] = []
+
+    const run = (name: string) => withProviderBookingLock(providerId, async () => {
+      events.push(`${name}:start`)
+      await sleep(50)
+      events.push(`${name}:end`)
+    })
+    await Promise.all([run('a'), run('b')])
+
+    expect(events).toEqual(
+      events[0] === 'a:start'
+        ? ['a:start', 'a:end', 'b:start', 'b:end']
+        : ['b:start', 'b:end', 'a:start', 'a:end']
+    )
+    expect(await BookingLock.countDocuments({ providerId })).toBe(0)
+  })
+
+  it('should keep the lock while a callback outlives the TTL', async () => {
+    const providerId = new mongoose.Types.ObjectId().toString()
+    const events: string[] = []
+
+    const slow = withProviderBookingLock(providerId, async () => {
+      events.push('slow:start')
+      await sleep(1000)
+      events.push('slow:end')
+    }, { ttlMs: 300 })
+    await sleep(50)
+    const fast = withProviderBookingLock(providerId, async () => {
+      events.push('fast')
+    }, { ttlMs: 300 })
+    await Promise.all([slow, fast])
+
+    expect(events).toEqual(['slow:start', 'slow:end', 'fast'])
+  })
+})
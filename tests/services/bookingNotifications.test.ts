@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { addHours } from 'date-fns'
+import { notifyBooking, sendDueReminders } from '@/services/booking/bookingNotifications'
+import { emailService } from '@/services/emailService'
+import { clearSettingsCache, updateSettings } from '@/services/settings/settingsService'
+import Booking from '@/models/Booking'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const NOW = new Date('2030-01-10T09:00:00.000Z')
+
+describe('Booking notifications', () => {
+  let client: any
+  let providerProfile: any
+  let service: any
+  let sendBookingEmail: jest.SpiedFunction<typeof emailService.sendBookingEmail>
+
+  const createBooking = (overrides: Record<string, unknown> = {}) => Booking.create({
+    providerId: providerProfile._id,
+    serviceId: service._id,
+    clientId: client._id,
+    start: new Date('2030-01-14T10:00:00.000Z'),
+    end: new Date('2030-01-14T11:00:00.000Z'),
+    status: 'confirmed',
+    ...overrides,
+  })
+
+  beforeEach(async () => {
+    clearSettingsCache()
+    sendBookingEmail = jest.spyOn(emailService, 'sendBookingEmail').mockResolvedValue(true)
+
+    client = await User.create({
+      email: 'client@example.com',
+      name: 'Test Client',
+      roles: ['client'],
+    })
+
+    const providerUser = await User.create({
+      email: 'provider@example.com',
+      name: 'Test Provider',
+      roles: ['provider'],
+    })
+
+    providerProfile = await ProviderProfile.create({
+      userId: providerUser._id,
+      businessName: 'Test Business',
+      timezone: 'Europe/Belgrade',
+      contactInfo: { address: 'Knez Mihailova 1' },
+    })
+
+    service = await Service.create({
+      providerId: providerProfile._id,
+      name: 'Haircut',
+      durationMinutes: 60,
+      price: 1500,
+    })
+  })
+
+  describe('notifyBooking', () => {
+    it('should email both the client and the provider when a booking is created', async () => {
+      const booking = await createBooking()
+
+      await notifyBooking(booking, 'created')
+
+      expect(sendBookingEmail).toHaveBeenCalledTimes(2)
+      expect(sendBookingEmail).toHaveBeenCalledWith('client@example.com', 'created', expect.objectContaining({
+        recipientRole: 'client',
+        serviceName: 'Haircut',
+        providerName: 'Test Business',
+        // Vreme u zoni providera (UTC+1)
+        start: '14.01.2030. 11:00',
+        address: 'Knez Mihailova 1',
+      }))
+      expect(sendBookingEmail).toHaveBeenCalledWith('provider@example.com', 'created', expect.objectContaining({
+        recipientRole: 'provider',
+        clientName: 'Test Client',
+      }))
+    })
+
+    it('should include the previous time when a booking is rescheduled', async () => {
+      const booking = await createBooking({
+        statusHistory: [{
+          from: 'confirmed',
+          to: 'confirmed',
+          action: 'reschedule',
+          actorRole: 'client',
+          previousStart: new Date('2030-01-13T10:00:00.000Z'),
+        }],
+      })
+
+      await notifyBooking(booking, 'rescheduled')
+
+      expect(sendBookingEmail).toHaveBeenCalledWith('client@example.com', 'rescheduled', expect.objectContaining({
+        previousStart: '13.01.2030. 11:00',
+      }))
+    })
+
+    it('should attach a calendar invite for confirmed bookings only', async () => {
+      await notifyBooking(await createBooking(), 'created')
+      await notifyBooking(await createBooking({ status: 'pending' }), 'created')
+
+      expect(sendBookingEmail.mock.calls[0][2].calendarInvite).toMatchObject({
+        method: 'REQUEST',
+        content: expect.stringContaining('DTSTART;TZID=Europe/Belgrade:20300114T110000'),
+      })
+      expect(sendBookingEmail.mock.calls[2][2].calendarInvite).toBeUndefined()
+    })
+
+    it('should title the invite for the calendar it goes to', async () => {
+      await notifyBooking(await createBooking(), 'created')
+
+      expect(sendBookingEmail).toHaveBeenCalledWith('client@example.com', 'created', expect.objectContaining({
+        calendarInvite: expect.objectContaining({ content: expect.stringContaining('SUMMARY:Haircut - Test Business') }),
+      }))
+      expect(sendBookingEmail).toHaveBeenCalledWith('provider@example.com', 'created', expect.objectContaining({
+        calendarInvite: expect.objectContaining({ content: expect.stringContaining('SUMMARY:Haircut - Test Client') }),
+      }))
+    })
+
+    it('should attach a cancellation when a booking is cancelled', async () => {
+      const booking = await createBooking({ status: 'cancelled' })
+
+      await notifyBooking(booking, 'cancelled')
+
+      expect(sendBookingEmail).toHaveBeenCalledWith('client@example.com', 'cancelled', expect.objectContaining({
+        calendarInvite: expect.objectContaining({ method: 'CANCEL' }),
+      }))
+    })
+
+    it('should respect the notification toggles from settings', async () => {
+      await updateSettings({ notifications: { cancellationNotificationEmail: false } })
+      const booking = await createBooking({ status: 'cancelled' })
+
+      await notifyBooking(booking, 'cancelled')
+
+      expect(sendBookingEmail).not.toHaveBeenCalled()
+    })
+
+    it('should not throw when sending fails', async () => {
+      sendBookingEmail.mockRejectedValue(new Error('Mailgun down'))
+      const booking = await createBooking()
+
+      await expect(notifyBooking(booking, 'created')).resolves.toBeUndefined()
+    })
+  })
+
+  describe('sendDueReminders', () => {
+    it('should remind the client once for bookings inside the reminder window', async () => {
+      const due = await createBooking({ start: addHours(NOW, 20), end: addHours(NOW, 21) })
+      await createBooking({ start: addHours(NOW, 30), end: addHours(NOW, 31) })
+      await createBooking({ start: addHours(NOW, 10), end: addHours(NOW, 11), status: 'cancelled' })
+
+      expect(await sendDueReminders(NOW)).toBe(1)
+      expect(sendBookingEmail).toHaveBeenCalledTimes(1)
+      expect(sendBookingEmail).toHaveBeenCalledWith('client@example.com', 'reminder', expect.anything())
+
+      const updated = await Booking.findById(due._id)
+      expect(updated.reminderSentAt).toEqual(NOW)
+
+      // Drugo pokretanje ne šalje ponovo
+      expect(await sendDueReminders(NOW)).toBe(0)
+    })
+
+    it('should use reminderHoursBefore from settings', async () => {
+      await updateSettings({ notifications: { reminderHoursBefore: 48 } })
+      await createBooking({ start: addHours(NOW, 30), end: addHours(NOW, 31) })
+
+      expect(await sendDueReminders(NOW)).toBe(1)
+    })
+
+    it('should not send reminders when they are disabled', async () => {
+      await updateSettings({ notifications: { bookingReminderEmail: false } })
+      await createBooking({ start: addHours(NOW, 20), end: addHours(NOW, 21) })
+
+      expect(await sendDueReminders(NOW)).toBe(0)
+      expect(sendBookingEmail).not.toHaveBeenCalled()
+    })
+  })
+})
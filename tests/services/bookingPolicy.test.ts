@@ -0,0 +1,129 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  BookingPolicyError,
+  DEFAULT_BOOKING_POLICY,
+  applyServiceBookingRules,
+  assertCancellationAllowed,
+  getBookingWindowViolation,
+  resolveBookingPolicy,
+} from '@/services/booking/bookingPolicy'
+import { createMockAvailabilitySettings } from '../utils/testHelpers'
+
+const TIMEZONE = 'Europe/Belgrade'
+// 10:00 po lokalnom vremenu (UTC+1)
+const NOW = new Date('2030-01-14T09:00:00.000Z')
+
+const policy = {
+  maxAdvanceBookingDays: 30,
+  minAdvanceBookingHours: 2,
+  allowSameDayBooking: true,
+  cancellationHours: 24,
+}
+
+describe('Booking policy', () => {
+  describe('resolveBookingPolicy', () => {
+    it('should use system settings when the provider has no overrides', () => {
+      const resolved = resolveBookingPolicy(DEFAULT_BOOKING_POLICY, { timezone: TIMEZONE })
+
+      expect(resolved).toEqual({
+        maxAdvanceBookingDays: DEFAULT_BOOKING_POLICY.maxAdvanceBookingDays,
+        minAdvanceBookingHours: DEFAULT_BOOKING_POLICY.minAdvanceBookingHours,
+        allowSameDayBooking: DEFAULT_BOOKING_POLICY.allowSameDayBooking,
+        cancellationHours: DEFAULT_BOOKING_POLICY.defaultCancellationHours,
+      })
+    })
+
+    it('should prefer provider overrides over system settings', () => {
+      const resolved = resolveBookingPolicy(DEFAULT_BOOKING_POLICY, {
+        timezone: TIMEZONE,
+        bookingPolicy: {
+          requiresApproval: false,
+          maxAdvanceBookingDays: 14,
+          allowSameDayBooking: false,
+          cancellationHours: 48,
+        },
+      })
+
+      expect(resolved.maxAdvanceBookingDays).toBe(14)
+      expect(resolved.allowSameDayBooking).toBe(false)
+      expect(resolved.cancellationHours).toBe(48)
+      expect(resolved.minAdvanceBookingHours).toBe(DEFAULT_BOOKING_POLICY.minAdvanceBookingHours)
+    })
+
+    it('should let availability settings only narrow the booking window', () => {
+      const resolved = resolveBookingPolicy(DEFAULT_BOOKING_POLICY, {
+        timezone: TIMEZONE,
+        availabilitySettings: createMockAvailabilitySettings({
+          advanceBookingDays: 10,
+          minimumNoticeHours: 0,
+        }),
+      })
+
+      expect(resolved.maxAdvanceBookingDays).toBe(10)
+      expect(resolved.minAdvanceBookingHours).toBe(DEFAULT_BOOKING_POLICY.minAdvanceBookingHours)
+    })
+  })
+
+  describe('applyServiceBookingRules', () => {
+    it('should only extend the minimum notice', () => {
+      const rules = (minimumNoticeHours: number) => ({ bookingRules: { availabilityWindows: [], minimumNoticeHours } })
+
+      expect(applyServiceBookingRules(policy, rules(48)).minAdvanceBookingHours).toBe(48)
+      expect(applyServiceBookingRules(policy, rules(1)).minAdvanceBookingHours).toBe(2)
+      expect(applyServiceBookingRules(policy, {})).toBe(policy)
+    })
+  })
+
+  describe('getBookingWindowViolation', () => {
+    it('should accept a start inside the window', () => {
+      const start = new Date('2030-01-16T09:00:00.000Z')
+
+      expect(getBookingWindowViolation(start, policy, TIMEZONE, NOW)).toBeNull()
+    })
+
+    it('should reject a start before the minimum notice', () => {
+      const start = new Date('2030-01-14T10:00:00.000Z')
+
+      expect(getBookingWindowViolation(start, policy, TIMEZONE, NOW)?.code).toBe('BOOKING_TOO_SOON')
+    })
+
+    it('should reject a start beyond the maximum advance period', () => {
+      const start = new Date('2030-02-20T09:00:00.000Z')
+
+      expect(getBookingWindowViolation(start, policy, TIMEZONE, NOW)?.code).toBe('BOOKING_TOO_FAR_AHEAD')
+    })
+
+    it('should reject same-day bookings in the provider timezone when disabled', () => {
+      const noSameDay = { ...policy, allowSameDayBooking: false }
+      // 23:30 lokalno istog dana, iako je u UTC-u još 22:30
+      const sameDay = new Date('2030-01-14T22:30:00.000Z')
+      // 00:30 lokalno sledećeg dana, u UTC-u je još 14.
+      const nextDay = new Date('2030-01-14T23:30:00.000Z')
+
+      expect(getBookingWindowViolation(sameDay, noSameDay, TIMEZONE, NOW)?.code)
+        .toBe('SAME_DAY_BOOKING_NOT_ALLOWED')
+      expect(getBookingWindowViolation(nextDay, noSameDay, TIMEZONE, NOW)).toBeNull()
+    })
+  })
+
+  describe('assertCancellationAllowed', () => {
+    it('should allow cancelling before the cancellation window', () => {
+      const booking = { start: new Date('2030-01-15T10:00:00.000Z') }
+
+      expect(() => assertCancellationAllowed(booking, policy, NOW)).not.toThrow()
+    })
+
+    it('should reject cancelling inside the cancellation window with 422', () => {
+      const booking = { start: new Date('2030-01-15T08:00:00.000Z') }
+
+      try {
+        assertCancellationAllowed(booking, policy, NOW)
+        throw new Error('Expected cancellation to fail')
+      } catch (error) {
+        expect(error).toBeInstanceOf(BookingPolicyError)
+        expect((error as BookingPolicyError).status).toBe(422)
+        expect((error as BookingPolicyError).code).toBe('CANCELLATION_WINDOW_PASSED')
+      }
+    })
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it, expect } from '@jest/globals'
+import mongoose from 'mongoose'
+import Booking from '@/models/Booking'
+import {
+  BookingTransitionError,
+  isBookingAction,
+  rescheduleBooking,
+  saveTransition,
+  transitionBooking,
+} from '@/services/booking/bookingStatus'
+
+const PROVIDER = { id: '507f1f77bcf86cd799439011', role: 'provider' as const }
+const CLIENT = { id: '507f1f77bcf86cd799439012', role: 'client' as const }
+
+const createBooking = (overrides: Partial<any> = {}) => ({
+  status: 'confirmed' as any,
+  start: new Date('2030-01-14T10:00:00.000Z'),
+  statusHistory: [] as any[],
+  ...overrides,
+})
+
+describe('Booking status state machine', () => {
+  it('should approve a pending booking and record the transition', () => {
+    const booking = createBooking({ status: 'pending' })
+    const now = new Date('2030-01-10T09:00:00.000Z')
+
+    transitionBooking(booking, 'approve', PROVIDER, { now })
+
+    expect(booking.status).toBe('confirmed')
+    expect(booking.statusHistory).toHaveLength(1)
+    expect(booking.statusHistory[0]).toMatchObject({
+      from: 'pending',
+      to: 'confirmed',
+      action: 'approve',
+      actorRole: 'provider',
+      at: now,
+    })
+    expect(booking.statusHistory[0].actorId.toString()).toBe(PROVIDER.id)
+  })
+
+  it('should decline a pending booking as cancelled with a reason', () => {
+    const booking = createBooking({ status: 'pending' })
+
+    transitionBooking(booking, 'decline', PROVIDER, { reason: 'Fully booked' })
+
+    expect(booking.status).toBe('cancelled')
+    expect(booking.statusHistory[0].reason).toBe('Fully booked')
+  })
+
+  it('should allow the client to cancel a confirmed booking', () => {
+    const booking = createBooking()
+
+    transitionBooking(booking, 'cancel', CLIENT)
+
+    expect(booking.status).toBe('cancelled')
+  })
+
+  it('should not allow the client to approve a booking', () => {
+    const booking = createBooking({ status: 'pending' })
+
+    expect(() => transitionBooking(booking, 'approve', CLIENT)).toThrow(BookingTransitionError)
+    expect(booking.status).toBe('pending')
+    expect(booking.statusHistory).toHaveLength(0)
+  })
+
+  it('should reject transitions from a terminal status with 409', () => {
+    const booking = createBooking({ status: 'cancelled' })
+
+    try {
+      transitionBooking(booking, 'approve', PROVIDER)
+      throw new Error('Expected transition to fail')
+    } catch (error) {
+      expect(error).toBeInstanceOf(BookingTransitionError)
+      expect((error as BookingTransitionError).status).toBe(409)
+      expect((error as BookingTransitionError).code).toBe('INVALID_STATUS_TRANSITION')
+    }
+  })
+
+  it('should only allow complete and no_show after the appointment starts', () => {
+    const before = new Date('2030-01-14T09:00:00.000Z')
+    const after = new Date('2030-01-14T11:00:00.000Z')
+
+    expect(() => transitionBooking(createBooking(), 'complete', PROVIDER, { now: before }))
+      .toThrow(/before the appointment starts/)
+
+    const completed = createBooking()
+    transitionBooking(completed, 'complete', PROVIDER, { now: after })
+    expect(completed.status).toBe('completed')
+
+    const noShow = createBooking()
+    transitionBooking(noShow, 'no_show', PROVIDER, { now: after })
+    expect(noShow.status).toBe('no_show')
+  })
+
+  it('should not allow marking a pending booking as no-show', () => {
+    const booking = createBooking({ status: 'pending' })
+
+    expect(() => transitionBooking(booking, 'no_show', PROVIDER, { now: new Date('2030-02-01') }))
+      .toThrow(BookingTransitionError)
+  })
+
+  it('should recognise supported actions', () => {
+    expect(isBookingAction('approve')).toBe(true)
+    expect(isBookingAction('no_show')).toBe(true)
+    expect(isBookingAction('delete')).toBe(false)
+    expect(isBookingAction(undefined)).toBe(false)
+  })
+
+  describe('rescheduleBooking', () => {
+    const now = new Date('2030-01-10T09:00:00.000Z')
+    const newSlot = {
+      start: new Date('2030-01-15T12:00:00.000Z'),
+      end: new Date('2030-01-15T13:00:00.000Z'),
+    }
+
+    it('should move the booking and keep the original time', () => {
+      const booking: any = createBooking({ end: new Date('2030-01-14T11:00:00.000Z') })
+
+      rescheduleBooking(booking, newSlot, CLIENT, { now })
+
+      expect(booking.start).toEqual(newSlot.start)
+      expect(booking.end).toEqual(newSlot.end)
+      expect(booking.status).toBe('confirmed')
+      expect(booking.originalStart).toEqual(new Date('2030-01-14T10:00:00.000Z'))
+      expect(booking.statusHistory[0]).toMatchObject({
+        from: 'confirmed',
+        to: 'confirmed',
+        action: 'reschedule',
+        actorRole: 'client',
+        previousStart: new Date('2030-01-14T10:00:00.000Z'),
+      })
+    })
+
+    it('should not overwrite the original time on a second reschedule', () => {
+      const booking: any = createBooking({ end: new Date('2030-01-14T11:00:00.000Z') })
+
+      rescheduleBooking(booking, newSlot, CLIENT, { now })
+      rescheduleBooking(booking, {
+        start: new Date('2030-01-16T12:00:00.000Z'),
+        end: new Date('2030-01-16T13:00:00.000Z'),
+      }, PROVIDER, { now })
+
+      expect(booking.originalStart).toEqual(new Date('2030-01-14T10:00:00.000Z'))
+      expect(booking.statusHistory[1].previousStart).toEqual(newSlot.start)
+    })
+
+    it('should reject rescheduling a cancelled booking', () => {
+      const booking: any = createBooking({ status: 'cancelled', end: new Date('2030-01-14T11:00:00.000Z') })
+
+      expect(() => rescheduleBooking(booking, newSlot, CLIENT, { now }))
+        .toThrow(BookingTransitionError)
+      expect(booking.start).toEqual(new Date('2030-01-14T10:00:00.000Z'))
+    })
+
+    it('should reject rescheduling after the appointment started', () => {
+      const booking: any = createBooking({ end: new Date('2030-01-14T11:00:00.000Z') })
+
+      expect(() => rescheduleBooking(booking, newSlot, CLIENT, { now: new Date('2030-01-14T10:30:00.000Z') }))
+        .toThrow(/after the appointment has started/)
+    })
+  })
+  describe('saveTransition with database', () => {
+    it('should reject a transition from a status that was changed concurrently', async () => {
+      const { _id } = await Booking.create({
+        providerId: new mongoose.Types.ObjectId(),
+        serviceId: new mongoose.Types.ObjectId(),
+        clientId: new mongoose.Types.ObjectId(),
+        start: new Date('2030-01-14T10:00:00.000Z'),
+        end: new Date('2030-01-14T11:00:00.000Z'),
+        status: 'pending',
+      })
+      const approving = await Booking.findById(_id)
+      const cancelling = await Booking.findById(_id)
+
+      transitionBooking(approving, 'approve', PROVIDER)
+      await saveTransition(approving, 'pending')
+      transitionBooking(cancelling, 'cancel', CLIENT)
+
+      await expect(saveTransition(cancelling, 'pending')).rejects.toMatchObject({ status: 409, code: 'BOOKING_CHANGED' })
+      const stored = await Booking.findById(_id)
+      expect(stored.status).toBe('confirmed')
+      expect(stored.statusHistory.map((change: { action: string }) => change.action)).toEqual(['approve'])
+    })
+  })
+})
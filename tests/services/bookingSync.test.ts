@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { addDays, addHours, subMinutes } from 'date-fns'
+import Booking from '@/models/Booking'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import {
+  MAX_SYNC_ATTEMPTS,
+  findUnsyncedBookings,
+  reconcileCalendarSync,
+  syncBooking
+} from '@/services/calendar/bookingSync'
+import { createMockGoogleIntegration } from '../utils/testHelpers'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+jest.mock('@/services/calendar/googleCalendarService', () => ({
+  createGoogleCalendarEvent: jest.fn(() => Promise.resolve('google-event-new')),
+  updateGoogleCalendarEvent: jest.fn(() => Promise.resolve(true)),
+  deleteGoogleCalendarEvent: jest.fn(() => Promise.resolve(true)),
+}))
+
+const googleCalendarService = require('@/services/calendar/googleCalendarService')
+
+const NOW = new Date('2030-01-10T09:00:00.000Z')
+
+describe('Google Calendar booking sync', () => {
+  let client: any
+  let providerProfile: any
+  let service: any
+
+  const createBooking = (overrides: Record<string, unknown> = {}) => {
+    const start = addDays(NOW, 2)
+    return Booking.create({
+      providerId: providerProfile._id,
+      serviceId: service._id,
+      clientId: client._id,
+      start,
+      end: addHours(start, 1),
+      status: 'confirmed',
+      syncStatus: 'failed',
+      ...overrides,
+    })
+  }
+
+  beforeEach(async () => {
+    client = await User.create({
+      email: 'client@example.com',
+      name: 'Test Client',
+      roles: ['client'],
+    })
+
+    const providerUser = await User.create({
+      email: 'provider@example.com',
+      name: 'Test Provider',
+      roles: ['provider'],
+    })
+
+    providerProfile = await ProviderProfile.create({
+      userId: providerUser._id,
+      businessName: 'Test Business',
+      timezone: 'Europe/Belgrade',
+      contactInfo: { address: 'Knez Mihailova 1' },
+    })
+
+    service = await Service.create({
+      providerId: providerProfile._id,
+      name: 'Haircut',
+      durationMinutes: 60,
+      price: 1500,
+      isActive: true,
+    })
+
+    await ProviderGoogleIntegration.create(createMockGoogleIntegration({
+      _id: undefined,
+      providerId: providerProfile._id,
+    }))
+  })
+
+  describe('syncBooking', () => {
+    it('should create the missing Google event', async () => {
+      const booking = await createBooking()
+
+      expect(await syncBooking(booking, NOW)).toBe(true)
+
+      const saved = await Booking.findById(booking._id)
+      expect(googleCalendarService.createGoogleCalendarEvent).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ serviceName: 'Haircut', clientEmail: 'client@example.com' })
+      )
+      expect(saved.googleEventId).toBe('google-event-new')
+      expect(saved.syncStatus).toBe('ok')
+    })
+
+    it('should delete the Google event of a cancelled booking', async () => {
+      const booking = await createBooking({ status: 'cancelled', googleEventId: 'google-event-1' })
+
+      expect(await syncBooking(booking, NOW)).toBe(true)
+      expect(googleCalendarService.deleteGoogleCalendarEvent).toHaveBeenCalledWith(expect.anything(), 'google-event-1')
+    })
+
+    it('should record attempts and the last error on failure', async () => {
+      googleCalendarService.updateGoogleCalendarEvent.mockRejectedValueOnce(new Error('invalid_grant'))
+      const booking = await createBooking({ googleEventId: 'google-event-1', syncAttempts: 2 })
+
+      expect(await syncBooking(booking, NOW)).toBe(false)
+
+      const saved = await Booking.findById(booking._id)
+      expect(saved.syncStatus).toBe('failed')
+      expect(saved.syncAttempts).toBe(3)
+      expect(saved.syncError).toBe('invalid_grant')
+      expect(saved.lastSyncAttemptAt).toEqual(NOW)
+    })
+
+    it('should reset attempts after a successful sync', async () => {
+      const booking = await createBooking({ googleEventId: 'google-event-1', syncAttempts: 2, syncError: 'invalid_grant' })
+
+      await syncBooking(booking, NOW)
+
+      const saved = await Booking.findById(booking._id)
+      expect(saved.syncAttempts).toBe(0)
+      expect(saved.syncError).toBeUndefined()
+    })
+  })
+
+  describe('reconcileCalendarSync', () => {
+    it('should retry failed and stale pending bookings', async () => {
+      await createBooking()
+      const stalePending = await createBooking({ syncStatus: 'pending' })
+      await Booking.updateOne({ _id: stalePending._id }, { updatedAt: subMinutes(NOW, 30) }, { timestamps: false })
+      await createBooking({ syncStatus: 'ok' })
+
+      const result = await reconcileCalendarSync({ now: NOW })
+
+      expect(result).toEqual({ checked: 2, synced: 2, failed: 0 })
+    })
+
+    it('should skip past bookings and bookings over the attempt limit', async () => {
+      await createBooking({ start: addDays(NOW, -2), end: addHours(addDays(NOW, -2), 1) })
+      await createBooking({ syncAttempts: MAX_SYNC_ATTEMPTS })
+
+      expect((await reconcileCalendarSync({ now: NOW })).checked).toBe(0)
+      expect((await reconcileCalendarSync({ now: NOW, providerId: providerProfile._id.toString() })).checked).toBe(1)
+    })
+
+    it('should skip providers without an active integration', async () => {
+      await createBooking()
+      await ProviderGoogleIntegration.updateMany({}, { isActive: false })
+
+      expect((await reconcileCalendarSync({ now: NOW })).checked).toBe(0)
+      expect(await findUnsyncedBookings(providerProfile._id.toString(), NOW)).toHaveLength(0)
+    })
+  })
+})
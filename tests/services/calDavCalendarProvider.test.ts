@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import dns from 'dns/promises'
+import { assertPublicCalendarUrl, CalDavCalendarProvider, CalDavError } from '@/services/calendar/calDavCalendarProvider'
+import { formatIcsCalendar, parseIcsEvents } from '@/lib/ical'
+import { startCalDavServer, TestCalDavServer } from '../utils/calDavServer'
+
+const START = new Date('2030-01-15T09:00:00.000Z')
+const END = new Date('2030-01-15T10:00:00.000Z')
+
+describe('CalDavCalendarProvider', () => {
+  let server: TestCalDavServer
+  let calendar: CalDavCalendarProvider
+
+  beforeEach(async () => {
+    // Test server radi na http://127.0.0.1
+    process.env.CALDAV_ALLOW_HTTP = 'true'
+    process.env.CALDAV_ALLOW_PRIVATE_HOSTS = 'true'
+    server = await startCalDavServer({ displayName: 'Salon & Spa' })
+    calendar = new CalDavCalendarProvider(server, 'Europe/Belgrade')
+  })
+
+  afterEach(async () => {
+    delete process.env.CALDAV_ALLOW_HTTP
+    delete process.env.CALDAV_ALLOW_PRIVATE_HOSTS
+    await server.close()
+  })
+
+  describe('verify', () => {
+    it('should return the calendar name', async () => {
+      expect(await calendar.verify()).toBe('Salon & Spa')
+    })
+
+    it('should reject wrong credentials', async () => {
+      const wrong = new CalDavCalendarProvider({ ...server, password: 'wrong' })
+
+      await expect(wrong.verify()).rejects.toBeInstanceOf(CalDavError)
+    })
+
+    it('should reject a URL that is not a calendar', async () => {
+      const wrong = new CalDavCalendarProvider({ ...server, calendarUrl: server.calendarUrl.replace('personal/', '') })
+
+      await expect(wrong.verify()).rejects.toThrow(CalDavError)
+    })
+  })
+
+  describe('events', () => {
+    it('should create, move and delete an event', async () => {
+      const uid = await calendar.createEvent({
+        start: START,
+        end: END,
+        serviceName: 'Haircut',
+        clientName: 'Marko Marković',
+        clientEmail: 'marko@example.com',
+      })
+
+      expect(uid).toMatch(/@zakazivac$/)
+      const [created] = parseIcsEvents(server.events.get(`${uid}.ics`)!)
+      expect(created).toMatchObject({ uid, start: START, end: END, summary: 'Haircut - Marko Marković' })
+
+      const newStart = new Date('2030-01-16T12:00:00.000Z')
+      const newEnd = new Date('2030-01-16T13:00:00.000Z')
+      expect(await calendar.updateEvent(uid!, { start: newStart, end: newEnd })).toBe(true)
+
+      const [moved] = parseIcsEvents(server.events.get(`${uid}.ics`)!)
+      expect(moved).toMatchObject({ uid, start: newStart, end: newEnd, summary: 'Haircut - Marko Marković' })
+
+      expect(await calendar.deleteEvent(uid!)).toBe(true)
+      expect(server.events.size).toBe(0)
+    })
+
+    it('should move only the event times, not the timezone definition', async () => {
+      server.events.set('zoned.ics', [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/Belgrade',
+        'BEGIN:STANDARD',
+        'DTSTART:19701025T030000',
+        'TZOFFSETFROM:+0200',
+        'TZOFFSETTO:+0100',
+        'END:STANDARD',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'UID:zoned',
+        'DTSTART;TZID=Europe/Belgrade:20300115T100000',
+        'DTEND;TZID=Europe/Belgrade:20300115T110000',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT15M',
+        'DURATION:PT5M',
+        'REPEAT:1',
+        'END:VALARM',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n'))
+
+      const newStart = new Date('2030-01-16T12:00:00.000Z')
+      const newEnd = new Date('2030-01-16T13:00:00.000Z')
+      expect(await calendar.updateEvent('zoned', { start: newStart, end: newEnd })).toBe(true)
+
+      const ics = server.events.get('zoned.ics')!
+      expect(ics).toContain('DTSTART:19701025T030000')
+      expect(ics).toContain('DURATION:PT5M')
+      expect(parseIcsEvents(ics)[0]).toMatchObject({ uid: 'zoned', start: newStart, end: newEnd })
+    })
+
+    it('should treat an already deleted event as deleted', async () => {
+      expect(await calendar.deleteEvent('missing@zakazivac')).toBe(true)
+    })
+
+    it('should report a failed update instead of throwing', async () => {
+      expect(await calendar.updateEvent('missing@zakazivac', { start: START, end: END })).toBe(false)
+    })
+  })
+
+  describe('getBusyIntervals', () => {
+    it('should return opaque events in the range', async () => {
+      server.events.set('busy.ics', formatIcsCalendar([{ uid: 'busy', start: START, end: END }]))
+      server.events.set('cancelled.ics', formatIcsCalendar([{
+        uid: 'cancelled',
+        start: START,
+        end: END,
+        status: 'CANCELLED',
+      }]))
+      server.events.set('later.ics', formatIcsCalendar([{
+        uid: 'later',
+        start: new Date('2030-01-20T09:00:00.000Z'),
+        end: new Date('2030-01-20T10:00:00.000Z'),
+      }]))
+      server.events.set('free.ics', [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:free',
+        'DTSTART:20300115T110000Z',
+        'DTEND:20300115T120000Z',
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n'))
+
+      const intervals = await calendar.getBusyIntervals(
+        new Date('2030-01-15T00:00:00.000Z'),
+        new Date('2030-01-16T00:00:00.000Z')
+      )
+
+      expect(intervals).toEqual([{ start: START, end: END }])
+    })
+
+    it('should read floating and all-day events in the provider timezone', async () => {
+      server.events.set('floating.ics', [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:floating',
+        'DTSTART:20300115T140000',
+        'DURATION:PT30M',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:holiday',
+        'DTSTART;VALUE=DATE:20300116',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n'))
+
+      const intervals = await calendar.getBusyIntervals(
+        new Date('2030-01-15T00:00:00.000Z'),
+        new Date('2030-01-17T00:00:00.000Z')
+      )
+
+      expect(intervals).toEqual([
+        { start: new Date('2030-01-15T13:00:00.000Z'), end: new Date('2030-01-15T13:30:00.000Z') },
+        { start: new Date('2030-01-15T23:00:00.000Z'), end: new Date('2030-01-16T23:00:00.000Z') },
+      ])
+    })
+
+    it('should ask the server to expand recurring events in the range', async () => {
+      await calendar.getBusyIntervals(new Date('2030-01-15T00:00:00.000Z'), new Date('2030-01-16T00:00:00.000Z'))
+
+      const report = server.requests.find(request => request.method === 'REPORT')
+      expect(report?.body).toContain('<c:expand start="20300115T000000Z" end="20300116T000000Z"/>')
+    })
+
+    it('should throw when the server rejects the query', async () => {
+      const wrong = new CalDavCalendarProvider({ ...server, password: 'wrong' })
+
+      await expect(wrong.getBusyIntervals(START, END)).rejects.toBeInstanceOf(CalDavError)
+    })
+  })
+})
+
+describe('assertPublicCalendarUrl', () => {
+  afterEach(() => {
+    delete process.env.CALDAV_ALLOW_HTTP
+    jest.restoreAllMocks()
+  })
+
+  it('should accept an https URL on a public address', async () => {
+    await expect(assertPublicCalendarUrl('https://93.184.216.34/dav/calendars/ana/personal/')).resolves.toBeUndefined()
+  })
+
+  it('should reject http unless explicitly allowed', async () => {
+    delete process.env.CALDAV_ALLOW_HTTP
+    await expect(assertPublicCalendarUrl('http://93.184.216.34/dav/')).rejects.toThrow('The calendar URL must use https')
+
+    process.env.CALDAV_ALLOW_HTTP = 'true'
+    await expect(assertPublicCalendarUrl('http://93.184.216.34/dav/')).resolves.toBeUndefined()
+  })
+
+  it.each([
+    'https://localhost/dav/',
+    'https://127.0.0.1/dav/',
+    'https://10.0.0.5/dav/',
+    'https://192.168.1.10/dav/',
+    'https://169.254.169.254/latest/meta-data/',
+    'https://[::1]/dav/',
+    'https://[fd00::1]/dav/',
+    'https://[::ffff:127.0.0.1]/dav/',
+  ])('should reject the internal address %s', async url => {
+    await expect(assertPublicCalendarUrl(url)).rejects.toThrow('The calendar URL must point to a public server')
+  })
+  it('should not send the password once the host resolves to an internal address', async () => {
+    const calendarUrl = 'https://calendar.example.com/dav/calendars/ana/personal/'
+    jest.spyOn(dns, 'lookup')
+      .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }] as never)
+      .mockResolvedValue([{ address: '169.254.169.254', family: 4 }] as never)
+    const fetchSpy = jest.spyOn(global, 'fetch')
+
+    // Pri povezivanju ime vodi na javnu adresu, posle na metadata servis
+    await assertPublicCalendarUrl(calendarUrl)
+    const calendar = new CalDavCalendarProvider({ calendarUrl, username: 'ana', password: 'secret' })
+
+    await expect(calendar.getBusyIntervals(START, END)).rejects.toThrow('The calendar URL must point to a public server')
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
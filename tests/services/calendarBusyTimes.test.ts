@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import Booking from '@/models/Booking'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import StaffMember from '@/models/StaffMember'
+import { clearCalendarBusyCache, getCalendarBusyIntervals } from '@/services/calendar/calendarBusyTimes'
+import {
+  generateAvailableSlots,
+  getLocalDayBounds,
+  warmCalendarBusyTimes
+} from '@/services/calendar/slotGeneration'
+import { createMockAvailabilitySettings, createMockGoogleIntegration } from '../utils/testHelpers'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const mockFreebusyQuery = jest.fn()
+
+jest.mock('googleapis', () => ({
+  google: {
+    auth: {
+      OAuth2: jest.fn(() => ({ setCredentials: jest.fn() })),
+    },
+    calendar: jest.fn(() => ({ freebusy: { query: mockFreebusyQuery } })),
+  },
+}))
+
+const DATE = '2030-01-14'
+const NOW = new Date('2030-01-10T00:00:00.000Z')
+const { start: DAY_START, end: DAY_END } = getLocalDayBounds(DATE, 'Europe/Belgrade')
+
+// Odgovor freebusy API-ja za primary kalendar
+const freebusyResponse = (busy: { start: string; end: string }[]) => ({
+  data: { calendars: { primary: { busy } } },
+})
+
+describe('Calendar busy times', () => {
+  let client: any
+  let providerProfile: any
+  let service: any
+
+  beforeEach(async () => {
+    clearCalendarBusyCache()
+    mockFreebusyQuery.mockReset()
+
+    client = await User.create({
+      email: 'client@example.com',
+      name: 'Test Client',
+      roles: ['client'],
+    })
+
+    const providerUser = await User.create({
+      email: 'provider@example.com',
+      name: 'Test Provider',
+      roles: ['provider'],
+    })
+
+    providerProfile = await ProviderProfile.create({
+      userId: providerUser._id,
+      businessName: 'Test Business',
+      timezone: 'Europe/Belgrade',
+      availabilitySettings: createMockAvailabilitySettings(),
+      contactInfo: { address: 'Knez Mihailova 1' },
+    })
+
+    service = await Service.create({
+      providerId: providerProfile._id,
+      name: 'Haircut',
+      durationMinutes: 60,
+      price: 1500,
+    })
+
+    await ProviderGoogleIntegration.create(createMockGoogleIntegration({
+      _id: undefined,
+      providerId: providerProfile._id,
+    }))
+  })
+
+  describe('getCalendarBusyIntervals', () => {
+    it('should return busy intervals and cache them per provider and day', async () => {
+      mockFreebusyQuery.mockResolvedValue(freebusyResponse([
+        { start: '2030-01-14T10:00:00.000Z', end: '2030-01-14T11:00:00.000Z' },
+      ]))
+      const providerId = providerProfile._id.toString()
+
+      const first = await getCalendarBusyIntervals(providerId, DATE, DAY_START, DAY_END)
+      const second = await getCalendarBusyIntervals(providerId, DATE, DAY_START, DAY_END)
+
+      expect(first).toEqual([{ start: new Date('2030-01-14T10:00:00.000Z'), end: new Date('2030-01-14T11:00:00.000Z') }])
+      expect(second).toEqual(first)
+      expect(mockFreebusyQuery).toHaveBeenCalledTimes(1)
+      expect(mockFreebusyQuery).toHaveBeenCalledWith({
+        requestBody: {
+          timeMin: DAY_START.toISOString(),
+          timeMax: DAY_END.toISOString(),
+          items: [{ id: 'primary' }],
+        },
+      })
+    })
+
+    it('should fall back to no busy times when Google is unreachable', async () => {
+      mockFreebusyQuery.mockRejectedValue(Object.assign(new Error('ECONNRESET'), { code: 'ECONNRESET' }))
+
+      const busy = await getCalendarBusyIntervals(providerProfile._id.toString(), DATE, DAY_START, DAY_END)
+
+      expect(busy).toEqual([])
+    })
+
+    it('should read only the cache when asked for cached busy times', async () => {
+      mockFreebusyQuery.mockResolvedValue(freebusyResponse([
+        { start: '2030-01-14T10:00:00.000Z', end: '2030-01-14T11:00:00.000Z' },
+      ]))
+      const providerId = providerProfile._id.toString()
+
+      expect(await getCalendarBusyIntervals(providerId, DATE, DAY_START, DAY_END, { cachedOnly: true })).toEqual([])
+      expect(mockFreebusyQuery).not.toHaveBeenCalled()
+
+      await warmCalendarBusyTimes(providerProfile, service, [new Date('2030-01-14T09:00:00.000Z')])
+      const busy = await getCalendarBusyIntervals(providerId, DATE, DAY_START, DAY_END, { cachedOnly: true })
+
+      expect(busy).toHaveLength(1)
+      expect(mockFreebusyQuery).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not query Google without an active integration', async () => {
+      await ProviderGoogleIntegration.updateMany({}, { isActive: false })
+
+      const busy = await getCalendarBusyIntervals(providerProfile._id.toString(), DATE, DAY_START, DAY_END)
+
+      expect(busy).toEqual([])
+      expect(mockFreebusyQuery).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('slot generation', () => {
+    it('should exclude slots overlapping Google Calendar events', async () => {
+      mockFreebusyQuery.mockResolvedValue(freebusyResponse([
+        { start: '2030-01-14T10:00:00.000Z', end: '2030-01-14T11:00:00.000Z' }, // 11:00 - 12:00 lokalno
+      ]))
+
+      const slots = await generateAvailableSlots(providerProfile, service, DATE, { now: NOW })
+      const starts = slots.map(slot => slot.start.toISOString())
+
+      expect(starts).not.toContain('2030-01-14T09:30:00.000Z')
+      expect(starts).not.toContain('2030-01-14T10:00:00.000Z')
+      expect(starts).toContain('2030-01-14T11:00:00.000Z')
+    })
+
+    it('should not let the moved booking\'s own Google event block it', async () => {
+      const booking = await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: client._id,
+        start: new Date('2030-01-14T10:00:00.000Z'),
+        end: new Date('2030-01-14T11:00:00.000Z'),
+        status: 'confirmed',
+        googleEventId: 'google-event-1',
+      })
+      // Google spaja događaj rezervacije i privatni događaj posle nje
+      mockFreebusyQuery.mockResolvedValue(freebusyResponse([
+        { start: '2030-01-14T10:00:00.000Z', end: '2030-01-14T12:00:00.000Z' },
+      ]))
+
+      const slots = await generateAvailableSlots(providerProfile, service, DATE, {
+        now: NOW,
+        excludeBookingId: booking._id.toString(),
+      })
+      const starts = slots.map(slot => slot.start.toISOString())
+
+      expect(starts).toContain('2030-01-14T10:00:00.000Z')
+      expect(starts).not.toContain('2030-01-14T11:00:00.000Z')
+    })
+
+    it('should not block staff without a calendar with another staff member\'s booking', async () => {
+      const ana = await StaffMember.create({ providerId: providerProfile._id, name: 'Ana' })
+      const marko = await StaffMember.create({ providerId: providerProfile._id, name: 'Marko' })
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: client._id,
+        staffId: ana._id,
+        start: new Date('2030-01-14T10:00:00.000Z'),
+        end: new Date('2030-01-14T11:00:00.000Z'),
+        status: 'confirmed',
+        googleEventId: 'google-event-1',
+      })
+      // Ana nema svoj kalendar, pa je njena rezervacija u kalendaru providera
+      mockFreebusyQuery.mockResolvedValue(freebusyResponse([
+        { start: '2030-01-14T10:00:00.000Z', end: '2030-01-14T11:00:00.000Z' },
+      ]))
+
+      const slots = await generateAvailableSlots(providerProfile, service, DATE, { now: NOW })
+      const slot = slots.find(slot => slot.start.toISOString() === '2030-01-14T10:00:00.000Z')
+
+      expect(slot?.staffIds).toEqual([marko._id.toString()])
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import {
+  decryptSecret,
+  encryptSecret,
+  EncryptionError,
+  getEncryptionKeyId,
+  isEncrypted
+} from '@/lib/encryption'
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import { reencryptCredentials } from '@/services/calendar/credentialEncryption'
+import { createMockGoogleIntegration } from '../utils/testHelpers'
+
+const OLD_KEY = `2024:${crypto.randomBytes(32).toString('base64')}`
+const NEW_KEY = `2025:${crypto.randomBytes(32).toString('base64')}`
+
+describe('Credential encryption', () => {
+  beforeEach(() => {
+    process.env.CREDENTIALS_ENCRYPTION_KEYS = OLD_KEY
+  })
+
+  afterEach(() => {
+    delete process.env.CREDENTIALS_ENCRYPTION_KEYS
+  })
+
+  describe('encryptSecret', () => {
+    it('should encrypt with the current key and decrypt back', () => {
+      const encrypted = encryptSecret('ya29.access-token')
+
+      expect(isEncrypted(encrypted)).toBe(true)
+      expect(encrypted).not.toContain('access-token')
+      expect(getEncryptionKeyId(encrypted)).toBe('2024')
+      expect(decryptSecret(encrypted)).toBe('ya29.access-token')
+    })
+
+    it('should use a fresh IV for every value', () => {
+      expect(encryptSecret('token')).not.toBe(encryptSecret('token'))
+    })
+
+    it('should not encrypt twice', () => {
+      const encrypted = encryptSecret('token')
+
+      expect(encryptSecret(encrypted)).toBe(encrypted)
+    })
+
+    it('should keep values readable when no key is configured', () => {
+      delete process.env.CREDENTIALS_ENCRYPTION_KEYS
+
+      expect(encryptSecret('token')).toBe('token')
+    })
+
+    it('should reject keys of the wrong length', () => {
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = `short:${crypto.randomBytes(16).toString('base64')}`
+
+      expect(() => encryptSecret('token')).toThrow(EncryptionError)
+    })
+  })
+
+  describe('decryptSecret', () => {
+    it('should return unencrypted values as they are', () => {
+      expect(decryptSecret('legacy-token')).toBe('legacy-token')
+    })
+
+    it('should decrypt values of an older key after rotation', () => {
+      const encrypted = encryptSecret('token')
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = `${NEW_KEY},${OLD_KEY}`
+
+      expect(decryptSecret(encrypted)).toBe('token')
+      expect(getEncryptionKeyId(encryptSecret('other-token'))).toBe('2025')
+    })
+
+    it('should fail when the key is no longer configured', () => {
+      const encrypted = encryptSecret('token')
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = NEW_KEY
+
+      expect(() => decryptSecret(encrypted)).toThrow('Encryption key "2024" is not configured')
+    })
+
+    it('should fail for tampered values', () => {
+      const encrypted = encryptSecret('token')
+      const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA')
+
+      expect(() => decryptSecret(tampered)).toThrow(EncryptionError)
+    })
+  })
+
+  describe('ProviderGoogleIntegration', () => {
+    it('should store tokens encrypted', async () => {
+      const integration = await ProviderGoogleIntegration.create(createMockGoogleIntegration({
+        _id: undefined,
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      }))
+
+      const stored = await ProviderGoogleIntegration.collection.findOne({ _id: integration._id })
+      expect(isEncrypted(stored!.accessToken)).toBe(true)
+      expect(decryptSecret(stored!.accessToken)).toBe('access-token')
+      expect(decryptSecret(stored!.refreshToken)).toBe('refresh-token')
+    })
+
+    it('should encrypt tokens written with an update', async () => {
+      const integration = await ProviderGoogleIntegration.create(createMockGoogleIntegration({ _id: undefined }))
+
+      await ProviderGoogleIntegration.findByIdAndUpdate(integration._id, { accessToken: 'refreshed-token' })
+
+      const stored = await ProviderGoogleIntegration.collection.findOne({ _id: integration._id })
+      expect(decryptSecret(stored!.accessToken)).toBe('refreshed-token')
+      expect(isEncrypted(stored!.accessToken)).toBe(true)
+    })
+  })
+
+  describe('reencryptCredentials', () => {
+    it('should encrypt existing plain-text tokens', async () => {
+      const { insertedId } = await ProviderGoogleIntegration.collection.insertOne({
+        ...createMockGoogleIntegration(),
+        _id: new mongoose.Types.ObjectId(),
+        accessToken: 'plain-access',
+        refreshToken: 'plain-refresh',
+      })
+
+      const result = await reencryptCredentials('encrypt')
+
+      const stored = await ProviderGoogleIntegration.collection.findOne({ _id: insertedId })
+      expect(result).toEqual({ checked: 1, updated: 1, failed: 0 })
+      expect(getEncryptionKeyId(stored!.accessToken)).toBe('2024')
+      expect(decryptSecret(stored!.refreshToken)).toBe('plain-refresh')
+    })
+
+    it('should re-encrypt old values with the new key when rotating', async () => {
+      const integration = await ProviderGoogleIntegration.create(createMockGoogleIntegration({
+        _id: undefined,
+        accessToken: 'access-token',
+      }))
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = `${NEW_KEY},${OLD_KEY}`
+
+      expect((await reencryptCredentials('encrypt')).updated).toBe(0)
+      expect((await reencryptCredentials('rotate')).updated).toBe(1)
+
+      const stored = await ProviderGoogleIntegration.collection.findOne({ _id: integration._id })
+      expect(getEncryptionKeyId(stored!.accessToken)).toBe('2025')
+      expect(getEncryptionKeyId(stored!.refreshToken)).toBe('2025')
+
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = NEW_KEY
+      expect(decryptSecret(stored!.accessToken)).toBe('access-token')
+    })
+
+    it('should refuse to run without a key', async () => {
+      delete process.env.CREDENTIALS_ENCRYPTION_KEYS
+
+      await expect(reencryptCredentials('encrypt')).rejects.toThrow(EncryptionError)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { emailService } from '@/services/emailService'
+import {
+  MailgunTransport,
+  OutboxTransport,
+  SmtpTransport,
+  clearOutbox,
+  createEmailTransport,
+  getOutbox,
+} from '@/services/email/transports'
+import { clearSettingsCache, updateSettings } from '@/services/settings/settingsService'
+import { getDefaultSettings } from '@/lib/settings'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const bookingDetails = {
+  recipientName: 'Test Client',
+  recipientRole: 'client' as const,
+  status: 'confirmed',
+  serviceName: 'Haircut',
+  providerName: 'Test Business',
+  clientName: 'Test Client',
+  start: '14.01.2030. 11:00',
+  note: '<b>Kasnim 5 min</b>',
+}
+
+describe('EmailService', () => {
+  beforeEach(() => {
+    clearSettingsCache()
+    clearOutbox()
+  })
+
+  it('should deliver messages through the outbox transport', async () => {
+    const sent = await emailService.sendVerificationEmail('new@example.com', 'New User', 'token-123')
+
+    expect(sent).toBe(true)
+    const [message] = getOutbox()
+    expect(message.to).toEqual(['new@example.com'])
+    expect(message.subject).toBe('Potvrdite svoj nalog - Zakazivač')
+    expect(message.html).toContain('/auth/verify/token-123')
+    expect(message.text).not.toContain('<')
+  })
+
+  it('should use the sender from settings', async () => {
+    await updateSettings({ email: { fromEmail: 'booking@salon.rs', fromName: 'Salon' } })
+
+    await emailService.sendEmail({ to: 'a@example.com', subject: 'Test', html: '<p>Test</p>' })
+
+    expect(getOutbox()[0].from).toBe('Salon <booking@salon.rs>')
+  })
+
+  it('should render booking emails with escaped user input', async () => {
+    await emailService.sendBookingEmail('client@example.com', 'created', bookingDetails)
+
+    const [message] = getOutbox()
+    expect(message.subject).toBe('Termin je potvrđen - Zakazivač')
+    expect(message.html).toContain('Haircut')
+    expect(message.html).toContain('14.01.2030. 11:00')
+    expect(message.html).toContain('&lt;b&gt;Kasnim 5 min&lt;/b&gt;')
+  })
+
+  it('should attach the calendar invite', async () => {
+    await emailService.sendBookingEmail('client@example.com', 'cancelled', {
+      ...bookingDetails,
+      calendarInvite: { method: 'CANCEL', content: 'BEGIN:VCALENDAR\r\nMETHOD:CANCEL\r\nEND:VCALENDAR\r\n' },
+    })
+
+    expect(getOutbox()[0].attachments).toEqual([{
+      filename: 'cancel.ics',
+      content: 'BEGIN:VCALENDAR\r\nMETHOD:CANCEL\r\nEND:VCALENDAR\r\n',
+      contentType: 'text/calendar; charset=utf-8; method=CANCEL',
+    }])
+  })
+
+  it('should word pending booking emails as requests', async () => {
+    await emailService.sendBookingEmail('provider@example.com', 'created', {
+      ...bookingDetails,
+      status: 'pending',
+      recipientRole: 'provider',
+    })
+
+    expect(getOutbox()[0].subject).toBe('Novi zahtev za termin - Zakazivač')
+  })
+})
+
+describe('createEmailTransport', () => {
+  const env = { ...process.env }
+  const emailSettings = getDefaultSettings().email
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('should create the transport selected in settings', () => {
+    process.env.MAILGUN_API_KEY = 'key'
+    process.env.MAILGUN_DOMAIN = 'mg.example.com'
+
+    expect(createEmailTransport({ ...emailSettings, transport: 'mailgun' })).toBeInstanceOf(MailgunTransport)
+    expect(createEmailTransport({ ...emailSettings, transport: 'smtp', smtpHost: 'smtp.example.com' }))
+      .toBeInstanceOf(SmtpTransport)
+    expect(createEmailTransport({ ...emailSettings, transport: 'outbox' })).toBeInstanceOf(OutboxTransport)
+  })
+
+  it('should fall back to the outbox when the selected transport is not configured', () => {
+    delete process.env.MAILGUN_API_KEY
+
+    expect(createEmailTransport({ ...emailSettings, transport: 'mailgun' })).toBeInstanceOf(OutboxTransport)
+    expect(createEmailTransport({ ...emailSettings, transport: 'smtp', smtpHost: '' })).toBeInstanceOf(OutboxTransport)
+  })
+})
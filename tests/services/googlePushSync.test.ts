@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { addDays, addHours } from 'date-fns'
+import Booking from '@/models/Booking'
+import Job from '@/models/Job'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import ProviderGoogleIntegration from '@/models/ProviderGoogleIntegration'
+import {
+  handleGoogleNotification,
+  pullGoogleChanges,
+  renewGoogleWatches
+} from '@/services/calendar/googlePushSync'
+import { createMockAvailabilitySettings, createMockGoogleIntegration } from '../utils/testHelpers'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+jest.mock('@/services/booking/bookingNotifications', () => ({
+  notifyBooking: jest.fn(() => Promise.resolve()),
+}))
+
+jest.mock('@/services/calendar/googleCalendarService', () => {
+  class GoogleSyncTokenExpiredError extends Error {}
+  return {
+    GoogleSyncTokenExpiredError,
+    listGoogleCalendarChanges: jest.fn(),
+    watchGoogleCalendar: jest.fn(),
+    stopGoogleCalendarWatch: jest.fn(() => Promise.resolve(true)),
+  }
+})
+
+const googleCalendarService = require('@/services/calendar/googleCalendarService')
+const { notifyBooking } = require('@/services/booking/bookingNotifications')
+
+const NOW = new Date('2030-01-10T09:00:00.000Z')
+const START = addDays(NOW, 2)
+const allDays = { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
+
+describe('Google Calendar push sync', () => {
+  let client: any
+  let providerProfile: any
+  let service: any
+  let integration: any
+
+  const createBooking = (overrides: Record<string, unknown> = {}) => Booking.create({
+    providerId: providerProfile._id,
+    serviceId: service._id,
+    clientId: client._id,
+    start: START,
+    end: addHours(START, 1),
+    status: 'confirmed',
+    syncStatus: 'ok',
+    googleEventId: 'google-event-1',
+    ...overrides,
+  })
+
+  // Izmena u Google-u je novija od poslednje izmene rezervacije
+  const googleChange = (change: Record<string, unknown>) => ({
+    id: 'google-event-1',
+    cancelled: false,
+    updated: addDays(new Date(), 1),
+    ...change,
+  })
+
+  beforeEach(async () => {
+    process.env.GOOGLE_WEBHOOK_URL = 'https://example.com/api/integrations/google/webhook'
+
+    client = await User.create({
+      email: 'client@example.com',
+      name: 'Test Client',
+      roles: ['client'],
+    })
+
+    const providerUser = await User.create({
+      email: 'provider@example.com',
+      name: 'Test Provider',
+      roles: ['provider'],
+    })
+
+    providerProfile = await ProviderProfile.create({
+      userId: providerUser._id,
+      businessName: 'Test Business',
+      timezone: 'Europe/Belgrade',
+      contactInfo: { address: 'Knez Mihailova 1' },
+      // Pomeranje iz Google-a proverava radno vreme, i vikendom
+      availabilitySettings: createMockAvailabilitySettings({
+        weekSchedule: {
+          monday: allDays,
+          tuesday: allDays,
+          wednesday: allDays,
+          thursday: allDays,
+          friday: allDays,
+          saturday: allDays,
+          sunday: allDays,
+        },
+      }),
+    })
+
+    service = await Service.create({
+      providerId: providerProfile._id,
+      name: 'Haircut',
+      durationMinutes: 60,
+      price: 1500,
+    })
+
+    integration = await ProviderGoogleIntegration.create(createMockGoogleIntegration({
+      _id: undefined,
+      providerId: providerProfile._id,
+      syncToken: 'sync-token-1',
+    }))
+  })
+
+  afterEach(() => {
+    delete process.env.GOOGLE_WEBHOOK_URL
+  })
+
+  describe('pullGoogleChanges', () => {
+    it('should move the booking when its event is moved in Google', async () => {
+      const booking = await createBooking()
+      const newStart = addHours(START, 3)
+      googleCalendarService.listGoogleCalendarChanges.mockResolvedValue({
+        events: [googleChange({ start: newStart, end: addHours(newStart, 1) })],
+        nextSyncToken: 'sync-token-2',
+      })
+
+      const result = await pullGoogleChanges(integration, NOW)
+
+      const saved = await Booking.findById(booking._id)
+      expect(result.moved).toBe(1)
+      expect(googleCalendarService.listGoogleCalendarChanges).toHaveBeenCalledWith(expect.anything(), 'sync-token-1')
+      expect(saved.start).toEqual(newStart)
+      expect(saved.originalStart).toEqual(START)
+      expect(saved.statusHistory[saved.statusHistory.length - 1]).toMatchObject({
+        action: 'reschedule',
+        actorRole: 'system',
+      })
+      expect(notifyBooking).toHaveBeenCalledWith(expect.anything(), 'rescheduled')
+      expect((await ProviderGoogleIntegration.findById(integration._id)).syncToken).toBe('sync-token-2')
+    })
+
+    it('should flag instead of moving onto another booking', async () => {
+      const booking = await createBooking()
+      const newStart = addHours(START, 3)
+      await createBooking({ start: newStart, end: addHours(newStart, 1), googleEventId: 'google-event-2' })
+      googleCalendarService.listGoogleCalendarChanges.mockResolvedValue({
+        events: [googleChange({ start: newStart, end: addHours(newStart, 1) })],
+        nextSyncToken: 'sync-token-2',
+      })
+
+      const result = await pullGoogleChanges(integration, NOW)
+
+      const saved = await Booking.findById(booking._id)
+      expect(result.flagged).toBe(1)
+      expect(saved.start).toEqual(START)
+      expect(saved.externalChange).toMatchObject({ type: 'moved', start: newStart })
+      expect(notifyBooking).not.toHaveBeenCalled()
+    })
+
+    it('should flag the booking when its event is deleted in Google', async () => {
+      const booking = await createBooking()
+      googleCalendarService.listGoogleCalendarChanges.mockResolvedValue({
+        events: [googleChange({ cancelled: true })],
+        nextSyncToken: 'sync-token-2',
+      })
+
+      const result = await pullGoogleChanges(integration, NOW)
+
+      const saved = await Booking.findById(booking._id)
+      expect(result.flagged).toBe(1)
+      expect(saved.status).toBe('confirmed')
+      expect(saved.externalChange.type).toBe('deleted')
+      expect(saved.googleEventId).toBeUndefined()
+    })
+
+    it('should flag instead of moving a booking that already started', async () => {
+      const booking = await createBooking({ start: addHours(NOW, -1), end: NOW })
+      googleCalendarService.listGoogleCalendarChanges.mockResolvedValue({
+        events: [googleChange({ start: START, end: addHours(START, 1) })],
+        nextSyncToken: 'sync-token-2',
+      })
+
+      await pullGoogleChanges(integration, NOW)
+
+      const saved = await Booking.findById(booking._id)
+      expect(saved.start).toEqual(addHours(NOW, -1))
+      expect(saved.externalChange).toMatchObject({ type: 'moved', start: START })
+    })
+
+    it('should ignore events older than the last booking change', async () => {
+      const booking = await createBooking()
+      googleCalendarService.listGoogleCalendarChanges.mockResolvedValue({
+        events: [googleChange({ cancelled: true, updated: new Date('2020-01-01T00:00:00.000Z') })],
+        nextSyncToken: 'sync-token-2',
+      })
+
+      await pullGoogleChanges(integration, NOW)
+
+      expect((await Booking.findById(booking._id)).googleEventId).toBe('google-event-1')
+    })
+
+    it('should do a full sync when the sync token expired', async () => {
+      googleCalendarService.listGoogleCalendarChanges
+        .mockRejectedValueOnce(new googleCalendarService.GoogleSyncTokenExpiredError())
+        .mockResolvedValueOnce({ events: [], nextSyncToken: 'sync-token-full' })
+
+      await pullGoogleChanges(integration, NOW)
+
+      expect(googleCalendarService.listGoogleCalendarChanges).toHaveBeenLastCalledWith(expect.anything())
+      expect((await ProviderGoogleIntegration.findById(integration._id)).syncToken).toBe('sync-token-full')
+    })
+  })
+
+  describe('handleGoogleNotification', () => {
+    beforeEach(async () => {
+      await ProviderGoogleIntegration.updateOne({ _id: integration._id }, {
+        watchChannelId: 'channel-1',
+        watchResourceId: 'resource-1',
+        watchToken: 'secret-token',
+      })
+    })
+
+    const headers = (overrides: Record<string, string | null> = {}) => ({
+      channelId: 'channel-1',
+      channelToken: 'secret-token',
+      resourceId: 'resource-1',
+      resourceState: 'exists',
+      ...overrides,
+    })
+
+    it('should enqueue a single pull job per integration', async () => {
+      expect(await handleGoogleNotification(headers())).toBe(true)
+      expect(await handleGoogleNotification(headers())).toBe(true)
+
+      const jobs = await Job.find({ type: 'calendar.pull-changes' })
+      expect(jobs).toHaveLength(1)
+      expect(jobs[0].payload).toEqual({ integrationId: integration._id.toString() })
+    })
+
+    it('should reject notifications with a wrong token', async () => {
+      expect(await handleGoogleNotification(headers({ channelToken: 'wrong-token!' }))).toBe(false)
+      expect(await Job.countDocuments()).toBe(0)
+    })
+
+    it('should not pull changes for the initial sync message', async () => {
+      expect(await handleGoogleNotification(headers({ resourceState: 'sync' }))).toBe(true)
+      expect(await Job.countDocuments()).toBe(0)
+    })
+  })
+
+  describe('renewGoogleWatches', () => {
+    it('should replace channels that expire soon', async () => {
+      await ProviderGoogleIntegration.updateOne({ _id: integration._id }, {
+        watchChannelId: 'channel-old',
+        watchResourceId: 'resource-old',
+        watchToken: 'old-token',
+        watchExpiresAt: addHours(NOW, 6),
+      })
+      googleCalendarService.watchGoogleCalendar.mockResolvedValue({
+        resourceId: 'resource-new',
+        expiration: addDays(NOW, 7),
+      })
+
+      expect(await renewGoogleWatches(NOW)).toBe(1)
+
+      const saved = await ProviderGoogleIntegration.findById(integration._id)
+      expect(saved.watchResourceId).toBe('resource-new')
+      expect(saved.watchChannelId).not.toBe('channel-old')
+      expect(googleCalendarService.stopGoogleCalendarWatch).toHaveBeenCalledWith(
+        expect.anything(),
+        'channel-old',
+        'resource-old'
+      )
+    })
+
+    it('should keep channels that are still valid', async () => {
+      await ProviderGoogleIntegration.updateOne({ _id: integration._id }, {
+        watchChannelId: 'channel-1',
+        watchResourceId: 'resource-1',
+        watchExpiresAt: addDays(NOW, 5),
+      })
+
+      expect(await renewGoogleWatches(NOW)).toBe(0)
+      expect(googleCalendarService.watchGoogleCalendar).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals'
+import { findPublicHoliday, getPublicHolidays, orthodoxEaster, westernEaster } from '@/lib/holidays'
+
+const dates = (holidays: { date: string }[]) => holidays.map(holiday => holiday.date)
+
+describe('Public holidays', () => {
+  it('should calculate Orthodox and Western Easter', () => {
+    expect(orthodoxEaster(2024).toISOString().slice(0, 10)).toBe('2024-05-05')
+    expect(orthodoxEaster(2025).toISOString().slice(0, 10)).toBe('2025-04-20')
+    expect(orthodoxEaster(2026).toISOString().slice(0, 10)).toBe('2026-04-12')
+    expect(westernEaster(2024).toISOString().slice(0, 10)).toBe('2024-03-31')
+    expect(westernEaster(2026).toISOString().slice(0, 10)).toBe('2026-04-05')
+  })
+
+  it('should list the Serbian holidays with Orthodox Easter', () => {
+    expect(dates(getPublicHolidays('RS', 2026))).toEqual([
+      '2026-01-01', '2026-01-02', '2026-01-07',
+      '2026-02-15', '2026-02-16',
+      // Statehood Day pada u nedelju
+      '2026-02-17',
+      '2026-04-10', '2026-04-11', '2026-04-12', '2026-04-13',
+      '2026-05-01', '2026-05-02',
+      '2026-11-11',
+    ])
+  })
+
+  it('should move a Serbian holiday past Easter when both fall together', () => {
+    // 2021: Uskrs 2. maja (nedelja), ponedeljak je Uskrsni ponedeljak
+    expect(findPublicHoliday(['RS'], '2021-05-04')?.name).toBe('Labour Day (observed)')
+  })
+
+  it('should use Western Easter for EU calendars', () => {
+    expect(findPublicHoliday(['DE'], '2026-04-06')?.name).toBe('Easter Monday')
+    expect(findPublicHoliday(['RS'], '2026-04-06')).toBeUndefined()
+    expect(findPublicHoliday(['RS', 'HR'], '2026-06-22')?.country).toBe('HR')
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import { addSeconds, addDays } from 'date-fns'
+import Job from '@/models/Job'
+import {
+  JobHandler,
+  claimNextJob,
+  cleanupJobs,
+  enqueueJob,
+  ensureRecurringJob,
+  getRetryDelayMs,
+  runNextJob
+} from '@/services/jobs/jobQueue'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const NOW = new Date('2030-01-10T09:00:00.000Z')
+
+describe('Job queue', () => {
+  describe('getRetryDelayMs', () => {
+    it('should double the delay per attempt up to one hour', () => {
+      expect(getRetryDelayMs(1)).toBe(30 * 1000)
+      expect(getRetryDelayMs(2)).toBe(60 * 1000)
+      expect(getRetryDelayMs(3)).toBe(120 * 1000)
+      expect(getRetryDelayMs(20)).toBe(60 * 60 * 1000)
+    })
+  })
+
+  describe('enqueueJob', () => {
+    it('should return the existing job for the same uniqueKey', async () => {
+      const first = await enqueueJob('calendar.sync-booking', { bookingId: 'a' }, { uniqueKey: 'sync:a', runAt: NOW })
+      const second = await enqueueJob('calendar.sync-booking', { bookingId: 'a' }, { uniqueKey: 'sync:a', runAt: NOW })
+
+      expect(second._id.toString()).toBe(first._id.toString())
+      expect(await Job.countDocuments()).toBe(1)
+    })
+  })
+
+  describe('claimNextJob', () => {
+    it('should skip jobs that are not due yet', async () => {
+      await enqueueJob('jobs.cleanup', {}, { runAt: addSeconds(NOW, 60) })
+
+      expect(await claimNextJob('worker-1', NOW)).toBeNull()
+    })
+
+    it('should hand a job to only one worker', async () => {
+      await enqueueJob('jobs.cleanup', {}, { runAt: NOW })
+
+      const [first, second] = await Promise.all([
+        claimNextJob('worker-1', NOW),
+        claimNextJob('worker-2', NOW),
+      ])
+
+      expect([first, second].filter(Boolean)).toHaveLength(1)
+    })
+
+    it('should reclaim a running job whose lock expired', async () => {
+      await enqueueJob('jobs.cleanup', {}, { runAt: NOW })
+      await claimNextJob('worker-1', NOW)
+
+      expect(await claimNextJob('worker-2', addSeconds(NOW, 60))).toBeNull()
+
+      const reclaimed = await claimNextJob('worker-2', addSeconds(NOW, 10 * 60))
+      expect(reclaimed?.lockedBy).toBe('worker-2')
+      expect(reclaimed?.attempts).toBe(2)
+    })
+  })
+
+  describe('runNextJob', () => {
+    it('should complete a job and free its uniqueKey', async () => {
+      const job = await enqueueJob('calendar.sync-booking', { bookingId: 'a' }, { uniqueKey: 'sync:a', runAt: NOW })
+      const handler = jest.fn<JobHandler>(() => Promise.resolve())
+
+      expect(await runNextJob({ 'calendar.sync-booking': handler }, 'worker-1', NOW)).toBe(true)
+
+      const saved = await Job.findById(job._id)
+      expect(handler).toHaveBeenCalledWith({ bookingId: 'a' }, expect.anything())
+      expect(saved?.status).toBe('completed')
+      expect(saved?.uniqueKey).toBeUndefined()
+      expect(await runNextJob({ 'calendar.sync-booking': handler }, 'worker-1', NOW)).toBe(false)
+    })
+
+    it('should requeue a failed job with backoff', async () => {
+      const job = await enqueueJob('calendar.sync-booking', {}, { runAt: NOW })
+
+      await runNextJob({ 'calendar.sync-booking': () => Promise.reject(new Error('Google down')) }, 'worker-1', NOW)
+
+      const saved = await Job.findById(job._id)
+      expect(saved?.status).toBe('queued')
+      expect(saved?.attempts).toBe(1)
+      expect(saved?.lastError).toBe('Google down')
+      expect(saved?.runAt).toEqual(addSeconds(NOW, 30))
+      expect(saved?.lockedBy).toBeUndefined()
+    })
+
+    it('should mark a job failed after max attempts', async () => {
+      const job = await enqueueJob('calendar.sync-booking', {}, { runAt: NOW, maxAttempts: 2 })
+      const handlers = { 'calendar.sync-booking': () => Promise.reject(new Error('Google down')) }
+
+      await runNextJob(handlers, 'worker-1', NOW)
+      await runNextJob(handlers, 'worker-1', addSeconds(NOW, 30))
+
+      const saved = await Job.findById(job._id)
+      expect(saved?.status).toBe('failed')
+      expect(saved?.attempts).toBe(2)
+    })
+
+    it('should fail a job without a registered handler', async () => {
+      const job = await enqueueJob('jobs.cleanup', {}, { runAt: NOW, maxAttempts: 1 })
+
+      await runNextJob({}, 'worker-1', NOW)
+
+      const saved = await Job.findById(job._id)
+      expect(saved?.status).toBe('failed')
+      expect(saved?.lastError).toContain('No handler')
+    })
+
+    it('should reschedule a recurring job after it runs', async () => {
+      const job = await ensureRecurringJob('booking.send-reminders', 5 * 60 * 1000, NOW)
+      await ensureRecurringJob('booking.send-reminders', 5 * 60 * 1000, NOW)
+
+      await runNextJob({ 'booking.send-reminders': () => Promise.resolve() }, 'worker-1', NOW)
+
+      const saved = await Job.findById(job._id)
+      expect(await Job.countDocuments()).toBe(1)
+      expect(saved?.status).toBe('queued')
+      expect(saved?.runAt).toEqual(addSeconds(NOW, 5 * 60))
+      expect(saved?.uniqueKey).toBe('recurring:booking.send-reminders')
+    })
+  })
+
+  describe('cleanupJobs', () => {
+    it('should delete finished jobs older than the given days', async () => {
+      await Job.create([
+        { type: 'jobs.cleanup', status: 'completed', completedAt: addDays(NOW, -10) },
+        { type: 'jobs.cleanup', status: 'failed', completedAt: addDays(NOW, -1) },
+        { type: 'jobs.cleanup', status: 'queued', runAt: addDays(NOW, -10) },
+      ])
+
+      expect(await cleanupJobs(7, NOW)).toBe(1)
+      expect(await Job.countDocuments()).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { formatInTimeZone } from 'date-fns-tz'
+import Booking from '@/models/Booking'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import {
+  MAX_SERIES_OCCURRENCES,
+  checkSeriesOccurrences,
+  getOccurrenceStarts,
+} from '@/services/booking/recurringBookings'
+import DatabaseTestUtils from '../utils/databaseUtils'
+import { createMockAvailabilitySettings } from '../utils/testHelpers'
+
+const TIMEZONE = 'Europe/Belgrade'
+const NOW = new Date('2030-01-10T00:00:00.000Z')
+
+const localTimes = (starts: Date[]) => starts.map(start => formatInTimeZone(start, TIMEZONE, 'yyyy-MM-dd HH:mm'))
+
+describe('Recurring bookings', () => {
+  describe('getOccurrenceStarts', () => {
+    it('should keep the local time across the daylight saving change', () => {
+      // 10:00 u Beogradu, pre i posle prelaska na letnje vreme 30. marta
+      const starts = getOccurrenceStarts(new Date('2030-03-21T09:00:00.000Z'), { frequency: 'weekly', count: 3 }, TIMEZONE)
+
+      expect(localTimes(starts)).toEqual(['2030-03-21 10:00', '2030-03-28 10:00', '2030-04-04 10:00'])
+      expect(starts[2].toISOString()).toBe('2030-04-04T08:00:00.000Z')
+    })
+
+    it('should repeat every two weeks', () => {
+      const starts = getOccurrenceStarts(new Date('2030-01-14T09:00:00.000Z'), { frequency: 'biweekly', count: 3 }, TIMEZONE)
+
+      expect(localTimes(starts)).toEqual(['2030-01-14 10:00', '2030-01-28 10:00', '2030-02-11 10:00'])
+    })
+
+    it('should move monthly occurrences to the last day of shorter months', () => {
+      const starts = getOccurrenceStarts(new Date('2030-01-31T09:00:00.000Z'), { frequency: 'monthly', count: 3 }, TIMEZONE)
+
+      expect(localTimes(starts)).toEqual(['2030-01-31 10:00', '2030-02-28 10:00', '2030-03-31 10:00'])
+    })
+
+    it('should stop after the until date', () => {
+      const starts = getOccurrenceStarts(new Date('2030-01-14T09:00:00.000Z'), { frequency: 'weekly', until: '2030-02-04' }, TIMEZONE)
+
+      expect(localTimes(starts)).toEqual([
+        '2030-01-14 10:00',
+        '2030-01-21 10:00',
+        '2030-01-28 10:00',
+        '2030-02-04 10:00',
+      ])
+    })
+
+    it('should cap a long series', () => {
+      const starts = getOccurrenceStarts(new Date('2030-01-14T09:00:00.000Z'), { frequency: 'weekly', until: '2040-01-01' }, TIMEZONE)
+
+      expect(starts).toHaveLength(MAX_SERIES_OCCURRENCES)
+    })
+  })
+
+  describe('with database', () => {
+    let providerProfile: any
+    let service: any
+    let client: any
+
+    const policy = {
+      maxAdvanceBookingDays: 30,
+      minAdvanceBookingHours: 2,
+      allowSameDayBooking: true,
+      cancellationHours: 24,
+    }
+
+    beforeEach(async () => {
+      await DatabaseTestUtils.cleanDatabase()
+
+      const providerUser = await User.create({
+        email: 'provider@example.com',
+        name: 'Test Provider',
+        roles: ['provider'],
+      })
+
+      client = await User.create({
+        email: 'client@example.com',
+        name: 'Test Client',
+        roles: ['client'],
+      })
+
+      providerProfile = await ProviderProfile.create({
+        userId: providerUser._id,
+        businessName: 'Test Business',
+        timezone: TIMEZONE,
+        isActive: true,
+        availabilitySettings: createMockAvailabilitySettings(),
+      })
+
+      service = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Physiotherapy',
+        durationMinutes: 60,
+        price: 3000,
+      })
+    })
+
+    it('should report taken and out-of-window occurrences', async () => {
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: providerProfile.userId,
+        start: new Date('2030-01-21T09:00:00.000Z'),
+        end: new Date('2030-01-21T10:00:00.000Z'),
+        status: 'confirmed',
+      })
+      const starts = getOccurrenceStarts(new Date('2030-01-14T09:00:00.000Z'), { frequency: 'weekly', count: 5 }, TIMEZONE)
+
+      const occurrences = await checkSeriesOccurrences(providerProfile, service, starts, {
+        clientId: client._id.toString(),
+        policy,
+        timezone: TIMEZONE,
+        now: NOW,
+      })
+
+      expect(occurrences.map(occurrence => occurrence.error)).toEqual([
+        undefined,
+        'This time slot is no longer available',
+        undefined,
+        undefined,
+        'Bookings can be made at most 30 days in advance',
+      ])
+    })
+  })
+})
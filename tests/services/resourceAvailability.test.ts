@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals'
+import { hasFreeResources, ResourceUsage } from '@/services/resources/resourceAvailability'
+
+const at = (time: string) => new Date(`2030-01-14T${time}:00.000Z`)
+
+const usage = (quantity: number, busy: [string, string][]): ResourceUsage => ({
+  resourceId: 'room',
+  name: 'Room 1',
+  quantity,
+  busyIntervals: busy.map(([start, end]) => ({ start: at(start), end: at(end) })),
+})
+
+describe('hasFreeResources', () => {
+  const slot = { start: at('09:00'), end: at('10:00') }
+
+  it('should allow any slot when the service needs no resources', () => {
+    expect(hasFreeResources(slot, [])).toBe(true)
+  })
+
+  it('should reject a slot overlapping a booking of a single unit resource', () => {
+    expect(hasFreeResources(slot, [usage(1, [['09:30', '10:30']])])).toBe(false)
+  })
+
+  it('should allow back-to-back use of the same unit', () => {
+    expect(hasFreeResources(slot, [usage(1, [['08:00', '09:00'], ['10:00', '11:00']])])).toBe(true)
+  })
+
+  it('should allow overlaps up to the resource quantity', () => {
+    expect(hasFreeResources(slot, [usage(2, [['09:00', '10:00']])])).toBe(true)
+    expect(hasFreeResources(slot, [usage(2, [['09:00', '09:30'], ['09:15', '10:00']])])).toBe(false)
+  })
+
+  it('should count only bookings that overlap at the same time', () => {
+    expect(hasFreeResources(slot, [usage(2, [['09:00', '09:30'], ['09:30', '10:00']])])).toBe(true)
+  })
+
+  it('should require every resource to be free', () => {
+    expect(hasFreeResources(slot, [usage(1, []), usage(1, [['09:45', '10:15']])])).toBe(false)
+  })
+})
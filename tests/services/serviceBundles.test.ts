@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals'
+import mongoose from 'mongoose'
+import Service from '@/models/Service'
+import {
+  ServiceBundleError,
+  combineServices,
+  getBookedServiceName,
+  getLineItems,
+  intersectAvailabilityWindows,
+} from '@/services/booking/serviceBundles'
+
+// Dokumenti bez baze, combineServices ne čita ništa iz nje
+const buildService = (fields: Record<string, unknown>) => new Service({
+  providerId: new mongoose.Types.ObjectId(),
+  ...fields,
+})
+
+describe('Service bundles', () => {
+  describe('intersectAvailabilityWindows', () => {
+    it('should keep only the overlapping hours of the same day', () => {
+      const windows = intersectAvailabilityWindows(
+        [{ day: 'monday', start: '09:00', end: '13:00' }, { day: 'tuesday', start: '09:00', end: '13:00' }],
+        [{ day: 'monday', start: '11:00', end: '17:00' }, { day: 'wednesday', start: '09:00', end: '17:00' }]
+      )
+
+      expect(windows).toEqual([{ day: 'monday', start: '11:00', end: '13:00' }])
+    })
+
+    it('should drop windows that only touch', () => {
+      const windows = intersectAvailabilityWindows(
+        [{ day: 'monday', start: '09:00', end: '11:00' }],
+        [{ day: 'monday', start: '11:00', end: '17:00' }]
+      )
+
+      expect(windows).toEqual([])
+    })
+  })
+
+  describe('combineServices', () => {
+    it('should add up duration and price and keep the services in order', () => {
+      const haircut = buildService({ name: 'Haircut', durationMinutes: 60, price: 1500 })
+      const shave = buildService({ name: 'Shave', durationMinutes: 30, price: 800 })
+
+      const bundle = combineServices([haircut, shave])
+
+      expect(bundle._id).toEqual(haircut._id)
+      expect(bundle.name).toBe('Haircut + Shave')
+      expect(bundle.durationMinutes).toBe(90)
+      expect(bundle.price).toBe(2300)
+      expect(getLineItems(bundle).map(item => item.serviceId)).toEqual([haircut._id, shave._id])
+    })
+
+    it('should take buffers from the ends and the longest notice', () => {
+      const first = buildService({
+        name: 'Coloring',
+        durationMinutes: 90,
+        price: 4000,
+        bookingRules: { bufferBeforeMinutes: 10, bufferAfterMinutes: 15, minimumNoticeHours: 24 },
+      })
+      const second = buildService({
+        name: 'Blow-dry',
+        durationMinutes: 30,
+        price: 1000,
+        bookingRules: { bufferBeforeMinutes: 5, bufferAfterMinutes: 20, minimumNoticeHours: 2 },
+      })
+
+      const { bookingRules } = combineServices([first, second])
+
+      expect(bookingRules?.bufferBeforeMinutes).toBe(10)
+      expect(bookingRules?.bufferAfterMinutes).toBe(20)
+      expect(bookingRules?.minimumNoticeHours).toBe(24)
+    })
+
+    it('should use every resource any of the services needs', () => {
+      const room = new mongoose.Types.ObjectId()
+      const chair = new mongoose.Types.ObjectId()
+      const first = buildService({ name: 'Massage', durationMinutes: 60, price: 3000, resourceIds: [room] })
+      const second = buildService({ name: 'Pedicure', durationMinutes: 45, price: 2000, resourceIds: [room, chair] })
+
+      const bundle = combineServices([first, second])
+
+      expect(bundle.resourceIds.map(id => id.toString()).sort()).toEqual([room.toString(), chair.toString()].sort())
+    })
+
+    it('should reject services without common booking hours', () => {
+      const morning = buildService({
+        name: 'Morning yoga prep',
+        durationMinutes: 30,
+        price: 500,
+        bookingRules: { availabilityWindows: [{ day: 'monday', start: '08:00', end: '10:00' }] },
+      })
+      const evening = buildService({
+        name: 'Evening massage',
+        durationMinutes: 60,
+        price: 3000,
+        bookingRules: { availabilityWindows: [{ day: 'monday', start: '17:00', end: '20:00' }] },
+      })
+
+      expect(() => combineServices([morning, evening])).toThrow(ServiceBundleError)
+    })
+
+    it('should reject group classes', () => {
+      const haircut = buildService({ name: 'Haircut', durationMinutes: 60, price: 1500 })
+      const yoga = buildService({ name: 'Yoga', durationMinutes: 60, price: 1000, maxParticipants: 10 })
+
+      expect(() => combineServices([haircut, yoga])).toThrow('Group classes cannot be combined with other services')
+    })
+  })
+
+  describe('getBookedServiceName', () => {
+    it('should list every service of a combined appointment', () => {
+      expect(getBookedServiceName({ items: [{ name: 'Haircut' }, { name: 'Shave' }] }, 'Haircut')).toBe('Haircut + Shave')
+      expect(getBookedServiceName({}, 'Haircut')).toBe('Haircut')
+    })
+  })
+})
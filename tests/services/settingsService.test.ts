@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import crypto from 'crypto'
+import {
+  SettingsValidationError,
+  SettingsVersionConflictError,
+  clearSettingsCache,
+  getSettings,
+  getSettingsHistory,
+  getVersionedSettings,
+  updateSettings,
+} from '@/services/settings/settingsService'
+import { SECRET_MASK, getDefaultSettings, maskSecretSettings } from '@/lib/settings'
+import { isEncrypted } from '@/lib/encryption'
+import Settings, { PLATFORM_SETTINGS_KEY } from '@/models/Settings'
+import User from '@/models/User'
+
+describe('Settings service', () => {
+  let admin: any
+
+  beforeEach(async () => {
+    clearSettingsCache()
+    admin = await User.create({
+      email: 'admin@example.com',
+      name: 'Admin',
+      roles: ['admin'],
+    })
+  })
+
+  it('should return defaults before anything is saved', async () => {
+    const { settings, version } = await getVersionedSettings()
+
+    expect(version).toBe(0)
+    expect(settings).toEqual(getDefaultSettings())
+  })
+
+  it('should persist a partial update and record who changed what', async () => {
+    const result = await updateSettings(
+      { booking: { maxAdvanceBookingDays: 30 } },
+      { actorId: admin._id.toString(), actorEmail: admin.email }
+    )
+
+    expect(result.version).toBe(1)
+    expect(result.changes).toEqual([
+      { section: 'booking', field: 'maxAdvanceBookingDays', from: 90, to: 30 },
+    ])
+
+    const settings = await getSettings()
+    expect(settings.booking.maxAdvanceBookingDays).toBe(30)
+    expect(settings.booking.minAdvanceBookingHours).toBe(2)
+
+    const [revision] = await getSettingsHistory()
+    expect(revision.version).toBe(1)
+    expect(revision.changedByEmail).toBe('admin@example.com')
+    expect((revision.changedBy as any).name).toBe('Admin')
+  })
+
+  it('should not create a new version when nothing changed', async () => {
+    const result = await updateSettings({ booking: { maxAdvanceBookingDays: 90 } })
+
+    expect(result.version).toBe(0)
+    expect(result.changes).toHaveLength(0)
+    expect(await Settings.countDocuments({ key: PLATFORM_SETTINGS_KEY })).toBe(0)
+  })
+
+  it('should reject an update made against an old version', async () => {
+    await updateSettings({ application: { appName: 'First' } }, { expectedVersion: 0 })
+
+    await expect(
+      updateSettings({ application: { appName: 'Second' } }, { expectedVersion: 0 })
+    ).rejects.toBeInstanceOf(SettingsVersionConflictError)
+
+    expect((await getSettings()).application.appName).toBe('First')
+  })
+
+  it('should reject invalid values', async () => {
+    await expect(
+      updateSettings({ booking: { maxAdvanceBookingDays: -5 } })
+    ).rejects.toBeInstanceOf(SettingsValidationError)
+  })
+
+  it('should keep the stored password when the masked value is sent back', async () => {
+    await updateSettings({ email: { smtpPassword: 'secret' } })
+
+    const result = await updateSettings({ email: { smtpPassword: SECRET_MASK, smtpHost: 'smtp.example.com' } })
+
+    expect(result.settings.email.smtpPassword).toBe('secret')
+    expect(result.changes.map(change => change.field)).toEqual(['smtpHost'])
+    expect(maskSecretSettings(result.settings).email.smtpPassword).toBe(SECRET_MASK)
+
+    const history = await getSettingsHistory()
+    const passwordChange = history
+      .flatMap(revision => revision.changes)
+      .find(change => change.field === 'smtpPassword')
+    expect(passwordChange).toMatchObject({ from: SECRET_MASK, to: SECRET_MASK })
+  })
+
+  describe('with an encryption key', () => {
+    beforeEach(() => {
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`
+    })
+
+    afterEach(() => {
+      delete process.env.CREDENTIALS_ENCRYPTION_KEYS
+    })
+
+    it('should store the SMTP password encrypted', async () => {
+      await updateSettings({ email: { smtpPassword: 'secret', smtpHost: 'smtp.example.com' } })
+
+      const stored = await Settings.collection.findOne({ key: PLATFORM_SETTINGS_KEY })
+      expect(isEncrypted(stored!.email.smtpPassword)).toBe(true)
+      expect(stored!.email.smtpHost).toBe('smtp.example.com')
+
+      clearSettingsCache()
+      expect((await getSettings()).email.smtpPassword).toBe('secret')
+    })
+  })
+
+  it('should fall back to defaults for a stored section that no longer validates', async () => {
+    await Settings.create({
+      key: PLATFORM_SETTINGS_KEY,
+      version: 3,
+      booking: { maxAdvanceBookingDays: 'never' },
+      application: { appName: 'Stored' },
+    })
+
+    const { settings, version } = await getVersionedSettings()
+
+    expect(version).toBe(3)
+    expect(settings.application.appName).toBe('Stored')
+    expect(settings.booking).toEqual(getDefaultSettings().booking)
+  })
+})
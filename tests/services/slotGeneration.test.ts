@@ -0,0 +1,737 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { formatInTimeZone } from 'date-fns-tz'
+import Booking from '@/models/Booking'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import StaffMember from '@/models/StaffMember'
+import Resource from '@/models/Resource'
+import {
+  addGroupSessionSlots,
+  computeAvailableSlots,
+  generateAvailableSlots,
+  getLocalDayBounds,
+  isSlotAvailable,
+} from '@/services/calendar/slotGeneration'
+import { parseAvailabilitySettings } from '@/lib/availability'
+import DatabaseTestUtils from '../utils/databaseUtils'
+import { createMockAvailabilitySettings } from '../utils/testHelpers'
+
+const PAST = new Date('2020-01-01T00:00:00.000Z')
+// Nekoliko dana pre test datuma, unutar prozora za zakazivanje
+const NOW = new Date('2030-01-10T00:00:00.000Z')
+
+describe('Slot generation engine', () => {
+  describe('computeAvailableSlots', () => {
+    it('should return UTC instants computed in the provider timezone (winter, UTC+1)', () => {
+      const slots = computeAvailableSlots({
+        availability: createMockAvailabilitySettings(),
+        date: '2030-01-14', // Monday
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [],
+        now: PAST,
+      })
+
+      expect(slots[0].start.toISOString()).toBe('2030-01-14T08:00:00.000Z')
+      expect(slots[slots.length - 1].end.toISOString()).toBe('2030-01-14T16:00:00.000Z')
+      expect(slots).toHaveLength(15) // 09:00 - 16:00 every 30 minutes
+    })
+
+    it('should follow daylight saving time (summer, UTC+2)', () => {
+      const slots = computeAvailableSlots({
+        availability: createMockAvailabilitySettings(),
+        date: '2030-07-15',
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [],
+        now: PAST,
+      })
+
+      expect(slots[0].start.toISOString()).toBe('2030-07-15T07:00:00.000Z')
+    })
+
+    it('should return no slots on a disabled day', () => {
+      const slots = computeAvailableSlots({
+        availability: createMockAvailabilitySettings(),
+        date: '2030-01-19', // Saturday
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [],
+        now: PAST,
+      })
+
+      expect(slots).toEqual([])
+    })
+
+    it('should skip breaks and busy intervals including buffer', () => {
+      const availability = createMockAvailabilitySettings({ bufferTime: 15 })
+      availability.weekSchedule.monday = {
+        isEnabled: true,
+        workingHours: { start: '09:00', end: '13:00' },
+        breaks: [{ start: '12:00', end: '13:00' }],
+      }
+
+      const slots = computeAvailableSlots({
+        availability,
+        date: '2030-01-14',
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [{
+          start: new Date('2030-01-14T08:00:00.000Z'), // 09:00 local
+          end: new Date('2030-01-14T09:00:00.000Z'),
+        }],
+        now: PAST,
+      })
+
+      // 10:00 is blocked by the 15 minute buffer, 11:30 would run into the break
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2030-01-14T09:30:00.000Z',
+        '2030-01-14T10:00:00.000Z',
+      ])
+    })
+
+    it('should not return slots that start in the past', () => {
+      const slots = computeAvailableSlots({
+        availability: createMockAvailabilitySettings(),
+        date: '2030-01-14',
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [],
+        now: new Date('2030-01-14T12:00:00.000Z'),
+      })
+
+      expect(slots[0].start.toISOString()).toBe('2030-01-14T12:30:00.000Z')
+    })
+
+    it('should only return slots inside the booking policy window', () => {
+      const slots = computeAvailableSlots({
+        availability: createMockAvailabilitySettings(),
+        date: '2030-01-14',
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [],
+        policy: {
+          maxAdvanceBookingDays: 30,
+          minAdvanceBookingHours: 2,
+          allowSameDayBooking: true,
+          cancellationHours: 24,
+        },
+        now: new Date('2030-01-14T09:00:00.000Z'), // 10:00 local
+      })
+
+      expect(slots[0].start.toISOString()).toBe('2030-01-14T11:00:00.000Z')
+    })
+
+    it('should return no slots on the same day when same-day booking is disabled', () => {
+      const slots = computeAvailableSlots({
+        availability: createMockAvailabilitySettings(),
+        date: '2030-01-14',
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [],
+        policy: {
+          maxAdvanceBookingDays: 30,
+          minAdvanceBookingHours: 0,
+          allowSameDayBooking: false,
+          cancellationHours: 24,
+        },
+        now: new Date('2030-01-14T06:00:00.000Z'),
+      })
+
+      expect(slots).toEqual([])
+    })
+  })
+
+  describe('date overrides', () => {
+    const compute = (date: string, dateOverrides: unknown[]) => computeAvailableSlots({
+      availability: parseAvailabilitySettings(createMockAvailabilitySettings({ dateOverrides }))!,
+      date,
+      timezone: 'Europe/Belgrade',
+      durationMinutes: 60,
+      busyIntervals: [],
+      now: PAST,
+    })
+    const hours = { workingHours: { start: '10:00', end: '12:00' }, breaks: [] }
+
+    it('should close every day of a vacation', () => {
+      const vacation = { date: '2030-01-14', endDate: '2030-01-18', isEnabled: false, ...hours, note: 'Odmor' }
+
+      expect(compute('2030-01-14', [vacation])).toEqual([])
+      expect(compute('2030-01-18', [vacation])).toEqual([])
+      expect(compute('2030-01-21', [vacation])).toHaveLength(15)
+    })
+
+    it('should use special hours for a single date', () => {
+      const slots = compute('2030-01-14', [{ date: '2030-01-14', isEnabled: true, ...hours }])
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2030-01-14T09:00:00.000Z',
+        '2030-01-14T09:30:00.000Z',
+        '2030-01-14T10:00:00.000Z',
+      ])
+    })
+
+    it('should open an extra working day', () => {
+      expect(compute('2030-01-19', [{ date: '2030-01-19', isEnabled: true, ...hours }])).toHaveLength(3)
+    })
+
+    it('should prefer the shorter override when they overlap', () => {
+      const overrides = [
+        { date: '2030-01-14', endDate: '2030-01-18', isEnabled: false, ...hours },
+        { date: '2030-01-16', isEnabled: true, ...hours },
+      ]
+
+      expect(compute('2030-01-15', overrides)).toEqual([])
+      expect(compute('2030-01-16', overrides)).toHaveLength(3)
+    })
+
+    it('should close public holidays from subscribed calendars unless overridden', () => {
+      const availability = parseAvailabilitySettings(createMockAvailabilitySettings({
+        holidayCalendars: ['RS'],
+        dateOverrides: [{ date: '2030-11-11', isEnabled: true, ...hours }],
+      }))!
+      const compute = (date: string) => computeAvailableSlots({
+        availability,
+        date,
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals: [],
+        now: PAST,
+      })
+
+      // Orthodox Good Friday 2030
+      expect(compute('2030-04-26')).toEqual([])
+      // Armistice Day, ali provider radi
+      expect(compute('2030-11-11')).toHaveLength(3)
+    })
+
+    it('should reject overrides that end before they start', () => {
+      const availability = createMockAvailabilitySettings({
+        dateOverrides: [{ date: '2030-01-18', endDate: '2030-01-14', isEnabled: false, ...hours }],
+      })
+
+      expect(parseAvailabilitySettings(availability)).toBeNull()
+    })
+  })
+
+  describe('slot interval and buffers', () => {
+    const compute = (
+      settings: Record<string, unknown>,
+      options: { durationMinutes?: number; busyIntervals?: { start: Date; end: Date }[]; serviceRules?: Record<string, unknown> } = {}
+    ) => computeAvailableSlots({
+      availability: parseAvailabilitySettings(createMockAvailabilitySettings(settings))!,
+      date: '2030-01-14',
+      timezone: 'Europe/Belgrade',
+      durationMinutes: options.durationMinutes ?? 60,
+      busyIntervals: options.busyIntervals ?? [],
+      serviceRules: options.serviceRules && { availabilityWindows: [], ...options.serviceRules },
+      now: PAST,
+    }).map(slot => formatInTimeZone(slot.start, 'Europe/Belgrade', 'HH:mm'))
+
+    it('should step by the configured slot interval', () => {
+      expect(compute({ slotInterval: 15 }).slice(0, 3)).toEqual(['09:00', '09:15', '09:30'])
+      expect(compute({ slotInterval: 60 })).toEqual(['09:00', '10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00'])
+    })
+
+    it('should pack back-to-back slots with the buffers between them', () => {
+      const slots = compute(
+        { slotInterval: 'back-to-back', bufferBeforeMinutes: 5, bufferAfterMinutes: 10 },
+        { durationMinutes: 45 }
+      )
+
+      expect(slots.slice(0, 4)).toEqual(['09:00', '10:00', '11:00', '12:00'])
+    })
+
+    it('should start the next back-to-back slot right after a busy interval', () => {
+      const slots = compute(
+        { slotInterval: 'back-to-back', bufferAfterMinutes: 15 },
+        {
+          durationMinutes: 45,
+          // Zauzeto 09:00-10:10 lokalno
+          busyIntervals: [{ start: new Date('2030-01-14T08:00:00.000Z'), end: new Date('2030-01-14T09:10:00.000Z') }],
+        }
+      )
+
+      expect(slots.slice(0, 3)).toEqual(['10:25', '11:25', '12:25'])
+    })
+
+    it('should treat the legacy bufferTime as cleanup after each appointment', () => {
+      // Zauzeto 11:00-12:00 lokalno
+      const busyIntervals = [{ start: new Date('2030-01-14T10:00:00.000Z'), end: new Date('2030-01-14T11:00:00.000Z') }]
+
+      const slots = compute({ bufferTime: 30 }, { busyIntervals })
+
+      expect(slots).not.toContain('10:00')
+      expect(slots).toContain('09:30')
+      expect(slots).not.toContain('12:00')
+      expect(slots).toContain('12:30')
+    })
+
+    it('should let service buffers replace the provider buffers', () => {
+      const busyIntervals = [{ start: new Date('2030-01-14T10:00:00.000Z'), end: new Date('2030-01-14T11:00:00.000Z') }]
+
+      const slots = compute(
+        { bufferBeforeMinutes: 30, bufferAfterMinutes: 0 },
+        { busyIntervals, serviceRules: { bufferBeforeMinutes: 0 } }
+      )
+
+      expect(slots).toContain('12:00')
+    })
+  })
+
+  describe('service booking rules', () => {
+    const compute = (date: string, serviceRules: Record<string, unknown>, busyIntervals: { start: Date; end: Date }[] = []) =>
+      computeAvailableSlots({
+        availability: createMockAvailabilitySettings(),
+        date,
+        timezone: 'Europe/Belgrade',
+        durationMinutes: 60,
+        busyIntervals,
+        serviceRules: { availabilityWindows: [], ...serviceRules },
+        now: PAST,
+      }).map(slot => slot.start.toISOString())
+
+    it('should only offer slots inside the service windows', () => {
+      const rules = {
+        availabilityWindows: [
+          { day: 'tuesday', start: '09:00', end: '11:00' },
+          { day: 'wednesday', start: '09:00', end: '10:00' },
+        ],
+      }
+
+      expect(compute('2030-01-14', rules)).toEqual([])
+      expect(compute('2030-01-15', rules)).toEqual([
+        '2030-01-15T08:00:00.000Z',
+        '2030-01-15T08:30:00.000Z',
+        '2030-01-15T09:00:00.000Z',
+      ])
+      expect(compute('2030-01-16', rules)).toEqual(['2030-01-16T08:00:00.000Z'])
+    })
+
+    it('should keep the service buffers free of other bookings', () => {
+      // Zauzeto 12:00-13:00 lokalno
+      const busy = [{ start: new Date('2030-01-14T11:00:00.000Z'), end: new Date('2030-01-14T12:00:00.000Z') }]
+
+      const slots = compute('2030-01-14', { bufferBeforeMinutes: 30, bufferAfterMinutes: 30 }, busy)
+
+      // Poslednji pre zauzetog počinje u 10:30 (kraj + 30 min), prvi posle u 13:30
+      expect(slots).toContain('2030-01-14T09:30:00.000Z')
+      expect(slots).not.toContain('2030-01-14T10:00:00.000Z')
+      expect(slots).not.toContain('2030-01-14T12:00:00.000Z')
+      expect(slots).toContain('2030-01-14T12:30:00.000Z')
+    })
+  })
+
+  describe('addGroupSessionSlots', () => {
+    const at = (iso: string) => new Date(`2030-01-14T${iso}:00.000Z`)
+    const session = (start: string, end: string, participants: number) =>
+      ({ start: at(start), end: at(end), participants })
+
+    it('should give new slots full capacity and keep booked sessions with free seats', () => {
+      const slots = addGroupSessionSlots(
+        [{ start: at('10:00'), end: at('11:00') }],
+        [session('08:00', '09:00', 3), session('12:00', '13:00', 10)],
+        10,
+        () => true
+      )
+
+      expect(slots.map(slot => [slot.start.toISOString(), slot.remainingSeats])).toEqual([
+        ['2030-01-14T08:00:00.000Z', 7],
+        ['2030-01-14T10:00:00.000Z', 10],
+      ])
+    })
+
+    it('should close sessions outside the booking window', () => {
+      const slots = addGroupSessionSlots([], [session('08:00', '09:00', 1)], 10, () => false)
+
+      expect(slots).toEqual([])
+    })
+  })
+
+  describe('getLocalDayBounds', () => {
+    it('should return the local day as UTC instants', () => {
+      const bounds = getLocalDayBounds('2030-01-14', 'Europe/Belgrade')
+
+      expect(bounds.start.toISOString()).toBe('2030-01-13T23:00:00.000Z')
+      expect(bounds.end.toISOString()).toBe('2030-01-14T23:00:00.000Z')
+    })
+  })
+
+  describe('with database', () => {
+    let providerProfile: any
+    let service: any
+    let client: any
+
+    beforeEach(async () => {
+      await DatabaseTestUtils.cleanDatabase()
+
+      const providerUser = await User.create({
+        email: 'provider@example.com',
+        name: 'Test Provider',
+        roles: ['provider'],
+      })
+
+      client = await User.create({
+        email: 'client@example.com',
+        name: 'Test Client',
+        roles: ['client'],
+      })
+
+      providerProfile = await ProviderProfile.create({
+        userId: providerUser._id,
+        businessName: 'Test Business',
+        timezone: 'Europe/Belgrade',
+        isActive: true,
+        availabilitySettings: createMockAvailabilitySettings(),
+      })
+
+      service = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Haircut',
+        durationMinutes: 60,
+        price: 1500,
+      })
+    })
+
+    it('should exclude slots overlapping existing bookings', async () => {
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: client._id,
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'confirmed',
+      })
+
+      const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+      const starts = slots.map(slot => slot.start.toISOString())
+
+      expect(starts).not.toContain('2030-01-14T08:00:00.000Z')
+      expect(starts).not.toContain('2030-01-14T08:30:00.000Z')
+      expect(starts).toContain('2030-01-14T09:00:00.000Z')
+    })
+
+    it('should ignore cancelled bookings', async () => {
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: client._id,
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'cancelled',
+      })
+
+      const available = await isSlotAvailable(
+        providerProfile,
+        service,
+        new Date('2030-01-14T08:00:00.000Z'),
+        { now: NOW }
+      )
+
+      expect(available).toBe(true)
+    })
+
+    it('should reject start times that are not on the slot grid', async () => {
+      const available = await isSlotAvailable(
+        providerProfile,
+        service,
+        new Date('2030-01-14T08:10:00.000Z'),
+        { now: NOW }
+      )
+
+      expect(available).toBe(false)
+    })
+
+    it('should not accept bookings on a closed date', async () => {
+      providerProfile.availabilitySettings = createMockAvailabilitySettings({
+        dateOverrides: [{ date: '2030-01-14', isEnabled: false, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }],
+      })
+
+      const available = await isSlotAvailable(
+        providerProfile,
+        service,
+        new Date('2030-01-14T08:00:00.000Z'),
+        { now: NOW }
+      )
+
+      expect(available).toBe(false)
+    })
+
+    it('should stop offering a service once its daily limit is reached', async () => {
+      service.bookingRules = { availabilityWindows: [], maxBookingsPerDay: 1 }
+      const booking = await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: client._id,
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'confirmed',
+      })
+
+      expect(await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })).toEqual([])
+      // Rezervacija koja se pomera ne troši limit
+      expect(await generateAvailableSlots(providerProfile, service, '2030-01-14', {
+        now: NOW,
+        excludeBookingId: booking._id.toString(),
+      })).not.toEqual([])
+    })
+
+    it('should block the buffers of existing bookings', async () => {
+      const prepared = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Color',
+        durationMinutes: 60,
+        price: 4000,
+        bookingRules: { bufferAfterMinutes: 60 },
+      })
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: prepared._id,
+        clientId: client._id,
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'confirmed',
+      })
+
+      const starts = (await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW }))
+        .map(slot => slot.start.toISOString())
+
+      expect(starts).not.toContain('2030-01-14T09:00:00.000Z')
+      expect(starts).toContain('2030-01-14T10:00:00.000Z')
+    })
+
+    it('should block the cleanup of the last service of a combined booking', async () => {
+      const wash = await Service.create({ providerId: providerProfile._id, name: 'Wash', durationMinutes: 30, price: 500 })
+      const color = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Color',
+        durationMinutes: 30,
+        price: 4000,
+        bookingRules: { bufferAfterMinutes: 60 },
+      })
+      await Booking.create({
+        providerId: providerProfile._id,
+        serviceId: wash._id,
+        items: [
+          { serviceId: wash._id, name: 'Wash', durationMinutes: 30, price: 500 },
+          { serviceId: color._id, name: 'Color', durationMinutes: 30, price: 4000 },
+        ],
+        clientId: client._id,
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'confirmed',
+      })
+
+      const starts = (await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW }))
+        .map(slot => slot.start.toISOString())
+
+      expect(starts).not.toContain('2030-01-14T09:00:00.000Z')
+      expect(starts).toContain('2030-01-14T10:00:00.000Z')
+    })
+
+    it('should return no slots for legacy availability settings', async () => {
+      providerProfile.availabilitySettings = {
+        monday: { enabled: true, start: '09:00', end: '17:00' },
+      }
+
+      const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+      expect(slots).toEqual([])
+    })
+
+    it('should not return slots beyond the provider advance booking override', async () => {
+      providerProfile.bookingPolicy = { requiresApproval: false, maxAdvanceBookingDays: 2 }
+
+      const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+      expect(slots).toEqual([])
+    })
+
+    describe('staff', () => {
+      let ana: any
+      let marko: any
+
+      const bookStaff = (staffId: unknown) => Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: client._id,
+        staffId,
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'confirmed',
+      })
+
+      const slotAt = (slots: { start: Date; staffIds?: string[] }[], iso: string) =>
+        slots.find(slot => slot.start.toISOString() === iso)
+
+      beforeEach(async () => {
+        ana = await StaffMember.create({ providerId: providerProfile._id, name: 'Ana' })
+        marko = await StaffMember.create({ providerId: providerProfile._id, name: 'Marko' })
+      })
+
+      it('should keep a slot open while any staff member is free', async () => {
+        await bookStaff(ana._id)
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')?.staffIds).toEqual([marko._id.toString()])
+        expect(slotAt(slots, '2030-01-14T10:00:00.000Z')?.staffIds).toEqual([ana._id.toString(), marko._id.toString()])
+      })
+
+      it('should only return slots of the requested staff member', async () => {
+        await bookStaff(ana._id)
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', {
+          now: NOW,
+          staffId: ana._id.toString(),
+        })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')).toBeUndefined()
+        expect(slotAt(slots, '2030-01-14T09:00:00.000Z')).toBeDefined()
+      })
+
+      it('should block every staff member for unassigned bookings', async () => {
+        await bookStaff(undefined)
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')).toBeUndefined()
+      })
+
+      it('should use the staff member schedule instead of the provider schedule', async () => {
+        const dayOff = { isEnabled: false, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
+        const base = createMockAvailabilitySettings()
+        await StaffMember.updateOne({ _id: marko._id }, {
+          availabilitySettings: { ...base, weekSchedule: { ...base.weekSchedule, monday: dayOff } },
+        })
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slots.length).toBeGreaterThan(0)
+        expect(slots.every(slot => slot.staffIds?.join() === ana._id.toString())).toBe(true)
+      })
+
+      it('should skip staff members who do not perform the service', async () => {
+        const otherService = await Service.create({
+          providerId: providerProfile._id,
+          name: 'Coloring',
+          durationMinutes: 90,
+          price: 4000,
+        })
+        await StaffMember.updateOne({ _id: ana._id }, { serviceIds: [otherService._id] })
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')?.staffIds).toEqual([marko._id.toString()])
+      })
+
+      it('should return no slots when no staff member performs the service', async () => {
+        await StaffMember.updateMany({}, { serviceIds: [client._id] })
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slots).toEqual([])
+      })
+    })
+
+    describe('group classes', () => {
+      const joinSession = async (clientId: unknown) => Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId,
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'confirmed',
+      })
+
+      const slotAt = (slots: { start: Date; remainingSeats?: number }[], iso: string) =>
+        slots.find(slot => slot.start.toISOString() === iso)
+
+      beforeEach(async () => {
+        service.maxParticipants = 2
+        await service.save()
+      })
+
+      it('should keep a booked session open until it is full', async () => {
+        await joinSession(client._id)
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')?.remainingSeats).toBe(1)
+        expect(slotAt(slots, '2030-01-14T08:30:00.000Z')).toBeUndefined()
+        expect(slotAt(slots, '2030-01-14T09:00:00.000Z')?.remainingSeats).toBe(2)
+      })
+
+      it('should close a full session', async () => {
+        await joinSession(client._id)
+        await joinSession(providerProfile.userId)
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')).toBeUndefined()
+      })
+
+      it('should limit new sessions, not participants, with maxBookingsPerDay', async () => {
+        service.bookingRules = { availabilityWindows: [], maxBookingsPerDay: 1 }
+        await service.save()
+        await joinSession(client._id)
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slots.map(slot => slot.start.toISOString())).toEqual(['2030-01-14T08:00:00.000Z'])
+      })
+    })
+
+    describe('resources', () => {
+      let room: any
+
+      const bookRoom = () => Booking.create({
+        providerId: providerProfile._id,
+        serviceId: service._id,
+        clientId: client._id,
+        resourceIds: [room._id],
+        start: new Date('2030-01-14T08:00:00.000Z'),
+        end: new Date('2030-01-14T09:00:00.000Z'),
+        status: 'confirmed',
+      })
+
+      const slotAt = (slots: { start: Date; staffIds?: string[] }[], iso: string) =>
+        slots.find(slot => slot.start.toISOString() === iso)
+
+      beforeEach(async () => {
+        await StaffMember.create({ providerId: providerProfile._id, name: 'Ana' })
+        await StaffMember.create({ providerId: providerProfile._id, name: 'Marko' })
+        room = await Resource.create({ providerId: providerProfile._id, name: 'Room 1' })
+        service.resourceIds = [room._id]
+        await service.save()
+      })
+
+      it('should close a slot when the required resource is taken even if staff is free', async () => {
+        await bookRoom()
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')).toBeUndefined()
+        expect(slotAt(slots, '2030-01-14T09:00:00.000Z')?.staffIds).toHaveLength(2)
+      })
+
+      it('should keep a slot open while a unit of the resource is left', async () => {
+        await Resource.updateOne({ _id: room._id }, { quantity: 2 })
+        await bookRoom()
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slotAt(slots, '2030-01-14T08:00:00.000Z')).toBeDefined()
+      })
+
+      it('should return no slots when a required resource is inactive', async () => {
+        await Resource.updateOne({ _id: room._id }, { isActive: false })
+
+        const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+
+        expect(slots).toEqual([])
+      })
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { addMinutes } from 'date-fns'
+import mongoose from 'mongoose'
+import {
+  claimWaitlistOffer,
+  expireWaitlistHold,
+  leaveWaitlist,
+  offerFreedTime,
+  wantsSlot,
+} from '@/services/waitlist/waitlist'
+import { generateAvailableSlots } from '@/services/calendar/slotGeneration'
+import { emailService } from '@/services/emailService'
+import { clearSettingsCache } from '@/services/settings/settingsService'
+import Job from '@/models/Job'
+import User from '@/models/User'
+import ProviderProfile from '@/models/ProviderProfile'
+import Service from '@/models/Service'
+import WaitlistEntry from '@/models/WaitlistEntry'
+import DatabaseTestUtils from '../utils/databaseUtils'
+import { createMockAvailabilitySettings } from '../utils/testHelpers'
+
+jest.mock('@/lib/mongodb', () => ({
+  __esModule: true,
+  default: jest.fn(() => Promise.resolve()),
+}))
+
+const NOW = new Date('2030-01-10T00:00:00.000Z')
+// Otkazan termin u ponedeljak u 09:00 po lokalnom vremenu
+const FREED = {
+  start: new Date('2030-01-14T08:00:00.000Z'),
+  end: new Date('2030-01-14T09:00:00.000Z'),
+}
+
+describe('Waitlist', () => {
+  describe('wantsSlot', () => {
+    it('should match only the exact start when from equals to', () => {
+      const entry = { from: FREED.start, to: FREED.start }
+
+      expect(wantsSlot(entry, FREED.start)).toBe(true)
+      expect(wantsSlot(entry, addMinutes(FREED.start, 30))).toBe(false)
+    })
+
+    it('should match starts inside the range, excluding its end', () => {
+      const entry = {
+        from: new Date('2030-01-13T23:00:00.000Z'),
+        to: new Date('2030-01-14T23:00:00.000Z'),
+      }
+
+      expect(wantsSlot(entry, FREED.start)).toBe(true)
+      expect(wantsSlot(entry, new Date('2030-01-14T23:00:00.000Z'))).toBe(false)
+    })
+  })
+
+  describe('with database', () => {
+    let providerProfile: any
+    let service: any
+    let first: any
+    let second: any
+    let sendBookingEmail: jest.SpiedFunction<typeof emailService.sendBookingEmail>
+
+    const joinWaitlist = (client: any, from: Date = FREED.start, to: Date = FREED.start) => WaitlistEntry.create({
+      providerId: providerProfile._id,
+      serviceId: service._id,
+      clientId: client._id,
+      from,
+      to,
+    })
+
+    beforeEach(async () => {
+      await DatabaseTestUtils.cleanDatabase()
+      clearSettingsCache()
+      sendBookingEmail = jest.spyOn(emailService, 'sendBookingEmail').mockResolvedValue(true)
+
+      const providerUser = await User.create({
+        email: 'provider@example.com',
+        name: 'Test Provider',
+        roles: ['provider'],
+      })
+
+      first = await User.create({ email: 'first@example.com', name: 'First Client', roles: ['client'] })
+      second = await User.create({ email: 'second@example.com', name: 'Second Client', roles: ['client'] })
+
+      providerProfile = await ProviderProfile.create({
+        userId: providerUser._id,
+        businessName: 'Test Business',
+        timezone: 'Europe/Belgrade',
+        isActive: true,
+        availabilitySettings: createMockAvailabilitySettings(),
+      })
+
+      service = await Service.create({
+        providerId: providerProfile._id,
+        name: 'Haircut',
+        durationMinutes: 60,
+        price: 1500,
+      })
+    })
+
+    it('should offer freed time to the first client in line and hold it', async () => {
+      const firstEntry = await joinWaitlist(first)
+      const secondEntry = await joinWaitlist(second)
+
+      const offers = await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+
+      expect(offers).toBe(1)
+      const offered = await WaitlistEntry.findById(firstEntry._id)
+      expect(offered.status).toBe('offered')
+      expect(offered.offer.start).toEqual(FREED.start)
+      expect(offered.offer.expiresAt).toEqual(addMinutes(NOW, 30))
+      expect((await WaitlistEntry.findById(secondEntry._id)).status).toBe('waiting')
+      expect(sendBookingEmail).toHaveBeenCalledWith(
+        'first@example.com',
+        'waitlist_offer',
+        expect.objectContaining({ serviceName: 'Haircut' })
+      )
+      expect(await Job.countDocuments({ type: 'waitlist.expire-hold' })).toBe(1)
+    })
+
+    it('should keep a held slot out of everyone else\'s slots', async () => {
+      const entry = await joinWaitlist(first)
+      await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+
+      const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: NOW })
+      const heldFor = await generateAvailableSlots(providerProfile, service, '2030-01-14', {
+        now: NOW,
+        waitlistEntryId: entry._id.toString(),
+      })
+
+      expect(slots.map(slot => slot.start.toISOString())).not.toContain(FREED.start.toISOString())
+      expect(heldFor.map(slot => slot.start.toISOString())).toContain(FREED.start.toISOString())
+    })
+
+    it('should open a held slot once the hold has expired at the lookup time', async () => {
+      await joinWaitlist(first)
+      await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+
+      const slots = await generateAvailableSlots(providerProfile, service, '2030-01-14', { now: addMinutes(NOW, 31) })
+
+      expect(slots.map(slot => slot.start.toISOString())).toContain(FREED.start.toISOString())
+    })
+
+    it('should skip clients waiting for other days', async () => {
+      await joinWaitlist(first, new Date('2030-01-14T23:00:00.000Z'), new Date('2030-01-15T23:00:00.000Z'))
+
+      const offers = await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+
+      expect(offers).toBe(0)
+      expect(sendBookingEmail).not.toHaveBeenCalled()
+    })
+
+    it('should pass an expired hold to the next client', async () => {
+      const firstEntry = await joinWaitlist(first)
+      const secondEntry = await joinWaitlist(second)
+      await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+
+      expect(await expireWaitlistHold(firstEntry._id.toString(), addMinutes(NOW, 10))).toBe(false)
+      expect(await expireWaitlistHold(firstEntry._id.toString(), addMinutes(NOW, 31))).toBe(true)
+
+      expect((await WaitlistEntry.findById(firstEntry._id)).status).toBe('expired')
+      expect((await WaitlistEntry.findById(secondEntry._id)).status).toBe('offered')
+    })
+
+    it('should not claim an offer that has already expired', async () => {
+      const firstEntry = await joinWaitlist(first)
+      await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+      await expireWaitlistHold(firstEntry._id.toString(), addMinutes(NOW, 31))
+
+      expect(await claimWaitlistOffer(firstEntry._id, new mongoose.Types.ObjectId(), addMinutes(NOW, 32))).toBe(false)
+      expect((await WaitlistEntry.findById(firstEntry._id)).status).toBe('expired')
+    })
+
+    it('should claim a valid offer for the new booking', async () => {
+      const firstEntry = await joinWaitlist(first)
+      await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+      const bookingId = new mongoose.Types.ObjectId()
+
+      expect(await claimWaitlistOffer(firstEntry._id, bookingId, addMinutes(NOW, 10))).toBe(true)
+
+      const claimed = await WaitlistEntry.findById(firstEntry._id)
+      expect(claimed.status).toBe('booked')
+      expect(claimed.bookingId).toEqual(bookingId)
+    })
+
+    it('should pass the held slot on when the client leaves the waitlist', async () => {
+      const firstEntry = await joinWaitlist(first)
+      const secondEntry = await joinWaitlist(second)
+      await offerFreedTime(providerProfile._id.toString(), FREED, NOW)
+
+      await leaveWaitlist(await WaitlistEntry.findById(firstEntry._id), NOW)
+
+      expect((await WaitlistEntry.findById(firstEntry._id)).status).toBe('cancelled')
+      expect((await WaitlistEntry.findById(secondEntry._id)).status).toBe('offered')
+    })
+  })
+})
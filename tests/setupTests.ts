@@ -13,6 +13,10 @@ if (!process.env.MAILGUN_API_KEY) {
 if (!process.env.MAILGUN_DOMAIN) {
   process.env.MAILGUN_DOMAIN = 'test-domain'
 }
+// Emailovi iz testova idu u outbox, ne preko Mailguna
+if (!process.env.EMAIL_TRANSPORT) {
+  process.env.EMAIL_TRANSPORT = 'outbox'
+}
 
 // Global test configuration
 let mongoServer: MongoMemoryServer
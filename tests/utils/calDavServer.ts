@@ -0,0 +1,122 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+/**
+ * Minimalan CalDAV server u memoriji (po uzoru na Radicale) za testove
+ * Jedan kalendar na /calendars/<username>/personal/, Basic auth
+ */
+
+export interface TestCalDavServer {
+  calendarUrl: string
+  username: string
+  password: string
+  // Sadržaj .ics fajlova po imenu resursa (npr. "abc@zakazivac.ics")
+  events: Map<string, string>
+  requests: { method: string; path: string; body: string }[]
+  close(): Promise<void>
+}
+
+function multistatus(responses: string[]): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<multistatus xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">${responses.join('')}</multistatus>`
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export async function startCalDavServer(
+  options: { username?: string; password?: string; displayName?: string } = {}
+): Promise<TestCalDavServer> {
+  const username = options.username || 'ana'
+  const password = options.password || 'secret'
+  const calendarPath = `/calendars/${username}/personal/`
+  const events = new Map<string, string>()
+  const etags = new Map<string, number>()
+  const requests: { method: string; path: string; body: string }[] = []
+  let version = 0
+
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      const path = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname)
+      requests.push({ method: req.method || '', path, body })
+
+      const expectedAuth = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+      if (req.headers.authorization !== expectedAuth) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="Radicale"' })
+        res.end()
+        return
+      }
+
+      if (path === calendarPath && req.method === 'PROPFIND') {
+        res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' })
+        res.end(multistatus([`<response><href>${calendarPath}</href><propstat><prop>
+<resourcetype><collection/><C:calendar/></resourcetype>
+<displayname>${escapeXml(options.displayName || 'Personal')}</displayname>
+</prop><status>HTTP/1.1 200 OK</status></propstat></response>`]))
+        return
+      }
+
+      if (path === calendarPath && req.method === 'REPORT') {
+        res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' })
+        res.end(multistatus([...events].map(([name, ics]) => `<response><href>${calendarPath}${name}</href>
+<propstat><prop><getetag>"${etags.get(name)}"</getetag><C:calendar-data>${escapeXml(ics)}</C:calendar-data></prop>
+<status>HTTP/1.1 200 OK</status></propstat></response>`)))
+        return
+      }
+
+      const name = path.startsWith(calendarPath) ? path.slice(calendarPath.length) : null
+      if (!name) {
+        res.writeHead(404)
+        res.end()
+        return
+      }
+
+      const etag = events.has(name) ? `"${etags.get(name)}"` : null
+      switch (req.method) {
+        case 'GET':
+          if (!etag) {
+            res.writeHead(404)
+            res.end()
+            return
+          }
+          res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', ETag: etag })
+          res.end(events.get(name))
+          return
+        case 'PUT':
+          if ((req.headers['if-none-match'] === '*' && etag) ||
+            (req.headers['if-match'] && req.headers['if-match'] !== etag)) {
+            res.writeHead(412)
+            res.end()
+            return
+          }
+          events.set(name, body)
+          etags.set(name, ++version)
+          res.writeHead(etag ? 204 : 201, { ETag: `"${version}"` })
+          res.end()
+          return
+        case 'DELETE':
+          res.writeHead(events.delete(name) ? 204 : 404)
+          res.end()
+          return
+        default:
+          res.writeHead(405)
+          res.end()
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    calendarUrl: `http://127.0.0.1:${port}${calendarPath}`,
+    username,
+    password,
+    events,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import { getServerSession } from 'next-auth'
 import mongoose from 'mongoose'
 import { AuthOptions } from 'next-auth'
+import { AvailabilitySettings } from '@/lib/availability'
 
 // Mock user data factory
 export const createMockUser = (overrides: Partial<any> = {}) => ({
@@ -62,6 +63,31 @@ export const createMockProviderProfile = (overrides: Partial<any> = {}) => ({
   ...overrides,
 })
 
+// Mock availability settings factory (shape validated by /api/availability)
+export const createMockAvailabilitySettings = (overrides: Partial<any> = {}): AvailabilitySettings => {
+  const workday = { isEnabled: true, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
+  const dayOff = { isEnabled: false, workingHours: { start: '09:00', end: '17:00' }, breaks: [] }
+  return {
+    weekSchedule: {
+      monday: workday,
+      tuesday: workday,
+      wednesday: workday,
+      thursday: workday,
+      friday: workday,
+      saturday: dayOff,
+      sunday: dayOff,
+    },
+    dateOverrides: [],
+    holidayCalendars: [],
+    bufferTime: 0,
+    slotInterval: 30,
+    advanceBookingDays: 30,
+    minimumNoticeHours: 0,
+    timezone: 'Europe/Belgrade',
+    ...overrides,
+  }
+}
+
 // Mock service factory
 export const createMockService = (overrides: Partial<any> = {}) => ({
   _id: '507f1f77bcf86cd799439013',